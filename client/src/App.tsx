@@ -1,15 +1,34 @@
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
 import { WeekProvider } from './lib/WeekContext';
+import { PermissionProvider } from './lib/PermissionContext';
+import { AlertProvider } from './lib/AlertContext';
 import Sidebar, { type PageId } from './components/layout/Sidebar';
 import TopBar from './components/layout/TopBar';
-import PlaceholderPage from './components/layout/PlaceholderPage';
 import ExecutiveSummary from './components/dashboard/ExecutiveSummary';
 import FinancialDeepDive from './components/dashboard/FinancialDeepDive';
 import RegionalPerformance from './components/dashboard/RegionalPerformance';
+import SalesPipeline from './components/dashboard/SalesPipeline';
+import MarketingLeads from './components/dashboard/MarketingLeads';
+import Operations from './components/dashboard/Operations';
+import TargetManagement from './components/admin/TargetManagement';
+import AdminSettings from './components/admin/AdminSettings';
+import UserManagement from './components/admin/UserManagement';
 import UploadWizard from './components/upload/UploadWizard';
 import UploadHistory from './components/upload/UploadHistory';
+import CompletenessGrid from './components/upload/CompletenessGrid';
 
-type DataManagementView = 'upload' | 'history';
+type DataManagementView = 'upload' | 'history' | 'completeness';
+
+/** App-wide context; alerts reload with the selected week, so they sit inside it */
+function Providers({ children }: { children: ReactNode }) {
+  return (
+    <PermissionProvider>
+      <WeekProvider>
+        <AlertProvider>{children}</AlertProvider>
+      </WeekProvider>
+    </PermissionProvider>
+  );
+}
 
 function App() {
   const [activePage, setActivePage] = useState<PageId>('executive_summary');
@@ -24,7 +43,7 @@ function App() {
   }
 
   return (
-    <WeekProvider>
+    <Providers>
       <div className="h-screen flex bg-[#F9FAFB]">
         {/* Sidebar */}
         <Sidebar
@@ -43,6 +62,12 @@ function App() {
 
             {activePage === 'financial' && <FinancialDeepDive />}
 
+            {activePage === 'sales_pipeline' && <SalesPipeline />}
+
+            {activePage === 'marketing_leads' && <MarketingLeads />}
+
+            {activePage === 'operations' && <Operations />}
+
             {activePage === 'regional_performance' && <RegionalPerformance />}
 
             {activePage === 'data_management' && (
@@ -69,6 +94,16 @@ function App() {
                   >
                     Upload History
                   </button>
+                  <button
+                    onClick={() => setDataView('completeness')}
+                    className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      dataView === 'completeness'
+                        ? 'bg-[#4573D2]/10 text-[#4573D2]'
+                        : 'text-[#6B7280] hover:text-gray-900 hover:bg-gray-100'
+                    }`}
+                  >
+                    Completeness
+                  </button>
                 </div>
 
                 {dataView === 'upload' && (
@@ -77,33 +112,21 @@ function App() {
                 {dataView === 'history' && (
                   <UploadHistory onNavigateUpload={() => setDataView('upload')} />
                 )}
+                {dataView === 'completeness' && (
+                  <CompletenessGrid onNavigateUpload={() => setDataView('upload')} />
+                )}
               </div>
             )}
 
-            {activePage === 'target_management' && (
-              <PlaceholderPage
-                title="Target Management"
-                description="Set and manage targets for net profit, revenue, and team performance. Coming in Task 12."
-              />
-            )}
+            {activePage === 'target_management' && <TargetManagement />}
 
-            {activePage === 'admin_settings' && (
-              <PlaceholderPage
-                title="Admin Settings"
-                description="System configuration and settings. Coming in Task 13."
-              />
-            )}
+            {activePage === 'admin_settings' && <AdminSettings />}
 
-            {activePage === 'user_management' && (
-              <PlaceholderPage
-                title="User Management"
-                description="Manage users, roles, and page-level permissions. Coming in Task 13."
-              />
-            )}
+            {activePage === 'user_management' && <UserManagement />}
           </main>
         </div>
       </div>
-    </WeekProvider>
+    </Providers>
   );
 }
 
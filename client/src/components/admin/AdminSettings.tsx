@@ -0,0 +1,885 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { usePermissions } from '../../lib/usePermissions';
+import { useWeek } from '../../lib/WeekContext';
+import { fetchDataTypes, type DataTypeDefinition } from '../../lib/api';
+import {
+  fetchDigestStatus,
+  fetchDigestDeliveries,
+  sendDigest,
+  digestPreviewUrl,
+  type DigestStatus,
+  type DigestDelivery,
+} from '../../lib/digestApi';
+import { fetchJobs, fetchJobRuns, runJob, type ScheduledJob, type JobRun, type JobRunStatus } from '../../lib/jobsApi';
+import {
+  fetchSettings,
+  fetchSettingsAudit,
+  saveSetting,
+  resetSetting,
+  type SettingKey,
+  type SettingValues,
+  type SettingEntry,
+  type SettingAuditEntry,
+} from '../../lib/settingsApi';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+import TrendWindowToggle from '../ui/TrendWindowToggle';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SETTING_LABELS: Record<SettingKey, { title: string; description: string }> = {
+  branding: { title: 'Branding', description: 'Company name, logo and colours used on reports and exports' },
+  pass_through_categories: {
+    title: 'Pass-Through Categories',
+    description: 'Revenue categories excluded when the Net Revenue toggle is on',
+  },
+  alert_thresholds: { title: 'Alert Thresholds', description: 'When the dashboard raises alerts' },
+  outlier_detection: {
+    title: 'Import Outlier Checks',
+    description: 'When imported values are flagged against their recent history',
+  },
+  fiscal_year_start: { title: 'Financial Year Start', description: 'First day of the financial year' },
+  default_trend_window: { title: 'Default Trend Window', description: 'Weeks shown on trend charts by default' },
+  job_schedules: { title: 'Scheduled Jobs', description: 'When background jobs such as the Xero refresh run (cron expressions)' },
+  digest: {
+    title: 'Weekly Email Digest',
+    description: 'Executive Summary email sent once all required data for a week has been imported',
+  },
+};
+
+const RUN_STATUS_STYLES: Record<JobRunStatus, string> = {
+  running: 'text-[#4573D2] bg-blue-50',
+  succeeded: 'text-[#6AAF50] bg-green-50',
+  failed: 'text-[#D94F4F] bg-red-50',
+  skipped: 'text-[#6B7280] bg-gray-100',
+};
+
+const REVENUE_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'class_1a', label: 'Class 1A' },
+  { value: 'class_10a_sheds', label: 'Class 10a Sheds' },
+  { value: 'class_10b_pools', label: 'Class 10b Pools' },
+  { value: 'class_2_9_commercial', label: 'Class 2-9 Commercial' },
+  { value: 'inspections', label: 'Inspections' },
+  { value: 'retrospective', label: 'Retrospective' },
+  { value: 'council_fees', label: 'Council Fees' },
+  { value: 'planning_1_10', label: 'Planning 1&10' },
+  { value: 'planning_2_9', label: 'Planning 2-9' },
+  { value: 'property_searches', label: 'Property Searches' },
+  { value: 'qleave', label: 'Qleave' },
+  { value: 'sundry', label: 'Sundry' },
+  { value: 'access_labour_hire', label: 'Access Labour Hire' },
+  { value: 'insurance_levy', label: 'Insurance Levy' },
+];
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const inputClass = 'block mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 disabled:bg-gray-50';
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function RunStatus({ status }: { status: JobRunStatus }) {
+  return (
+    <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded ${RUN_STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+function summarise(value: unknown): string {
+  if (value == null) return '—';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? text.slice(0, 77) + '...' : text;
+}
+
+// ─── Section ──────────────────────────────────────────────────────────────────
+
+function SettingSection({
+  settingKey,
+  isDefault,
+  dirty,
+  canEdit,
+  saving,
+  onSave,
+  onReset,
+  children,
+}: {
+  settingKey: SettingKey;
+  isDefault: boolean;
+  dirty: boolean;
+  canEdit: boolean;
+  saving: boolean;
+  onSave: () => void;
+  onReset: () => void;
+  children: ReactNode;
+}) {
+  const { title, description } = SETTING_LABELS[settingKey];
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-[#1A1A2E] flex items-center gap-2">
+            {title}
+            {isDefault && (
+              <span className="text-[10px] font-semibold uppercase tracking-wide text-[#6B7280] bg-gray-100 px-1.5 py-0.5 rounded">
+                Default
+              </span>
+            )}
+          </h3>
+          <p className="text-xs text-[#6B7280] mt-0.5">{description}</p>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {!isDefault && (
+              <button
+                onClick={onReset}
+                disabled={saving}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#6B7280] hover:bg-gray-100 disabled:opacity-50"
+              >
+                Reset to default
+              </button>
+            )}
+            <button
+              onClick={onSave}
+              disabled={saving || !dirty}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="p-4">{children}</div>
+    </div>
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function AdminSettings() {
+  const { canWrite } = usePermissions();
+  const canEdit = canWrite('admin_settings');
+  const canRunJobs = canWrite('data_management');
+
+  const [settings, setSettings] = useState<SettingEntry[] | null>(null);
+  const [drafts, setDrafts] = useState<Partial<SettingValues>>({});
+  const [audit, setAudit] = useState<SettingAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<SettingKey | null>(null);
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [startingJob, setStartingJob] = useState<string | null>(null);
+  const { selectedWeek } = useWeek();
+  const [dataTypes, setDataTypes] = useState<DataTypeDefinition[]>([]);
+  const [recipientsText, setRecipientsText] = useState<string | null>(null);
+  const [digestStatus, setDigestStatus] = useState<DigestStatus | null>(null);
+  const [deliveries, setDeliveries] = useState<DigestDelivery[]>([]);
+  const [sendingDigest, setSendingDigest] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      fetchSettings(),
+      fetchSettingsAudit(),
+      // Job history needs Data Management access; the page still works without it
+      fetchJobs().catch(() => []),
+      fetchJobRuns().catch(() => []),
+      fetchDataTypes().then((r) => r.dataTypes.filter((dt) => !dt.composite)).catch(() => []),
+      fetchDigestDeliveries().catch(() => []),
+    ])
+      .then(([settingsResult, auditResult, jobsResult, runsResult, dataTypesResult, deliveriesResult]) => {
+        if (cancelled) return;
+        setSettings(settingsResult);
+        setAudit(auditResult);
+        setJobs(jobsResult);
+        setRuns(runsResult);
+        setDataTypes(dataTypesResult);
+        setDeliveries(deliveriesResult);
+      })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Digest readiness follows the week picked in the top bar
+  useEffect(() => {
+    if (!selectedWeek) return;
+    let cancelled = false;
+    fetchDigestStatus(selectedWeek)
+      .then((result) => { if (!cancelled) setDigestStatus(result); })
+      .catch(() => { if (!cancelled) setDigestStatus(null); });
+    return () => { cancelled = true; };
+  }, [selectedWeek]);
+
+  function saved<K extends SettingKey>(key: K): SettingValues[K] {
+    return settings!.find((s) => s.key === key)!.value as SettingValues[K];
+  }
+
+  function current<K extends SettingKey>(key: K): SettingValues[K] {
+    return (drafts[key] ?? saved(key)) as SettingValues[K];
+  }
+
+  function update<K extends SettingKey>(key: K, value: SettingValues[K]) {
+    setDrafts((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function applyChange(key: SettingKey, action: () => Promise<SettingEntry>) {
+    setSavingKey(key);
+    setSaveError(null);
+    try {
+      const entry = await action();
+      setSettings((prev) => prev!.map((s) => (s.key === key ? entry : s)));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      setAudit(await fetchSettingsAudit());
+      if (key === 'job_schedules') await refreshJobs();
+      if (key === 'digest') {
+        setRecipientsText(null);
+        if (selectedWeek) setDigestStatus(await fetchDigestStatus(selectedWeek));
+      }
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSavingKey(null);
+    }
+  }
+
+  async function refreshJobs() {
+    const [jobsResult, runsResult] = await Promise.all([fetchJobs(), fetchJobRuns()]);
+    setJobs(jobsResult);
+    setRuns(runsResult);
+  }
+
+  async function handleRunNow(jobId: string) {
+    setStartingJob(jobId);
+    setSaveError(null);
+    try {
+      await runJob(jobId);
+      await refreshJobs();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Could not start job');
+    } finally {
+      setStartingJob(null);
+    }
+  }
+
+  async function handleSendDigest() {
+    if (!selectedWeek) return;
+    setSendingDigest(true);
+    setSaveError(null);
+    try {
+      await sendDigest(selectedWeek);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Could not send digest');
+    } finally {
+      // A failed send is still recorded, so refresh either way
+      const [statusResult, deliveriesResult] = await Promise.all([
+        fetchDigestStatus(selectedWeek).catch(() => null),
+        fetchDigestDeliveries().catch(() => deliveries),
+      ]);
+      setDigestStatus(statusResult);
+      setDeliveries(deliveriesResult);
+      setSendingDigest(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="table" count={4} />
+        <LoadingSkeleton variant="table" count={4} />
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading settings" message={error} />;
+  if (!settings) return <EmptyState title="No settings" message="Settings could not be loaded." />;
+
+  function sectionProps(key: SettingKey) {
+    return {
+      settingKey: key,
+      isDefault: settings!.find((s) => s.key === key)?.isDefault ?? true,
+      dirty: drafts[key] !== undefined,
+      canEdit,
+      saving: savingKey === key,
+      onSave: () => applyChange(key, () => saveSetting(key, current(key))),
+      onReset: () => applyChange(key, () => resetSetting(key)),
+    };
+  }
+
+  const branding = current('branding');
+  const passThrough = current('pass_through_categories');
+  const thresholds = current('alert_thresholds');
+  const outliers = current('outlier_detection');
+  const fiscal = current('fiscal_year_start');
+  const schedules = current('job_schedules');
+  const digest = current('digest');
+
+  return (
+    <div className="space-y-6">
+      {saveError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+          <p className="text-red-700 text-sm">{saveError}</p>
+        </div>
+      )}
+
+      {/* ── Branding ── */}
+      <SettingSection {...sectionProps('branding')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-xs text-[#6B7280]">
+            Company name
+            <input
+              type="text"
+              value={branding.companyName}
+              disabled={!canEdit}
+              onChange={(e) => update('branding', { ...branding, companyName: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Logo URL
+            <input
+              type="url"
+              value={branding.logoUrl ?? ''}
+              disabled={!canEdit}
+              placeholder="https://..."
+              onChange={(e) => update('branding', { ...branding, logoUrl: e.target.value || null })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Primary colour
+            <input
+              type="color"
+              value={branding.primaryColour}
+              disabled={!canEdit}
+              onChange={(e) => update('branding', { ...branding, primaryColour: e.target.value.toUpperCase() })}
+              className="block mt-1 h-9 w-20 border border-gray-200 rounded-lg bg-white"
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Accent colour
+            <input
+              type="color"
+              value={branding.accentColour}
+              disabled={!canEdit}
+              onChange={(e) => update('branding', { ...branding, accentColour: e.target.value.toUpperCase() })}
+              className="block mt-1 h-9 w-20 border border-gray-200 rounded-lg bg-white"
+            />
+          </label>
+        </div>
+      </SettingSection>
+
+      {/* ── Pass-through categories ── */}
+      <SettingSection {...sectionProps('pass_through_categories')}>
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-2">
+          {REVENUE_CATEGORIES.map((cat) => (
+            <label key={cat.value} className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+              <input
+                type="checkbox"
+                checked={passThrough.includes(cat.value)}
+                disabled={!canEdit}
+                onChange={(e) => update(
+                  'pass_through_categories',
+                  e.target.checked
+                    ? [...passThrough, cat.value]
+                    : passThrough.filter((c) => c !== cat.value),
+                )}
+                className="rounded border-gray-300"
+              />
+              {cat.label}
+            </label>
+          ))}
+        </div>
+      </SettingSection>
+
+      {/* ── Alert thresholds ── */}
+      <SettingSection {...sectionProps('alert_thresholds')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-xs text-[#6B7280]">
+            Net profit below budget for (consecutive weeks)
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={thresholds.netProfitBelowBudgetWeeks}
+              disabled={!canEdit}
+              onChange={(e) => update('alert_thresholds', { ...thresholds, netProfitBelowBudgetWeeks: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Team below % of target
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={thresholds.teamBelowTargetPercent}
+              disabled={!canEdit}
+              onChange={(e) => update('alert_thresholds', { ...thresholds, teamBelowTargetPercent: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Cash within this amount of the overdraft limit ($)
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={thresholds.cashNearOverdraftAmount}
+              disabled={!canEdit}
+              onChange={(e) => update('alert_thresholds', { ...thresholds, cashNearOverdraftAmount: Number(e.target.value) })}
+              className={`${inputClass} w-40`}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-[#1A1A2E] self-end pb-2">
+            <input
+              type="checkbox"
+              checked={thresholds.conversionBelowAverage}
+              disabled={!canEdit}
+              onChange={(e) => update('alert_thresholds', { ...thresholds, conversionBelowAverage: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Alert when conversion rate falls below its historical average
+          </label>
+        </div>
+      </SettingSection>
+
+      {/* ── Outlier detection ── */}
+      <SettingSection {...sectionProps('outlier_detection')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-xs text-[#6B7280]">
+            History compared against (weeks)
+            <input
+              type="number"
+              min={4}
+              max={52}
+              value={outliers.historyWeeks}
+              disabled={!canEdit}
+              onChange={(e) => update('outlier_detection', { ...outliers, historyWeeks: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Flag beyond this z-score
+            <input
+              type="number"
+              min={1}
+              max={10}
+              step={0.5}
+              value={outliers.zScore}
+              disabled={!canEdit}
+              onChange={(e) => update('outlier_detection', { ...outliers, zScore: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Flag beyond this % from the median
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={outliers.percentBand}
+              disabled={!canEdit}
+              onChange={(e) => update('outlier_detection', { ...outliers, percentBand: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="text-xs text-[#6B7280]">
+            Require acknowledgement at this many times the median
+            <input
+              type="number"
+              min={2}
+              max={1000}
+              value={outliers.acknowledgeFactor}
+              disabled={!canEdit}
+              onChange={(e) => update('outlier_detection', { ...outliers, acknowledgeFactor: Number(e.target.value) })}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+            <input
+              type="checkbox"
+              checked={outliers.enabled}
+              disabled={!canEdit}
+              onChange={(e) => update('outlier_detection', { ...outliers, enabled: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Check imported values against their history
+          </label>
+        </div>
+      </SettingSection>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* ── Financial year start ── */}
+        <SettingSection {...sectionProps('fiscal_year_start')}>
+          <div className="flex gap-3">
+            <label className="text-xs text-[#6B7280]">
+              Day
+              <input
+                type="number"
+                min={1}
+                max={28}
+                value={fiscal.day}
+                disabled={!canEdit}
+                onChange={(e) => update('fiscal_year_start', { ...fiscal, day: Number(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+            <label className="text-xs text-[#6B7280]">
+              Month
+              <select
+                value={fiscal.month}
+                disabled={!canEdit}
+                onChange={(e) => update('fiscal_year_start', { ...fiscal, month: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {MONTHS.map((name, i) => (
+                  <option key={name} value={i + 1}>{name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </SettingSection>
+
+        {/* ── Default trend window ── */}
+        <SettingSection {...sectionProps('default_trend_window')}>
+          <TrendWindowToggle
+            value={current('default_trend_window')}
+            onChange={(weeks) => canEdit && update('default_trend_window', weeks)}
+          />
+        </SettingSection>
+      </div>
+
+      {/* ── Scheduled jobs ── */}
+      <SettingSection {...sectionProps('job_schedules')}>
+        <label className="text-xs text-[#6B7280]">
+          Time zone
+          <input
+            type="text"
+            value={schedules.timezone}
+            disabled={!canEdit}
+            onChange={(e) => update('job_schedules', { ...schedules, timezone: e.target.value })}
+            className={`${inputClass} w-56`}
+          />
+        </label>
+        {jobs.length === 0 ? (
+          <p className="mt-4 text-sm text-[#6B7280]">Job details need Data Management access.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Job</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Schedule</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Next Run</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Last Run</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {jobs.map((job) => {
+                  const schedule = schedules.jobs[job.id] ?? { cron: job.defaultCron, enabled: true };
+                  const setSchedule = (next: Partial<typeof schedule>) => update('job_schedules', {
+                    ...schedules,
+                    jobs: { ...schedules.jobs, [job.id]: { ...schedule, ...next } },
+                  });
+                  return (
+                    <tr key={job.id}>
+                      <td className="px-3 py-2.5">
+                        <p className="font-medium text-[#1A1A2E]">{job.name}</p>
+                        <p className="text-xs text-[#6B7280]">{job.description}</p>
+                      </td>
+                      <td className="px-3 py-2.5">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={schedule.cron}
+                            disabled={!canEdit}
+                            onChange={(e) => setSchedule({ cron: e.target.value })}
+                            className={`${inputClass} w-32 font-mono`}
+                          />
+                          <label className="flex items-center gap-1 text-xs text-[#6B7280]">
+                            <input
+                              type="checkbox"
+                              checked={schedule.enabled}
+                              disabled={!canEdit}
+                              onChange={(e) => setSchedule({ enabled: e.target.checked })}
+                              className="rounded border-gray-300"
+                            />
+                            Enabled
+                          </label>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2.5 text-[#6B7280] whitespace-nowrap">
+                        {job.nextRunAt ? formatDateTime(job.nextRunAt) : '—'}
+                      </td>
+                      <td className="px-3 py-2.5 whitespace-nowrap">
+                        {job.lastRun ? (
+                          <span className="flex items-center gap-2 text-[#6B7280]">
+                            <RunStatus status={job.lastRun.status} />
+                            {formatDateTime(job.lastRun.startedAt)}
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-3 py-2.5 text-right">
+                        {canRunJobs && (
+                          <button
+                            onClick={() => handleRunNow(job.id)}
+                            disabled={job.running || startingJob !== null}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#4573D2] border border-[#4573D2]/30 hover:bg-blue-50 disabled:opacity-50 whitespace-nowrap"
+                          >
+                            {job.running ? 'Running...' : startingJob === job.id ? 'Starting...' : 'Run now'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </SettingSection>
+
+      {/* ── Weekly email digest ── */}
+      <SettingSection {...sectionProps('digest')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+              <input
+                type="checkbox"
+                checked={digest.enabled}
+                disabled={!canEdit}
+                onChange={(e) => update('digest', { ...digest, enabled: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Send automatically when a week's data is complete
+            </label>
+            <label className="block text-xs text-[#6B7280]">
+              Recipients (one email address per line)
+              <textarea
+                rows={4}
+                value={recipientsText ?? digest.recipients.join('\n')}
+                disabled={!canEdit}
+                onChange={(e) => {
+                  setRecipientsText(e.target.value);
+                  update('digest', { ...digest, recipients: e.target.value.split(/[\s,;]+/).filter(Boolean) });
+                }}
+                className={`${inputClass} w-full font-mono`}
+              />
+            </label>
+          </div>
+          <div>
+            <p className="text-xs text-[#6B7280]">Required data types</p>
+            <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+              {dataTypes.map((dt) => (
+                <label key={dt.id} className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+                  <input
+                    type="checkbox"
+                    checked={digest.requiredDataTypes.includes(dt.id)}
+                    disabled={!canEdit}
+                    onChange={(e) => update('digest', {
+                      ...digest,
+                      requiredDataTypes: e.target.checked
+                        ? [...digest.requiredDataTypes, dt.id]
+                        : digest.requiredDataTypes.filter((id) => id !== dt.id),
+                    })}
+                    className="rounded border-gray-300"
+                  />
+                  {dt.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {selectedWeek && (
+          <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm text-[#6B7280]">
+              {!digestStatus ? (
+                'Digest status unavailable.'
+              ) : !digestStatus.transport ? (
+                <span className="text-[#D94F4F]">Email is not configured on the server.</span>
+              ) : digestStatus.missingDataTypes.length > 0 ? (
+                <>Week ending {selectedWeek} is waiting on: {digestStatus.missingDataTypes.map((m) => m.name).join(', ')}</>
+              ) : (
+                <span className="text-[#6AAF50]">Week ending {selectedWeek} has all required data.</span>
+              )}
+              {digestStatus?.lastDelivery && (
+                <span className="block text-xs mt-0.5">
+                  Last {digestStatus.lastDelivery.status === 'sent' ? 'sent' : 'attempt failed'}{' '}
+                  {formatDateTime(digestStatus.lastDelivery.sentAt)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <a
+                href={digestPreviewUrl(selectedWeek)}
+                target="_blank"
+                rel="noreferrer"
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#6B7280] border border-gray-200 hover:bg-gray-50"
+              >
+                Preview
+              </a>
+              {canEdit && (
+                <button
+                  onClick={handleSendDigest}
+                  disabled={sendingDigest || !digestStatus?.transport || digest.recipients.length === 0}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#4573D2] border border-[#4573D2]/30 hover:bg-blue-50 disabled:opacity-50 whitespace-nowrap"
+                >
+                  {sendingDigest ? 'Sending...' : 'Send now'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {deliveries.length > 0 && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Sent</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Week Ending</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Status</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Recipients</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {deliveries.map((d) => (
+                  <tr key={d.id}>
+                    <td className="px-3 py-2 text-[#6B7280] whitespace-nowrap">{formatDateTime(d.sentAt)}</td>
+                    <td className="px-3 py-2 text-[#1A1A2E] whitespace-nowrap">{d.weekEnding.split('T')[0]}</td>
+                    <td className="px-3 py-2">
+                      <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded ${RUN_STATUS_STYLES[d.status === 'sent' ? 'succeeded' : 'failed']}`}>
+                        {d.status}
+                      </span>
+                      {d.error && <p className="text-xs text-[#D94F4F] mt-0.5">{d.error}</p>}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-[#6B7280]">{d.recipients.join(', ')}</td>
+                    <td className="px-3 py-2 text-[#6B7280] whitespace-nowrap">
+                      {d.trigger === 'auto' ? 'Automatic' : d.sentBy ?? '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </SettingSection>
+
+      {/* ── Job run history ── */}
+      {jobs.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-semibold text-[#1A1A2E]">Job Runs</h3>
+              <p className="text-xs text-[#6B7280] mt-0.5">Most recent 20 runs</p>
+            </div>
+            <button
+              onClick={() => refreshJobs().catch((err) => setSaveError(err.message))}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#6B7280] hover:bg-gray-100"
+            >
+              Refresh
+            </button>
+          </div>
+          {runs.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-[#6B7280]">No jobs have run yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-100">
+                    <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Started</th>
+                    <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Job</th>
+                    <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Records</th>
+                    <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Details</th>
+                    <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {runs.map((run) => (
+                    <tr key={run.id}>
+                      <td className="px-4 py-2.5 text-[#6B7280] whitespace-nowrap">{formatDateTime(run.startedAt)}</td>
+                      <td className="px-4 py-2.5 text-[#1A1A2E] font-medium whitespace-nowrap">
+                        {jobs.find((j) => j.id === run.jobId)?.name ?? run.jobId}
+                      </td>
+                      <td className="px-4 py-2.5"><RunStatus status={run.status} /></td>
+                      <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{run.recordsAffected ?? '—'}</td>
+                      <td className={`px-4 py-2.5 text-xs ${run.error ? 'text-[#D94F4F]' : 'text-[#6B7280]'}`}>
+                        {run.error ?? run.message ?? '—'}
+                      </td>
+                      <td className="px-4 py-2.5 text-[#6B7280] whitespace-nowrap">
+                        {run.trigger === 'schedule' ? 'Schedule' : run.triggeredBy ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* ── Audit log ── */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-100">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]">Change Log</h3>
+          <p className="text-xs text-[#6B7280] mt-0.5">Most recent 50 changes</p>
+        </div>
+        {audit.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-[#6B7280]">No settings have been changed yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">When</th>
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Setting</th>
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {audit.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2.5 text-[#6B7280] whitespace-nowrap">{formatDateTime(entry.changedAt)}</td>
+                    <td className="px-4 py-2.5 text-[#1A1A2E] font-medium whitespace-nowrap">
+                      {SETTING_LABELS[entry.key]?.title ?? entry.key}
+                    </td>
+                    <td className="px-4 py-2.5 text-xs text-[#6B7280] font-mono">
+                      {entry.action === 'reset'
+                        ? <>Reset to default (was {summarise(entry.previousValue)})</>
+                        : <>{summarise(entry.previousValue)} → {summarise(entry.newValue)}</>}
+                    </td>
+                    <td className="px-4 py-2.5 text-[#6B7280]">{entry.changedBy ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
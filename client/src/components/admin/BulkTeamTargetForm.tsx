@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import {
+  bulkUpdateTeamTargets,
+  previewTargetImpact,
+  type ImpactPreview,
+  type Region,
+  type Target,
+} from '../../lib/targetsApi';
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v != null);
+  if (present.length === 0) return null;
+  return present.reduce((s, v) => s + v, 0) / present.length;
+}
+
+export default function BulkTeamTargetForm({
+  regions,
+  labels,
+  current,
+  weekEnding,
+  onSaved,
+  onCancel,
+}: {
+  regions: Region[];
+  labels: Record<Region, string>;
+  current: Partial<Record<Region, Target>>;
+  weekEnding: string;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [amounts, setAmounts] = useState<Record<string, string>>(
+    Object.fromEntries(regions.map((r) => [r, current[r] ? String(Number(current[r]!.amount)) : ''])),
+  );
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<ImpactPreview[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = regions.map((r) => ({ entity: r, amount: Number(amounts[r]) }));
+  const allValid = parsed.every((p) => amounts[p.entity] !== '' && p.amount > 0);
+
+  // New targets must start after every region's current one
+  const latestEffective = regions
+    .map((r) => current[r]?.effectiveFrom.split('T')[0])
+    .filter((d): d is string => Boolean(d))
+    .sort()
+    .pop();
+  const minDate = latestEffective ? nextDay(latestEffective) : undefined;
+
+  function setAmount(region: Region, value: string) {
+    setAmounts((prev) => ({ ...prev, [region]: value }));
+    setPreview(null);
+  }
+
+  async function handlePreview() {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await previewTargetImpact({ targetType: 'team_revenue', weekEnding, proposals: parsed }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleSubmit() {
+    setBusy(true);
+    setError(null);
+    try {
+      await bulkUpdateTeamTargets({ targets: parsed, effectiveFrom, notes: notes || undefined });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const previewByRegion = new Map(preview?.map((p) => [p.entity, p]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-[#4573D2]/30 p-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Update All Team Targets</h3>
+        <p className="text-xs text-[#6B7280] mt-0.5">
+          All nine regions move to the new weekly targets from the same date, or none do.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-100">
+              <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Region</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Current</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">New Weekly Target</th>
+              {preview && (
+                <>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Avg % Then</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Avg % Proposed</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {regions.map((region) => {
+              const p = previewByRegion.get(region);
+              return (
+                <tr key={region}>
+                  <td className="px-3 py-2 text-[#1A1A2E] font-medium">{labels[region]}</td>
+                  <td className="px-3 py-2 text-right text-[#6B7280]">
+                    {current[region] ? fmtAUD(Number(current[region]!.amount)) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={amounts[region]}
+                      onChange={(e) => setAmount(region, e.target.value)}
+                      className="w-32 text-sm text-right border border-gray-200 rounded-lg px-2 py-1"
+                    />
+                  </td>
+                  {preview && (
+                    <>
+                      <td className="px-3 py-2 text-right text-[#6B7280]">
+                        {fmtPct(p ? average(p.weeks.map((w) => w.currentPct)) : null)}
+                      </td>
+                      <td className="px-3 py-2 text-right font-semibold text-[#4573D2]">
+                        {fmtPct(p ? average(p.weeks.map((w) => w.proposedPct)) : null)}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {preview && (
+        <p className="text-xs text-[#6B7280]">Averages cover weeks with recorded actuals in the last 8 weeks.</p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-[#6B7280]">
+          Effective from
+          <input
+            type="date"
+            value={effectiveFrom}
+            min={minDate}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            className="block mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700"
+          />
+        </label>
+        <label className="text-xs text-[#6B7280] flex-1 min-w-[200px]">
+          Notes
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Reason for change"
+            className="block w-full mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700"
+          />
+        </label>
+        <button
+          onClick={handlePreview}
+          disabled={busy || !allValid}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-[#4573D2] border border-[#4573D2]/30 hover:bg-[#4573D2]/5 disabled:opacity-50"
+        >
+          Preview impact
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={busy || !allValid || !effectiveFrom}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {busy ? 'Saving...' : 'Save all'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={busy}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-[#6B7280] hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function nextDay(isoDate: string): string {
+  const d = new Date(isoDate + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchTargetHistory,
+  type TargetType,
+  type Region,
+  type TargetWithHistory,
+} from '../../lib/targetsApi';
+
+function fmtAUD(val: string | number): string {
+  return Number(val).toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso.length === 10 ? iso + 'T00:00:00' : iso).toLocaleDateString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+export default function TargetHistoryTimeline({
+  targetType,
+  entity,
+  refreshKey,
+}: {
+  targetType: TargetType;
+  entity: Region | null;
+  /** Bump to refetch after a save. */
+  refreshKey?: number;
+}) {
+  const [versions, setVersions] = useState<TargetWithHistory[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTargetHistory(targetType, entity)
+      .then((result) => { if (!cancelled) setVersions(result); })
+      .catch((err) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [targetType, entity, refreshKey]);
+
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  if (!versions) return <p className="text-xs text-[#6B7280]">Loading history...</p>;
+  if (versions.length === 0) return <p className="text-xs text-[#6B7280]">No history recorded.</p>;
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {versions.map((v) => {
+        const isCurrent = v.effectiveTo == null;
+        // History rows hang off the version they superseded
+        const change = v.history[0];
+        return (
+          <li key={v.id} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                isCurrent ? 'bg-[#4573D2]' : 'bg-gray-300'
+              }`}
+            />
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-semibold text-[#1A1A2E]">{fmtAUD(v.amount)}</span>
+              <span className="text-xs text-[#6B7280]">
+                {formatDate(v.effectiveFrom)} – {v.effectiveTo ? formatDate(v.effectiveTo) : 'current'}
+              </span>
+              {isCurrent && (
+                <span className="text-[10px] font-semibold uppercase tracking-wide text-[#4573D2] bg-[#4573D2]/10 px-1.5 py-0.5 rounded">
+                  Active
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-[#6B7280] mt-0.5">
+              Set by {v.setBy ?? 'unknown'}
+              {v.notes && <> · {v.notes}</>}
+            </p>
+            {change && (
+              <p className="text-xs text-[#6B7280] mt-0.5">
+                Superseded {formatDate(change.changedAt)}: {fmtAUD(change.previousAmount)} → {fmtAUD(change.newAmount)}
+                {change.changedBy && <> by {change.changedBy}</>}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
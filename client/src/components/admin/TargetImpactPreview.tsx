@@ -0,0 +1,59 @@
+import type { ImpactPreviewWeek } from '../../lib/targetsApi';
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function formatWeekDate(dateStr: string): string {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+/** Same thresholds as the Regional Performance page. */
+function pctClass(pct: number | null): string {
+  if (pct == null) return 'text-[#6B7280]';
+  if (pct >= 80) return 'text-[#6AAF50]';
+  if (pct >= 50) return 'text-[#E8A442]';
+  return 'text-[#D94F4F]';
+}
+
+export default function TargetImpactPreview({ weeks }: { weeks: ImpactPreviewWeek[] }) {
+  const withActuals = weeks.filter((w) => w.actual != null);
+
+  if (withActuals.length === 0) {
+    return <p className="text-xs text-[#6B7280]">No actuals recorded in the last {weeks.length} weeks to preview against.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-100">
+            <th className="px-3 py-2 text-left font-semibold text-[#6B7280] uppercase tracking-wider">Week Ending</th>
+            <th className="px-3 py-2 text-right font-semibold text-[#6B7280] uppercase tracking-wider">Actual</th>
+            <th className="px-3 py-2 text-right font-semibold text-[#6B7280] uppercase tracking-wider">Target Then</th>
+            <th className="px-3 py-2 text-right font-semibold text-[#6B7280] uppercase tracking-wider">% Then</th>
+            <th className="px-3 py-2 text-right font-semibold text-[#6B7280] uppercase tracking-wider">% Proposed</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50">
+          {weeks.map((w) => (
+            <tr key={w.weekEnding}>
+              <td className="px-3 py-1.5 text-[#1A1A2E]">{formatWeekDate(w.weekEnding)}</td>
+              <td className="px-3 py-1.5 text-right text-[#1A1A2E]">{fmtAUD(w.actual)}</td>
+              <td className="px-3 py-1.5 text-right text-[#6B7280]">{fmtAUD(w.currentTarget)}</td>
+              <td className={`px-3 py-1.5 text-right font-medium ${pctClass(w.currentPct)}`}>{fmtPct(w.currentPct)}</td>
+              <td className={`px-3 py-1.5 text-right font-semibold ${pctClass(w.proposedPct)}`}>{fmtPct(w.proposedPct)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
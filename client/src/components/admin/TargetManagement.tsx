@@ -0,0 +1,370 @@
+import { useState, useEffect } from 'react';
+import { useWeek } from '../../lib/WeekContext';
+import { usePermissions } from '../../lib/usePermissions';
+import {
+  fetchCurrentTargets,
+  createTarget,
+  updateTarget,
+  previewTargetImpact,
+  type Target,
+  type TargetType,
+  type Region,
+  type ImpactPreviewWeek,
+} from '../../lib/targetsApi';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+import TargetImpactPreview from './TargetImpactPreview';
+import TargetHistoryTimeline from './TargetHistoryTimeline';
+import BulkTeamTargetForm from './BulkTeamTargetForm';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate.split('T')[0] + 'T00:00:00').toLocaleDateString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+function nextDay(isoDate: string): string {
+  const d = new Date(isoDate.split('T')[0] + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+}
+
+const TARGET_GROUPS: { type: TargetType; label: string; description: string }[] = [
+  { type: 'net_profit', label: 'Net Profit', description: 'Weekly net profit budget' },
+  { type: 'breakeven', label: 'Breakeven', description: 'Weekly revenue needed to cover costs' },
+  { type: 'residential_revenue', label: 'Residential Revenue', description: 'Weekly invoiced residential projects' },
+  { type: 'commercial_revenue', label: 'Commercial Revenue', description: 'Weekly invoiced commercial projects' },
+  { type: 'retrospective_revenue', label: 'Retrospective Revenue', description: 'Weekly invoiced retrospective projects' },
+  { type: 'team_revenue', label: 'Team Revenue', description: 'Weekly invoiced revenue per regional team' },
+];
+
+const REGIONS: Region[] = [
+  'cairns', 'mackay', 'nq_commercial', 'seq_residential', 'seq_commercial',
+  'town_planning', 'townsville', 'wide_bay', 'all_in_access',
+];
+
+const REGION_LABELS: Record<Region, string> = {
+  cairns: 'Cairns',
+  mackay: 'Mackay',
+  nq_commercial: 'NQ Commercial',
+  seq_residential: 'SEQ Residential',
+  seq_commercial: 'SEQ Commercial',
+  town_planning: 'Town Planning',
+  townsville: 'Townsville',
+  wide_bay: 'Wide Bay',
+  all_in_access: 'All In Access',
+};
+
+// ─── Target Row ───────────────────────────────────────────────────────────────
+
+function TargetRow({
+  targetType,
+  entity,
+  label,
+  target,
+  weekEnding,
+  canEdit,
+  onSaved,
+}: {
+  targetType: TargetType;
+  entity: Region | null;
+  label: string;
+  target: Target | undefined;
+  weekEnding: string;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [amount, setAmount] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<ImpactPreviewWeek[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const minDate = target ? nextDay(target.effectiveFrom) : undefined;
+  const parsedAmount = Number(amount);
+  const amountValid = amount !== '' && parsedAmount > 0;
+
+  function startEdit() {
+    setAmount(target ? String(Number(target.amount)) : '');
+    setEffectiveFrom('');
+    setNotes('');
+    setPreview(null);
+    setError(null);
+    setEditing(true);
+  }
+
+  async function handlePreview() {
+    setBusy(true);
+    setError(null);
+    try {
+      const [result] = await previewTargetImpact({
+        targetType,
+        weekEnding,
+        proposals: [{ entity, amount: parsedAmount }],
+      });
+      setPreview(result.weeks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleSave() {
+    setBusy(true);
+    setError(null);
+    try {
+      const change = { amount: parsedAmount, effectiveFrom, notes: notes || undefined };
+      if (target) {
+        await updateTarget(target.id, change);
+      } else {
+        await createTarget({ ...change, targetType, entity });
+      }
+      setEditing(false);
+      setHistoryKey((k) => k + 1);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-[#1A1A2E]">{label}</p>
+          <p className="text-xs text-[#6B7280]">
+            {target
+              ? <>Since {formatDate(target.effectiveFrom)}{target.setBy && <> · set by {target.setBy}</>}</>
+              : 'Not set'}
+          </p>
+        </div>
+        <span className="text-sm font-semibold text-[#1A1A2E]">
+          {target ? fmtAUD(Number(target.amount)) : '—'}
+        </span>
+        <div className="flex items-center gap-3">
+          {target && (
+            <button
+              onClick={() => setShowHistory((s) => !s)}
+              className="text-xs text-[#6B7280] hover:text-[#1A1A2E] font-medium"
+            >
+              {showHistory ? 'Hide history' : 'History'}
+            </button>
+          )}
+          {canEdit && !editing && (
+            <button onClick={startEdit} className="text-xs text-[#4573D2] hover:underline font-medium">
+              {target ? 'Edit' : 'Set'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-3 rounded-lg bg-gray-50 border border-gray-100 p-4 space-y-3">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs text-[#6B7280]">
+              New amount
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={amount}
+                onChange={(e) => { setAmount(e.target.value); setPreview(null); }}
+                className="block mt-1 w-36 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700"
+              />
+            </label>
+            <label className="text-xs text-[#6B7280]">
+              Effective from
+              <input
+                type="date"
+                value={effectiveFrom}
+                min={minDate}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="block mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700"
+              />
+            </label>
+            <label className="text-xs text-[#6B7280] flex-1 min-w-[160px]">
+              Notes
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Reason for change"
+                className="block w-full mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700"
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handlePreview}
+              disabled={busy || !amountValid}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#4573D2] border border-[#4573D2]/30 hover:bg-[#4573D2]/5 disabled:opacity-50"
+            >
+              Preview impact
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busy || !amountValid || !effectiveFrom}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#6B7280] hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            {!effectiveFrom && (
+              <span className="text-xs text-[#6B7280]">A new effective-from date is required.</span>
+            )}
+          </div>
+          {preview && <TargetImpactPreview weeks={preview} />}
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="mt-3 pl-1">
+          <TargetHistoryTimeline targetType={targetType} entity={entity} refreshKey={historyKey} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function TargetManagement() {
+  const { selectedWeek, loading: weekLoading } = useWeek();
+  const { canWrite } = usePermissions();
+  const [targets, setTargets] = useState<Target[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  // The request the targets or error answer; loading until it's the current one
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const request = `${selectedWeek}:${reloadKey}`;
+  const loading = loadedFor !== request;
+
+  const canEdit = canWrite('target_management');
+
+  useEffect(() => {
+    if (!selectedWeek) return;
+    let cancelled = false;
+
+    fetchCurrentTargets(selectedWeek)
+      .then((result) => { if (!cancelled) { setTargets(result); setError(null); } })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoadedFor(request); });
+
+    return () => { cancelled = true; };
+  }, [selectedWeek, request]);
+
+  function reload() {
+    setReloadKey((k) => k + 1);
+  }
+
+  if (weekLoading || loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="table" count={4} />
+        <LoadingSkeleton variant="table" count={9} />
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading targets" message={error} />;
+  if (!targets || !selectedWeek) return <EmptyState title="No data available" message="Select a week to manage targets." />;
+
+  const teamTargets: Partial<Record<Region, Target>> = Object.fromEntries(
+    targets.filter((t) => t.targetType === 'team_revenue' && t.entity).map((t) => [t.entity, t]),
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-[#6B7280]">
+        Targets active for the week ending {formatDate(selectedWeek)}. Changes never overwrite history —
+        each new amount starts from its effective date and closes off the previous one.
+      </p>
+
+      {TARGET_GROUPS.map((group) => {
+        const isTeam = group.type === 'team_revenue';
+        return (
+          <div key={group.type} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-semibold text-[#1A1A2E]">{group.label}</h3>
+                <p className="text-xs text-[#6B7280] mt-0.5">{group.description}</p>
+              </div>
+              {isTeam && canEdit && !bulkOpen && (
+                <button
+                  onClick={() => setBulkOpen(true)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#4573D2] border border-[#4573D2]/30 hover:bg-[#4573D2]/5"
+                >
+                  Update all regions
+                </button>
+              )}
+            </div>
+
+            {isTeam && bulkOpen && (
+              <div className="p-4 border-b border-gray-100">
+                <BulkTeamTargetForm
+                  regions={REGIONS}
+                  labels={REGION_LABELS}
+                  current={teamTargets}
+                  weekEnding={selectedWeek}
+                  onSaved={() => { setBulkOpen(false); reload(); }}
+                  onCancel={() => setBulkOpen(false)}
+                />
+              </div>
+            )}
+
+            <div className="divide-y divide-gray-50">
+              {isTeam
+                ? REGIONS.map((region) => (
+                    <TargetRow
+                      key={region}
+                      targetType={group.type}
+                      entity={region}
+                      label={REGION_LABELS[region]}
+                      target={teamTargets[region]}
+                      weekEnding={selectedWeek}
+                      canEdit={canEdit}
+                      onSaved={reload}
+                    />
+                  ))
+                : (
+                    <TargetRow
+                      targetType={group.type}
+                      entity={null}
+                      label={group.label}
+                      target={targets.find((t) => t.targetType === group.type && !t.entity)}
+                      weekEnding={selectedWeek}
+                      canEdit={canEdit}
+                      onSaved={reload}
+                    />
+                  )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
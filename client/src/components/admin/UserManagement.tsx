@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { usePermissions } from '../../lib/usePermissions';
+import type { DashboardPage, PermissionLevel } from '../../lib/PermissionContext';
+import {
+  fetchUsers,
+  fetchAuthStatus,
+  createUser,
+  updateUser,
+  setUserPermissions,
+  resetUserPermissions,
+  createTestUsers,
+  type ManagedUser,
+  type UserRole,
+} from '../../lib/usersApi';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const PAGE_LABELS: Record<DashboardPage, string> = {
+  executive_summary: 'Exec Summary',
+  financial_deep_dive: 'Financial',
+  pl_monthly_detail: 'P&L Monthly',
+  sales_pipeline: 'Sales',
+  marketing_leads: 'Marketing',
+  operations_productivity: 'Operations',
+  regional_performance: 'Regional',
+  cash_position: 'Cash',
+  data_management: 'Data Mgmt',
+  target_management: 'Targets',
+  staff_management: 'Staff',
+  admin_settings: 'Settings',
+  user_permission_management: 'Users',
+};
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'super_admin', label: 'Super Admin' },
+  { value: 'executive', label: 'Executive' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'staff', label: 'Staff' },
+];
+
+const NEXT_LEVEL: Record<PermissionLevel, PermissionLevel> = {
+  no_access: 'read',
+  read: 'write',
+  write: 'no_access',
+};
+
+const LEVEL_STYLES: Record<PermissionLevel, { bg: string; text: string; label: string }> = {
+  write: { bg: 'bg-[#6AAF50]/15', text: 'text-[#4E8A38]', label: 'Write' },
+  read: { bg: 'bg-[#4573D2]/10', text: 'text-[#4573D2]', label: 'Read' },
+  no_access: { bg: 'bg-gray-100', text: 'text-gray-400', label: 'None' },
+};
+
+function formatDate(iso: string | null) {
+  if (!iso) return 'Never';
+  return new Date(iso).toLocaleDateString('en-AU', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function UserManagement() {
+  const { canWrite } = usePermissions();
+  const canEdit = canWrite('user_permission_management');
+
+  const [pages, setPages] = useState<DashboardPage[]>([]);
+  const [users, setUsers] = useState<ManagedUser[] | null>(null);
+  const [devMode, setDevMode] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<number | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [adding, setAdding] = useState(false);
+  const [newUser, setNewUser] = useState<{ email: string; displayName: string; role: UserRole }>({
+    email: '',
+    displayName: '',
+    role: 'staff',
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchUsers(), fetchAuthStatus().catch(() => ({ ssoConfigured: false, devMode: false }))])
+      .then(([result, status]) => {
+        if (cancelled) return;
+        setPages(result.pages);
+        setUsers(result.users);
+        setDevMode(status.devMode);
+      })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  function replaceUser(updated: ManagedUser) {
+    setUsers((prev) => {
+      if (!prev) return [updated];
+      return prev.some((u) => u.id === updated.id)
+        ? prev.map((u) => (u.id === updated.id ? updated : u))
+        : [...prev, updated];
+    });
+  }
+
+  async function run(userId: number | null, action: () => Promise<ManagedUser | ManagedUser[]>) {
+    setBusyUserId(userId);
+    setActionError(null);
+    try {
+      const result = await action();
+      (Array.isArray(result) ? result : [result]).forEach(replaceUser);
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    } finally {
+      setBusyUserId(null);
+    }
+  }
+
+  async function handleCreate() {
+    const ok = await run(null, () => createUser(newUser));
+    if (ok) {
+      setAdding(false);
+      setNewUser({ email: '', displayName: '', role: 'staff' });
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="table" count={6} />
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading users" message={error} />;
+  if (!users) return <EmptyState title="No users" message="Users could not be loaded." />;
+
+  const visibleUsers = users.filter((u) => showInactive || u.isActive);
+
+  return (
+    <div className="space-y-6">
+      {/* ── Toolbar ── */}
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-[#6B7280]">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show deactivated users
+        </label>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {devMode && (
+              <button
+                onClick={() => run(null, () => createTestUsers())}
+                disabled={busyUserId !== null}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#6B7280] border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                title="Development only: creates one test account per role"
+              >
+                Create test users
+              </button>
+            )}
+            <button
+              onClick={() => setAdding((a) => !a)}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+            >
+              Add user
+            </button>
+          </div>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+          <p className="text-red-700 text-sm">{actionError}</p>
+        </div>
+      )}
+
+      {/* ── Add user form ── */}
+      {adding && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+          <p className="text-xs text-[#6B7280] mb-3">
+            The account is linked automatically when this person first signs in with Microsoft 365.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs text-[#6B7280]">
+              Name
+              <input
+                type="text"
+                value={newUser.displayName}
+                onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+                className="block mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700"
+              />
+            </label>
+            <label className="text-xs text-[#6B7280]">
+              Email
+              <input
+                type="email"
+                value={newUser.email}
+                onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                className="block mt-1 w-64 text-sm border border-gray-200 rounded-lg px-3 py-1.5 text-gray-700"
+              />
+            </label>
+            <label className="text-xs text-[#6B7280]">
+              Role
+              <select
+                value={newUser.role}
+                onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                className="block mt-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700"
+              >
+                {ROLE_OPTIONS.map((r) => (
+                  <option key={r.value} value={r.value}>{r.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleCreate}
+              disabled={busyUserId !== null || !newUser.email || !newUser.displayName}
+              className="px-4 py-1.5 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              Create
+            </button>
+            <button
+              onClick={() => setAdding(false)}
+              className="px-4 py-1.5 rounded-lg text-sm font-medium text-[#6B7280] hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* ── Users × Pages matrix ── */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-100">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]">Users &amp; Permissions</h3>
+          <p className="text-xs text-[#6B7280] mt-0.5">
+            Click a cell to cycle None → Read → Write. Outlined cells override the role default.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-100">
+                <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider sticky left-0 bg-white">User</th>
+                <th className="px-3 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Role</th>
+                {pages.map((page) => (
+                  <th key={page} className="px-1 py-2.5 text-center text-[10px] font-semibold text-[#6B7280] uppercase tracking-wider whitespace-nowrap">
+                    {PAGE_LABELS[page]}
+                  </th>
+                ))}
+                <th className="px-3 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {visibleUsers.map((user) => {
+                const busy = busyUserId === user.id;
+                const hasOverrides = user.permissions.some((p) => p.isOverride);
+                return (
+                  <tr key={user.id} className={user.isActive ? '' : 'opacity-50'}>
+                    <td className="px-4 py-2 sticky left-0 bg-white">
+                      <p className="font-medium text-[#1A1A2E] whitespace-nowrap">{user.displayName}</p>
+                      <p className="text-xs text-[#6B7280]">{user.email}</p>
+                      <p className="text-[10px] text-gray-400">Last login: {formatDate(user.lastLogin)}</p>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={user.role}
+                        disabled={!canEdit || busy}
+                        onChange={(e) => run(user.id, () => updateUser(user.id, { role: e.target.value as UserRole }))}
+                        className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-700"
+                      >
+                        {ROLE_OPTIONS.map((r) => (
+                          <option key={r.value} value={r.value}>{r.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    {user.permissions.map((perm) => {
+                      const style = LEVEL_STYLES[perm.level];
+                      return (
+                        <td key={perm.page} className="px-1 py-2 text-center">
+                          <button
+                            disabled={!canEdit || busy || !user.isActive}
+                            onClick={() => run(user.id, () => setUserPermissions(user.id, { [perm.page]: NEXT_LEVEL[perm.level] }))}
+                            title={`${PAGE_LABELS[perm.page]}: ${style.label}${perm.isOverride ? ` (role default: ${LEVEL_STYLES[perm.roleDefault].label})` : ' (role default)'}`}
+                            className={`w-14 py-1 rounded-md text-[11px] font-semibold ${style.bg} ${style.text} ${
+                              perm.isOverride ? 'ring-1 ring-inset ring-current' : ''
+                            } disabled:cursor-default`}
+                          >
+                            {style.label}
+                          </button>
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {canEdit && (
+                        <div className="flex items-center justify-end gap-3">
+                          {hasOverrides && (
+                            <button
+                              onClick={() => run(user.id, () => resetUserPermissions(user.id))}
+                              disabled={busy}
+                              className="text-xs text-[#4573D2] hover:underline font-medium disabled:opacity-50"
+                            >
+                              Reset to role defaults
+                            </button>
+                          )}
+                          <button
+                            onClick={() => run(user.id, () => updateUser(user.id, { isActive: !user.isActive }))}
+                            disabled={busy}
+                            className={`text-xs font-medium hover:underline disabled:opacity-50 ${
+                              user.isActive ? 'text-red-600 hover:text-red-800' : 'text-[#6AAF50]'
+                            }`}
+                          >
+                            {user.isActive ? 'Deactivate' : 'Reactivate'}
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useAlerts } from '../../lib/useAlerts';
+import { useWeek } from '../../lib/WeekContext';
+import type { DashboardPage } from '../../lib/PermissionContext';
+import { SEVERITY_STYLES } from './alertStyles';
+
+interface AlertBannerProps {
+  page: DashboardPage;
+}
+
+/**
+ * Unacknowledged alerts for this page and the selected week.
+ */
+export default function AlertBanner({ page }: AlertBannerProps) {
+  const { alerts, acknowledge } = useAlerts();
+  const { selectedWeek } = useWeek();
+
+  const visible = alerts.filter((a) =>
+    a.page === page && !a.acknowledgedAt && a.weekEnding.split('T')[0] === selectedWeek
+  );
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {visible.map((alert) => {
+        const style = SEVERITY_STYLES[alert.severity];
+        return (
+          <div key={alert.id} className={`flex items-start gap-3 rounded-xl border px-4 py-3 ${style.banner}`}>
+            <span className={`mt-1.5 w-2.5 h-2.5 rounded-full shrink-0 ${style.dot}`} />
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-semibold ${style.label}`}>{alert.title}</p>
+              <p className="text-sm text-[#1A1A2E] mt-0.5">{alert.message}</p>
+            </div>
+            <button
+              onClick={() => acknowledge(alert.id).catch(() => undefined)}
+              className="text-xs font-medium text-[#6B7280] hover:text-gray-900 shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAlerts } from '../../lib/useAlerts';
+import { SEVERITY_STYLES, formatAlertWeek } from './alertStyles';
+
+export default function AlertBell() {
+  const { alerts, unacknowledgedCount, acknowledge } = useAlerts();
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown on an outside click
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  async function handleAcknowledge(id: number) {
+    setBusyId(id);
+    try {
+      await acknowledge(id);
+    } catch {
+      // Left unacknowledged; the button stays available to retry
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="relative p-1.5 rounded-lg text-[#6B7280] hover:text-gray-900 hover:bg-gray-100 transition-colors"
+        aria-label={`Alerts${unacknowledgedCount > 0 ? ` (${unacknowledgedCount} new)` : ''}`}
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.75}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.4-1.4A2 2 0 0118 14.2V11a6 6 0 00-4-5.7V5a2 2 0 10-4 0v.3C7.7 6.1 6 8.4 6 11v3.2c0 .5-.2 1-.6 1.4L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unacknowledgedCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-[#D94F4F] text-white text-[10px] font-semibold leading-4 text-center">
+            {unacknowledgedCount > 99 ? '99+' : unacknowledgedCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-lg border border-gray-100 z-50">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Alerts</h3>
+          </div>
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-[#6B7280] text-center">No active alerts</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {alerts.map((alert) => {
+                const style = SEVERITY_STYLES[alert.severity];
+                return (
+                  <li key={alert.id} className={`px-4 py-3 ${alert.acknowledgedAt ? 'opacity-60' : ''}`}>
+                    <div className="flex items-start gap-2">
+                      <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${style.dot}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-[#1A1A2E] truncate">{alert.title}</p>
+                          <span className="text-xs text-[#6B7280] shrink-0">w/e {formatAlertWeek(alert.weekEnding)}</span>
+                        </div>
+                        <p className="text-xs text-[#6B7280] mt-0.5">{alert.message}</p>
+                        {alert.acknowledgedAt ? (
+                          <p className="text-xs text-[#6B7280] mt-1">
+                            Acknowledged{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}
+                          </p>
+                        ) : (
+                          <button
+                            onClick={() => handleAcknowledge(alert.id)}
+                            disabled={busyId === alert.id}
+                            className="mt-1 text-xs font-medium text-[#4573D2] hover:underline disabled:opacity-50"
+                          >
+                            {busyId === alert.id ? 'Acknowledging…' : 'Acknowledge'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
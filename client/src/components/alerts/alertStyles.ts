@@ -0,0 +1,12 @@
+import type { AlertSeverity } from '../../lib/alertsApi';
+
+export const SEVERITY_STYLES: Record<AlertSeverity, { banner: string; dot: string; label: string }> = {
+  critical: { banner: 'bg-[#D94F4F]/10 border-[#D94F4F]/20', dot: 'bg-[#D94F4F]', label: 'text-[#D94F4F]' },
+  warning: { banner: 'bg-[#E8A442]/10 border-[#E8A442]/20', dot: 'bg-[#E8A442]', label: 'text-[#E8A442]' },
+  info: { banner: 'bg-[#4573D2]/10 border-[#4573D2]/20', dot: 'bg-[#4573D2]', label: 'text-[#4573D2]' },
+};
+
+export function formatAlertWeek(dateStr: string): string {
+  const d = new Date(dateStr.split('T')[0] + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
@@ -3,6 +3,7 @@ import {
   CartesianGrid, Tooltip, ReferenceArea,
 } from 'recharts';
 import type { CostAnalysisPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
 
 function formatWeekLabel(dateStr: string) {
   const d = new Date(dateStr + 'T00:00:00');
@@ -12,9 +13,12 @@ function formatWeekLabel(dateStr: string) {
 export default function CostAnalysisChart({ data }: { data: CostAnalysisPoint[] }) {
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-      <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">
-        Revenue to Staff Ratio Trend
-      </h3>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">
+          Revenue to Staff Ratio Trend
+        </h3>
+        <ExportButtons section="cost-analysis" disabled={data.length === 0} />
+      </div>
       <p className="text-xs text-[#6B7280] mb-4">
         Wages as % of revenue. 55–65% is the healthy benchmark range.
       </p>
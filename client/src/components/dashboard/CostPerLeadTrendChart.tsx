@@ -0,0 +1,87 @@
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { CostPerLeadPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+const SOURCE_COLOURS: Record<string, string> = {
+  google: '#4573D2',
+  seo: '#6AAF50',
+  meta: '#E8A442',
+  bing: '#8B5CF6',
+  tiktok: '#D94F4F',
+  other: '#9CA3AF',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+export default function CostPerLeadTrendChart({
+  data,
+  sources,
+  labels,
+  weeks,
+}: {
+  data: CostPerLeadPoint[];
+  sources: string[];
+  labels: Record<string, string>;
+  weeks: number;
+}) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Cost per Lead by Source ({weeks} Weeks)</h3>
+        <ExportButtons section="cost-per-lead-trend" params={{ weeks }} disabled={data.length === 0} />
+      </div>
+      <p className="text-xs text-[#6B7280] mb-4">Weekly lead cost ÷ lead count. Sources with no cost (e.g. organic) are omitted.</p>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              tickFormatter={(v: number) => `$${v.toFixed(0)}`}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={50}
+            />
+            <Tooltip
+              formatter={(value, name) => [
+                `$${Number(value).toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+                labels[String(name)] ?? String(name),
+              ]}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => labels[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            {sources.map((source) => (
+              <Line
+                key={source}
+                type="monotone"
+                dataKey={source}
+                stroke={SOURCE_COLOURS[source] ?? '#9CA3AF'}
+                strokeWidth={2}
+                dot={{ r: 2 }}
+                activeDot={{ r: 4 }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import EmptyState from '../ui/EmptyState';
 import NetProfitChart from './NetProfitChart';
 import RevenueByCategoryChart from './RevenueByCategoryChart';
 import RegionalPerformanceChart from './RegionalPerformanceChart';
+import ExportButtons from '../ui/ExportButtons';
+import AlertBanner from '../alerts/AlertBanner';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -106,6 +108,12 @@ export default function ExecutiveSummary() {
 
   return (
     <div className="space-y-6">
+      <AlertBanner page="executive_summary" />
+
+      <div className="flex justify-end">
+        <ExportButtons section="executive-kpis" pdf />
+      </div>
+
       {/* ── KPI Cards ── */}
       <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-7 gap-4">
         {/* 1. Net Profit */}
@@ -204,8 +212,9 @@ export default function ExecutiveSummary() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Project Summary */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="px-4 py-3 border-b border-gray-100">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
             <h3 className="text-sm font-semibold text-[#1A1A2E]">Project Summary</h3>
+            <ExportButtons section="project-summary" />
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
@@ -246,8 +255,9 @@ export default function ExecutiveSummary() {
 
         {/* Sales Pipeline Summary */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="px-4 py-3 border-b border-gray-100">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
             <h3 className="text-sm font-semibold text-[#1A1A2E]">Sales Pipeline</h3>
+            <ExportButtons section="sales-summary" />
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
@@ -282,8 +292,9 @@ export default function ExecutiveSummary() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Lead Source Breakdown */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="px-4 py-3 border-b border-gray-100">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
             <h3 className="text-sm font-semibold text-[#1A1A2E]">Lead Sources</h3>
+            <ExportButtons section="lead-sources" disabled={leadBreakdown.length === 0} />
           </div>
           {leadBreakdown.length === 0 ? (
             <div className="p-8 text-center text-[#6B7280] text-sm">No lead data for this week.</div>
@@ -335,8 +346,9 @@ export default function ExecutiveSummary() {
 
         {/* Google Reviews */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="px-4 py-3 border-b border-gray-100">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
             <h3 className="text-sm font-semibold text-[#1A1A2E]">Google Reviews</h3>
+            <ExportButtons section="google-reviews" disabled={!reviews} />
           </div>
           {reviews ? (
             <div className="p-6">
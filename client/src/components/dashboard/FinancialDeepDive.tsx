@@ -11,6 +11,8 @@ import EmptyState from '../ui/EmptyState';
 import NetRevenueToggle from '../ui/NetRevenueToggle';
 import CostAnalysisChart from './CostAnalysisChart';
 import RevenueBreakdownChart from './RevenueBreakdownChart';
+import ExportButtons from '../ui/ExportButtons';
+import AlertBanner from '../alerts/AlertBanner';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -110,31 +112,36 @@ export default function FinancialDeepDive() {
 
   return (
     <div className="space-y-6">
+      <AlertBanner page="financial_deep_dive" />
+
       {/* ── P&L Summary ── */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
           <h3 className="text-sm font-semibold text-[#1A1A2E]">Profit & Loss Summary</h3>
-          <div className="flex items-center gap-1">
-            <button
-              onClick={() => setPlView('weekly')}
-              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
-                plView === 'weekly'
-                  ? 'bg-[#4573D2]/10 text-[#4573D2]'
-                  : 'text-[#6B7280] hover:bg-gray-100'
-              }`}
-            >
-              Weekly
-            </button>
-            <button
-              onClick={() => setPlView('monthly')}
-              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
-                plView === 'monthly'
-                  ? 'bg-[#4573D2]/10 text-[#4573D2]'
-                  : 'text-[#6B7280] hover:bg-gray-100'
-              }`}
-            >
-              Monthly
-            </button>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setPlView('weekly')}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  plView === 'weekly'
+                    ? 'bg-[#4573D2]/10 text-[#4573D2]'
+                    : 'text-[#6B7280] hover:bg-gray-100'
+                }`}
+              >
+                Weekly
+              </button>
+              <button
+                onClick={() => setPlView('monthly')}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  plView === 'monthly'
+                    ? 'bg-[#4573D2]/10 text-[#4573D2]'
+                    : 'text-[#6B7280] hover:bg-gray-100'
+                }`}
+              >
+                Monthly
+              </button>
+            </div>
+            <ExportButtons section={plView === 'weekly' ? 'pl-weekly' : 'pl-monthly'} />
           </div>
         </div>
 
@@ -210,7 +217,10 @@ export default function FinancialDeepDive() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-semibold text-[#1A1A2E]">Revenue Comparison</h3>
-          <NetRevenueToggle enabled={netRevenue} onChange={setNetRevenue} />
+          <div className="flex items-center gap-3">
+            <NetRevenueToggle enabled={netRevenue} onChange={setNetRevenue} />
+            <ExportButtons section="revenue-comparison" />
+          </div>
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
           <div>
@@ -261,9 +271,12 @@ export default function FinancialDeepDive() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
           <h3 className="text-sm font-semibold text-[#1A1A2E]">Revenue by Income Category</h3>
-          <span className="text-xs text-[#6B7280]">
-            {netRevenue ? `Net: ${fmtAUD(revenueBreakdown.netTotal)}` : `Gross: ${fmtAUD(revenueBreakdown.grossTotal)}`}
-          </span>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-[#6B7280]">
+              {netRevenue ? `Net: ${fmtAUD(revenueBreakdown.netTotal)}` : `Gross: ${fmtAUD(revenueBreakdown.grossTotal)}`}
+            </span>
+            <ExportButtons section="revenue-breakdown" disabled={revenueBreakdown.categories.length === 0} />
+          </div>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
@@ -305,7 +318,10 @@ export default function FinancialDeepDive() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Cash Position Card */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-          <h3 className="text-sm font-semibold text-[#1A1A2E] mb-4">Cash Position</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Cash Position</h3>
+            <ExportButtons section="cash-position" disabled={!cashPosition} />
+          </div>
           {cashPosition ? (
             <div className="space-y-3">
               {[
@@ -334,7 +350,10 @@ export default function FinancialDeepDive() {
 
         {/* Aged Receivables */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-          <h3 className="text-sm font-semibold text-[#1A1A2E] mb-4">Aged Receivables</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Aged Receivables</h3>
+            <ExportButtons section="aged-receivables" disabled={!agedReceivables} />
+          </div>
           {agedReceivables ? (
             <div className="space-y-3">
               {/* Visual bar */}
@@ -394,8 +413,9 @@ export default function FinancialDeepDive() {
 
       {/* ── Upcoming Liabilities ── */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="px-6 py-4 border-b border-gray-100">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
           <h3 className="text-sm font-semibold text-[#1A1A2E]">Upcoming Liabilities</h3>
+          <ExportButtons section="upcoming-liabilities" disabled={upcomingLiabilities.length === 0} />
         </div>
         {upcomingLiabilities.length === 0 ? (
           <div className="p-8 text-center text-[#6B7280] text-sm">No upcoming liabilities.</div>
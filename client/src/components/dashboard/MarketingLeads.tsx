@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { useWeek } from '../../lib/WeekContext';
+import {
+  fetchMarketingLeads,
+  type MarketingLeadsData,
+  type TrendWindow,
+} from '../../lib/dashboardApi';
+import KPICard from '../ui/KPICard';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+import TrendWindowToggle from '../ui/TrendWindowToggle';
+import CostPerLeadTrendChart from './CostPerLeadTrendChart';
+import SpendVsLeadsChart from './SpendVsLeadsChart';
+import PlatformTrendChart from './PlatformTrendChart';
+import WebsiteTrafficChart from './WebsiteTrafficChart';
+import ReviewsTrendChart from './ReviewsTrendChart';
+import ExportButtons from '../ui/ExportButtons';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function fmtAUD2(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function fmtNum(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { maximumFractionDigits: 1 });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function MarketingLeads() {
+  const { selectedWeek, loading: weekLoading } = useWeek();
+  const [weeks, setWeeks] = useState<TrendWindow>(13);
+  const [data, setData] = useState<MarketingLeadsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The request the data or error answers; loading until it's the current one
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const request = `${selectedWeek}:${weeks}`;
+  const loading = loadedFor !== request;
+
+  useEffect(() => {
+    if (!selectedWeek) return;
+    let cancelled = false;
+
+    fetchMarketingLeads(selectedWeek, weeks)
+      .then((result) => { if (!cancelled) { setData(result); setError(null); } })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoadedFor(request); });
+
+    return () => { cancelled = true; };
+  }, [selectedWeek, weeks, request]);
+
+  if (weekLoading || loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="kpi" count={5} />
+        <LoadingSkeleton variant="chart" />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <LoadingSkeleton variant="chart" />
+          <LoadingSkeleton variant="table" count={6} />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading data" message={error} />;
+  if (!data || !data.hasData) {
+    return <EmptyState title="No data available" message="There is no marketing data in the selected window. Try a longer window or upload marketing data." />;
+  }
+
+  const { summary, bySource, costPerLeadTrend, platformTrend, attribution, spendVsLeadsTrend, websiteTrend, reviewsTrend } = data;
+  const paidSources = bySource.filter((s) => s.totalCost > 0).map((s) => s.source);
+  const activeChannels = attribution.filter((a) => a.spend > 0 || a.leads > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* ── Window selector ── */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-[#6B7280]">
+          Totals across the {weeks} weeks ending on the selected week
+        </p>
+        <TrendWindowToggle value={weeks} onChange={setWeeks} />
+      </div>
+
+      {/* ── KPI Cards ── */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-5 gap-4">
+        <KPICard
+          label="Total Leads"
+          value={fmtNum(summary.totalLeads)}
+        />
+        <KPICard
+          label="Avg Cost per Lead"
+          value={fmtAUD2(summary.avgCostPerLead)}
+          comparisonLabel="Lead cost"
+          comparisonValue={fmtAUD(summary.totalLeadCost)}
+          tooltip="Total lead cost ÷ total leads across all sources"
+        />
+        <KPICard
+          label="Ad Spend"
+          value={fmtAUD(summary.totalAdSpend)}
+          tooltip="Total cost reported by the ad platforms"
+        />
+        <KPICard
+          label="Website Sessions"
+          value={fmtNum(summary.totalSessions)}
+        />
+        <KPICard
+          label="Google Rating"
+          value={summary.latestRating != null ? `${summary.latestRating.toFixed(2)} ★` : '—'}
+          tooltip="Cumulative average rating as at the latest week in the window"
+        />
+      </div>
+
+      {/* ── Spend vs Leads + CPL trend ── */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <SpendVsLeadsChart data={spendVsLeadsTrend} weeks={weeks} />
+        <CostPerLeadTrendChart data={costPerLeadTrend} sources={paidSources} labels={data.sourceLabels} weeks={weeks} />
+      </div>
+
+      {/* ── Lead Source + Attribution Tables ── */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Cost per lead by source */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Cost per Lead by Source</h3>
+            <ExportButtons section="leads-by-source" params={{ weeks }} />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Source</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Leads</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Cost</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">CPL</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {bySource.map((row) => (
+                  <tr key={row.source}>
+                    <td className="px-4 py-2.5 text-[#1A1A2E] font-medium">{row.label}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.leadCount)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(row.totalCost)}</td>
+                    <td className="px-4 py-2.5 text-right font-semibold text-[#4573D2]">{fmtAUD2(row.costPerLead)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-4 py-2.5 text-[#1A1A2E]">Total</td>
+                  <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(summary.totalLeads)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(summary.totalLeadCost)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#4573D2]">{fmtAUD2(summary.avgCostPerLead)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Spend vs leads attribution */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-semibold text-[#1A1A2E]">Spend vs Leads Attribution</h3>
+              <p className="text-xs text-[#6B7280] mt-0.5">Each platform's spend matched to its lead source</p>
+            </div>
+            <ExportButtons section="attribution" params={{ weeks }} />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Channel</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Spend</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">% Spend</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Leads</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">% Leads</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">CPL</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {activeChannels.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-[#6B7280]">No platform data in this window</td>
+                  </tr>
+                )}
+                {activeChannels.map((row) => (
+                  <tr key={row.platform}>
+                    <td className="px-4 py-2.5 text-[#1A1A2E] font-medium">{row.label}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(row.spend)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#6B7280]">{fmtPct(row.shareOfSpend)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.leads)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#6B7280]">{fmtPct(row.shareOfLeads)}</td>
+                    <td className={`px-4 py-2.5 text-right font-semibold ${
+                      row.shareOfLeads >= row.shareOfSpend ? 'text-[#6AAF50]' : 'text-[#D94F4F]'
+                    }`}>
+                      {fmtAUD2(row.costPerLead)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* ── Ad Platform Trends ── */}
+      {platformTrend.length > 0 && <PlatformTrendChart platforms={platformTrend} weeks={weeks} />}
+
+      {/* ── Website + Reviews ── */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {websiteTrend.length > 0
+          ? <WebsiteTrafficChart data={websiteTrend} weeks={weeks} />
+          : <EmptyState title="No website data" message="Upload website analytics to see sessions and bounce rate." />}
+        {reviewsTrend.length > 0
+          ? <ReviewsTrendChart data={reviewsTrend} weeks={weeks} />
+          : <EmptyState title="No review data" message="Upload Google reviews to see the rating trend." />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { useWeek } from '../../lib/WeekContext';
+import {
+  fetchOperations,
+  fetchStaffTrend,
+  type OperationsData,
+  type StaffLeaderboardRow,
+  type StaffTrendData,
+  type TrendWindow,
+} from '../../lib/dashboardApi';
+import KPICard from '../ui/KPICard';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+import TrendWindowToggle from '../ui/TrendWindowToggle';
+import StaffTrendChart from './StaffTrendChart';
+import ExportButtons from '../ui/ExportButtons';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function fmtAUD2(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function fmtNum(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU');
+}
+
+/** Call durations are imported in seconds; show as m:ss. */
+function fmtDuration(seconds: number | null | undefined): string {
+  if (seconds == null) return '—';
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+const ROLE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'certifier', label: 'Certifier' },
+  { value: 'cadet', label: 'Cadet' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'town_planner', label: 'Town Planner' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'other', label: 'Other' },
+];
+
+const REGION_OPTIONS: { value: string; label: string }[] = [
+  { value: 'cairns', label: 'Cairns' },
+  { value: 'mackay', label: 'Mackay' },
+  { value: 'nq_commercial', label: 'NQ Commercial' },
+  { value: 'seq_residential', label: 'SEQ Residential' },
+  { value: 'seq_commercial', label: 'SEQ Commercial' },
+  { value: 'town_planning', label: 'Town Planning' },
+  { value: 'townsville', label: 'Townsville' },
+  { value: 'wide_bay', label: 'Wide Bay' },
+  { value: 'all_in_access', label: 'All In Access' },
+];
+
+type SortKey = 'revenueGenerated' | 'jobsCompleted' | 'inspectionsCompleted' | 'totalCalls' | 'missedCallRate' | 'avgCallDuration' | 'revenuePerCall';
+
+const COLUMNS: { key: SortKey; label: string; format: (row: StaffLeaderboardRow) => string }[] = [
+  { key: 'jobsCompleted', label: 'Jobs', format: (r) => fmtNum(r.jobsCompleted) },
+  { key: 'inspectionsCompleted', label: 'Inspections', format: (r) => fmtNum(r.inspectionsCompleted) },
+  { key: 'revenueGenerated', label: 'Revenue', format: (r) => fmtAUD(r.revenueGenerated) },
+  { key: 'totalCalls', label: 'Calls', format: (r) => fmtNum(r.totalCalls) },
+  { key: 'missedCallRate', label: 'Missed %', format: (r) => fmtPct(r.missedCallRate) },
+  { key: 'avgCallDuration', label: 'Avg Call', format: (r) => fmtDuration(r.avgCallDuration) },
+  { key: 'revenuePerCall', label: 'Rev / Call', format: (r) => fmtAUD2(r.revenuePerCall) },
+];
+
+/** Missed-call rate is the only column where lower is better. */
+function sortRows(rows: StaffLeaderboardRow[], key: SortKey): StaffLeaderboardRow[] {
+  const direction = key === 'missedCallRate' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const av = a[key];
+    const bv = b[key];
+    if (av == null && bv == null) return a.staffName.localeCompare(b.staffName);
+    if (av == null) return 1;
+    if (bv == null) return -1;
+    return (av - bv) * direction || a.staffName.localeCompare(b.staffName);
+  });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function Operations() {
+  const { selectedWeek, loading: weekLoading } = useWeek();
+  const [weeks, setWeeks] = useState<TrendWindow>(13);
+  const [role, setRole] = useState('');
+  const [region, setRegion] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('revenueGenerated');
+  const [data, setData] = useState<OperationsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The request the data or error answers; loading until it's the current one
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const request = `${selectedWeek}:${weeks}:${role}:${region}`;
+  const loading = loadedFor !== request;
+
+  const [selectedStaff, setSelectedStaff] = useState<string | null>(null);
+  const [staffTrend, setStaffTrend] = useState<StaffTrendData | null>(null);
+  const [trendFor, setTrendFor] = useState<string | null>(null);
+  const trendRequest = `${selectedWeek}:${weeks}:${selectedStaff}`;
+  const trendLoading = trendFor !== trendRequest;
+
+  useEffect(() => {
+    if (!selectedWeek) return;
+    let cancelled = false;
+
+    fetchOperations(selectedWeek, weeks, { role, region })
+      .then((result) => { if (!cancelled) { setData(result); setError(null); } })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoadedFor(request); });
+
+    return () => { cancelled = true; };
+  }, [selectedWeek, weeks, role, region, request]);
+
+  useEffect(() => {
+    if (!selectedWeek || !selectedStaff) return;
+    let cancelled = false;
+
+    fetchStaffTrend(selectedWeek, weeks, selectedStaff)
+      .then((result) => { if (!cancelled) setStaffTrend(result); })
+      .catch(() => { if (!cancelled) setStaffTrend(null); })
+      .finally(() => { if (!cancelled) setTrendFor(trendRequest); });
+
+    return () => { cancelled = true; };
+  }, [selectedWeek, weeks, selectedStaff, trendRequest]);
+
+  function toggleStaff(staffName: string) {
+    setSelectedStaff((current) => (current === staffName ? null : staffName));
+  }
+
+  const filters = (
+    <div className="flex items-center justify-between">
+      <div className="flex gap-3">
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          className="text-sm border border-gray-200 rounded-lg px-3 py-2 bg-white text-gray-700"
+        >
+          <option value="">All Roles</option>
+          {ROLE_OPTIONS.map((r) => (
+            <option key={r.value} value={r.value}>{r.label}</option>
+          ))}
+        </select>
+        <select
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+          className="text-sm border border-gray-200 rounded-lg px-3 py-2 bg-white text-gray-700"
+        >
+          <option value="">All Regions</option>
+          {REGION_OPTIONS.map((r) => (
+            <option key={r.value} value={r.value}>{r.label}</option>
+          ))}
+        </select>
+      </div>
+      <TrendWindowToggle value={weeks} onChange={setWeeks} />
+    </div>
+  );
+
+  if (weekLoading || loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="kpi" count={5} />
+        <LoadingSkeleton variant="table" count={8} />
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading data" message={error} />;
+  if (!data || !data.hasData) {
+    return (
+      <div className="space-y-6">
+        {filters}
+        <EmptyState
+          title="No data available"
+          message={role || region
+            ? 'No staff match these filters in the selected window.'
+            : 'There is no staff productivity or phone data in the selected window. Try a longer window or upload data.'}
+        />
+      </div>
+    );
+  }
+
+  const { summary } = data;
+  const rows = sortRows(data.leaderboard, sortKey);
+
+  return (
+    <div className="space-y-6">
+      {filters}
+
+      {/* ── KPI Cards ── */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-5 gap-4">
+        <KPICard
+          label="Jobs Completed"
+          value={fmtNum(summary.jobsCompleted)}
+          comparisonLabel="Inspections"
+          comparisonValue={fmtNum(summary.inspectionsCompleted)}
+        />
+        <KPICard
+          label="Revenue Generated"
+          value={fmtAUD(summary.revenueGenerated)}
+          comparisonLabel="Staff"
+          comparisonValue={fmtNum(summary.staffCount)}
+        />
+        <KPICard
+          label="Calls Handled"
+          value={fmtNum(summary.totalCalls)}
+          comparisonLabel="Inbound"
+          comparisonValue={fmtNum(summary.inboundCalls)}
+        />
+        <KPICard
+          label="Missed-Call Rate"
+          value={fmtPct(summary.missedCallRate)}
+          comparisonLabel="Avg call"
+          comparisonValue={fmtDuration(summary.avgCallDuration)}
+          tooltip="Missed calls ÷ inbound calls. Average call duration is weighted by answered calls."
+        />
+        <KPICard
+          label="Revenue per Call"
+          value={fmtAUD2(summary.revenuePerCall)}
+          tooltip="Revenue generated ÷ calls handled (inbound + outbound), matched by staff name"
+        />
+      </div>
+
+      {/* ── Leaderboard ── */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Staff Leaderboard</h3>
+            <p className="text-xs text-[#6B7280] mt-0.5">Click a column to rank by it; click a name to see their weekly trend</p>
+          </div>
+          <ExportButtons section="staff-leaderboard" params={{ weeks, role, region }} />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-100">
+                <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">#</th>
+                <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Staff</th>
+                <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Role</th>
+                <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Region</th>
+                {COLUMNS.map((col) => (
+                  <th
+                    key={col.key}
+                    onClick={() => setSortKey(col.key)}
+                    className={`px-4 py-2.5 text-right text-xs font-semibold uppercase tracking-wider cursor-pointer select-none ${
+                      sortKey === col.key ? 'text-[#4573D2]' : 'text-[#6B7280] hover:text-[#1A1A2E]'
+                    }`}
+                  >
+                    {col.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {rows.map((row, i) => (
+                <tr
+                  key={row.staffName}
+                  onClick={() => toggleStaff(row.staffName)}
+                  className={`cursor-pointer transition-colors ${
+                    selectedStaff === row.staffName ? 'bg-[#4573D2]/5' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <td className="px-4 py-2.5 text-[#6B7280]">{i + 1}</td>
+                  <td className="px-4 py-2.5 text-[#1A1A2E] font-medium whitespace-nowrap">{row.staffName}</td>
+                  <td className="px-4 py-2.5 text-[#6B7280]">{row.roleLabel ?? '—'}</td>
+                  <td className="px-4 py-2.5 text-[#6B7280] whitespace-nowrap">{row.regionLabel ?? '—'}</td>
+                  {COLUMNS.map((col) => (
+                    <td
+                      key={col.key}
+                      className={`px-4 py-2.5 text-right ${
+                        sortKey === col.key ? 'font-semibold text-[#4573D2]' : 'text-[#1A1A2E]'
+                      }`}
+                    >
+                      {col.format(row)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ── Per-person drill-down ── */}
+      {selectedStaff && (
+        trendLoading ? (
+          <LoadingSkeleton variant="chart" />
+        ) : staffTrend && staffTrend.staffName === selectedStaff && staffTrend.hasData ? (
+          <StaffTrendChart data={staffTrend.trend} staffName={selectedStaff} weeks={weeks} />
+        ) : (
+          <EmptyState title="No trend data" message={`No weekly data for ${selectedStaff} in the selected window.`} />
+        )
+      )}
+    </div>
+  );
+}
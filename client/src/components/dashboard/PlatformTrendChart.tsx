@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { PlatformTrend } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+type PlatformMetric = 'ctr' | 'cpc' | 'conversionRate';
+
+const METRIC_LABELS: Record<PlatformMetric, string> = {
+  ctr: 'CTR',
+  cpc: 'CPC',
+  conversionRate: 'Conversion Rate',
+};
+
+const PLATFORM_COLOURS: Record<string, string> = {
+  google_ads: '#4573D2',
+  meta_ads: '#E8A442',
+  bing_ads: '#8B5CF6',
+  tiktok_ads: '#D94F4F',
+  seo: '#6AAF50',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+function formatMetric(metric: PlatformMetric, val: number) {
+  return metric === 'cpc' ? `$${val.toFixed(2)}` : `${val.toFixed(2)}%`;
+}
+
+/**
+ * Pivot per-platform weekly rows into one row per week keyed by platform,
+ * as recharts expects a single data array for multi-series lines.
+ */
+function pivot(platforms: PlatformTrend[], metric: PlatformMetric) {
+  const byWeek = new Map<string, Record<string, string | number | null>>();
+  for (const p of platforms) {
+    for (const w of p.weeks) {
+      if (!byWeek.has(w.weekEnding)) byWeek.set(w.weekEnding, { weekEnding: w.weekEnding });
+      byWeek.get(w.weekEnding)![p.platform] = w[metric];
+    }
+  }
+  return Array.from(byWeek.values()).sort((a, b) =>
+    String(a.weekEnding).localeCompare(String(b.weekEnding))
+  );
+}
+
+export default function PlatformTrendChart({ platforms, weeks }: { platforms: PlatformTrend[]; weeks: number }) {
+  const [metric, setMetric] = useState<PlatformMetric>('ctr');
+  const data = pivot(platforms, metric);
+  const labels = Object.fromEntries(platforms.map((p) => [p.platform, p.label]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">Ad Platform Performance ({weeks} Weeks)</h3>
+          <p className="text-xs text-[#6B7280]">
+            {metric === 'ctr' && 'Clicks ÷ impressions'}
+            {metric === 'cpc' && 'Spend ÷ clicks'}
+            {metric === 'conversionRate' && 'Conversions ÷ clicks'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            {(Object.keys(METRIC_LABELS) as PlatformMetric[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  metric === m ? 'bg-[#4573D2]/10 text-[#4573D2]' : 'text-[#6B7280] hover:bg-gray-100'
+                }`}
+              >
+                {METRIC_LABELS[m]}
+              </button>
+            ))}
+          </div>
+          <ExportButtons section="platform-trend" params={{ weeks }} disabled={platforms.length === 0} />
+        </div>
+      </div>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              tickFormatter={(v: number) => formatMetric(metric, v)}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={55}
+            />
+            <Tooltip
+              formatter={(value, name) => [formatMetric(metric, Number(value)), labels[String(name)] ?? String(name)]}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => labels[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            {platforms.map((p) => (
+              <Line
+                key={p.platform}
+                type="monotone"
+                dataKey={p.platform}
+                stroke={PLATFORM_COLOURS[p.platform] ?? '#9CA3AF'}
+                strokeWidth={2}
+                dot={{ r: 2 }}
+                activeDot={{ r: 4 }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import {
+  ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { SalesTrendPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+const SERIES_LABELS: Record<string, string> = {
+  issuedValue: 'Quotes Issued ($)',
+  wonValue: 'Quotes Won ($)',
+  issuedCount: 'Quotes Issued (#)',
+  wonCount: 'Quotes Won (#)',
+  winRate: 'Win Rate',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+function formatCurrency(val: number) {
+  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}k`;
+  return `$${val.toFixed(0)}`;
+}
+
+export default function QuotesTrendChart({
+  data,
+  weeks,
+  metric,
+}: {
+  data: SalesTrendPoint[];
+  weeks: number;
+  metric: 'value' | 'count';
+}) {
+  const issuedKey = metric === 'value' ? 'issuedValue' : 'issuedCount';
+  const wonKey = metric === 'value' ? 'wonValue' : 'wonCount';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Quotes Issued vs Won ({weeks} Weeks)</h3>
+        <ExportButtons section="sales-trend" params={{ weeks }} disabled={data.length === 0} />
+      </div>
+      <p className="text-xs text-[#6B7280] mb-4">
+        Bars show {metric === 'value' ? 'quote value' : 'quote count'} per week; the line shows win rate by count
+      </p>
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              yAxisId="left"
+              tickFormatter={metric === 'value' ? formatCurrency : undefined}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={60}
+            />
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              tickFormatter={(v: number) => `${v}%`}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={45}
+              domain={[0, 100]}
+            />
+            <Tooltip
+              formatter={(value, name) => {
+                const key = String(name);
+                const num = Number(value);
+                if (key === 'winRate') return [`${num.toFixed(1)}%`, SERIES_LABELS[key]];
+                if (key.endsWith('Value')) {
+                  return [`$${num.toLocaleString('en-AU', { minimumFractionDigits: 2 })}`, SERIES_LABELS[key]];
+                }
+                return [num.toLocaleString('en-AU'), SERIES_LABELS[key] ?? key];
+              }}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => SERIES_LABELS[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            <Bar yAxisId="left" dataKey={issuedKey} fill="#4573D2" fillOpacity={0.35} radius={[3, 3, 0, 0]} />
+            <Bar yAxisId="left" dataKey={wonKey} fill="#4573D2" radius={[3, 3, 0, 0]} />
+            <Line
+              yAxisId="right"
+              type="monotone"
+              dataKey="winRate"
+              stroke="#6AAF50"
+              strokeWidth={2}
+              dot={{ r: 3, fill: '#6AAF50' }}
+              activeDot={{ r: 5 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
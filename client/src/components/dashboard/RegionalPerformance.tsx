@@ -8,6 +8,8 @@ import {
 import LoadingSkeleton from '../ui/LoadingSkeleton';
 import EmptyState from '../ui/EmptyState';
 import RegionalTrendChart from './RegionalTrendChart';
+import ExportButtons from '../ui/ExportButtons';
+import AlertBanner from '../alerts/AlertBanner';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -98,6 +100,8 @@ export default function RegionalPerformance() {
 
   return (
     <div className="space-y-6">
+      <AlertBanner page="regional_performance" />
+
       {/* ── Region Card Grid ── */}
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
         {teams.map((team) => (
@@ -141,14 +145,17 @@ export default function RegionalPerformance() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
           <h3 className="text-sm font-semibold text-[#1A1A2E]">Regional Comparison</h3>
-          {selectedRegion && (
-            <button
-              onClick={() => setSelectedRegion(null)}
-              className="text-xs text-[#4573D2] hover:underline"
-            >
-              Show all teams
-            </button>
-          )}
+          <div className="flex items-center gap-3">
+            {selectedRegion && (
+              <button
+                onClick={() => setSelectedRegion(null)}
+                className="text-xs text-[#4573D2] hover:underline"
+              >
+                Show all teams
+              </button>
+            )}
+            <ExportButtons section="regional-comparison" />
+          </div>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
@@ -202,10 +209,15 @@ export default function RegionalPerformance() {
       {/* ── Drill-Down: Weekly Detail ── */}
       {selectedRegion && selected && drillDown[selectedRegion] && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-100">
+          <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
             <h3 className="text-sm font-semibold text-[#1A1A2E]">
               {selected.label} — Weekly Detail
             </h3>
+            <ExportButtons
+              section="regional-drilldown"
+              params={{ region: selectedRegion }}
+              disabled={drillDown[selectedRegion].length === 0}
+            />
           </div>
           {drillDown[selectedRegion].length === 0 ? (
             <div className="p-8 text-center text-[#6B7280] text-sm">No weekly data available.</div>
@@ -3,6 +3,7 @@ import {
   CartesianGrid, Tooltip, Cell,
 } from 'recharts';
 import type { TeamPerformanceRow } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
 
 function formatCurrency(val: number) {
   if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}k`;
@@ -39,7 +40,10 @@ export default function RegionalPerformanceChart({ data }: { data: TeamPerforman
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-      <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">Regional Team Performance vs Target</h3>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Regional Team Performance vs Target</h3>
+        <ExportButtons section="team-performance" disabled={data.length === 0} />
+      </div>
       <div className="flex items-center gap-4 mb-4">
         <span className="flex items-center gap-1.5 text-xs text-[#6B7280]">
           <span className="w-2.5 h-2.5 rounded-full bg-[#6AAF50] inline-block" /> &ge; 80%
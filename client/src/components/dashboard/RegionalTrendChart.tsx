@@ -2,6 +2,7 @@ import {
   ResponsiveContainer, LineChart, Line, XAxis, YAxis,
   CartesianGrid, Tooltip, Legend,
 } from 'recharts';
+import ExportButtons from '../ui/ExportButtons';
 
 const TEAM_COLORS: Record<string, string> = {
   cairns: '#4573D2',
@@ -38,11 +39,18 @@ export default function RegionalTrendChart({ data, regions, regionLabels, select
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-      <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">
-        {selectedRegion
-          ? `${regionLabels[selectedRegion]} — 13-Week Trend`
-          : 'All Teams — 13-Week Trend'}
-      </h3>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">
+          {selectedRegion
+            ? `${regionLabels[selectedRegion]} — 13-Week Trend`
+            : 'All Teams — 13-Week Trend'}
+        </h3>
+        <ExportButtons
+          section={selectedRegion ? 'regional-drilldown' : 'regional-trend'}
+          params={selectedRegion ? { region: selectedRegion } : undefined}
+          disabled={data.length === 0}
+        />
+      </div>
       <p className="text-xs text-[#6B7280] mb-4">
         Actual invoiced per week by team
       </p>
@@ -2,6 +2,7 @@ import {
   ResponsiveContainer, AreaChart, Area, XAxis, YAxis,
   CartesianGrid, Tooltip, Legend,
 } from 'recharts';
+import ExportButtons from '../ui/ExportButtons';
 
 // Top categories to show individually; rest go into "Other"
 const TOP_CATEGORIES = [
@@ -81,9 +82,12 @@ export default function RevenueBreakdownChart({ data, netRevenue, passThroughCat
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-      <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">
-        Revenue by Income Category (13 Weeks)
-      </h3>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">
+          Revenue by Income Category (13 Weeks)
+        </h3>
+        <ExportButtons section="revenue-trend" disabled={data.length === 0} />
+      </div>
       <p className="text-xs text-[#6B7280] mb-4">
         {netRevenue ? 'Net revenue (pass-through items excluded)' : 'Gross revenue (all categories)'}
       </p>
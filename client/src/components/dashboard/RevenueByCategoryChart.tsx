@@ -3,6 +3,7 @@ import {
   CartesianGrid, Tooltip, Legend,
 } from 'recharts';
 import type { RevenueByCategoryPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
 
 function formatWeekLabel(dateStr: string) {
   const d = new Date(dateStr + 'T00:00:00');
@@ -29,7 +30,10 @@ const LABELS: Record<string, string> = {
 export default function RevenueByCategoryChart({ data }: { data: RevenueByCategoryPoint[] }) {
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-      <h3 className="text-sm font-semibold text-[#1A1A2E] mb-4">Revenue by Category (13 Weeks)</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Revenue by Category (13 Weeks)</h3>
+        <ExportButtons section="revenue-by-category-trend" disabled={data.length === 0} />
+      </div>
       <div className="h-72">
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
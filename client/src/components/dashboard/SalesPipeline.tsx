@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { useWeek } from '../../lib/WeekContext';
+import {
+  fetchSalesPipeline,
+  type SalesPipelineData,
+  type SalesHeatmapCell,
+  type TrendWindow,
+} from '../../lib/dashboardApi';
+import KPICard from '../ui/KPICard';
+import LoadingSkeleton from '../ui/LoadingSkeleton';
+import EmptyState from '../ui/EmptyState';
+import TrendWindowToggle from '../ui/TrendWindowToggle';
+import QuotesTrendChart from './QuotesTrendChart';
+import ExportButtons from '../ui/ExportButtons';
+import AlertBanner from '../alerts/AlertBanner';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function fmtNum(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU');
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/**
+ * Heatmap cell shading: stronger blue for higher win rates, grey when no quotes.
+ */
+function heatmapStyle(cell: SalesHeatmapCell): React.CSSProperties {
+  if (!cell.hasData || cell.issuedCount === 0) return { backgroundColor: '#F9FAFB' };
+  const alpha = Math.min(Math.max(cell.winRate / 100, 0.08), 1);
+  return { backgroundColor: `rgba(69, 115, 210, ${alpha.toFixed(2)})` };
+}
+
+const SALES_TYPES = ['residential', 'commercial', 'retrospective'];
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function SalesPipeline() {
+  const { selectedWeek, loading: weekLoading } = useWeek();
+  const [weeks, setWeeks] = useState<TrendWindow>(13);
+  const [metric, setMetric] = useState<'value' | 'count'>('value');
+  const [data, setData] = useState<SalesPipelineData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The request the data or error answers; loading until it's the current one
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const request = `${selectedWeek}:${weeks}`;
+  const loading = loadedFor !== request;
+
+  useEffect(() => {
+    if (!selectedWeek) return;
+    let cancelled = false;
+
+    fetchSalesPipeline(selectedWeek, weeks)
+      .then((result) => { if (!cancelled) { setData(result); setError(null); } })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoadedFor(request); });
+
+    return () => { cancelled = true; };
+  }, [selectedWeek, weeks, request]);
+
+  if (weekLoading || loading) {
+    return (
+      <div className="space-y-6">
+        <LoadingSkeleton variant="kpi" count={5} />
+        <LoadingSkeleton variant="chart" />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <LoadingSkeleton variant="table" count={3} />
+          <LoadingSkeleton variant="table" count={9} />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) return <EmptyState title="Error loading data" message={error} />;
+  if (!data || !data.hasData) {
+    return <EmptyState title="No data available" message="There is no sales data in the selected window. Try a longer window or upload sales data." />;
+  }
+
+  const { summary, byType, byRegion, heatmap, trend } = data;
+
+  return (
+    <div className="space-y-6">
+      <AlertBanner page="sales_pipeline" />
+
+      {/* ── Window selector ── */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-[#6B7280]">
+          Totals across the {weeks} weeks ending on the selected week
+        </p>
+        <TrendWindowToggle value={weeks} onChange={setWeeks} />
+      </div>
+
+      {/* ── KPI Cards ── */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-5 gap-4">
+        <KPICard
+          label="Quotes Issued"
+          value={fmtNum(summary.issuedCount)}
+          comparisonLabel="Value"
+          comparisonValue={fmtAUD(summary.issuedValue)}
+        />
+        <KPICard
+          label="Quotes Won"
+          value={fmtNum(summary.wonCount)}
+          comparisonLabel="Value"
+          comparisonValue={fmtAUD(summary.wonValue)}
+        />
+        <KPICard
+          label="Win Rate"
+          value={fmtPct(summary.winRate)}
+          comparisonLabel="By value"
+          comparisonValue={fmtPct(summary.valueWinRate)}
+          tooltip="Quotes won ÷ quotes issued (by count). The value rate uses quote dollars instead."
+        />
+        <KPICard
+          label="Avg Quote Value"
+          value={fmtAUD(summary.avgQuoteValue)}
+          tooltip="Quotes issued value ÷ quotes issued count"
+        />
+        <KPICard
+          label="Avg Won Value"
+          value={fmtAUD(summary.avgWonValue)}
+        />
+      </div>
+
+      {/* ── Trend Chart ── */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-end gap-1">
+          <button
+            onClick={() => setMetric('value')}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+              metric === 'value' ? 'bg-[#4573D2]/10 text-[#4573D2]' : 'text-[#6B7280] hover:bg-gray-100'
+            }`}
+          >
+            Value
+          </button>
+          <button
+            onClick={() => setMetric('count')}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+              metric === 'count' ? 'bg-[#4573D2]/10 text-[#4573D2]' : 'text-[#6B7280] hover:bg-gray-100'
+            }`}
+          >
+            Count
+          </button>
+        </div>
+        <QuotesTrendChart data={trend} weeks={weeks} metric={metric} />
+      </div>
+
+      {/* ── Win Rate Tables ── */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* By Sales Type */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Win Rate by Sales Type</h3>
+            <ExportButtons section="sales-by-type" params={{ weeks }} />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Type</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Issued #</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Won #</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Won $</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Avg Quote</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Win Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {byType.map((row) => (
+                  <tr key={row.type}>
+                    <td className="px-4 py-2.5 text-[#1A1A2E] font-medium">{capitalize(row.type)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.issuedCount)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.wonCount)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(row.wonValue)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#6B7280]">{fmtAUD(row.avgQuoteValue)}</td>
+                    <td className="px-4 py-2.5 text-right font-semibold text-[#4573D2]">{fmtPct(row.winRate)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-4 py-2.5 text-[#1A1A2E]">Total</td>
+                  <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(summary.issuedCount)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(summary.wonCount)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(summary.wonValue)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#6B7280]">{fmtAUD(summary.avgQuoteValue)}</td>
+                  <td className="px-4 py-2.5 text-right text-[#4573D2]">{fmtPct(summary.winRate)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* By Region */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Win Rate by Region</h3>
+            <ExportButtons section="sales-by-region" params={{ weeks }} />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100">
+                  <th className="px-4 py-2.5 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Region</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Issued #</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Won #</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Won $</th>
+                  <th className="px-4 py-2.5 text-right text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Win Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {byRegion.map((row) => (
+                  <tr key={row.region}>
+                    <td className="px-4 py-2.5 text-[#1A1A2E] font-medium">{row.label}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.issuedCount)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtNum(row.wonCount)}</td>
+                    <td className="px-4 py-2.5 text-right text-[#1A1A2E]">{fmtAUD(row.wonValue)}</td>
+                    <td className="px-4 py-2.5 text-right font-semibold text-[#4573D2]">
+                      {row.issuedCount > 0 ? fmtPct(row.winRate) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* ── Region × Sales Type Heatmap ── */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-[#1A1A2E]">Win Rate Heatmap — Region × Sales Type</h3>
+            <p className="text-xs text-[#6B7280] mt-0.5">Darker cells win a higher share of quotes issued. Hover for counts and values.</p>
+          </div>
+          <ExportButtons section="sales-heatmap" params={{ weeks }} />
+        </div>
+        <div className="overflow-x-auto p-4">
+          <table className="w-full text-sm border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-[#6B7280] uppercase tracking-wider">Region</th>
+                {SALES_TYPES.map((type) => (
+                  <th key={type} className="px-3 py-2 text-center text-xs font-semibold text-[#6B7280] uppercase tracking-wider">
+                    {capitalize(type)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.map((row) => (
+                <tr key={row.region}>
+                  <td className="px-3 py-2 font-medium text-[#1A1A2E] whitespace-nowrap">{row.label}</td>
+                  {row.cells.map((cell) => (
+                    <td
+                      key={cell.salesType}
+                      style={heatmapStyle(cell)}
+                      title={`${row.label} / ${capitalize(cell.salesType)}: ${cell.wonCount} of ${cell.issuedCount} won (${fmtAUD(cell.wonValue)} of ${fmtAUD(cell.issuedValue)})`}
+                      className={`px-3 py-2 rounded-md text-center text-xs font-semibold ${
+                        cell.winRate >= 50 ? 'text-white' : 'text-[#1A1A2E]'
+                      }`}
+                    >
+                      {cell.hasData && cell.issuedCount > 0 ? fmtPct(cell.winRate) : '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { SpendVsLeadsPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+const SERIES_LABELS: Record<string, string> = {
+  spend: 'Ad Spend',
+  leads: 'Leads',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+function formatCurrency(val: number) {
+  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}k`;
+  return `$${val.toFixed(0)}`;
+}
+
+export default function SpendVsLeadsChart({ data, weeks }: { data: SpendVsLeadsPoint[]; weeks: number }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Ad Spend vs Leads ({weeks} Weeks)</h3>
+        <ExportButtons section="spend-vs-leads" params={{ weeks }} disabled={data.length === 0} />
+      </div>
+      <p className="text-xs text-[#6B7280] mb-4">Bars show total platform spend per week; the line shows leads from all sources</p>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              yAxisId="left"
+              tickFormatter={formatCurrency}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={60}
+            />
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={45}
+            />
+            <Tooltip
+              formatter={(value, name) => {
+                const key = String(name);
+                const num = Number(value);
+                if (key === 'spend') {
+                  return [`$${num.toLocaleString('en-AU', { minimumFractionDigits: 2 })}`, SERIES_LABELS[key]];
+                }
+                return [num.toLocaleString('en-AU'), SERIES_LABELS[key] ?? key];
+              }}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => SERIES_LABELS[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            <Bar yAxisId="left" dataKey="spend" fill="#E8A442" fillOpacity={0.6} radius={[3, 3, 0, 0]} />
+            <Line
+              yAxisId="right"
+              type="monotone"
+              dataKey="leads"
+              stroke="#4573D2"
+              strokeWidth={2}
+              dot={{ r: 3, fill: '#4573D2' }}
+              activeDot={{ r: 5 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
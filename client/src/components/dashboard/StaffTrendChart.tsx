@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import {
+  ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { StaffTrendPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+type StaffView = 'productivity' | 'phone';
+
+const SERIES_LABELS: Record<string, string> = {
+  jobsCompleted: 'Jobs',
+  inspectionsCompleted: 'Inspections',
+  revenueGenerated: 'Revenue',
+  inboundCalls: 'Inbound',
+  outboundCalls: 'Outbound',
+  missedCallRate: 'Missed Rate',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+function formatCurrency(val: number) {
+  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}k`;
+  return `$${val.toFixed(0)}`;
+}
+
+export default function StaffTrendChart({ data, staffName, weeks }: { data: StaffTrendPoint[]; staffName: string; weeks: number }) {
+  const [view, setView] = useState<StaffView>('productivity');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-[#1A1A2E] mb-1">{staffName} — Weekly Trend</h3>
+          <p className="text-xs text-[#6B7280]">
+            {view === 'productivity'
+              ? 'Bars show jobs and inspections; the line shows revenue generated'
+              : 'Bars show calls handled; the line shows missed-call rate'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            {(['productivity', 'phone'] as StaffView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  view === v ? 'bg-[#4573D2]/10 text-[#4573D2]' : 'text-[#6B7280] hover:bg-gray-100'
+                }`}
+              >
+                {v === 'productivity' ? 'Productivity' : 'Phone'}
+              </button>
+            ))}
+          </div>
+          <ExportButtons section="staff-trend" params={{ weeks, staffName }} disabled={data.length === 0} />
+        </div>
+      </div>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              yAxisId="left"
+              allowDecimals={false}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={40}
+            />
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              tickFormatter={view === 'productivity' ? formatCurrency : (v: number) => `${v}%`}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={55}
+            />
+            <Tooltip
+              formatter={(value, name) => {
+                const key = String(name);
+                const num = Number(value);
+                if (key === 'revenueGenerated') {
+                  return [`$${num.toLocaleString('en-AU', { minimumFractionDigits: 2 })}`, SERIES_LABELS[key]];
+                }
+                if (key === 'missedCallRate') return [`${num.toFixed(1)}%`, SERIES_LABELS[key]];
+                return [num.toLocaleString('en-AU'), SERIES_LABELS[key] ?? key];
+              }}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => SERIES_LABELS[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            {view === 'productivity' ? (
+              <>
+                <Bar yAxisId="left" dataKey="jobsCompleted" fill="#4573D2" radius={[3, 3, 0, 0]} />
+                <Bar yAxisId="left" dataKey="inspectionsCompleted" fill="#4573D2" fillOpacity={0.35} radius={[3, 3, 0, 0]} />
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="revenueGenerated"
+                  stroke="#6AAF50"
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: '#6AAF50' }}
+                  activeDot={{ r: 5 }}
+                  connectNulls
+                />
+              </>
+            ) : (
+              <>
+                <Bar yAxisId="left" dataKey="inboundCalls" stackId="calls" fill="#4573D2" />
+                <Bar yAxisId="left" dataKey="outboundCalls" stackId="calls" fill="#4573D2" fillOpacity={0.35} radius={[3, 3, 0, 0]} />
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="missedCallRate"
+                  stroke="#D94F4F"
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: '#D94F4F' }}
+                  activeDot={{ r: 5 }}
+                  connectNulls
+                />
+              </>
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
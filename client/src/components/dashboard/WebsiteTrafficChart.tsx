@@ -0,0 +1,83 @@
+import {
+  ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis,
+  CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import type { WebsiteTrendPoint } from '../../lib/dashboardApi';
+import ExportButtons from '../ui/ExportButtons';
+
+const SERIES_LABELS: Record<string, string> = {
+  sessions: 'Sessions',
+  bounceRate: 'Bounce Rate',
+};
+
+function formatWeekLabel(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+export default function WebsiteTrafficChart({ data, weeks }: { data: WebsiteTrendPoint[]; weeks: number }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">Website Sessions &amp; Bounce Rate</h3>
+        <ExportButtons section="website-traffic" params={{ weeks }} disabled={data.length === 0} />
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis
+              dataKey="weekEnding"
+              tickFormatter={formatWeekLabel}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={{ stroke: '#E5E7EB' }}
+              tickLine={false}
+            />
+            <YAxis
+              yAxisId="left"
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={50}
+            />
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              tickFormatter={(v: number) => `${v}%`}
+              tick={{ fontSize: 11, fill: '#6B7280' }}
+              axisLine={false}
+              tickLine={false}
+              width={45}
+              domain={[0, 100]}
+            />
+            <Tooltip
+              formatter={(value, name) => {
+                const key = String(name);
+                const num = Number(value);
+                if (key === 'bounceRate') return [`${num.toFixed(1)}%`, SERIES_LABELS[key]];
+                return [num.toLocaleString('en-AU'), SERIES_LABELS[key] ?? key];
+              }}
+              labelFormatter={(label) => formatWeekLabel(String(label))}
+              contentStyle={{ borderRadius: 8, border: '1px solid #E5E7EB', fontSize: 12 }}
+            />
+            <Legend
+              formatter={(value: string) => SERIES_LABELS[value] ?? value}
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            <Bar yAxisId="left" dataKey="sessions" fill="#4573D2" fillOpacity={0.6} radius={[3, 3, 0, 0]} />
+            <Line
+              yAxisId="right"
+              type="monotone"
+              dataKey="bounceRate"
+              stroke="#D94F4F"
+              strokeWidth={2}
+              dot={{ r: 2, fill: '#D94F4F' }}
+              activeDot={{ r: 4 }}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import type { ReactNode } from 'react';
+import { usePermissions } from '../../lib/usePermissions';
+import type { DashboardPage } from '../../lib/PermissionContext';
 
 export type PageId =
   | 'executive_summary'
@@ -14,6 +16,8 @@ export type PageId =
 
 interface NavItem {
   id: PageId;
+  /** Permission page that governs access to this nav item */
+  page: DashboardPage;
   label: string;
   icon: ReactNode;
   disabled?: boolean;
@@ -23,6 +27,7 @@ interface NavItem {
 const NAV_ITEMS: NavItem[] = [
   {
     id: 'executive_summary',
+    page: 'executive_summary',
     label: 'Executive Summary',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -32,6 +37,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'financial',
+    page: 'financial_deep_dive',
     label: 'Financial',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -41,8 +47,8 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'sales_pipeline',
+    page: 'sales_pipeline',
     label: 'Sales & Pipeline',
-    disabled: true,
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
@@ -51,8 +57,8 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'marketing_leads',
+    page: 'marketing_leads',
     label: 'Marketing & Leads',
-    disabled: true,
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M10.34 15.84c-.688-.06-1.386-.09-2.09-.09H7.5a4.5 4.5 0 110-9h.75c.704 0 1.402-.03 2.09-.09m0 9.18c.253.962.584 1.892.985 2.783.247.55.06 1.21-.463 1.511l-.657.38c-.551.318-1.26.117-1.527-.461a20.845 20.845 0 01-1.44-4.282m3.102.069a18.03 18.03 0 01-.59-4.59c0-1.586.205-3.124.59-4.59m0 9.18a23.848 23.848 0 018.835 2.535M10.34 6.66a23.847 23.847 0 008.835-2.535m0 0A23.74 23.74 0 0018.795 3m.38 1.125a23.91 23.91 0 011.014 5.395m-1.014 8.855c-.118.38-.245.754-.38 1.125m.38-1.125a23.91 23.91 0 001.014-5.395m0-3.46c.495.413.811 1.035.811 1.73 0 .695-.316 1.317-.811 1.73m0-3.46a24.347 24.347 0 010 3.46" />
@@ -61,8 +67,8 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'operations',
+    page: 'operations_productivity',
     label: 'Operations',
-    disabled: true,
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
@@ -72,6 +78,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'regional_performance',
+    page: 'regional_performance',
     label: 'Regional Performance',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -82,6 +89,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'data_management',
+    page: 'data_management',
     label: 'Data Management',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -91,6 +99,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'target_management',
+    page: 'target_management',
     label: 'Target Management',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -100,6 +109,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'admin_settings',
+    page: 'admin_settings',
     label: 'Admin Settings',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -109,6 +119,7 @@ const NAV_ITEMS: NavItem[] = [
   },
   {
     id: 'user_management',
+    page: 'user_permission_management',
     label: 'User Management',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -129,6 +140,9 @@ export default function Sidebar({
   collapsed: boolean;
   onToggleCollapse: () => void;
 }) {
+  const { canRead } = usePermissions();
+  const visibleItems = NAV_ITEMS.filter((item) => canRead(item.page));
+
   return (
     <aside
       className={`bg-white border-r border-gray-200 flex flex-col h-full transition-all duration-200 ${
@@ -157,7 +171,7 @@ export default function Sidebar({
 
       {/* Nav items */}
       <nav className="flex-1 py-3 px-2 space-y-0.5 overflow-y-auto">
-        {NAV_ITEMS.map((item) => {
+        {visibleItems.map((item) => {
           const isActive = activePage === item.id;
           return (
             <button
@@ -1,4 +1,5 @@
 import { useWeek, getWeekNumber } from '../../lib/WeekContext';
+import AlertBell from '../alerts/AlertBell';
 
 export default function TopBar() {
   const { selectedWeek, availableWeeks, setSelectedWeek, loading } = useWeek();
@@ -49,8 +50,9 @@ export default function TopBar() {
         )}
       </div>
 
-      {/* Right: User info */}
+      {/* Right: Alerts and user info */}
       <div className="flex items-center gap-3">
+        <AlertBell />
         <div className="w-8 h-8 rounded-full bg-[#4573D2]/10 flex items-center justify-center">
           <span className="text-xs font-semibold text-[#4573D2]">DA</span>
         </div>
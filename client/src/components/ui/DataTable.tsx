@@ -1,4 +1,6 @@
 import { useState, type ReactNode } from 'react';
+import ExportButtons from './ExportButtons';
+import type { ExportSection, ExportParams } from '../../lib/exportApi';
 
 export interface Column<T> {
   key: string;
@@ -15,6 +17,10 @@ interface DataTableProps<T> {
   expandable?: (row: T) => ReactNode;
   emptyMessage?: string;
   loading?: boolean;
+  title?: string;
+  /** When set, the header shows a CSV download for this export section */
+  exportSection?: ExportSection;
+  exportParams?: ExportParams;
 }
 
 export default function DataTable<T extends Record<string, any>>({
@@ -24,6 +30,9 @@ export default function DataTable<T extends Record<string, any>>({
   expandable,
   emptyMessage = 'No data available.',
   loading = false,
+  title,
+  exportSection,
+  exportParams,
 }: DataTableProps<T>) {
   const [sortKey, setSortKey] = useState<string | null>(null);
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
@@ -63,6 +72,14 @@ export default function DataTable<T extends Record<string, any>>({
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      {(title || exportSection) && (
+        <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]">{title}</h3>
+          {exportSection && (
+            <ExportButtons section={exportSection} params={exportParams} disabled={data.length === 0} />
+          )}
+        </div>
+      )}
       {data.length === 0 ? (
         <div className="p-8 text-center text-[#6B7280] text-sm">{emptyMessage}</div>
       ) : (
@@ -0,0 +1,29 @@
+import type { TrendWindow } from '../../lib/dashboardApi';
+
+const WINDOWS: TrendWindow[] = [13, 26, 52];
+
+export default function TrendWindowToggle({
+  value,
+  onChange,
+}: {
+  value: TrendWindow;
+  onChange: (weeks: TrendWindow) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      {WINDOWS.map((weeks) => (
+        <button
+          key={weeks}
+          onClick={() => onChange(weeks)}
+          className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+            value === weeks
+              ? 'bg-[#4573D2]/10 text-[#4573D2]'
+              : 'text-[#6B7280] hover:bg-gray-100'
+          }`}
+        >
+          {weeks} Weeks
+        </button>
+      ))}
+    </div>
+  );
+}
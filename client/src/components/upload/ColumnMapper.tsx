@@ -8,6 +8,13 @@ import {
   type ApplyMappingResult,
 } from '../../lib/api';
 
+/** Fields a data type can calculate because every term of their derive rule is mapped */
+function derivableFields(dataType: DataTypeDefinition, mappedFields: Set<string>): Set<string> {
+  return new Set((dataType.rules ?? [])
+    .filter((r) => r.derive && r.equals?.every((t) => mappedFields.has(t.replace(/^-/, ''))))
+    .map((r) => r.field));
+}
+
 export default function ColumnMapper({
   dataType,
   parseResult,
@@ -36,11 +43,15 @@ export default function ColumnMapper({
   // Which DB fields are currently mapped
   const mappedDbFields = useMemo(() => new Set(Object.values(mapping).filter(Boolean)), [mapping]);
 
+  // Fields the consistency rules will calculate from mapped columns
+  const derivable = useMemo(() => derivableFields(dataType, mappedDbFields), [dataType, mappedDbFields]);
+
   // Missing required fields
   const missingRequired = useMemo(
-    () => targetFields.filter((f) => f.required && !mappedDbFields.has(f.dbField)),
-    [targetFields, mappedDbFields],
+    () => targetFields.filter((f) => f.required && !mappedDbFields.has(f.dbField) && !derivable.has(f.dbField)),
+    [targetFields, mappedDbFields, derivable],
   );
+  const calculated = targetFields.filter((f) => derivable.has(f.dbField) && !mappedDbFields.has(f.dbField));
 
   function setFieldMapping(csvHeader: string, dbField: string) {
     setMapping((prev) => {
@@ -58,7 +69,7 @@ export default function ColumnMapper({
     setValidating(true);
     setError('');
     try {
-      const result = await applyMapping(dataType.id, parseResult.previewRows, mapping);
+      const result = await applyMapping(parseResult.sessionId, dataType.id, mapping);
       onConfirm(mapping, result);
     } catch (err: any) {
       setError(err.message);
@@ -116,7 +127,7 @@ export default function ColumnMapper({
       {/* Mapping table */}
       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
         <div className="grid grid-cols-[1fr_auto_1fr] gap-0 px-5 py-3 bg-gray-50 border-b border-gray-200 text-xs font-semibold text-gray-500 uppercase tracking-wider">
-          <span>CSV Column</span>
+          <span>{parseResult.pivot ? 'Metric' : 'CSV Column'}</span>
           <span className="w-8" />
           <span>Database Field</span>
         </div>
@@ -188,6 +199,12 @@ export default function ColumnMapper({
         </div>
       )}
 
+      {calculated.length > 0 && (
+        <p className="mt-3 text-xs text-indigo-600">
+          Calculated from the mapped columns: {calculated.map((f) => f.label).join(', ')}
+        </p>
+      )}
+
       {/* Save mapping */}
       <div className="mt-4 flex items-center gap-3">
         {!showSave ? (
@@ -0,0 +1,155 @@
+import { Fragment, useEffect, useState } from 'react';
+import {
+  fetchCompleteness,
+  type CompletenessResult,
+  type CompletenessStatus,
+  type DataTypeCompleteness,
+} from '../../lib/weeksApi';
+import type { TrendWindow } from '../../lib/dashboardApi';
+import TrendWindowToggle from '../ui/TrendWindowToggle';
+
+const CELL_STYLES: Record<CompletenessStatus, string> = {
+  complete: 'bg-emerald-100 text-emerald-700',
+  partial: 'bg-amber-100 text-amber-700',
+  missing: 'bg-red-50 text-red-400',
+};
+
+function formatWeek(dateStr: string): string {
+  const d = new Date(dateStr + 'T00:00:00');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+/** Start of a window of `weeks` Saturdays ending on `end` */
+function windowStart(end: Date, weeks: number): string {
+  const d = new Date(end);
+  d.setDate(d.getDate() - (weeks - 1) * 7);
+  return d.toISOString().split('T')[0];
+}
+
+function cellLabel(cell: DataTypeCompleteness): string {
+  if (cell.status === 'missing') return '—';
+  return cell.expected != null ? `${cell.rows}/${cell.expected}` : String(cell.rows);
+}
+
+export default function CompletenessGrid({ onNavigateUpload }: { onNavigateUpload: () => void }) {
+  const [weeks, setWeeks] = useState<TrendWindow>(13);
+  const [data, setData] = useState<CompletenessResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Server defaults "to" to the current week ending
+    const today = new Date();
+    fetchCompleteness(windowStart(today, weeks))
+      .then((result) => { if (!cancelled) setData(result); })
+      .catch((err) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [weeks]);
+
+  function handleWindowChange(next: TrendWindow) {
+    setLoading(true);
+    setError('');
+    setWeeks(next);
+  }
+
+  const categories = data
+    ? [...new Set(data.dataTypes.map((dt) => dt.category))]
+    : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Data Completeness</h2>
+          <p className="text-gray-500 text-sm">Which data has been uploaded for each week</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <TrendWindowToggle value={weeks} onChange={handleWindowChange} />
+          <button
+            onClick={onNavigateUpload}
+            className="px-5 py-2.5 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+          >
+            New Upload
+          </button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center gap-4 mb-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${CELL_STYLES.complete}`} /> Complete</span>
+        <span className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${CELL_STYLES.partial}`} /> Partial (rows / expected)</span>
+        <span className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded ${CELL_STYLES.missing}`} /> Missing</span>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-6 animate-pulse space-y-3">
+          {Array.from({ length: 8 }).map((_, i) => (
+            <div key={i} className="h-5 bg-gray-100 rounded" />
+          ))}
+        </div>
+      ) : data && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="sticky left-0 bg-white px-4 py-2.5 text-left font-semibold text-gray-500 uppercase tracking-wider">
+                  Data Type
+                </th>
+                {data.weeks.map((week) => (
+                  <th key={week.weekEnding} className="px-1.5 py-2.5 text-center font-medium text-gray-500 whitespace-nowrap">
+                    <div>{formatWeek(week.weekEnding)}</div>
+                    <div className={`mt-0.5 font-normal ${week.status === 'complete' ? 'text-emerald-600' : 'text-gray-400'}`}>
+                      {week.completeCount}/{week.dataTypes.length}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((category) => (
+                <Fragment key={category}>
+                  <tr className="bg-gray-50">
+                    <td
+                      colSpan={data.weeks.length + 1}
+                      className="sticky left-0 px-4 py-1.5 font-semibold text-gray-600 uppercase tracking-wider"
+                    >
+                      {category}
+                    </td>
+                  </tr>
+                  {data.dataTypes.filter((dt) => dt.category === category).map((dt) => (
+                    <tr key={dt.id} className="border-b border-gray-50">
+                      <td className="sticky left-0 bg-white px-4 py-1.5 text-gray-700 whitespace-nowrap">{dt.name}</td>
+                      {data.weeks.map((week) => {
+                        const cell = week.dataTypes.find((c) => c.dataTypeId === dt.id)!;
+                        return (
+                          <td key={week.weekEnding} className="px-1 py-1">
+                            <div
+                              title={`${dt.name}, week ending ${week.weekEnding}: ${cell.rows} row(s)${cell.expected != null ? ` of ${cell.expected}` : ''}`}
+                              className={`w-12 py-1 rounded text-center font-medium ${CELL_STYLES[cell.status]}`}
+                            >
+                              {cellLabel(cell)}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
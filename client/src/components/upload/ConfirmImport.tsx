@@ -1,7 +1,16 @@
-import { useState } from 'react';
-import { importData, type DataTypeDefinition, type ApplyMappingResult, type ImportResult } from '../../lib/api';
+import { useEffect, useState } from 'react';
+import {
+  importData,
+  previewImport,
+  type DataTypeDefinition,
+  type ApplyMappingResult,
+  type ImportResult,
+  type RecordDiff,
+} from '../../lib/api';
+import { useAlerts } from '../../lib/useAlerts';
 
 export default function ConfirmImport({
+  sessionId,
   dataType,
   fileName,
   mapping,
@@ -12,6 +21,7 @@ export default function ConfirmImport({
   onNavigateHistory,
   onBack,
 }: {
+  sessionId: string;
   dataType: DataTypeDefinition;
   fileName: string;
   mapping: Record<string, string>;
@@ -25,10 +35,28 @@ export default function ConfirmImport({
   const [importing, setImporting] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [error, setError] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const { refresh: refreshAlerts } = useAlerts();
 
-  const { rows, summary, duplicates } = validationResult;
+  const { rows, summary, duplicates, fileDuplicates, outliers } = validationResult;
+  const highOutliers = outliers.filter((o) => o.severity === 'high');
   const importableRows = rows.filter((r) => r.status !== 'error');
 
+  // Overwrites and merges change existing records: dry-run the import to show how
+  const duplicateCount = duplicates.length + fileDuplicates.length;
+  const changesExisting = duplicateCount > 0 && duplicateStrategy !== 'skip';
+  const [diffs, setDiffs] = useState<RecordDiff[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(changesExisting);
+  const [previewError, setPreviewError] = useState('');
+
+  useEffect(() => {
+    if (!changesExisting) return;
+    previewImport({ sessionId, dataTypeId: dataType.id, duplicateStrategy })
+      .then((res) => setDiffs((res.diffs ?? []).filter((d) => d.action === 'update')))
+      .catch((err) => setPreviewError(err.message))
+      .finally(() => setPreviewLoading(false));
+  }, [changesExisting, sessionId, dataType.id, duplicateStrategy]);
+
   // Derive week range from the data
   const weekDates = importableRows
     .map((r) => r.data.weekEnding)
@@ -43,13 +71,15 @@ export default function ConfirmImport({
     setError('');
     try {
       const res = await importData({
+        sessionId,
         dataTypeId: dataType.id,
-        fileName,
         mappingId: savedMappingId ?? undefined,
-        rows: validationResult.rows,
         duplicateStrategy,
+        acknowledgeOutliers: acknowledged,
       });
       setResult(res);
+      // The server re-evaluates alerts for the imported weeks
+      refreshAlerts();
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -177,10 +207,14 @@ export default function ConfirmImport({
           </div>
         </div>
 
-        {duplicates.length > 0 && (
+        {duplicateCount > 0 && (
           <div className="mt-4 pt-4 border-t border-gray-100">
             <p className="text-sm text-amber-700">
-              <span className="font-medium">{duplicates.length} duplicate week(s)</span> — strategy:{' '}
+              <span className="font-medium">
+                {duplicates.length} existing record(s)
+                {fileDuplicates.length > 0 && `, ${fileDuplicates.length} repeated in file`}
+              </span>{' '}
+              — strategy:{' '}
               <span className="font-semibold capitalize">{duplicateStrategy}</span>
             </p>
           </div>
@@ -199,6 +233,35 @@ export default function ConfirmImport({
         </div>
       </div>
 
+      {changesExisting && (
+        <ChangesPreview diffs={diffs} loading={previewLoading} error={previewError} />
+      )}
+
+      {highOutliers.length > 0 && (
+        <div className="mb-6 rounded-xl border border-red-200 bg-red-50 p-4">
+          <p className="text-red-800 text-sm font-medium mb-2">
+            {highOutliers.length} value(s) are many times larger or smaller than their recent history:
+          </p>
+          <ul className="space-y-0.5 mb-3">
+            {highOutliers.map((o) => (
+              <li key={`${o.rowIndex}-${o.table}-${o.field}`} className="text-xs text-red-700">
+                Row {o.rowIndex}: {o.label} {o.value.toLocaleString('en-AU')} (median{' '}
+                {o.median.toLocaleString('en-AU')})
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 text-sm text-red-800">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="rounded border-red-300"
+            />
+            I've checked these values and they're correct
+          </label>
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3">
           <p className="text-red-700 text-sm">{error}</p>
@@ -215,7 +278,7 @@ export default function ConfirmImport({
         </button>
         <button
           onClick={handleImport}
-          disabled={importing || importableRows.length === 0}
+          disabled={importing || importableRows.length === 0 || (highOutliers.length > 0 && !acknowledged)}
           className="px-8 py-3 rounded-lg text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 shadow-sm"
         >
           {importing ? (
@@ -234,3 +297,101 @@ export default function ConfirmImport({
     </div>
   );
 }
+
+// ─── Changes Preview ─────────────────────────────────────────────────────────
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return value.split('T')[0];
+  return String(value);
+}
+
+function formatKey(key: Record<string, unknown>): string {
+  return Object.values(key).map(formatValue).join(' · ');
+}
+
+function ChangesPreview({ diffs, loading, error }: { diffs: RecordDiff[] | null; loading: boolean; error: string }) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6 flex items-center gap-3 text-sm text-gray-500">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-indigo-600 border-t-transparent" />
+        Checking what will change in existing records...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+        <p className="text-amber-800 text-sm">Could not preview changes to existing records: {error}</p>
+      </div>
+    );
+  }
+
+  if (!diffs) return null;
+
+  const changed = diffs.filter((d) => d.changes.length > 0);
+  const largeCount = changed.reduce((n, d) => n + d.changes.filter((c) => c.large).length, 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Changes to Existing Records</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {changed.length} of {diffs.length} existing record(s) will change
+            {diffs.length - changed.length > 0 && `; ${diffs.length - changed.length} already match the file`}
+          </p>
+        </div>
+        {largeCount > 0 && (
+          <span className="text-xs font-medium bg-red-100 text-red-700 px-2.5 py-1 rounded-full">
+            {largeCount} large change{largeCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {changed.length > 0 && (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-6 py-2 font-semibold">Record</th>
+                <th className="px-3 py-2 font-semibold">Field</th>
+                <th className="px-3 py-2 font-semibold text-right">Current</th>
+                <th className="px-3 py-2 font-semibold text-right">New</th>
+                <th className="px-6 py-2 font-semibold text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {changed.map((d) =>
+                d.changes.map((c, i) => (
+                  <tr key={`${d.table}-${d.rowIndex}-${c.field}`} className={c.large ? 'bg-red-50' : undefined}>
+                    {i === 0 && (
+                      <td rowSpan={d.changes.length} className="px-6 py-2 align-top bg-white">
+                        <p className="font-medium text-gray-900">{formatKey(d.key)}</p>
+                        <p className="text-xs text-gray-400">Row {d.rowIndex} · {d.table}</p>
+                        {d.existing?.dataSource === 'xero_api' && (
+                          <p className="text-xs text-amber-600 mt-1">Synced from Xero</p>
+                        )}
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-gray-600">{c.field}</td>
+                    <td className="px-3 py-2 text-right text-gray-500 tabular-nums">{formatValue(c.from)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 tabular-nums">{formatValue(c.to)}</td>
+                    <td className={`px-6 py-2 text-right tabular-nums ${c.large ? 'text-red-700 font-semibold' : 'text-gray-500'}`}>
+                      {c.change !== null ? `${c.change > 0 ? '+' : ''}${formatValue(c.change)}` : c.to === null ? 'Cleared' : '—'}
+                      {c.changePercent !== null && (
+                        <span className="ml-1 text-xs">({c.changePercent > 0 ? '+' : ''}{c.changePercent}%)</span>
+                      )}
+                    </td>
+                  </tr>
+                )),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -85,6 +85,11 @@ export default function DataTypeSelector({
                   <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">
                     {dt.fields.filter((f) => f.required).length} required fields
                   </span>
+                  {dt.composite && (
+                    <span className="text-xs bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded-full">
+                      Splits by {dt.fields.find((f) => f.dbField === dt.composite?.routing?.field)?.label ?? 'target'}
+                    </span>
+                  )}
                 </div>
               </button>
             ))}
@@ -1,5 +1,13 @@
 import { useState, useRef, useCallback } from 'react';
-import { parseFile, autoMap, type DataTypeDefinition, type ParseResult, type AutoMapResult } from '../../lib/api';
+import {
+  parseFile,
+  reparseFile,
+  autoMap,
+  type DataTypeDefinition,
+  type ParseResult,
+  type ParseOptions,
+  type AutoMapResult,
+} from '../../lib/api';
 
 export default function FileUploader({
   dataType,
@@ -14,16 +22,22 @@ export default function FileUploader({
   const [dragOver, setDragOver] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState('');
+  // Layout, sheet and header row choices sent with each parse
+  const [options, setOptions] = useState<ParseOptions>({});
+  // Set once a workbook, titled or wide file has been parsed, while the user checks how it was read
+  const [reviewResult, setReviewResult] = useState<ParseResult | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleFile = useCallback((f: File) => {
     const ext = f.name.toLowerCase().split('.').pop();
-    if (ext !== 'csv' && ext !== 'tsv') {
-      setError('Only .csv and .tsv files are accepted.');
+    if (ext !== 'csv' && ext !== 'tsv' && ext !== 'xlsx') {
+      setError('Only .csv, .tsv and .xlsx files are accepted.');
       return;
     }
     setError('');
     setFile(f);
+    setReviewResult(null);
+    setOptions((prev) => ({ layout: prev.layout }));
   }, []);
 
   const handleDrop = useCallback(
@@ -42,7 +56,13 @@ export default function FileUploader({
     setError('');
 
     try {
-      const parseResult = await parseFile(file);
+      const parseResult = reviewResult ?? (await parseFile(file, options));
+
+      // Workbooks, files with title lines, wide files and files imported before stop here first so they can be checked
+      if ((parseResult.workbook || parseResult.headerRow > 1 || parseResult.pivot || parseResult.previousUploads.length > 0) && !reviewResult) {
+        setReviewResult(parseResult);
+        return;
+      }
 
       // Try auto-mapping
       let autoMapResult: AutoMapResult | null = null;
@@ -60,6 +80,22 @@ export default function FileUploader({
     }
   }
 
+  async function handleOptionsChange(changes: ParseOptions) {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    if (!file || !reviewResult) return;
+
+    setUploading(true);
+    setError('');
+    try {
+      setReviewResult(await reparseFile(reviewResult.sessionId, next));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the sheet');
+    } finally {
+      setUploading(false);
+    }
+  }
+
   function formatSize(bytes: number) {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -102,7 +138,7 @@ export default function FileUploader({
         <input
           ref={inputRef}
           type="file"
-          accept=".csv,.tsv"
+          accept=".csv,.tsv,.xlsx"
           className="hidden"
           onChange={(e) => {
             const f = e.target.files?.[0];
@@ -132,13 +168,62 @@ export default function FileUploader({
                 />
               </svg>
             </div>
-            <p className="text-gray-700 font-medium">Drop your CSV file here</p>
+            <p className="text-gray-700 font-medium">Drop your CSV or Excel file here</p>
             <p className="text-gray-400 text-sm mt-1">or click to browse</p>
-            <p className="text-gray-400 text-xs mt-3">Accepts .csv and .tsv files up to 10 MB</p>
+            <p className="text-gray-400 text-xs mt-3">Accepts .csv, .tsv and .xlsx files up to 10 MB</p>
           </div>
         )}
       </div>
 
+      <div className="mt-4 flex items-center gap-3 text-sm">
+        <label htmlFor="upload-layout" className="text-gray-600 font-medium">Layout</label>
+        <select
+          id="upload-layout"
+          value={options.layout ?? ''}
+          disabled={uploading}
+          onChange={(e) => {
+            const layout = e.target.value as ParseOptions['layout'] | '';
+            handleOptionsChange({ layout: layout || undefined, labelColumn: undefined });
+          }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+        >
+          <option value="">Detect automatically</option>
+          <option value="long">One row per week</option>
+          <option value="wide">Weeks as columns, metrics as rows</option>
+        </select>
+      </div>
+
+      {reviewResult && reviewResult.previousUploads.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+          <p className="text-amber-800 text-sm font-medium">This file has been imported before</p>
+          <ul className="mt-1 space-y-0.5">
+            {reviewResult.previousUploads.map((u) => (
+              <li key={u.id} className="text-amber-700 text-xs">
+                Upload #{u.id} as {u.dataType} on {new Date(u.createdAt).toLocaleString('en-AU')}
+                {u.uploadedBy ? ` by ${u.uploadedBy}` : ''}
+              </li>
+            ))}
+          </ul>
+          <p className="text-amber-700 text-xs mt-1">Continue only if you mean to import it again.</p>
+        </div>
+      )}
+
+      {reviewResult && (
+        <HeaderRowPicker
+          result={reviewResult}
+          disabled={uploading}
+          onChange={handleOptionsChange}
+        />
+      )}
+
+      {reviewResult?.pivot && (
+        <PivotSummary
+          result={reviewResult}
+          disabled={uploading}
+          onChange={handleOptionsChange}
+        />
+      )}
+
       {error && (
         <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3">
           <p className="text-red-700 text-sm">{error}</p>
@@ -167,10 +252,160 @@ export default function FileUploader({
               Parsing...
             </>
           ) : (
-            'Upload & Parse'
+            reviewResult ? 'Continue' : 'Upload & Parse'
           )}
         </button>
       </div>
     </div>
   );
 }
+
+// ─── Sheet / header row picker ───────────────────────────────────────────────
+
+function HeaderRowPicker({
+  result,
+  disabled,
+  onChange,
+}: {
+  result: ParseResult;
+  disabled: boolean;
+  onChange: (options: ParseOptions) => void;
+}) {
+  const { workbook } = result;
+  const warnings = result.warnings ?? [];
+
+  return (
+    <div className="mt-6 rounded-xl border border-gray-200 bg-white p-5">
+      <div className="flex flex-wrap items-end gap-4">
+        {workbook && (
+          <label className="text-sm">
+            <span className="block text-gray-600 font-medium mb-1">Sheet</span>
+            <select
+              value={workbook.sheet}
+              disabled={disabled}
+              onChange={(e) => onChange({ sheet: e.target.value, headerRow: undefined, labelColumn: undefined })}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            >
+              {workbook.sheets.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-sm">
+          <span className="block text-gray-600 font-medium mb-1">Header row</span>
+          <input
+            type="number"
+            min={1}
+            value={result.headerRow}
+            disabled={disabled}
+            onChange={(e) => {
+              const headerRow = Number(e.target.value);
+              if (headerRow >= 1) onChange({ headerRow, labelColumn: undefined });
+            }}
+            className="w-24 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+          />
+        </label>
+        <p className="text-sm text-gray-500 pb-2">
+          {result.headers.length} columns, {result.totalRows} data rows
+        </p>
+      </div>
+
+      {result.rawPreview.length > 0 ? (
+        <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full text-xs">
+            <tbody>
+              {result.rawPreview.map((row, i) => {
+                const rowNumber = i + 1;
+                const isHeader = rowNumber === result.headerRow;
+                return (
+                  <tr
+                    key={rowNumber}
+                    onClick={() => !disabled && !isHeader && onChange({ headerRow: rowNumber, labelColumn: undefined })}
+                    className={`border-t border-gray-100 first:border-t-0 ${
+                      isHeader
+                        ? 'bg-indigo-50 font-semibold text-indigo-900'
+                        : rowNumber < result.headerRow
+                        ? 'text-gray-300 cursor-pointer hover:bg-gray-50'
+                        : 'text-gray-700 cursor-pointer hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="px-2 py-1.5 text-right text-gray-400 bg-gray-50 w-8">{rowNumber}</td>
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-3 py-1.5 whitespace-nowrap max-w-48 truncate">{cell}</td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500">{workbook ? 'This sheet is empty.' : 'This file is empty.'}</p>
+      )}
+      <p className="mt-2 text-xs text-gray-400">Click a row to use it as the header row.</p>
+
+      {warnings.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+          <p className="text-amber-800 text-sm font-medium">
+            {warnings.length} cell{warnings.length !== 1 ? 's' : ''} will be imported as empty
+          </p>
+          <ul className="mt-1 text-amber-700 text-xs space-y-0.5">
+            {warnings.slice(0, 5).map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+            {warnings.length > 5 && <li>…and {warnings.length - 5} more</li>}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Wide layout summary ─────────────────────────────────────────────────────
+
+function PivotSummary({
+  result,
+  disabled,
+  onChange,
+}: {
+  result: ParseResult;
+  disabled: boolean;
+  onChange: (options: ParseOptions) => void;
+}) {
+  const pivot = result.pivot!;
+  const { weeks } = pivot;
+  const metricCount = result.headers.length - 1;
+
+  return (
+    <div className="mt-6 rounded-xl border border-indigo-200 bg-indigo-50 p-5">
+      <p className="text-indigo-800 text-sm font-medium">Weeks as columns</p>
+      <p className="text-indigo-600 text-sm mt-0.5">
+        {metricCount} metric{metricCount !== 1 ? 's' : ''} across {weeks.length} week{weeks.length !== 1 ? 's' : ''}
+        {weeks.length > 0 && <> ({weeks[0]} to {weeks[weeks.length - 1]})</>}, turned into one row per week.
+        {pivot.weekColumns.length > weeks.length && (
+          <> {pivot.weekColumns.length - weeks.length} empty week column{pivot.weekColumns.length - weeks.length !== 1 ? 's' : ''} skipped.</>
+        )}
+      </p>
+
+      <label className="mt-4 flex items-center gap-3 text-sm">
+        <span className="text-indigo-800 font-medium">Metric labels are in</span>
+        <select
+          value={pivot.labelColumn}
+          disabled={disabled}
+          onChange={(e) => onChange({ labelColumn: e.target.value })}
+          className="rounded-lg border border-indigo-200 bg-white px-3 py-2 text-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+        >
+          {pivot.otherColumns.map((col) => (
+            <option key={col} value={col}>{col}</option>
+          ))}
+        </select>
+      </label>
+      {pivot.otherColumns.length > 1 && (
+        <p className="mt-2 text-xs text-indigo-500">
+          Not imported: {pivot.otherColumns.filter((c) => c !== pivot.labelColumn).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
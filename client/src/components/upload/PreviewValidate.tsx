@@ -1,5 +1,15 @@
 import { useState } from 'react';
-import type { DataTypeDefinition, ApplyMappingResult } from '../../lib/api';
+import {
+  rememberValueAlias,
+  type DataTypeDefinition,
+  type ApplyMappingResult,
+  type DuplicateInfo,
+  type Outlier,
+  type RuleResult,
+  type UnknownValue,
+} from '../../lib/api';
+
+const MAX_LISTED_ROWS = 8;
 
 const STATUS_STYLES = {
   pass: { bg: 'bg-emerald-50', text: 'text-emerald-700', icon: '✓', label: 'Pass' },
@@ -8,10 +18,11 @@ const STATUS_STYLES = {
 };
 
 export default function PreviewValidate({
-  dataType: _dataType,
+  dataType,
   result,
   duplicateStrategy,
   onStrategyChange,
+  onRevalidate,
   onConfirm,
   onBack,
 }: {
@@ -19,11 +30,13 @@ export default function PreviewValidate({
   result: ApplyMappingResult;
   duplicateStrategy: 'overwrite' | 'skip' | 'merge';
   onStrategyChange: (s: 'overwrite' | 'skip' | 'merge') => void;
+  /** Re-run validation, e.g. after an alias is saved */
+  onRevalidate: () => Promise<void>;
   onConfirm: () => void;
   onBack: () => void;
 }) {
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
-  const { rows, summary, duplicates } = result;
+  const { rows, summary, duplicates, fileDuplicates, unknownValues, consistency, outliers } = result;
 
   // Get column names from the field mappings (mapped DB fields)
   const columns = result.fieldMappings.map((fm: any) => ({
@@ -31,7 +44,14 @@ export default function PreviewValidate({
     dbField: fm.dbField,
   }));
 
-  const hasDuplicates = duplicates.length > 0;
+  const hasDuplicates = duplicates.length > 0 || fileDuplicates.length > 0;
+
+  /** "Week Ending 2026-01-03 · Region cairns" */
+  function formatKey(key: Record<string, string>) {
+    return Object.entries(key)
+      .map(([field, value]) => `${dataType.fields.find((f) => f.dbField === field)?.label ?? field} ${value}`)
+      .join(' · ');
+  }
 
   return (
     <div>
@@ -67,12 +87,31 @@ export default function PreviewValidate({
         <span className="text-sm text-gray-500 ml-auto">{summary.total} total rows</span>
       </div>
 
+      {unknownValues.length > 0 && (
+        <UnknownValuesPanel unknownValues={unknownValues} onRevalidate={onRevalidate} />
+      )}
+
+      {consistency.length > 0 && <ConsistencyPanel results={consistency} />}
+
+      {outliers.length > 0 && <OutlierPanel outliers={outliers} />}
+
       {/* Duplicate warning */}
       {hasDuplicates && (
         <div className="mb-6 p-4 rounded-xl border border-amber-200 bg-amber-50">
-          <p className="text-amber-800 text-sm font-medium mb-2">
-            {duplicates.length} row(s) have week dates that already exist in the database.
-          </p>
+          {duplicates.length > 0 && (
+            <DuplicateList
+              title={`${duplicates.length} record(s) already exist in the database:`}
+              duplicates={duplicates}
+              describe={(d) => formatKey(d.key)}
+            />
+          )}
+          {fileDuplicates.length > 0 && (
+            <DuplicateList
+              title={`${fileDuplicates.length} row(s) repeat a record from earlier in this file:`}
+              duplicates={fileDuplicates}
+              describe={(d) => `${formatKey(d.key)} (same as row ${d.firstRowIndex})`}
+            />
+          )}
           <div className="flex items-center gap-4 mt-3">
             <label className="text-sm text-gray-700 font-medium">How to handle duplicates:</label>
             <div className="flex gap-2">
@@ -125,7 +164,7 @@ export default function PreviewValidate({
               {rows.slice(0, 20).map((row) => {
                 const style = STATUS_STYLES[row.status];
                 const isExpanded = expandedRow === row.rowIndex;
-                const isDuplicate = duplicates.some((d) => d.rowIndex === row.rowIndex);
+                const isDuplicate = [...duplicates, ...fileDuplicates].some((d) => d.rowIndex === row.rowIndex);
 
                 return (
                   <tr key={row.rowIndex} className="group">
@@ -142,11 +181,19 @@ export default function PreviewValidate({
                         {isDuplicate && <span className="ml-1">📋</span>}
                       </button>
                     </td>
-                    {columns.slice(0, 6).map((col: any) => (
-                      <td key={col.dbField} className="px-4 py-3 text-gray-700 max-w-[160px] truncate">
-                        {row.original[col.csvHeader] ?? '—'}
-                      </td>
-                    ))}
+                    {columns.slice(0, 6).map((col: any) => {
+                      const outlier = row.outliers?.find((o) => o.field === col.dbField);
+                      return (
+                        <td key={col.dbField} className="px-4 py-3 text-gray-700 max-w-[160px] truncate">
+                          <span className={outlier ? (outlier.severity === 'high' ? 'text-red-700 font-medium' : 'text-amber-700') : undefined}>
+                            {row.original[col.csvHeader] ?? '—'}
+                          </span>
+                          {outlier && (
+                            <span className="block text-xs text-gray-400">median {formatNumber(outlier.median)}</span>
+                          )}
+                        </td>
+                      );
+                    })}
                     {columns.length > 6 && <td />}
                   </tr>
                 );
@@ -217,3 +264,198 @@ export default function PreviewValidate({
     </div>
   );
 }
+
+function formatNumber(value: number) {
+  return value.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+}
+
+/** Values far outside their recent history, with the historical median for comparison */
+function OutlierPanel({ outliers }: { outliers: Outlier[] }) {
+  const high = outliers.filter((o) => o.severity === 'high').length;
+  return (
+    <div className="mb-6 p-4 rounded-xl border border-amber-200 bg-amber-50">
+      <p className="text-amber-800 text-sm font-medium mb-1">
+        {outliers.length} value(s) are unusual compared with their recent history.
+      </p>
+      {high > 0 && (
+        <p className="text-red-700 text-xs mb-2">
+          {high} look like a units or decimal error and must be acknowledged on the next step before importing.
+        </p>
+      )}
+      <table className="w-full text-xs mt-2">
+        <thead>
+          <tr className="text-left text-amber-700">
+            <th className="py-1 pr-3 font-semibold">Row</th>
+            <th className="py-1 pr-3 font-semibold">Field</th>
+            <th className="py-1 pr-3 font-semibold text-right">Value</th>
+            <th className="py-1 pr-3 font-semibold text-right">Median</th>
+            <th className="py-1 font-semibold text-right">Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          {outliers.slice(0, MAX_LISTED_ROWS * 2).map((o) => (
+            <tr key={`${o.rowIndex}-${o.table}-${o.field}`} className={o.severity === 'high' ? 'text-red-700' : 'text-amber-800'}>
+              <td className="py-0.5 pr-3">{o.rowIndex}</td>
+              <td className="py-0.5 pr-3">{o.label}</td>
+              <td className="py-0.5 pr-3 text-right tabular-nums font-medium">{formatNumber(o.value)}</td>
+              <td className="py-0.5 pr-3 text-right tabular-nums">
+                {formatNumber(o.median)} <span className="text-amber-500">({o.historyWeeks} wks)</span>
+              </td>
+              <td className="py-0.5 text-right tabular-nums">
+                {o.percentFromMedian !== null ? `${o.percentFromMedian > 0 ? '+' : ''}${o.percentFromMedian}%` : '—'}
+                {o.zScore !== null && <span className="ml-1 text-amber-500">z {o.zScore}</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {outliers.length > MAX_LISTED_ROWS * 2 && (
+        <p className="text-xs text-amber-500 mt-1">...and {outliers.length - MAX_LISTED_ROWS * 2} more</p>
+      )}
+    </div>
+  );
+}
+
+function rowList(rowIndexes: number[]) {
+  const shown = rowIndexes.slice(0, MAX_LISTED_ROWS).join(', ');
+  return rowIndexes.length > MAX_LISTED_ROWS ? `${shown} and ${rowIndexes.length - MAX_LISTED_ROWS} more` : shown;
+}
+
+/** Cross-field accounting checks: which rows broke each rule and which values were calculated */
+function ConsistencyPanel({ results }: { results: RuleResult[] }) {
+  return (
+    <div className="mb-6 p-4 rounded-xl border border-gray-200 bg-white">
+      <p className="text-sm font-medium text-gray-700 mb-2">Consistency checks</p>
+      <ul className="space-y-1.5">
+        {results.map((r) => (
+          <li key={r.field + r.description} className="text-sm">
+            <span
+              className={
+                r.violations.length === 0 ? 'text-emerald-600' : r.severity === 'error' ? 'text-red-600' : 'text-amber-600'
+              }
+            >
+              {r.violations.length === 0 ? '✓' : r.severity === 'error' ? '✕' : '⚠'}
+            </span>{' '}
+            <span className="text-gray-700">{r.description}</span>
+            {r.violations.length > 0 && (
+              <span className={`ml-2 text-xs ${r.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                {r.violations.length} row(s) don't add up: {rowList(r.violations)}
+              </span>
+            )}
+            {r.derived.length > 0 && (
+              <span className="ml-2 text-xs text-indigo-600">calculated for {r.derived.length} row(s)</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DuplicateList({
+  title,
+  duplicates,
+  describe,
+}: {
+  title: string;
+  duplicates: DuplicateInfo[];
+  describe: (d: DuplicateInfo) => string;
+}) {
+  return (
+    <div className="mb-2">
+      <p className="text-amber-800 text-sm font-medium mb-1">{title}</p>
+      <ul className="space-y-0.5">
+        {duplicates.slice(0, MAX_LISTED_ROWS).map((d) => (
+          <li key={`${d.table}-${d.rowIndex}-${Object.values(d.key).join('|')}`} className="text-xs text-amber-700">
+            Row {d.rowIndex}: {describe(d)}
+          </li>
+        ))}
+        {duplicates.length > MAX_LISTED_ROWS && (
+          <li className="text-xs text-amber-500">...and {duplicates.length - MAX_LISTED_ROWS} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Unrecognised values in enum columns, with the closest matches. Saving an
+ * alias applies to this file and every later upload.
+ */
+function UnknownValuesPanel({
+  unknownValues,
+  onRevalidate,
+}: {
+  unknownValues: UnknownValue[];
+  onRevalidate: () => Promise<void>;
+}) {
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  async function remember(unknown: UnknownValue, value: string) {
+    const key = `${unknown.field}:${unknown.value}`;
+    setSaving(key);
+    setError('');
+    try {
+      await rememberValueAlias(unknown.field, unknown.value, value);
+      await onRevalidate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the alias');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-xl border border-red-200 bg-red-50">
+      <p className="text-red-800 text-sm font-medium">
+        {unknownValues.length} value(s) don't match a known option. Pick the right one to remember it for future uploads.
+      </p>
+      <ul className="mt-3 space-y-3">
+        {unknownValues.map((unknown) => {
+          const key = `${unknown.field}:${unknown.value}`;
+          const selected = chosen[key] ?? '';
+          return (
+            <li key={key} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-700">
+                {unknown.label} <span className="font-medium">"{unknown.value}"</span>
+                <span className="text-gray-400"> · {unknown.rowIndexes.length} row(s)</span>
+              </span>
+              {unknown.suggestions.map((s) => (
+                <button
+                  key={s.value}
+                  onClick={() => remember(unknown, s.value)}
+                  disabled={saving !== null}
+                  className="text-xs px-2.5 py-1 rounded-full border border-indigo-200 bg-white text-indigo-700 hover:bg-indigo-50 disabled:opacity-50"
+                >
+                  Use {s.label}
+                </button>
+              ))}
+              <select
+                value={selected}
+                onChange={(e) => setChosen((prev) => ({ ...prev, [key]: e.target.value }))}
+                className="text-xs rounded-lg border border-gray-200 bg-white px-2 py-1"
+              >
+                <option value="">Other...</option>
+                {unknown.allowed.map((a) => (
+                  <option key={a.value} value={a.value}>{a.label}</option>
+                ))}
+              </select>
+              {selected && (
+                <button
+                  onClick={() => remember(unknown, selected)}
+                  disabled={saving !== null}
+                  className="text-xs px-2.5 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {saving === key ? 'Saving...' : 'Remember'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { fetchHistory, rollbackUpload, type UploadRecord } from '../../lib/api';
+import { fetchHistory, previewRollback, rollbackUpload, type RollbackPreview, type RollbackStep, type UploadRecord } from '../../lib/api';
 
 const STATUS_STYLES: Record<string, { bg: string; text: string }> = {
   completed: { bg: 'bg-emerald-100', text: 'text-emerald-700' },
@@ -9,6 +9,13 @@ const STATUS_STYLES: Record<string, { bg: string; text: string }> = {
   rolled_back: { bg: 'bg-amber-100', text: 'text-amber-700' },
 };
 
+/** Where a conflicting record's current values came from, when not an upload */
+const SOURCE_LABELS: Record<string, string> = {
+  xero_api: 'from the Xero sync',
+  backfilled: 'from the Excel migration',
+  manual_entry: 'entered manually',
+};
+
 export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload: () => void }) {
   const [uploads, setUploads] = useState<UploadRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -20,6 +27,8 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
 
   // Rollback modal
   const [rollbackTarget, setRollbackTarget] = useState<UploadRecord | null>(null);
+  const [preview, setPreview] = useState<RollbackPreview | null>(null);
+  const [previewError, setPreviewError] = useState('');
   const [rollingBack, setRollingBack] = useState(false);
   const [rollbackResult, setRollbackResult] = useState('');
 
@@ -39,13 +48,25 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
     loadHistory();
   }, [filterStatus, filterDataType]);
 
+  function openRollback(upload: UploadRecord) {
+    setRollbackTarget(upload);
+    setPreview(null);
+    setPreviewError('');
+    previewRollback(upload.id)
+      .then(setPreview)
+      .catch((err) => setPreviewError(err.message));
+  }
+
   async function handleRollback() {
-    if (!rollbackTarget) return;
+    if (!rollbackTarget || !preview) return;
     setRollingBack(true);
     try {
-      const res = await rollbackUpload(rollbackTarget.id);
+      const res = await rollbackUpload(rollbackTarget.id, preview.dependents.length > 0);
+      const cascaded = res.cascaded.length > 0
+        ? ` Later uploads rolled back first: ${res.cascaded.map((id) => `#${id}`).join(', ')}.`
+        : '';
       setRollbackResult(
-        `Rolled back upload #${res.uploadId}: ${res.rowsDeleted} deleted, ${res.rowsRestored} restored.`,
+        `Rolled back upload #${res.uploadId}: ${res.rowsDeleted} deleted, ${res.rowsRestored} restored.${cascaded}`,
       );
       setRollbackTarget(null);
       loadHistory();
@@ -167,8 +188,21 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
                   return (
                     <tr key={upload.id} className="hover:bg-gray-50 transition-colors">
                       <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDate(upload.createdAt)}</td>
-                      <td className="px-4 py-3 text-gray-900 font-medium max-w-[200px] truncate">
-                        {upload.fileName}
+                      <td className="px-4 py-3 max-w-[240px]">
+                        <p className="text-gray-900 font-medium truncate">
+                          <span className="text-gray-400 font-normal mr-1">#{upload.id}</span>
+                          {upload.fileName}
+                        </p>
+                        {upload.overwrittenBy.length > 0 && (
+                          <p className="text-xs text-amber-600 mt-0.5">
+                            Overwritten by {upload.overwrittenBy.map((id) => `#${id}`).join(', ')}
+                          </p>
+                        )}
+                        {upload.overwrote.length > 0 && (
+                          <p className="text-xs text-gray-400 mt-0.5">
+                            Overwrote {upload.overwrote.map((id) => `#${id}`).join(', ')}
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-gray-600">{upload.dataType}</td>
                       <td className="px-4 py-3 text-gray-600">{upload.uploadedBy ?? '—'}</td>
@@ -189,7 +223,7 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
                       <td className="px-4 py-3 text-right">
                         {upload.status === 'completed' && (
                           <button
-                            onClick={() => setRollbackTarget(upload)}
+                            onClick={() => openRollback(upload)}
                             className="text-xs text-red-600 hover:text-red-800 font-medium hover:underline"
                           >
                             Rollback
@@ -208,12 +242,65 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
       {/* Rollback confirmation modal */}
       {rollbackTarget && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
-          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full mx-4 p-6">
+          <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[85vh] flex flex-col">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">Confirm Rollback</h3>
             <p className="text-gray-600 text-sm mb-4">
-              This will undo upload <span className="font-medium">"{rollbackTarget.fileName}"</span> and remove{' '}
-              {rollbackTarget.rowsProcessed} row(s) from the database. Any overwritten data will be restored.
+              This will undo upload <span className="font-medium">"{rollbackTarget.fileName}"</span>: rows it added are
+              removed and any data it overwrote is restored.
             </p>
+
+            {previewError && (
+              <p className="text-red-700 text-sm bg-red-50 border border-red-200 rounded-lg p-3 mb-4">{previewError}</p>
+            )}
+
+            {!preview && !previewError && (
+              <div className="flex items-center gap-3 text-sm text-gray-500 mb-4">
+                <div className="animate-spin w-4 h-4 border-2 border-indigo-300 border-t-indigo-600 rounded-full" />
+                Working out what will change...
+              </div>
+            )}
+
+            {preview && preview.dependents.length > 0 && (
+              <div className="text-sm bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                <p className="text-amber-800 font-medium mb-1">
+                  Later uploads changed records from this upload and will be rolled back first:
+                </p>
+                <ul className="space-y-0.5">
+                  {preview.dependents.map((d) => (
+                    <li key={d.uploadId} className="text-xs text-amber-700">
+                      #{d.uploadId} "{d.fileName}" ({formatDate(d.createdAt)}) — overwrote {d.sharedRecords} record(s)
+                      from {d.dependsOn.map((id) => `#${id}`).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview && preview.conflicts.length > 0 && (
+              <div className="text-sm bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                <p className="text-red-800 font-medium mb-1">
+                  These records have been changed since by the Xero sync or another source, so this upload can't be
+                  rolled back without undoing those values:
+                </p>
+                <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+                  {preview.conflicts.map((c) => (
+                    <li key={`${c.table}-${c.id}`} className="text-xs text-red-700">
+                      {formatKey(c.key)} <span className="text-red-400">({c.table})</span> — now{' '}
+                      {c.currentUploadId ? `from upload #${c.currentUploadId}` : SOURCE_LABELS[c.dataSource] ?? c.dataSource}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview && (
+              <div className="flex-1 overflow-y-auto mb-4 space-y-3">
+                {preview.steps.map((step) => (
+                  <RollbackStepDetail key={step.uploadId} step={step} />
+                ))}
+              </div>
+            )}
+
             <p className="text-amber-700 text-sm bg-amber-50 border border-amber-200 rounded-lg p-3 mb-6">
               This action cannot be undone.
             </p>
@@ -227,7 +314,7 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
               </button>
               <button
                 onClick={handleRollback}
-                disabled={rollingBack}
+                disabled={rollingBack || !preview || preview.conflicts.length > 0}
                 className="px-5 py-2 rounded-lg text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
               >
                 {rollingBack ? (
@@ -238,6 +325,8 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
                     </svg>
                     Rolling back...
                   </>
+                ) : preview && preview.dependents.length > 0 ? (
+                  `Rollback ${preview.steps.length} Uploads`
                 ) : (
                   'Rollback'
                 )}
@@ -249,3 +338,36 @@ export default function UploadHistory({ onNavigateUpload }: { onNavigateUpload:
     </div>
   );
 }
+
+function formatKey(key: Record<string, string> | null) {
+  return key ? Object.values(key).join(' · ') : 'Missing record';
+}
+
+function RollbackStepDetail({ step }: { step: RollbackStep }) {
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <p className="px-3 py-2 bg-gray-50 text-xs font-semibold text-gray-600 border-b border-gray-200">
+        #{step.uploadId} "{step.fileName}" — {step.deletes.length} to delete, {step.restores.length} to restore
+      </p>
+      <ul className="divide-y divide-gray-100 text-xs">
+        {step.deletes.map((row) => (
+          <li key={`d-${row.table}-${row.id}`} className="px-3 py-1.5 text-gray-600">
+            <span className="text-red-600 font-medium mr-2">Delete</span>
+            {formatKey(row.key)} <span className="text-gray-400">({row.table})</span>
+          </li>
+        ))}
+        {step.restores.map((row) => (
+          <li key={`r-${row.table}-${row.id}`} className="px-3 py-1.5 text-gray-600">
+            <span className="text-blue-600 font-medium mr-2">Restore</span>
+            {formatKey(row.key)} <span className="text-gray-400">({row.table})</span>
+            {row.changes.length > 0 && (
+              <span className="block text-gray-500 mt-0.5">
+                {row.changes.map((c) => `${c.field}: ${String(c.from ?? '—')} → ${String(c.to ?? '—')}`).join('; ')}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { DataTypeDefinition, ParseResult, AutoMapResult, ApplyMappingResult } from '../../lib/api';
+import { applyMapping, type DataTypeDefinition, type ParseResult, type AutoMapResult, type ApplyMappingResult } from '../../lib/api';
 import DataTypeSelector from './DataTypeSelector';
 import FileUploader from './FileUploader';
 import ColumnMapper from './ColumnMapper';
@@ -21,6 +21,20 @@ export interface WizardState {
 
 const STEP_LABELS = ['Select Data Type', 'Upload File', 'Map Columns', 'Preview & Validate', 'Import'];
 
+/**
+ * Starting mapping for an unpivoted file: the generated week column plus any
+ * metric label that matches a field's label exactly.
+ */
+function suggestPivotMapping(dataType: DataTypeDefinition, headers: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const header of headers) {
+    const key = header.trim().toLowerCase();
+    const field = dataType.fields.find((f) => f.label.toLowerCase() === key || f.dbField.toLowerCase() === key);
+    if (field && !Object.values(mapping).includes(field.dbField)) mapping[header] = field.dbField;
+  }
+  return mapping;
+}
+
 export default function UploadWizard({ onNavigateHistory }: { onNavigateHistory: () => void }) {
   const [step, setStep] = useState<WizardStep>(1);
   const [state, setState] = useState<WizardState>({
@@ -112,7 +126,8 @@ export default function UploadWizard({ onNavigateHistory }: { onNavigateHistory:
         <FileUploader
           dataType={state.dataType}
           onParsed={(file, parseResult, autoMapResult) => {
-            const mapping: Record<string, string> = autoMapResult?.mapping ?? {};
+            const mapping: Record<string, string> = autoMapResult?.mapping
+              ?? (parseResult.pivot ? suggestPivotMapping(state.dataType!, parseResult.headers) : {});
             update({
               file,
               parseResult,
@@ -146,13 +161,18 @@ export default function UploadWizard({ onNavigateHistory }: { onNavigateHistory:
           result={state.validationResult}
           duplicateStrategy={state.duplicateStrategy}
           onStrategyChange={(s) => update({ duplicateStrategy: s })}
+          onRevalidate={async () => {
+            const validationResult = await applyMapping(state.parseResult!.sessionId, state.dataType!.id, state.mapping);
+            update({ validationResult });
+          }}
           onConfirm={() => setStep(5)}
           onBack={() => setStep(3)}
         />
       )}
 
-      {step === 5 && state.dataType && state.validationResult && state.file && (
+      {step === 5 && state.dataType && state.validationResult && state.file && state.parseResult && (
         <ConfirmImport
+          sessionId={state.parseResult.sessionId}
           dataType={state.dataType}
           fileName={state.file.name}
           mapping={state.mapping}
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { fetchAlerts, acknowledgeAlert, type Alert } from './alertsApi';
+import { useWeek } from './WeekContext';
+import { AlertContext } from './useAlerts';
+
+export function AlertProvider({ children }: { children: ReactNode }) {
+  const { selectedWeek } = useWeek();
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [unacknowledgedCount, setUnacknowledgedCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await fetchAlerts('active');
+      setAlerts(data.alerts);
+      setUnacknowledgedCount(data.unacknowledgedCount);
+    } catch {
+      // Alerts are supplementary — leave the last known list in place
+    }
+  }, []);
+
+  // Reload when the week changes so alerts raised by a recent import show up
+  useEffect(() => {
+    let cancelled = false;
+    fetchAlerts('active')
+      .then((data) => {
+        if (cancelled) return;
+        setAlerts(data.alerts);
+        setUnacknowledgedCount(data.unacknowledgedCount);
+      })
+      .catch(() => { /* keep the last known list */ });
+    return () => { cancelled = true; };
+  }, [selectedWeek]);
+
+  async function acknowledge(id: number) {
+    const updated = await acknowledgeAlert(id);
+    setAlerts((prev) => prev.map((a) => (a.id === id ? updated : a)));
+    setUnacknowledgedCount((n) => Math.max(0, n - 1));
+  }
+
+  return (
+    <AlertContext.Provider value={{ alerts, unacknowledgedCount, acknowledge, refresh }}>
+      {children}
+    </AlertContext.Provider>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { PermissionContext } from './usePermissions';
+
+export type DashboardPage =
+  | 'executive_summary'
+  | 'financial_deep_dive'
+  | 'pl_monthly_detail'
+  | 'sales_pipeline'
+  | 'marketing_leads'
+  | 'operations_productivity'
+  | 'regional_performance'
+  | 'cash_position'
+  | 'data_management'
+  | 'target_management'
+  | 'staff_management'
+  | 'admin_settings'
+  | 'user_permission_management';
+
+export type PermissionLevel = 'read' | 'write' | 'no_access';
+
+export function PermissionProvider({ children }: { children: ReactNode }) {
+  const [role, setRole] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<Partial<Record<DashboardPage, PermissionLevel>> | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function init() {
+      try {
+        const res = await fetch('/api/v1/auth/permissions');
+        if (!res.ok) return;
+        const data = await res.json();
+        setRole(data.role);
+        setPermissions(data.permissions);
+      } catch {
+        // Leave permissions unresolved — the server still enforces access
+      } finally {
+        setLoading(false);
+      }
+    }
+    init();
+  }, []);
+
+  // Until the matrix is known, show everything and let the API decide
+  function canRead(page: DashboardPage) {
+    if (!permissions) return true;
+    return (permissions[page] ?? 'no_access') !== 'no_access';
+  }
+
+  function canWrite(page: DashboardPage) {
+    if (!permissions) return true;
+    return permissions[page] === 'write';
+  }
+
+  return (
+    <PermissionContext.Provider value={{ role, permissions: permissions ?? {}, canRead, canWrite, loading }}>
+      {children}
+    </PermissionContext.Provider>
+  );
+}
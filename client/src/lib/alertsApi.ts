@@ -0,0 +1,61 @@
+import type { DashboardPage } from './PermissionContext';
+
+const BASE = '/api/v1/alerts';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AlertType =
+  | 'net_profit_below_budget'
+  | 'team_below_target'
+  | 'conversion_below_average'
+  | 'cash_near_overdraft';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface Alert {
+  id: number;
+  type: AlertType;
+  severity: AlertSeverity;
+  weekEnding: string;
+  /** Region or sales type the alert is about; empty for business-wide alerts */
+  entity: string;
+  page: DashboardPage;
+  title: string;
+  message: string;
+  value: string | null;
+  threshold: string | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertList {
+  alerts: Alert[];
+  /** Active alerts nobody has acknowledged yet, across all weeks */
+  unacknowledgedCount: number;
+}
+
+export type AlertStatusFilter = 'active' | 'unacknowledged' | 'all';
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchAlerts(status: AlertStatusFilter = 'active', weekEnding?: string): Promise<AlertList> {
+  const params = new URLSearchParams({ status });
+  if (weekEnding) params.set('weekEnding', weekEnding);
+  return request(`${BASE}?${params}`);
+}
+
+export async function acknowledgeAlert(id: number): Promise<Alert> {
+  return request(`${BASE}/${id}/acknowledge`, { method: 'POST' });
+}
@@ -20,6 +20,24 @@ export interface DataTypeDefinition {
   targetTable: string;
   fixedFields: Record<string, string>;
   fields: FieldDefinition[];
+  /** Set when one file writes to several data types */
+  composite?: {
+    routing?: { field: string; values: Record<string, Record<string, string>> };
+    targets: { dataTypeIds: string[]; rename?: Record<string, string> }[];
+  };
+  /** Cross-field accounting checks run during validation */
+  rules?: ConsistencyRule[];
+}
+
+/** `field` must equal (or be at most) the sum of the terms; a leading '-' subtracts */
+export interface ConsistencyRule {
+  field: string;
+  equals?: string[];
+  atMost?: string[];
+  tolerance?: number;
+  severity: 'error' | 'warning';
+  /** A blank `field` is calculated from the terms */
+  derive?: boolean;
 }
 
 export interface FieldDefinition {
@@ -30,6 +48,9 @@ export interface FieldDefinition {
 }
 
 export interface ParseResult {
+  /** Server-side upload session holding the file and all rows; later steps send only this */
+  sessionId: string;
+  expiresAt: string;
   fileName: string;
   fileSize: number;
   headers: string[];
@@ -38,6 +59,47 @@ export interface ParseResult {
   previewRows: Record<string, string>[];
   delimiter: string;
   encoding: string;
+  /** 1-based row the headers were read from */
+  headerRow: number;
+  /** First rows of the file or sheet as-is, for picking the header row */
+  rawPreview: string[][];
+  /** Present for .xlsx uploads */
+  workbook?: WorkbookInfo;
+  /** Cells that were blanked while parsing, e.g. formula errors */
+  warnings?: string[];
+  /** Present when weeks-as-columns data was unpivoted to one row per week */
+  pivot?: PivotInfo;
+  /** Earlier completed imports of the same file contents */
+  previousUploads: PreviousUpload[];
+}
+
+export interface PreviousUpload {
+  id: number;
+  fileName: string;
+  dataType: string;
+  uploadedBy: string | null;
+  createdAt: string;
+}
+
+export interface PivotInfo {
+  labelColumn: string;
+  weekColumns: string[];
+  otherColumns: string[];
+  /** Week endings that had data, as YYYY-MM-DD */
+  weeks: string[];
+}
+
+export interface WorkbookInfo {
+  sheets: string[];
+  sheet: string;
+}
+
+export interface ParseOptions {
+  sheet?: string;
+  headerRow?: number;
+  /** Detected from the headers when omitted */
+  layout?: 'long' | 'wide';
+  labelColumn?: string;
 }
 
 export interface AutoMapResult {
@@ -58,6 +120,24 @@ export interface RowValidation {
   messages: string[];
   data: Record<string, any>;
   original: Record<string, string>;
+  /** Composite data types: the record each target data type receives */
+  targets?: { dataTypeId: string; data: Record<string, unknown> }[];
+  outliers?: Outlier[];
+}
+
+/** A value far outside its series' trailing history */
+export interface Outlier {
+  rowIndex: number;
+  table: string;
+  field: string;
+  label: string;
+  value: number;
+  median: number;
+  historyWeeks: number;
+  zScore: number | null;
+  percentFromMedian: number | null;
+  /** 'high' must be acknowledged before import */
+  severity: 'warning' | 'high';
 }
 
 export interface ApplyMappingResult {
@@ -66,18 +146,84 @@ export interface ApplyMappingResult {
   fieldMappings: any[];
   rows: RowValidation[];
   summary: { total: number; passed: number; warnings: number; errors: number; blankSkipped: number };
-  duplicates: { weekEnding: string; rowIndex: number; existsInDb: boolean }[];
+  /** Records whose unique key already exists in the database */
+  duplicates: DuplicateInfo[];
+  /** Records whose unique key repeats an earlier row of the file */
+  fileDuplicates: DuplicateInfo[];
+  unknownValues: UnknownValue[];
+  consistency: RuleResult[];
+  outliers: Outlier[];
+}
+
+/** How one consistency rule fared across the file */
+export interface RuleResult {
+  field: string;
+  severity: 'error' | 'warning';
+  description: string;
+  violations: number[];
+  derived: number[];
+}
+
+export interface DuplicateInfo {
+  rowIndex: number;
+  table: string;
+  /** The table's unique key, e.g. { weekEnding: '2026-01-03', region: 'cairns' } */
+  key: Record<string, string>;
+  /** In-file duplicates: the earlier row with the same key */
+  firstRowIndex?: number;
+}
+
+/** An enum cell that matched neither a member nor a saved alias */
+export interface UnknownValue {
+  field: string;
+  label: string;
+  value: string;
+  rowIndexes: number[];
+  suggestions: { value: string; label: string }[];
+  allowed: { value: string; label: string }[];
+}
+
+export interface ValueAlias {
+  id: number;
+  field: string;
+  alias: string;
+  value: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  change: number | null;
+  changePercent: number | null;
+  /** A large swing, or an existing value being cleared */
+  large: boolean;
+}
+
+export interface RecordDiff {
+  rowIndex: number;
+  table: string;
+  action: 'insert' | 'update' | 'skip';
+  key: Record<string, unknown>;
+  existing: Record<string, unknown> | null;
+  incoming: Record<string, unknown>;
+  changes: FieldChange[];
 }
 
 export interface ImportResult {
-  uploadId: number;
-  status: 'completed' | 'failed';
+  /** Null for a dry run */
+  uploadId: number | null;
+  status: 'completed' | 'failed' | 'dry_run';
   rowsProcessed: number;
   rowsFailed: number;
   rowsSkipped: number;
   rowsInserted: number;
   rowsUpdated: number;
   errors: { rowIndex: number; messages: string[] }[];
+  /** Dry runs only */
+  diffs?: RecordDiff[];
 }
 
 export interface UploadRecord {
@@ -95,6 +241,10 @@ export interface UploadRecord {
   createdAt: string;
   updatedAt: string;
   mapping: { name: string } | null;
+  /** Later uploads that overwrote records from this one */
+  overwrittenBy: number[];
+  /** Earlier uploads whose records this one overwrote */
+  overwrote: number[];
 }
 
 export interface SavedMapping {
@@ -111,12 +261,25 @@ export async function fetchDataTypes(): Promise<{ dataTypes: DataTypeDefinition[
   return request(`${BASE}/data-types`);
 }
 
-export async function parseFile(file: File): Promise<ParseResult> {
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ParseResult> {
   const form = new FormData();
   form.append('file', file);
+  if (options.sheet) form.append('sheet', options.sheet);
+  if (options.headerRow) form.append('headerRow', String(options.headerRow));
+  if (options.layout) form.append('layout', options.layout);
+  if (options.labelColumn) form.append('labelColumn', options.labelColumn);
   return request(`${BASE}/parse`, { method: 'POST', body: form });
 }
 
+/** Re-read a session's stored file with different options, without uploading it again */
+export async function reparseFile(sessionId: string, options: ParseOptions): Promise<ParseResult> {
+  return request(`${BASE}/parse`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, ...options }),
+  });
+}
+
 export async function autoMap(dataTypeId: string, csvHeaders: string[]): Promise<AutoMapResult> {
   return request(`${BASE}/auto-map`, {
     method: 'POST',
@@ -126,23 +289,24 @@ export async function autoMap(dataTypeId: string, csvHeaders: string[]): Promise
 }
 
 export async function applyMapping(
+  sessionId: string,
   dataTypeId: string,
-  rows: Record<string, string>[],
   mapping: Record<string, string>,
 ): Promise<ApplyMappingResult> {
   return request(`${BASE}/apply-mapping`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ dataTypeId, rows, mapping }),
+    body: JSON.stringify({ sessionId, dataTypeId, mapping }),
   });
 }
 
 export async function importData(params: {
+  sessionId: string;
   dataTypeId: string;
-  fileName: string;
   mappingId?: number;
-  rows: RowValidation[];
   duplicateStrategy: 'overwrite' | 'skip' | 'merge';
+  /** Required when validation found high-severity outliers */
+  acknowledgeOutliers?: boolean;
 }): Promise<ImportResult> {
   return request(`${BASE}/import`, {
     method: 'POST',
@@ -151,6 +315,19 @@ export async function importData(params: {
   });
 }
 
+/** Dry run of importData: what each record would become, without saving anything */
+export async function previewImport(params: {
+  sessionId: string;
+  dataTypeId: string;
+  duplicateStrategy: 'overwrite' | 'skip' | 'merge';
+}): Promise<ImportResult> {
+  return request(`${BASE}/preview-import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+}
+
 export async function fetchHistory(filters?: {
   dataType?: string;
   status?: string;
@@ -166,8 +343,65 @@ export async function fetchHistory(filters?: {
   return request(`${BASE}/history${qs ? '?' + qs : ''}`);
 }
 
-export async function rollbackUpload(id: number): Promise<{ uploadId: number; rowsDeleted: number; rowsRestored: number }> {
-  return request(`${BASE}/${id}/rollback`, { method: 'POST' });
+export interface RollbackResult {
+  uploadId: number;
+  rowsDeleted: number;
+  rowsRestored: number;
+  /** Later uploads rolled back first */
+  cascaded: number[];
+}
+
+export interface UploadDependency {
+  uploadId: number;
+  fileName: string;
+  dataType: string;
+  uploadedBy: string | null;
+  createdAt: string;
+  dependsOn: number[];
+  sharedRecords: number;
+}
+
+export interface RollbackRow {
+  table: string;
+  id: number;
+  key: Record<string, string> | null;
+}
+
+export interface RollbackStep {
+  uploadId: number;
+  fileName: string;
+  deletes: RollbackRow[];
+  restores: (RollbackRow & { changes: FieldChange[] })[];
+}
+
+/** A record the rollback would undo that the Xero sync or another source has written since */
+export interface RollbackConflict extends RollbackRow {
+  uploadId: number;
+  currentUploadId: number | null;
+  dataSource: string;
+}
+
+export interface RollbackPreview {
+  uploadId: number;
+  /** Must be rolled back first (cascade); empty when the upload can be rolled back alone */
+  dependents: UploadDependency[];
+  /** Dependents newest first, then the upload itself */
+  steps: RollbackStep[];
+  /** The rollback is refused while there are any */
+  conflicts: RollbackConflict[];
+}
+
+export async function previewRollback(id: number): Promise<RollbackPreview> {
+  return request(`${BASE}/${id}/rollback-preview`);
+}
+
+/** With cascade, later uploads that overwrote this one's records are rolled back first */
+export async function rollbackUpload(id: number, cascade = false): Promise<RollbackResult> {
+  return request(`${BASE}/${id}/rollback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ cascade }),
+  });
 }
 
 export async function saveMapping(name: string, dataType: string, mapping: Record<string, string>): Promise<SavedMapping> {
@@ -181,3 +415,11 @@ export async function saveMapping(name: string, dataType: string, mapping: Recor
 export async function fetchMappings(): Promise<SavedMapping[]> {
   return request(`${BASE}/mappings`);
 }
+
+export async function rememberValueAlias(field: string, alias: string, value: string): Promise<ValueAlias> {
+  return request(`${BASE}/aliases`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ field, alias, value }),
+  });
+}
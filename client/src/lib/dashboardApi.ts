@@ -245,3 +245,227 @@ export interface RegionalPerformanceData {
 export async function fetchRegionalPerformance(weekEnding: string): Promise<RegionalPerformanceData> {
   return request(`${BASE}/regional-performance?weekEnding=${weekEnding}`);
 }
+
+// ─── Sales & Pipeline Types ───────────────────────────────────────────────────
+
+export type TrendWindow = 13 | 26 | 52;
+
+export interface QuoteSummary {
+  issuedCount: number;
+  issuedValue: number;
+  wonCount: number;
+  wonValue: number;
+  winRate: number;
+  valueWinRate: number;
+  avgQuoteValue: number;
+  avgWonValue: number;
+}
+
+export interface SalesTypeSummary extends QuoteSummary {
+  type: string;
+}
+
+export interface SalesRegionSummary extends QuoteSummary {
+  region: string;
+  label: string;
+}
+
+export interface SalesHeatmapCell extends QuoteSummary {
+  salesType: string;
+  hasData: boolean;
+}
+
+export interface SalesHeatmapRow {
+  region: string;
+  label: string;
+  cells: SalesHeatmapCell[];
+}
+
+export interface SalesTrendPoint extends QuoteSummary {
+  weekEnding: string;
+}
+
+export interface SalesPipelineData {
+  weekEnding: string;
+  weeks: TrendWindow;
+  hasData: boolean;
+  summary: QuoteSummary;
+  currentWeek: SalesTypeSummary[];
+  byType: SalesTypeSummary[];
+  byRegion: SalesRegionSummary[];
+  heatmap: SalesHeatmapRow[];
+  trend: SalesTrendPoint[];
+  regionLabels: Record<string, string>;
+}
+
+export async function fetchSalesPipeline(weekEnding: string, weeks: TrendWindow): Promise<SalesPipelineData> {
+  return request(`${BASE}/sales-pipeline?weekEnding=${weekEnding}&weeks=${weeks}`);
+}
+
+// ─── Marketing & Leads ────────────────────────────────────────────────────────
+
+export interface MarketingSummary {
+  totalLeads: number;
+  totalLeadCost: number;
+  avgCostPerLead: number | null;
+  totalAdSpend: number;
+  totalSessions: number;
+  latestRating: number | null;
+}
+
+export interface LeadSourceSummary {
+  source: string;
+  label: string;
+  leadCount: number;
+  totalCost: number;
+  costPerLead: number | null;
+}
+
+export interface CostPerLeadPoint {
+  weekEnding: string;
+  [source: string]: string | number | null;
+}
+
+export interface PlatformWeek {
+  weekEnding: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  ctr: number | null;
+  cpc: number | null;
+  conversionRate: number | null;
+}
+
+export interface PlatformTrend {
+  platform: string;
+  label: string;
+  weeks: PlatformWeek[];
+}
+
+export interface ChannelAttribution {
+  platform: string;
+  label: string;
+  leadSource: string;
+  spend: number;
+  leads: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  costPerLead: number | null;
+  ctr: number | null;
+  cpc: number | null;
+  conversionRate: number | null;
+  shareOfSpend: number;
+  shareOfLeads: number;
+}
+
+export interface SpendVsLeadsPoint {
+  weekEnding: string;
+  spend: number;
+  leads: number;
+  costPerLead: number | null;
+}
+
+export interface WebsiteTrendPoint {
+  weekEnding: string;
+  sessions: number | null;
+  users: number | null;
+  newUsers: number | null;
+  pageViews: number | null;
+  bounceRate: number | null;
+  avgSessionDuration: number | null;
+}
+
+export interface ReviewsTrendPoint {
+  weekEnding: string;
+  reviewCount: number | null;
+  averageRating: number | null;
+  cumulativeCount: number | null;
+  cumulativeAverageRating: number | null;
+}
+
+export interface MarketingLeadsData {
+  weekEnding: string;
+  weeks: TrendWindow;
+  hasData: boolean;
+  summary: MarketingSummary;
+  bySource: LeadSourceSummary[];
+  costPerLeadTrend: CostPerLeadPoint[];
+  platformTrend: PlatformTrend[];
+  attribution: ChannelAttribution[];
+  spendVsLeadsTrend: SpendVsLeadsPoint[];
+  websiteTrend: WebsiteTrendPoint[];
+  reviewsTrend: ReviewsTrendPoint[];
+  sourceLabels: Record<string, string>;
+}
+
+export async function fetchMarketingLeads(weekEnding: string, weeks: TrendWindow): Promise<MarketingLeadsData> {
+  return request(`${BASE}/marketing-leads?weekEnding=${weekEnding}&weeks=${weeks}`);
+}
+
+// ─── Operations & Productivity ────────────────────────────────────────────────
+
+export interface StaffMetrics {
+  jobsCompleted: number;
+  inspectionsCompleted: number;
+  revenueGenerated: number;
+  inboundCalls: number;
+  outboundCalls: number;
+  missedCalls: number;
+  totalCalls: number;
+  missedCallRate: number | null;
+  avgCallDuration: number | null;
+  revenuePerCall: number | null;
+}
+
+export interface StaffLeaderboardRow extends StaffMetrics {
+  staffName: string;
+  role: string | null;
+  roleLabel: string | null;
+  region: string | null;
+  regionLabel: string | null;
+}
+
+export interface OperationsData {
+  weekEnding: string;
+  weeks: TrendWindow;
+  filters: { role: string | null; region: string | null };
+  hasData: boolean;
+  summary: StaffMetrics & { staffCount: number };
+  leaderboard: StaffLeaderboardRow[];
+  roleLabels: Record<string, string>;
+  regionLabels: Record<string, string>;
+}
+
+export interface StaffTrendPoint extends StaffMetrics {
+  weekEnding: string;
+}
+
+export interface StaffTrendData {
+  staffName: string;
+  weekEnding: string;
+  weeks: TrendWindow;
+  role: string | null;
+  roleLabel: string | null;
+  region: string | null;
+  regionLabel: string | null;
+  hasData: boolean;
+  trend: StaffTrendPoint[];
+}
+
+export async function fetchOperations(
+  weekEnding: string,
+  weeks: TrendWindow,
+  filters: { role?: string; region?: string } = {},
+): Promise<OperationsData> {
+  const params = new URLSearchParams({ weekEnding, weeks: String(weeks) });
+  if (filters.role) params.set('role', filters.role);
+  if (filters.region) params.set('region', filters.region);
+  return request(`${BASE}/operations?${params}`);
+}
+
+export async function fetchStaffTrend(weekEnding: string, weeks: TrendWindow, staffName: string): Promise<StaffTrendData> {
+  const params = new URLSearchParams({ weekEnding, weeks: String(weeks), staffName });
+  return request(`${BASE}/operations/staff-trend?${params}`);
+}
@@ -0,0 +1,59 @@
+const BASE = '/api/v1/digest';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DigestDelivery {
+  id: number;
+  weekEnding: string;
+  trigger: 'auto' | 'manual';
+  status: 'sent' | 'failed';
+  recipients: string[];
+  transport: string;
+  subject: string;
+  messageId: string | null;
+  error: string | null;
+  sentBy: string | null;
+  sentAt: string;
+}
+
+export interface DigestStatus {
+  weekEnding: string;
+  /** "smtp" or "file"; null when email isn't configured on the server */
+  transport: string | null;
+  enabled: boolean;
+  recipientCount: number;
+  missingDataTypes: { id: string; name: string }[];
+  lastDelivery: DigestDelivery | null;
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchDigestStatus(weekEnding: string): Promise<DigestStatus> {
+  return request(`${BASE}/status?weekEnding=${weekEnding}`);
+}
+
+export async function fetchDigestDeliveries(limit = 20): Promise<DigestDelivery[]> {
+  return request(`${BASE}/deliveries?limit=${limit}`);
+}
+
+/** Send the digest for a week now, whether or not all its data is in. */
+export async function sendDigest(weekEnding: string): Promise<DigestDelivery> {
+  return request(`${BASE}/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ weekEnding }),
+  });
+}
+
+export function digestPreviewUrl(weekEnding: string): string {
+  return `${BASE}/preview?weekEnding=${weekEnding}`;
+}
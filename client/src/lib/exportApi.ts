@@ -0,0 +1,94 @@
+const BASE = '/api/v1/export';
+const REPORTS_BASE = '/api/v1/reports';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ExportSection =
+  | 'executive-kpis'
+  | 'net-profit-trend'
+  | 'revenue-by-category-trend'
+  | 'team-performance'
+  | 'project-summary'
+  | 'sales-summary'
+  | 'lead-sources'
+  | 'google-reviews'
+  | 'pl-weekly'
+  | 'pl-monthly'
+  | 'revenue-comparison'
+  | 'revenue-breakdown'
+  | 'revenue-trend'
+  | 'cost-analysis'
+  | 'cash-position'
+  | 'aged-receivables'
+  | 'upcoming-liabilities'
+  | 'regional-comparison'
+  | 'regional-trend'
+  | 'regional-drilldown'
+  | 'sales-trend'
+  | 'sales-by-type'
+  | 'sales-by-region'
+  | 'sales-heatmap'
+  | 'leads-by-source'
+  | 'cost-per-lead-trend'
+  | 'spend-vs-leads'
+  | 'attribution'
+  | 'platform-trend'
+  | 'website-traffic'
+  | 'reviews-trend'
+  | 'staff-leaderboard'
+  | 'staff-trend';
+
+/** Optional query parameters for windowed or filtered sections */
+export interface ExportParams {
+  weeks?: number;
+  region?: string;
+  role?: string;
+  staffName?: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a file and hand it to the browser as a download. The file name comes
+ * from the server's Content-Disposition header, falling back to `fallbackName`.
+ */
+async function download(url: string, fallbackName: string): Promise<void> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Export failed: ${res.status}`);
+  }
+
+  const disposition = res.headers.get('Content-Disposition') ?? '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+/**
+ * Download a dashboard section as CSV.
+ */
+export async function downloadCsv(section: ExportSection, weekEnding: string, params: ExportParams = {}): Promise<void> {
+  const query = new URLSearchParams({ weekEnding });
+  for (const [key, value] of Object.entries(params)) {
+    if (value != null && value !== '') query.set(key, String(value));
+  }
+  await download(`${BASE}/${section}?${query}`, `${section}-${weekEnding}.csv`);
+}
+
+/**
+ * Download the branded weekly PDF report for a week.
+ */
+export async function downloadWeeklyReport(weekEnding: string): Promise<void> {
+  const query = new URLSearchParams({ weekEnding });
+  await download(`${REPORTS_BASE}/weekly?${query}`, `weekly-report-${weekEnding}.pdf`);
+}
@@ -0,0 +1,57 @@
+const BASE = '/api/v1/jobs';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobRun {
+  id: number;
+  jobId: string;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  triggeredBy: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  recordsAffected: number | null;
+  message: string | null;
+  error: string | null;
+}
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  description: string;
+  cron: string;
+  defaultCron: string;
+  enabled: boolean;
+  timezone: string;
+  nextRunAt: string | null;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchJobs(): Promise<ScheduledJob[]> {
+  return request(BASE);
+}
+
+export async function fetchJobRuns(jobId?: string, limit = 20): Promise<JobRun[]> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (jobId) params.set('jobId', jobId);
+  return request(`${BASE}/runs?${params}`);
+}
+
+/** Start a job now. Resolves with the new run once it has started. */
+export async function runJob(jobId: string): Promise<JobRun> {
+  return request(`${BASE}/${jobId}/run`, { method: 'POST' });
+}
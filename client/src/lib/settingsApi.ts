@@ -0,0 +1,111 @@
+import type { TrendWindow } from './dashboardApi';
+
+const BASE = '/api/v1/settings';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface BrandingSetting {
+  companyName: string;
+  logoUrl: string | null;
+  primaryColour: string;
+  accentColour: string;
+}
+
+export interface AlertThresholdsSetting {
+  netProfitBelowBudgetWeeks: number;
+  teamBelowTargetPercent: number;
+  conversionBelowAverage: boolean;
+  cashNearOverdraftAmount: number;
+}
+
+export interface OutlierDetectionSetting {
+  enabled: boolean;
+  /** Trailing weeks each value is compared with */
+  historyWeeks: number;
+  zScore: number;
+  /** % away from the historical median */
+  percentBand: number;
+  /** Values this many times the median (or a fraction of it) must be acknowledged before import */
+  acknowledgeFactor: number;
+}
+
+export interface FiscalYearStartSetting {
+  month: number;
+  day: number;
+}
+
+export interface JobSchedulesSetting {
+  timezone: string;
+  /** Overrides by job id; jobs not listed use their default schedule */
+  jobs: Record<string, { cron: string; enabled: boolean }>;
+}
+
+export interface DigestSetting {
+  enabled: boolean;
+  recipients: string[];
+  /** Data type ids that must be imported for a week before the digest goes out */
+  requiredDataTypes: string[];
+}
+
+export interface SettingValues {
+  branding: BrandingSetting;
+  pass_through_categories: string[];
+  alert_thresholds: AlertThresholdsSetting;
+  outlier_detection: OutlierDetectionSetting;
+  fiscal_year_start: FiscalYearStartSetting;
+  default_trend_window: TrendWindow;
+  job_schedules: JobSchedulesSetting;
+  digest: DigestSetting;
+}
+
+export type SettingKey = keyof SettingValues;
+
+export interface SettingEntry<K extends SettingKey = SettingKey> {
+  key: K;
+  value: SettingValues[K];
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export interface SettingAuditEntry {
+  id: number;
+  key: SettingKey;
+  action: 'update' | 'reset';
+  previousValue: unknown;
+  newValue: unknown;
+  changedBy: string | null;
+  changedAt: string;
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchSettings(): Promise<SettingEntry[]> {
+  return request(BASE);
+}
+
+export async function saveSetting<K extends SettingKey>(key: K, value: SettingValues[K]): Promise<SettingEntry<K>> {
+  return request(`${BASE}/${key}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ value }),
+  });
+}
+
+export async function resetSetting<K extends SettingKey>(key: K): Promise<SettingEntry<K>> {
+  return request(`${BASE}/${key}`, { method: 'DELETE' });
+}
+
+export async function fetchSettingsAudit(key?: SettingKey, limit = 50): Promise<SettingAuditEntry[]> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (key) params.set('key', key);
+  return request(`${BASE}/audit?${params}`);
+}
@@ -0,0 +1,132 @@
+const BASE = '/api/v1/targets';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type TargetType =
+  | 'net_profit'
+  | 'residential_revenue'
+  | 'commercial_revenue'
+  | 'retrospective_revenue'
+  | 'team_revenue'
+  | 'breakeven';
+
+export type Region =
+  | 'cairns'
+  | 'mackay'
+  | 'nq_commercial'
+  | 'seq_residential'
+  | 'seq_commercial'
+  | 'town_planning'
+  | 'townsville'
+  | 'wide_bay'
+  | 'all_in_access';
+
+/** Amounts are Prisma Decimals, serialised as strings. */
+export interface Target {
+  id: number;
+  targetType: TargetType;
+  entity: Region | null;
+  amount: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  setBy: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface TargetHistoryEntry {
+  id: number;
+  targetId: number;
+  previousAmount: string;
+  newAmount: string;
+  changedBy: string | null;
+  changedAt: string;
+  notes: string | null;
+}
+
+export interface TargetWithHistory extends Target {
+  history: TargetHistoryEntry[];
+}
+
+export interface TargetChange {
+  amount: number;
+  effectiveFrom: string;
+  setBy?: string;
+  notes?: string;
+}
+
+export interface ImpactPreviewWeek {
+  weekEnding: string;
+  actual: number | null;
+  currentTarget: number | null;
+  currentPct: number | null;
+  proposedTarget: number;
+  proposedPct: number | null;
+}
+
+export interface ImpactPreview {
+  targetType: TargetType;
+  entity: Region | null;
+  proposedAmount: number;
+  weeks: ImpactPreviewWeek[];
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchCurrentTargets(weekEnding: string): Promise<Target[]> {
+  return request(`${BASE}/current?weekEnding=${weekEnding}`);
+}
+
+export async function createTarget(data: TargetChange & { targetType: TargetType; entity?: Region | null }): Promise<Target> {
+  return request(BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateTarget(id: number, data: TargetChange): Promise<Target> {
+  return request(`${BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function bulkUpdateTeamTargets(
+  data: { targets: { entity: Region; amount: number }[]; effectiveFrom: string; setBy?: string; notes?: string },
+): Promise<Target[]> {
+  return request(`${BASE}/team-revenue/bulk`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function fetchTargetHistory(targetType: TargetType, entity?: Region | null): Promise<TargetWithHistory[]> {
+  const params = new URLSearchParams({ targetType });
+  if (entity) params.set('entity', entity);
+  return request(`${BASE}/history?${params}`);
+}
+
+export async function previewTargetImpact(params: {
+  targetType: TargetType;
+  weekEnding: string;
+  proposals: { entity: Region | null; amount: number }[];
+  weeks?: number;
+}): Promise<ImpactPreview[]> {
+  return request(`${BASE}/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+}
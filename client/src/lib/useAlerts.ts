@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { Alert } from './alertsApi';
+
+interface AlertContextValue {
+  /** Active (unresolved) alerts across all weeks, most recent week first */
+  alerts: Alert[];
+  unacknowledgedCount: number;
+  acknowledge: (id: number) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export const AlertContext = createContext<AlertContextValue>({
+  alerts: [],
+  unacknowledgedCount: 0,
+  acknowledge: async () => {},
+  refresh: async () => {},
+});
+
+export function useAlerts() {
+  return useContext(AlertContext);
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { DashboardPage, PermissionLevel } from './PermissionContext';
+
+interface PermissionContextValue {
+  role: string | null;
+  permissions: Partial<Record<DashboardPage, PermissionLevel>>;
+  canRead: (page: DashboardPage) => boolean;
+  canWrite: (page: DashboardPage) => boolean;
+  loading: boolean;
+}
+
+export const PermissionContext = createContext<PermissionContextValue>({
+  role: null,
+  permissions: {},
+  canRead: () => true,
+  canWrite: () => true,
+  loading: true,
+});
+
+export function usePermissions() {
+  return useContext(PermissionContext);
+}
@@ -0,0 +1,93 @@
+import type { DashboardPage, PermissionLevel } from './PermissionContext';
+
+const BASE = '/api/v1/users';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type UserRole = 'super_admin' | 'executive' | 'manager' | 'staff';
+
+export interface PagePermission {
+  page: DashboardPage;
+  level: PermissionLevel;
+  roleDefault: PermissionLevel;
+  isOverride: boolean;
+}
+
+export interface ManagedUser {
+  id: number;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  isActive: boolean;
+  team: string | null;
+  region: string | null;
+  lastLogin: string | null;
+  createdAt: string;
+  permissions: PagePermission[];
+}
+
+export interface UserUpdate {
+  displayName?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  team?: string | null;
+  region?: string | null;
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchUsers(): Promise<{ pages: DashboardPage[]; users: ManagedUser[] }> {
+  return request(BASE);
+}
+
+export async function createUser(data: { email: string; displayName: string; role: UserRole }): Promise<ManagedUser> {
+  return request(BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateUser(id: number, data: UserUpdate): Promise<ManagedUser> {
+  return request(`${BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function setUserPermissions(
+  id: number,
+  permissions: Partial<Record<DashboardPage, PermissionLevel>>,
+): Promise<ManagedUser> {
+  return request(`${BASE}/${id}/permissions`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ permissions }),
+  });
+}
+
+export async function resetUserPermissions(id: number): Promise<ManagedUser> {
+  return request(`${BASE}/${id}/permissions/reset`, { method: 'POST' });
+}
+
+export async function createTestUsers(roles?: UserRole[]): Promise<ManagedUser[]> {
+  return request(`${BASE}/dev/test-users`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(roles ? { roles } : {}),
+  });
+}
+
+export async function fetchAuthStatus(): Promise<{ ssoConfigured: boolean; devMode: boolean }> {
+  return request('/api/v1/auth/status');
+}
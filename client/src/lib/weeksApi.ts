@@ -0,0 +1,50 @@
+const BASE = '/api/v1/weeks';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body?.error?.message ?? `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CompletenessStatus = 'complete' | 'partial' | 'missing';
+
+export interface CompletenessDataType {
+  id: string;
+  name: string;
+  category: string;
+  /** Rows a complete week needs; null when it varies (e.g. one per staff member) */
+  expected: number | null;
+}
+
+export interface DataTypeCompleteness {
+  dataTypeId: string;
+  rows: number;
+  expected: number | null;
+  status: CompletenessStatus;
+}
+
+export interface WeekCompleteness {
+  weekEnding: string;
+  status: CompletenessStatus;
+  completeCount: number;
+  dataTypes: DataTypeCompleteness[];
+}
+
+export interface CompletenessResult {
+  dataTypes: CompletenessDataType[];
+  weeks: WeekCompleteness[];
+}
+
+// ─── API Calls ────────────────────────────────────────────────────────────────
+
+export async function fetchCompleteness(from?: string, to?: string): Promise<CompletenessResult> {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return request(`${BASE}/completeness?${params}`);
+}
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "SettingAuditAction" AS ENUM ('update', 'reset');
+
+-- CreateTable
+CREATE TABLE "setting_audit_log" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "action" "SettingAuditAction" NOT NULL,
+    "previous_value" JSONB,
+    "new_value" JSONB,
+    "changed_by" TEXT,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "setting_audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "setting_audit_log_key_changed_at_idx" ON "setting_audit_log"("key", "changed_at");
+
+-- Rename the seeded pass-through key to the key the dashboard reads
+UPDATE "settings" SET "key" = 'pass_through_categories'
+WHERE "key" = 'passthrough_items'
+  AND NOT EXISTS (SELECT 1 FROM "settings" WHERE "key" = 'pass_through_categories');
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "xero_connections" (
+    "id" SERIAL NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "tenant_name" TEXT,
+    "access_token" TEXT NOT NULL,
+    "refresh_token" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "scopes" TEXT NOT NULL,
+    "connected_by" TEXT,
+    "last_synced_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "xero_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "xero_connections_tenant_id_key" ON "xero_connections"("tenant_id");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('running', 'succeeded', 'failed', 'skipped');
+
+-- CreateEnum
+CREATE TYPE "JobTrigger" AS ENUM ('schedule', 'manual');
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" SERIAL NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "trigger" "JobTrigger" NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'running',
+    "triggered_by" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "records_affected" INTEGER,
+    "message" TEXT,
+    "error" TEXT,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_locks" (
+    "job_id" TEXT NOT NULL,
+    "run_id" INTEGER NOT NULL,
+    "locked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_id_started_at_idx" ON "job_runs"("job_id", "started_at");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AlertType" AS ENUM ('net_profit_below_budget', 'team_below_target', 'conversion_below_average', 'cash_near_overdraft');
+
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('info', 'warning', 'critical');
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" SERIAL NOT NULL,
+    "type" "AlertType" NOT NULL,
+    "severity" "AlertSeverity" NOT NULL,
+    "week_ending" DATE NOT NULL,
+    "entity" TEXT NOT NULL DEFAULT '',
+    "page" "DashboardPage" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "value" DECIMAL(14,2),
+    "threshold" DECIMAL(14,2),
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alerts_type_week_ending_entity_key" ON "alerts"("type", "week_ending", "entity");
+
+-- CreateIndex
+CREATE INDEX "alerts_resolved_at_acknowledged_at_idx" ON "alerts"("resolved_at", "acknowledged_at");
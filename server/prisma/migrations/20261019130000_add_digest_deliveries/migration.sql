@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "DigestTrigger" AS ENUM ('auto', 'manual');
+
+-- CreateEnum
+CREATE TYPE "DigestStatus" AS ENUM ('sent', 'failed');
+
+-- CreateTable
+CREATE TABLE "digest_deliveries" (
+    "id" SERIAL NOT NULL,
+    "week_ending" DATE NOT NULL,
+    "trigger" "DigestTrigger" NOT NULL,
+    "status" "DigestStatus" NOT NULL,
+    "recipients" TEXT[],
+    "transport" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "message_id" TEXT,
+    "error" TEXT,
+    "sent_by" TEXT,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "digest_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "digest_deliveries_week_ending_status_idx" ON "digest_deliveries"("week_ending", "status");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "value_aliases" (
+    "id" SERIAL NOT NULL,
+    "field" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "value_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "value_aliases_field_alias_key" ON "value_aliases"("field", "alias");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "csv_uploads" ADD COLUMN     "file_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "upload_sessions" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "file_hash" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "file_data" BYTEA NOT NULL,
+    "parse_options" JSONB NOT NULL,
+    "parse_result" JSONB NOT NULL,
+    "data_type_id" TEXT,
+    "mapping" JSONB,
+    "validated_rows" JSONB,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "csv_uploads_file_hash_idx" ON "csv_uploads"("file_hash");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_expires_at_idx" ON "upload_sessions"("expires_at");
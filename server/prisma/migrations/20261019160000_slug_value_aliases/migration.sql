@@ -0,0 +1,11 @@
+-- Aliases are keyed by the same slug lookups compare against ("SEQ-Resi" → "seq_resi").
+-- Where several stored spellings share a slug, keep the most recently saved one.
+DELETE FROM "value_aliases" a
+USING "value_aliases" b
+WHERE a."field" = b."field"
+  AND trim(both '_' from regexp_replace(lower(a."alias"), '[^a-z0-9]+', '_', 'g'))
+    = trim(both '_' from regexp_replace(lower(b."alias"), '[^a-z0-9]+', '_', 'g'))
+  AND a."id" < b."id";
+
+UPDATE "value_aliases"
+SET "alias" = trim(both '_' from regexp_replace(lower("alias"), '[^a-z0-9]+', '_', 'g'));
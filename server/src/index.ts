@@ -3,6 +3,7 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler.js';
 import { authenticate } from './middleware/auth.js';
+import { SchedulerService } from './services/SchedulerService.js';
 import authRoutes from './routes/auth.js';
 import financialRoutes from './routes/financial.js';
 import projectsRoutes from './routes/projects.js';
@@ -13,6 +14,14 @@ import targetsRoutes from './routes/targets.js';
 import uploadsRoutes from './routes/uploads.js';
 import weeksRoutes from './routes/weeks.js';
 import dashboardRoutes from './routes/dashboard.js';
+import settingsRoutes from './routes/settings.js';
+import usersRoutes from './routes/users.js';
+import exportRoutes from './routes/export.js';
+import reportsRoutes from './routes/reports.js';
+import xeroRoutes from './routes/xero.js';
+import jobsRoutes from './routes/jobs.js';
+import alertsRoutes from './routes/alerts.js';
+import digestRoutes from './routes/digest.js';
 
 dotenv.config();
 
@@ -30,6 +39,9 @@ app.get('/api/health', (_req, res) => {
 // Auth routes (no auth middleware — these handle login/callback)
 app.use('/api/v1/auth', authRoutes);
 
+// Xero routes authenticate per route (the OAuth callback is a browser redirect)
+app.use('/api/v1/xero', xeroRoutes);
+
 // Apply auth middleware to all /api/v1/ routes below
 app.use('/api/v1', authenticate);
 
@@ -43,12 +55,20 @@ app.use('/api/v1/targets', targetsRoutes);
 app.use('/api/v1/uploads', uploadsRoutes);
 app.use('/api/v1/weeks', weeksRoutes);
 app.use('/api/v1/dashboard', dashboardRoutes);
+app.use('/api/v1/settings', settingsRoutes);
+app.use('/api/v1/users', usersRoutes);
+app.use('/api/v1/export', exportRoutes);
+app.use('/api/v1/reports', reportsRoutes);
+app.use('/api/v1/jobs', jobsRoutes);
+app.use('/api/v1/alerts', alertsRoutes);
+app.use('/api/v1/digest', digestRoutes);
 
 // Error handler (must be last)
 app.use(errorHandler);
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  SchedulerService.start().catch((err) => console.error('[Scheduler] Failed to start:', err));
 });
 
 export default app;
@@ -2,6 +2,25 @@ import type { Request, Response, NextFunction } from 'express';
 import type { DashboardPage, PermissionLevel, UserRole } from '../generated/prisma/index.js';
 import prisma from '../db.js';
 
+/**
+ * All dashboard pages, in sidebar order. Used to build the permission matrix.
+ */
+export const ALL_PAGES: DashboardPage[] = [
+  'executive_summary',
+  'financial_deep_dive',
+  'pl_monthly_detail',
+  'sales_pipeline',
+  'marketing_leads',
+  'operations_productivity',
+  'regional_performance',
+  'cash_position',
+  'data_management',
+  'target_management',
+  'staff_management',
+  'admin_settings',
+  'user_permission_management',
+];
+
 /**
  * Default permissions by role. Used when a user has no explicit
  * permission entry for a page.
@@ -29,11 +48,30 @@ const ADMIN_ONLY_PAGES: DashboardPage[] = [
   'user_permission_management',
 ];
 
+/**
+ * Default permission for a role on a page, ignoring any explicit overrides.
+ */
+export function getRoleDefaultPermission(role: UserRole, page: DashboardPage): PermissionLevel {
+  // Super admin gets write access to everything
+  if (role === 'super_admin') return 'write';
+
+  // Admin-only pages
+  if (ADMIN_ONLY_PAGES.includes(page)) return 'no_access';
+
+  // Staff gets read on certain pages, no_access otherwise
+  if (role === 'staff') {
+    return STAFF_READABLE_PAGES.includes(page) ? 'read' : 'no_access';
+  }
+
+  // Executive and Manager get role default
+  return ROLE_DEFAULTS[role];
+}
+
 /**
  * Resolve the effective permission for a user on a page.
  * Checks explicit permissions first, then falls back to role defaults.
  */
-async function resolvePermission(
+export async function resolvePermission(
   userId: number,
   role: UserRole,
   page: DashboardPage
@@ -45,19 +83,25 @@ async function resolvePermission(
 
   if (explicit) return explicit.permissionLevel;
 
-  // Super admin gets write access to everything
-  if (role === 'super_admin') return 'write';
-
-  // Admin-only pages
-  if (ADMIN_ONLY_PAGES.includes(page)) return 'no_access';
+  return getRoleDefaultPermission(role, page);
+}
 
-  // Staff gets read on certain pages, no_access otherwise
-  if (role === 'staff') {
-    return STAFF_READABLE_PAGES.includes(page) ? 'read' : 'no_access';
+/**
+ * Resolve the effective permission for every page in a single query.
+ * Used by the client to hide pages and actions the user cannot call.
+ */
+export async function resolvePermissionMatrix(
+  userId: number,
+  role: UserRole
+): Promise<Record<DashboardPage, PermissionLevel>> {
+  const explicit = await prisma.userPermission.findMany({ where: { userId } });
+  const explicitByPage = new Map(explicit.map((p) => [p.page, p.permissionLevel]));
+
+  const matrix = {} as Record<DashboardPage, PermissionLevel>;
+  for (const page of ALL_PAGES) {
+    matrix[page] = explicitByPage.get(page) ?? getRoleDefaultPermission(role, page);
   }
-
-  // Executive and Manager get role default
-  return ROLE_DEFAULTS[role];
+  return matrix;
 }
 
 /**
@@ -89,18 +133,20 @@ export function requirePermission(page: DashboardPage, requiredLevel: Permission
       return;
     }
 
-    const effectiveLevel = await resolvePermission(user.id, user.role as UserRole, page);
-
-    if (LEVEL_RANK[effectiveLevel] < LEVEL_RANK[requiredLevel]) {
-      res.status(403).json({
-        error: {
-          message: 'You do not have permission to access this resource',
-          statusCode: 403,
-        },
-      });
-      return;
-    }
-
-    next();
+    try {
+      const effectiveLevel = await resolvePermission(user.id, user.role as UserRole, page);
+
+      if (LEVEL_RANK[effectiveLevel] < LEVEL_RANK[requiredLevel]) {
+        res.status(403).json({
+          error: {
+            message: 'You do not have permission to access this resource',
+            statusCode: 403,
+          },
+        });
+        return;
+      }
+
+      next();
+    } catch (err) { next(err); }
   };
 }
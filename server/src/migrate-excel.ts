@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+import path from 'path';
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { readFile, writeFile } from 'fs/promises';
+import prisma from './db.js';
+import { ExcelMigrationService } from './services/ExcelMigrationService.js';
+import { WEEKLY_REPORT_MIGRATION } from './services/migration/weeklyReport.js';
+
+// Usage: npm run migrate:excel -- <workbook.xlsx> [--report <file.json>]
+// Re-running is safe; existing weeks are updated rather than duplicated.
+// Exits with 1 when a checkpoint figure doesn't match.
+
+function parseArgs(argv: string[]) {
+  let workbook: string | undefined;
+  let report = 'excel-migration-report.json';
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--report') report = argv[++i];
+    else workbook = argv[i];
+  }
+  return { workbook, report };
+}
+
+async function main() {
+  const { workbook, report: reportPath } = parseArgs(process.argv.slice(2));
+  if (!workbook || !reportPath) {
+    console.error('Usage: npm run migrate:excel -- <workbook.xlsx> [--report <file.json>]');
+    process.exit(2);
+  }
+
+  console.log(`Migrating ${workbook}...`);
+  const report = await ExcelMigrationService.run(await readFile(workbook), WEEKLY_REPORT_MIGRATION);
+
+  for (const sheet of report.sheets) {
+    if (sheet.status !== 'migrated') {
+      console.log(`  ${sheet.sheet}: ${sheet.status} (${sheet.reason})`);
+      continue;
+    }
+    console.log(
+      `  ${sheet.sheet}: ${sheet.recordsWritten} records over ${sheet.weeks} weeks`
+      + `, ${sheet.errorCells.length} error cells, ${sheet.rowErrors.length} rejected`
+      + `, ${sheet.unmappedLabels.length} unmapped / ${sheet.missingLabels.length} missing labels`,
+    );
+  }
+  if (report.unconfiguredSheets.length > 0) {
+    console.log(`  Not in the mapping: ${report.unconfiguredSheets.join(', ')}`);
+  }
+
+  console.log('\nCheckpoints:');
+  for (const c of report.checkpoints) {
+    console.log(`  [${c.status === 'ok' ? 'ok' : c.status.toUpperCase()}] ${c.label}: expected ${c.expected}, got ${c.actual ?? 'nothing'}`);
+  }
+
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+  console.log(`\nReport written to ${path.resolve(reportPath)}`);
+
+  if (!report.ok) {
+    console.error('Migration finished with checkpoint mismatches');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Migration failed:', e);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
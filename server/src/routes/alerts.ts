@@ -0,0 +1,69 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { AlertService } from '../services/AlertService.js';
+import { validateQuery, validateBody, schemas } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission, resolvePermissionMatrix, ALL_PAGES } from '../middleware/permissions.js';
+import type { DashboardPage } from '../generated/prisma/index.js';
+
+const router = Router();
+
+/**
+ * Pages the current user can read. Alerts are scoped to the page they
+ * belong to, so users only see alerts for data they can already see.
+ */
+async function readablePages(req: Request): Promise<DashboardPage[]> {
+  // Dev mode without a database user: everything, as requirePermission allows
+  if (!req.user) return ALL_PAGES;
+  const matrix = await resolvePermissionMatrix(req.user.id, req.user.role);
+  return ALL_PAGES.filter((page) => matrix[page] !== 'no_access');
+}
+
+const listQuery = z.object({
+  status: z.enum(['active', 'unacknowledged', 'all']).default('active'),
+  weekEnding: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * GET /?status=active|unacknowledged|all&weekEnding=YYYY-MM-DD&limit=N
+ * Alerts on pages the user can read, most severe first, with the count of
+ * active unacknowledged alerts for the bell.
+ */
+router.get('/', validateQuery(listQuery), async (req, res, next) => {
+  try {
+    const { status, weekEnding, limit } = (req as any).validated;
+    const pages = await readablePages(req);
+
+    const [alerts, unacknowledged] = await Promise.all([
+      AlertService.list({ status, weekEnding: weekEnding ? new Date(weekEnding) : undefined, pages, limit }),
+      AlertService.list({ status: 'unacknowledged', pages, limit: 500 }),
+    ]);
+    res.json({ alerts, unacknowledgedCount: unacknowledged.length });
+  } catch (err) { next(err); }
+});
+
+// POST /:id/acknowledge — Mark an alert as seen
+router.post('/:id/acknowledge', async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return next(ApiError.badRequest('Invalid alert ID'));
+
+    const user = req.user;
+    const alert = await AlertService.acknowledge(id, user?.displayName ?? user?.email, await readablePages(req));
+    res.json(alert);
+  } catch (err: any) {
+    if (err.message === 'Alert not found') return next(ApiError.notFound(err.message));
+    next(err);
+  }
+});
+
+// POST /evaluate — Re-run the alert rules for a week (body: { weekEnding })
+router.post('/evaluate', requirePermission('data_management', 'write'), validateBody(schemas.weekEndingQuery), async (req, res, next) => {
+  try {
+    const { weekEnding } = (req as any).validated;
+    res.json(await AlertService.evaluateWeek(new Date(weekEnding)));
+  } catch (err) { next(err); }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AuthService } from '../services/AuthService.js';
 import { authenticate } from '../middleware/auth.js';
+import { resolvePermissionMatrix } from '../middleware/permissions.js';
 
 const router = Router();
 
@@ -69,6 +70,21 @@ router.get('/me', authenticate, async (req, res, next) => {
   } catch (err) { next(err); }
 });
 
+// GET /permissions — Resolved permission level per dashboard page for the current user
+router.get('/permissions', authenticate, async (req, res, next) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: { message: 'Not authenticated', statusCode: 401 },
+      });
+      return;
+    }
+
+    const permissions = await resolvePermissionMatrix(req.user.id, req.user.role);
+    res.json({ userId: req.user.id, role: req.user.role, permissions });
+  } catch (err) { next(err); }
+});
+
 // POST /logout — Placeholder (JWT is stateless; client discards the token)
 router.post('/logout', (_req, res) => {
   res.json({ message: 'Logged out. Discard your token.' });
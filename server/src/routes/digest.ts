@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { DigestService } from '../services/DigestService.js';
+import { validateQuery, validateBody, schemas } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+const deliveriesQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+// GET /preview?weekEnding=YYYY-MM-DD — The digest email as HTML
+router.get('/preview', requirePermission('executive_summary', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+  try {
+    const { weekEnding } = (req as any).validated;
+    const { html } = await DigestService.compose(new Date(weekEnding));
+    res.type('html').send(html);
+  } catch (err: any) {
+    if (err.message?.startsWith('No data for week')) return next(ApiError.notFound(err.message));
+    next(err);
+  }
+});
+
+// GET /status?weekEnding=YYYY-MM-DD — Transport, recipients, missing data and last delivery
+router.get('/status', requirePermission('admin_settings', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+  try {
+    const { weekEnding } = (req as any).validated;
+    res.json(await DigestService.getStatus(new Date(weekEnding)));
+  } catch (err) { next(err); }
+});
+
+// GET /deliveries?limit=N — Send history, newest first
+router.get('/deliveries', requirePermission('admin_settings', 'read'), validateQuery(deliveriesQuery), async (req, res, next) => {
+  try {
+    const { limit } = (req as any).validated;
+    res.json(await DigestService.getDeliveries(limit));
+  } catch (err) { next(err); }
+});
+
+// POST /send — Send the digest for a week now, even if data is incomplete (body: { weekEnding })
+router.post('/send', requirePermission('admin_settings', 'write'), validateBody(schemas.weekEndingQuery), async (req, res, next) => {
+  try {
+    const { weekEnding } = (req as any).validated;
+    const user = req.user;
+    res.json(await DigestService.send(new Date(weekEnding), 'manual', user?.displayName ?? user?.email));
+  } catch (err: any) {
+    if (err.message?.startsWith('No data for week')) return next(ApiError.notFound(err.message));
+    if (err.message === 'No digest recipients configured') return next(ApiError.badRequest(err.message));
+    if (err.message?.startsWith('Email is not configured')) {
+      res.status(503).json({ error: { message: err.message, statusCode: 503 } });
+      return;
+    }
+    if (err.message?.startsWith('Digest delivery failed')) {
+      res.status(502).json({ error: { message: err.message, statusCode: 502 } });
+      return;
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ExportService } from '../services/ExportService.js';
+import { ALL_REGIONS, STAFF_ROLES } from '../services/DashboardService.js';
+import { validateQuery, schemas } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
+import type { Region, StaffRole } from '../generated/prisma/index.js';
+
+const router = Router();
+
+const exportQuery = schemas.weekEndingQuery.extend({
+  weeks: z.enum(['13', '26', '52']).default('13'),
+  region: z.enum(ALL_REGIONS as [Region, ...Region[]]).optional(),
+  role: z.enum(STAFF_ROLES as [StaffRole, ...StaffRole[]]).optional(),
+  staffName: z.string().trim().min(1).optional(),
+});
+
+/**
+ * GET /:section?weekEnding=YYYY-MM-DD&weeks=13|26|52&region=&role=&staffName=
+ * Streams the data behind a dashboard table or chart as CSV. Access follows
+ * the read permission of the page the section belongs to.
+ */
+router.get('/:section', (req, res, next) => {
+  const section = ExportService.getSection(req.params.section as string);
+  if (!section) return next(ApiError.notFound(`Unknown export section: ${req.params.section}`));
+  requirePermission(section.page, 'read')(req, res, next);
+}, validateQuery(exportQuery), async (req, res, next) => {
+  try {
+    const section = ExportService.getSection(req.params.section as string)!;
+    const { weekEnding, weeks, region, role, staffName } = (req as any).validated;
+    const params = { weekEnding: new Date(weekEnding), weeks: Number(weeks), region, role, staffName };
+
+    const lines = ExportService.toCsv(section, params);
+    // Pull the first line before committing headers so query errors still return JSON
+    const first = await lines.next();
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${ExportService.filename(section, params)}"`);
+    // BOM so Excel opens the file as UTF-8
+    res.write('\uFEFF');
+    if (!first.done) res.write(first.value);
+    for await (const line of lines) res.write(line);
+    res.end();
+  } catch (err: any) {
+    if (err.message?.startsWith('staffName is required')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
+});
+
+export default router;
@@ -2,11 +2,12 @@ import { Router } from 'express';
 import { FinancialService } from '../services/FinancialService.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
 
 const router = Router();
 
 // GET /weekly?weekEnding=YYYY-MM-DD — Single week P&L summary
-router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/weekly', requirePermission('financial_deep_dive', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await FinancialService.getWeeklySummary(new Date(weekEnding));
@@ -16,7 +17,7 @@ router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, n
 });
 
 // GET /weekly/range?from=YYYY-MM-DD&to=YYYY-MM-DD — Range of weeks (for charts)
-router.get('/weekly/range', validateQuery(schemas.dateRangeQuery), async (req, res, next) => {
+router.get('/weekly/range', requirePermission('financial_deep_dive', 'read'), validateQuery(schemas.dateRangeQuery), async (req, res, next) => {
   try {
     const { from, to } = (req as any).validated;
     const data = await FinancialService.getWeeklyRange(new Date(from), new Date(to));
@@ -25,7 +26,7 @@ router.get('/weekly/range', validateQuery(schemas.dateRangeQuery), async (req, r
 });
 
 // GET /revenue/breakdown?weekEnding=YYYY-MM-DD — Revenue by category
-router.get('/revenue/breakdown', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/revenue/breakdown', requirePermission('financial_deep_dive', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await FinancialService.getRevenueBreakdown(new Date(weekEnding));
@@ -34,7 +35,7 @@ router.get('/revenue/breakdown', validateQuery(schemas.weekEndingQuery), async (
 });
 
 // GET /cash-position?weekEnding=YYYY-MM-DD — Cash position snapshot
-router.get('/cash-position', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/cash-position', requirePermission('cash_position', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await FinancialService.getCashPosition(new Date(weekEnding));
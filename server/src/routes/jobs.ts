@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SchedulerService } from '../services/SchedulerService.js';
+import { validateQuery } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+const runsQuery = z.object({
+  jobId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// GET / — Registered jobs with schedule, next run and latest run
+router.get('/', requirePermission('data_management', 'read'), async (_req, res, next) => {
+  try {
+    res.json(await SchedulerService.listJobs());
+  } catch (err) { next(err); }
+});
+
+// GET /runs?jobId=X&limit=N — Run history, newest first
+router.get('/runs', requirePermission('data_management', 'read'), validateQuery(runsQuery), async (req, res, next) => {
+  try {
+    const { jobId, limit } = (req as any).validated;
+    res.json(await SchedulerService.getRuns({ jobId, limit }));
+  } catch (err) { next(err); }
+});
+
+// POST /:jobId/run — Start a job now ("Sync Now"); returns the run to poll
+router.post('/:jobId/run', requirePermission('data_management', 'write'), async (req, res, next) => {
+  try {
+    const user = req.user;
+    const run = await SchedulerService.trigger(req.params.jobId as string, 'manual', user?.displayName ?? user?.email);
+    res.status(202).json(run);
+  } catch (err: any) {
+    if (err.message?.startsWith('Job not found')) return next(ApiError.notFound(err.message));
+    if (err.message?.startsWith('Job already running')) {
+      res.status(409).json({ error: { message: err.message, statusCode: 409 } });
+      return;
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import prisma from '../db.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
+import { requirePermission } from '../middleware/permissions.js';
 
 const router = Router();
 
 // GET /leads?weekEnding=YYYY-MM-DD — Lead source breakdown
-router.get('/leads', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/leads', requirePermission('marketing_leads', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await prisma.leadsWeekly.findMany({
@@ -17,7 +18,7 @@ router.get('/leads', validateQuery(schemas.weekEndingQuery), async (req, res, ne
 });
 
 // GET /reviews?weekEnding=YYYY-MM-DD — Google Reviews
-router.get('/reviews', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/reviews', requirePermission('marketing_leads', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await prisma.googleReviewsWeekly.findUnique({
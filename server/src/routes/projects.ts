@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import prisma from '../db.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
+import { requirePermission } from '../middleware/permissions.js';
 
 const router = Router();
 
 // GET /weekly?weekEnding=YYYY-MM-DD — Project summary (resi/commercial/retro)
-router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/weekly', requirePermission('executive_summary', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await prisma.projectsWeekly.findMany({
@@ -17,7 +18,7 @@ router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, n
 });
 
 // GET /weekly/range?from=YYYY-MM-DD&to=YYYY-MM-DD — Trend data
-router.get('/weekly/range', validateQuery(schemas.dateRangeQuery), async (req, res, next) => {
+router.get('/weekly/range', requirePermission('executive_summary', 'read'), validateQuery(schemas.dateRangeQuery), async (req, res, next) => {
   try {
     const { from, to } = (req as any).validated;
     const data = await prisma.projectsWeekly.findMany({
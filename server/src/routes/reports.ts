@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ReportService } from '../services/ReportService.js';
+import { SettingsService } from '../services/SettingsService.js';
+import { validateQuery, schemas } from '../middleware/validation.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+const weeklyReportQuery = schemas.weekEndingQuery.extend({
+  weeks: z.coerce.number().int().min(1).max(13).default(5),
+});
+
+/**
+ * GET /weekly?weekEnding=YYYY-MM-DD&weeks=5
+ * Branded PDF of the legacy weekly report: KPIs, P&L, projects vs targets,
+ * sales, lead sources, reviews and regional teams, with charts.
+ */
+router.get('/weekly', requirePermission('executive_summary', 'read'), validateQuery(weeklyReportQuery), async (req, res, next) => {
+  try {
+    const { weekEnding, weeks } = (req as any).validated;
+    // Load everything before committing headers so query errors still return JSON
+    const [report, branding] = await Promise.all([
+      ReportService.buildWeeklyReport(new Date(weekEnding), weeks),
+      SettingsService.get('branding'),
+    ]);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="weekly-report-${report.weekEnding}.pdf"`);
+    ReportService.renderWeeklyReportPdf(report, branding, res);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import prisma from '../db.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
+import { requirePermission } from '../middleware/permissions.js';
 
 const router = Router();
 
 // GET /weekly?weekEnding=YYYY-MM-DD — Sales pipeline summary
-router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/weekly', requirePermission('sales_pipeline', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await prisma.salesWeekly.findMany({
@@ -17,7 +18,7 @@ router.get('/weekly', validateQuery(schemas.weekEndingQuery), async (req, res, n
 });
 
 // GET /regional?weekEnding=YYYY-MM-DD — Regional sales breakdown
-router.get('/regional', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/regional', requirePermission('sales_pipeline', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const data = await prisma.salesRegionalWeekly.findMany({
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SettingsService, SETTING_SCHEMAS, SETTING_KEYS, isSettingKey } from '../services/SettingsService.js';
+import { SchedulerService } from '../services/SchedulerService.js';
+import { validateQuery } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+// GET / — All settings with effective values
+router.get('/', requirePermission('admin_settings', 'read'), async (_req, res, next) => {
+  try {
+    const settings = await SettingsService.getAll();
+    res.json(settings);
+  } catch (err) { next(err); }
+});
+
+// GET /audit?key=X&limit=N — Change audit log, newest first
+const auditQuerySchema = z.object({
+  key: z.enum(SETTING_KEYS as [string, ...string[]]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+router.get('/audit', requirePermission('admin_settings', 'read'), validateQuery(auditQuerySchema), async (req, res, next) => {
+  try {
+    const { key, limit } = (req as any).validated;
+    const entries = await SettingsService.getAuditLog({ key, limit });
+    res.json(entries);
+  } catch (err) { next(err); }
+});
+
+// GET /:key — Single setting
+router.get('/:key', requirePermission('admin_settings', 'read'), async (req, res, next) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingKey(key)) return next(ApiError.notFound(`Unknown setting: ${key}`));
+
+    const value = await SettingsService.get(key);
+    res.json({ key, value });
+  } catch (err) { next(err); }
+});
+
+// PUT /:key — Replace a setting's value (body: { value })
+router.put('/:key', requirePermission('admin_settings', 'write'), async (req, res, next) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingKey(key)) return next(ApiError.notFound(`Unknown setting: ${key}`));
+
+    const result = SETTING_SCHEMAS[key].safeParse(req.body?.value);
+    if (!result.success || req.body?.value === undefined) {
+      const messages = result.success
+        ? ['value: Required']
+        : result.error.errors.map((e) => `${['value', ...e.path].join('.')}: ${e.message}`);
+      return next(ApiError.badRequest(`Validation error: ${messages.join('; ')}`));
+    }
+
+    const user = req.user;
+    const saved = await SettingsService.set(key, result.data, user?.displayName ?? user?.email);
+    if (key === 'job_schedules') await SchedulerService.start();
+    res.json(saved);
+  } catch (err) { next(err); }
+});
+
+// DELETE /:key — Reset a setting to its default
+router.delete('/:key', requirePermission('admin_settings', 'write'), async (req, res, next) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingKey(key)) return next(ApiError.notFound(`Unknown setting: ${key}`));
+
+    const user = req.user;
+    const reset = await SettingsService.reset(key, user?.displayName ?? user?.email);
+    if (key === 'job_schedules') await SchedulerService.start();
+    res.json(reset);
+  } catch (err) { next(err); }
+});
+
+export default router;
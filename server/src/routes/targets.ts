@@ -3,12 +3,13 @@ import { z } from 'zod';
 import { TargetService } from '../services/TargetService.js';
 import { validateQuery, validateBody, schemas } from '../middleware/validation.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
 import type { TargetType, Region } from '../generated/prisma/index.js';
 
 const router = Router();
 
 // GET /current?weekEnding=YYYY-MM-DD — Active targets for a given week
-router.get('/current', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/current', requirePermission('target_management', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const targets = await TargetService.getAllTargetsForWeek(new Date(weekEnding));
@@ -26,15 +27,19 @@ const createTargetSchema = z.object({
   notes: z.string().optional(),
 });
 
-router.post('/', validateBody(createTargetSchema), async (req, res, next) => {
+router.post('/', requirePermission('target_management', 'write'), validateBody(createTargetSchema), async (req, res, next) => {
   try {
     const data = (req as any).validated;
     const target = await TargetService.createTarget({
       ...data,
       effectiveFrom: new Date(data.effectiveFrom),
+      setBy: data.setBy ?? req.user?.displayName,
     });
     res.status(201).json(target);
-  } catch (err) { next(err); }
+  } catch (err: any) {
+    if (err.message?.startsWith('effectiveFrom must be after')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
 });
 
 // PUT /:id — Update target (supersedes old, creates history)
@@ -45,18 +50,81 @@ const updateTargetSchema = z.object({
   notes: z.string().optional(),
 });
 
-router.put('/:id', validateBody(updateTargetSchema), async (req, res, next) => {
+router.put('/:id', requirePermission('target_management', 'write'), validateBody(updateTargetSchema), async (req, res, next) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const id = parseInt(req.params.id as string, 10);
     if (isNaN(id)) return next(ApiError.badRequest('Invalid target ID'));
 
     const data = (req as any).validated;
     const target = await TargetService.updateTarget(id, {
       ...data,
       effectiveFrom: new Date(data.effectiveFrom),
+      setBy: data.setBy ?? req.user?.displayName,
     });
     if (!target) return next(ApiError.notFound('Target not found'));
     res.json(target);
+  } catch (err: any) {
+    if (err.message?.startsWith('effectiveFrom must be after')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
+});
+
+// PUT /team-revenue/bulk — Supersede all nine regional team targets atomically
+const REGIONS = ['cairns', 'mackay', 'nq_commercial', 'seq_residential', 'seq_commercial', 'town_planning', 'townsville', 'wide_bay', 'all_in_access'] as const;
+
+const bulkTeamTargetSchema = z.object({
+  targets: z.array(z.object({
+    entity: z.enum(REGIONS),
+    amount: z.number().positive(),
+  })).length(REGIONS.length, `All ${REGIONS.length} regions must be included`)
+    .refine(
+      (targets) => new Set(targets.map((t) => t.entity)).size === targets.length,
+      'Each region may only appear once',
+    ),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  setBy: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+router.put('/team-revenue/bulk', requirePermission('target_management', 'write'), validateBody(bulkTeamTargetSchema), async (req, res, next) => {
+  try {
+    const data = (req as any).validated;
+    const targets = await TargetService.bulkUpdateTeamTargets({
+      ...data,
+      effectiveFrom: new Date(data.effectiveFrom),
+      setBy: data.setBy ?? req.user?.displayName,
+    });
+    res.json(targets);
+  } catch (err: any) {
+    if (err.message?.startsWith('effectiveFrom must be after')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
+});
+
+// POST /preview — % to target over recent weeks under proposed amounts (read-only)
+const previewSchema = z.object({
+  targetType: z.enum(['net_profit', 'residential_revenue', 'commercial_revenue', 'retrospective_revenue', 'team_revenue', 'breakeven']),
+  weekEnding: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weeks: z.number().int().min(1).max(52).default(8),
+  proposals: z.array(z.object({
+    entity: z.enum(REGIONS).nullish(),
+    amount: z.number().positive(),
+  })).min(1),
+}).refine(
+  (data) => data.targetType !== 'team_revenue' || data.proposals.every((p) => p.entity),
+  { message: 'entity is required for team_revenue proposals', path: ['proposals'] },
+);
+
+router.post('/preview', requirePermission('target_management', 'read'), validateBody(previewSchema), async (req, res, next) => {
+  try {
+    const { targetType, weekEnding, weeks, proposals } = (req as any).validated;
+    const preview = await TargetService.previewImpact(
+      targetType as TargetType,
+      proposals.map((p: { entity?: Region | null; amount: number }) => ({ entity: p.entity ?? null, amount: p.amount })),
+      new Date(weekEnding),
+      weeks,
+    );
+    res.json(preview);
   } catch (err) { next(err); }
 });
 
@@ -66,7 +134,7 @@ const historySchema = z.object({
   entity: z.enum(['cairns', 'mackay', 'nq_commercial', 'seq_residential', 'seq_commercial', 'town_planning', 'townsville', 'wide_bay', 'all_in_access']).optional(),
 });
 
-router.get('/history', validateQuery(historySchema), async (req, res, next) => {
+router.get('/history', requirePermission('target_management', 'read'), validateQuery(historySchema), async (req, res, next) => {
   try {
     const { targetType, entity } = (req as any).validated;
     const history = await TargetService.getHistory(
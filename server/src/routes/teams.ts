@@ -3,12 +3,13 @@ import { z } from 'zod';
 import prisma from '../db.js';
 import { TargetService } from '../services/TargetService.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
+import { requirePermission } from '../middleware/permissions.js';
 import type { Region } from '../generated/prisma/index.js';
 
 const router = Router();
 
 // GET /performance?weekEnding=YYYY-MM-DD — All 9 teams vs targets
-router.get('/performance', validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
+router.get('/performance', requirePermission('regional_performance', 'read'), validateQuery(schemas.weekEndingQuery), async (req, res, next) => {
   try {
     const { weekEnding } = (req as any).validated;
     const weekDate = new Date(weekEnding);
@@ -45,7 +46,7 @@ const teamTrendSchema = z.object({
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 });
 
-router.get('/performance/:team', validateQuery(teamTrendSchema), async (req, res, next) => {
+router.get('/performance/:team', requirePermission('regional_performance', 'read'), validateQuery(teamTrendSchema), async (req, res, next) => {
   try {
     const { from, to } = (req as any).validated;
     const region = req.params.team as Region;
@@ -4,9 +4,23 @@ import multer from 'multer';
 import prisma from '../db.js';
 import { validateQuery, validateBody } from '../middleware/validation.js';
 import { ApiError } from '../middleware/errorHandler.js';
-import { parseCsv, validateRows, detectDuplicates, type FieldMapping } from '../services/CsvParserService.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { validateRows, detectDuplicates } from '../services/CsvParserService.js';
+import { UploadSessionService } from '../services/UploadSessionService.js';
 import { DataTypeRegistry } from '../services/DataTypeRegistry.js';
-import { importRows, rollbackUpload, type DuplicateStrategy } from '../services/ImportService.js';
+import { ValueAliasService } from '../services/ValueAliasService.js';
+import { ConsistencyRuleService } from '../services/ConsistencyRuleService.js';
+import { OutlierService } from '../services/OutlierService.js';
+import {
+  importRows,
+  rollbackUpload,
+  previewRollback,
+  getUploadDependencies,
+  rowRecords,
+  type DuplicateStrategy,
+} from '../services/ImportService.js';
+import { AlertService, ALERT_SOURCE_TABLES } from '../services/AlertService.js';
+import { DigestService } from '../services/DigestService.js';
 
 const router = Router();
 
@@ -15,37 +29,82 @@ const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 },
   fileFilter: (_req, file, cb) => {
-    const allowed = ['.csv', '.tsv', 'text/csv', 'text/tab-separated-values', 'application/vnd.ms-excel'];
+    const allowed = [
+      '.csv', '.tsv', 'text/csv', 'text/tab-separated-values', 'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ];
     const ext = file.originalname.toLowerCase().split('.').pop();
-    if (ext === 'csv' || ext === 'tsv' || allowed.includes(file.mimetype)) {
+    if (ext === 'csv' || ext === 'tsv' || ext === 'xlsx' || allowed.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only .csv and .tsv files are accepted'));
+      cb(new Error('Only .csv, .tsv and .xlsx files are accepted'));
     }
   },
 });
 
-// POST /parse — Parse CSV and return headers + preview rows + type inference
-router.post('/parse', upload.single('file'), async (req, res, next) => {
+const parseOptionsSchema = z.object({
+  sessionId: z.string().uuid().optional(),      // Re-read a stored file instead of uploading it again
+  sheet: z.string().min(1).optional(),
+  headerRow: z.coerce.number().int().min(1).optional(),
+  layout: z.enum(['long', 'wide']).optional(),   // Detected from the headers when omitted
+  labelColumn: z.string().min(1).optional(),     // Wide layout: column holding the metric labels
+});
+
+/** Upload session errors are the client's to fix: start again or pick another file. */
+function sessionError(err: any): ApiError | null {
+  if (err.message === 'Upload session not found') return ApiError.notFound(err.message);
+  if (err.message?.startsWith('Upload session')) return ApiError.badRequest(err.message);
+  return null;
+}
+
+// POST /parse — Parse CSV/XLSX into an upload session; returns headers + preview rows + type inference
+// Optional form field `headerRow` (1-based) skips title lines above the table; for .xlsx, `sheet` picks the sheet.
+// Wide files (weeks as columns, metrics as rows) are unpivoted to one record per week.
+// Send `sessionId` without a file to re-read the stored file with different options.
+router.post('/parse', requirePermission('data_management', 'write'), upload.single('file'), validateBody(parseOptionsSchema), async (req, res, next) => {
   try {
-    if (!req.file) {
-      return next(ApiError.badRequest('No file uploaded. Send a CSV file as multipart form data with field name "file".'));
-    }
+    const { sessionId, ...options } = (req as any).validated;
+    const user = (req as any).user;
 
-    const result = parseCsv(req.file.buffer);
+    let parsed;
+    if (sessionId) {
+      parsed = await UploadSessionService.reparse(sessionId, options);
+    } else if (req.file) {
+      parsed = await UploadSessionService.create(
+        { name: req.file.originalname, mimeType: req.file.mimetype, buffer: req.file.buffer },
+        options,
+        user?.displayName ?? user?.email ?? undefined,
+      );
+    } else {
+      return next(ApiError.badRequest('No file uploaded. Send a CSV or XLSX file as multipart form data with field name "file".'));
+    }
 
+    // All rows stay in the session; the client only needs the preview
+    const { session, result: { rows, ...result }, previousUploads } = parsed;
     res.json({
-      fileName: req.file.originalname,
-      fileSize: req.file.size,
+      sessionId: session.id,
+      expiresAt: session.expiresAt,
+      fileName: session.fileName,
+      fileSize: session.fileSize,
       ...result,
+      previousUploads,
     });
-  } catch (err) { next(err); }
+  } catch (err: any) {
+    const sessionErr = sessionError(err);
+    if (sessionErr) return next(sessionErr);
+    if (err.message?.startsWith('Sheet not found') || err.message?.startsWith('Header row')
+      || err.message?.startsWith('Could not read workbook') || err.message === 'Workbook has no sheets'
+      || err.message?.startsWith('No week-ending dates') || err.message?.startsWith('Label column not found')) {
+      return next(ApiError.badRequest(err.message));
+    }
+    next(err);
+  }
 });
 
 // ─── Data Type Registry ────────────────────────────────────────────────────────
 
 // GET /data-types — List all importable data types (grouped by category)
-router.get('/data-types', (_req, res) => {
+router.get('/data-types', requirePermission('data_management', 'read'), (_req, res) => {
   res.json({
     dataTypes: DataTypeRegistry.getAll(),
     grouped: DataTypeRegistry.getGrouped(),
@@ -53,15 +112,15 @@ router.get('/data-types', (_req, res) => {
 });
 
 // GET /data-types/:id — Get a single data type definition with its fields
-router.get('/data-types/:id', (req, res, next) => {
-  const dt = DataTypeRegistry.getById(req.params.id);
+router.get('/data-types/:id', requirePermission('data_management', 'read'), (req, res, next) => {
+  const dt = DataTypeRegistry.getById(req.params.id as string);
   if (!dt) return next(ApiError.notFound(`Data type "${req.params.id}" not found`));
   res.json(dt);
 });
 
 // GET /data-types/:id/fields — Get the mappable fields for a data type
-router.get('/data-types/:id/fields', (req, res, next) => {
-  const dt = DataTypeRegistry.getById(req.params.id);
+router.get('/data-types/:id/fields', requirePermission('data_management', 'read'), (req, res, next) => {
+  const dt = DataTypeRegistry.getById(req.params.id as string);
   if (!dt) return next(ApiError.notFound(`Data type "${req.params.id}" not found`));
   res.json({
     dataTypeId: dt.id,
@@ -80,7 +139,7 @@ const autoMapSchema = z.object({
   csvHeaders: z.array(z.string()),
 });
 
-router.post('/auto-map', validateBody(autoMapSchema), async (req, res, next) => {
+router.post('/auto-map', requirePermission('data_management', 'write'), validateBody(autoMapSchema), async (req, res, next) => {
   try {
     const { dataTypeId, csvHeaders } = (req as any).validated;
 
@@ -165,22 +224,26 @@ router.post('/auto-map', validateBody(autoMapSchema), async (req, res, next) =>
 
 // ─── Apply Mapping ────────────────────────────────────────────────────────────
 
-// POST /apply-mapping — Validate rows using a data type + column mapping, return db-ready records
+// POST /apply-mapping — Validate a session's rows using a data type + column mapping, return db-ready records
+// The validated rows are kept in the session for /import.
 const applyMappingSchema = z.object({
+  sessionId: z.string().uuid(),
   dataTypeId: z.string().min(1),
-  rows: z.array(z.record(z.string())),
   mapping: z.record(z.string()),           // csvHeader → dbField
   targetTable: z.string().optional(),       // Override table for duplicate detection
 });
 
-router.post('/apply-mapping', validateBody(applyMappingSchema), async (req, res, next) => {
+router.post('/apply-mapping', requirePermission('data_management', 'write'), validateBody(applyMappingSchema), async (req, res, next) => {
   try {
-    const { dataTypeId, rows, mapping, targetTable } = (req as any).validated;
+    const { sessionId, dataTypeId, mapping, targetTable } = (req as any).validated;
 
     // Validate data type exists
     const dt = DataTypeRegistry.getById(dataTypeId);
     if (!dt) return next(ApiError.notFound(`Data type "${dataTypeId}" not found`));
 
+    const session = await UploadSessionService.get(sessionId);
+    const rows = UploadSessionService.getRows(session);
+
     // Build FieldMapping[] from the data type definition + user's column mapping
     const fieldMappings = DataTypeRegistry.buildFieldMappings(dataTypeId, mapping);
 
@@ -188,10 +251,11 @@ router.post('/apply-mapping', validateBody(applyMappingSchema), async (req, res,
       return next(ApiError.badRequest('No valid field mappings could be built. Check that your mapping references valid database fields.'));
     }
 
-    // Check required fields are mapped
+    // Check required fields are mapped; those the rules can calculate may be left out
     const mappedDbFields = new Set(fieldMappings.map((f) => f.dbField));
+    const derivable = ConsistencyRuleService.derivableFields(dt, mappedDbFields);
     const missingRequired = dt.fields
-      .filter((f) => f.required && !mappedDbFields.has(f.dbField))
+      .filter((f) => f.required && !mappedDbFields.has(f.dbField) && !derivable.has(f.dbField))
       .map((f) => f.label);
 
     if (missingRequired.length > 0) {
@@ -200,8 +264,12 @@ router.post('/apply-mapping', validateBody(applyMappingSchema), async (req, res,
       ));
     }
 
-    // Run validation
-    const validation = validateRows(rows, fieldMappings, 'weekEnding');
+    // Run validation. Blank derivable cells are filled by the rules below rather than failing here.
+    const validation = validateRows(
+      rows,
+      fieldMappings.map((f) => (derivable.has(f.dbField) ? { ...f, required: false } : f)),
+      'weekEnding',
+    );
 
     // Inject fixed fields into each validated row's data
     if (Object.keys(dt.fixedFields).length > 0) {
@@ -210,118 +278,159 @@ router.post('/apply-mapping', validateBody(applyMappingSchema), async (req, res,
       }
     }
 
-    // Duplicate detection
-    const table = targetTable ?? dt.targetTable;
-    const existingWeeks = await getExistingWeeks(table);
-    const duplicates = await detectDuplicates(validation.rows, 'weekEnding', existingWeeks);
+    // Enum columns: map cells and saved aliases to members, collect the rest
+    const unknownValues = await ValueAliasService.normaliseRows(dt, validation);
 
-    res.json({
-      dataType: { id: dt.id, name: dt.name, targetTable: dt.targetTable },
-      fixedFields: dt.fixedFields,
-      fieldMappings,
-      ...validation,
-      duplicates,
-    });
-  } catch (err) { next(err); }
-});
+    // Cross-field accounting rules, filling derivable values first
+    const consistency = ConsistencyRuleService.apply(dt, validation);
 
-// POST /validate — Validate parsed CSV data against a field mapping
-const validateSchema = z.object({
-  rows: z.array(z.record(z.string())),
-  mappings: z.array(z.object({
-    csvHeader: z.string(),
-    dbField: z.string(),
-    expectedType: z.enum(['date', 'currency', 'integer', 'decimal', 'percentage', 'text']),
-    required: z.boolean(),
-  })),
-  weekEndingField: z.string().optional(),
-  targetTable: z.string().optional(),
-});
+    // Composite types: route each row to the data types it writes
+    if (dt.composite) {
+      for (const row of validation.rows) {
+        if (row.status === 'error') continue;
+        const before = row.status;
+        try {
+          row.targets = DataTypeRegistry.resolveTargets(dt.id, row.data);
+          if (row.targets.length === 0) {
+            row.status = 'warning';
+            row.messages.push('No values for any target; nothing will be imported from this row');
+          }
+        } catch (err) {
+          row.status = 'error';
+          row.messages.push(err instanceof Error ? err.message : 'Row could not be routed');
+        }
+        if (row.status !== before) {
+          validation.summary[before === 'pass' ? 'passed' : 'warnings']--;
+          validation.summary[row.status === 'error' ? 'errors' : 'warnings']++;
+        }
+      }
+    }
 
-router.post('/validate', validateBody(validateSchema), async (req, res, next) => {
-  try {
-    const { rows, mappings, weekEndingField, targetTable } = (req as any).validated;
+    // Values far outside their series' trailing history
+    const outliers = await OutlierService.detect(dt, validation);
 
-    const validation = validateRows(rows, mappings as FieldMapping[], weekEndingField);
+    // Duplicate detection on each table's unique key, for the records the import would write
+    const records = validation.rows
+      .filter((row) => row.status !== 'error')
+      .flatMap((row) => rowRecords(dt, row).map((rec) => ({
+        rowIndex: row.rowIndex,
+        table: !dt.composite && targetTable ? targetTable : rec.table,
+        data: rec.data,
+      })))
+      .filter((rec) => !dt.composite || !targetTable || rec.table === targetTable);
+    const { inFile, inDb } = await detectDuplicates(records);
 
-    // Duplicate detection if weekEndingField and targetTable provided
-    let duplicates: any[] = [];
-    if (weekEndingField && targetTable) {
-      // Get existing week_ending dates from the target table
-      const existingWeeks = await getExistingWeeks(targetTable);
-      duplicates = await detectDuplicates(validation.rows, weekEndingField, existingWeeks);
-    }
+    await UploadSessionService.saveValidation(sessionId, dt.id, mapping, validation.rows);
 
     res.json({
+      dataType: { id: dt.id, name: dt.name, targetTable: dt.targetTable },
+      fixedFields: dt.fixedFields,
+      fieldMappings,
       ...validation,
-      duplicates,
+      duplicates: inDb,
+      fileDuplicates: inFile,
+      unknownValues,
+      consistency,
+      outliers,
     });
-  } catch (err) { next(err); }
+  } catch (err) {
+    next(sessionError(err) ?? err);
+  }
 });
 
-/**
- * Query existing week_ending dates from a target table for duplicate detection.
- */
-async function getExistingWeeks(tableName: string): Promise<Date[]> {
-  const tableMap: Record<string, () => Promise<Date[]>> = {
-    financial_weekly: async () => (await prisma.financialWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding),
-    revenue_weekly: async () => [...new Set((await prisma.revenueWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    projects_weekly: async () => [...new Set((await prisma.projectsWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    sales_weekly: async () => [...new Set((await prisma.salesWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    sales_regional_weekly: async () => [...new Set((await prisma.salesRegionalWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    team_performance_weekly: async () => [...new Set((await prisma.teamPerformanceWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    leads_weekly: async () => [...new Set((await prisma.leadsWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    marketing_performance_weekly: async () => [...new Set((await prisma.marketingPerformanceWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    website_analytics_weekly: async () => (await prisma.websiteAnalyticsWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding),
-    staff_productivity_weekly: async () => [...new Set((await prisma.staffProductivityWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    phone_weekly: async () => [...new Set((await prisma.phoneWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding))],
-    cash_position_weekly: async () => (await prisma.cashPositionWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding),
-    google_reviews_weekly: async () => (await prisma.googleReviewsWeekly.findMany({ select: { weekEnding: true } })).map(r => r.weekEnding),
-  };
-
-  const fetcher = tableMap[tableName];
-  if (!fetcher) return [];
-  return fetcher();
-}
-
 // ─── Import ───────────────────────────────────────────────────────────────────
 
-// POST /import — Commit validated rows to the database
+// POST /import — Commit a session's validated rows to the database
 const importSchema = z.object({
+  sessionId: z.string().uuid(),
   dataTypeId: z.string().min(1),
-  fileName: z.string().min(1),
   mappingId: z.number().int().positive().optional(),
-  rows: z.array(z.object({
-    rowIndex: z.number(),
-    status: z.enum(['pass', 'warning', 'error']),
-    messages: z.array(z.string()),
-    data: z.record(z.any()),
-    original: z.record(z.string()),
-  })),
   duplicateStrategy: z.enum(['overwrite', 'skip', 'merge']).default('skip'),
+  /** Required when validation found high-severity outliers */
+  acknowledgeOutliers: z.boolean().default(false),
 });
 
-router.post('/import', validateBody(importSchema), async (req, res, next) => {
+router.post('/import', requirePermission('data_management', 'write'), validateBody(importSchema), async (req, res, next) => {
   try {
-    const { dataTypeId, fileName, mappingId, rows, duplicateStrategy } = (req as any).validated;
+    const { sessionId, dataTypeId, mappingId, duplicateStrategy, acknowledgeOutliers } = (req as any).validated;
 
     const dt = DataTypeRegistry.getById(dataTypeId);
     if (!dt) return next(ApiError.notFound(`Data type "${dataTypeId}" not found`));
 
+    const { session, rows } = await UploadSessionService.getValidated(sessionId, dt.id);
+
+    const highOutliers = rows.flatMap((r) => r.outliers ?? []).filter((o) => o.severity === 'high');
+    if (highOutliers.length > 0 && !acknowledgeOutliers) {
+      const first = highOutliers[0];
+      return next(ApiError.badRequest(
+        `${highOutliers.length} value(s) are far outside their recent history (e.g. ${first.label} on row ${first.rowIndex}). Review and acknowledge them before importing.`,
+      ));
+    }
+
     const user = (req as any).user;
 
     const result = await importRows({
       dataType: dt,
-      fileName,
+      fileName: session.fileName,
       mappingId,
       rows,
       duplicateStrategy: duplicateStrategy as DuplicateStrategy,
       uploadedBy: user?.displayName ?? user?.email ?? undefined,
+      fileHash: session.fileHash,
     });
 
+    // A failed import keeps the session so it can be retried
+    if (result.status === 'completed') await UploadSessionService.close(sessionId);
+
+    // Follow-up work for the imported weeks; a failure here shouldn't fail the import
+    if (result.status === 'completed') {
+      const weeks: Date[] = rows
+        .filter((r: any) => r.status !== 'error' && r.data.weekEnding)
+        .map((r: any) => new Date(r.data.weekEnding));
+
+      const written = dt.composite
+        ? rows.flatMap((r: any) => (r.targets ?? []).map((t: any) => DataTypeRegistry.getById(t.dataTypeId)?.targetTable))
+        : [dt.targetTable];
+      if (written.some((table: string) => ALERT_SOURCE_TABLES.includes(table))) {
+        await AlertService.evaluateWeeks(weeks).catch((err) => {
+          console.error('[Alerts] Evaluation after import failed:', err);
+        });
+      }
+      // After alerts, so the digest includes any just raised
+      await DigestService.sendIfReady(weeks).catch((err) => {
+        console.error('[Digest] Send after import failed:', err);
+      });
+    }
+
     const statusCode = result.status === 'completed' ? 200 : 500;
     res.status(statusCode).json(result);
-  } catch (err) { next(err); }
+  } catch (err) {
+    next(sessionError(err) ?? err);
+  }
+});
+
+// POST /preview-import — Dry run of /import: per-record old → new diffs, nothing is saved
+const previewImportSchema = importSchema.omit({ mappingId: true, acknowledgeOutliers: true });
+
+router.post('/preview-import', requirePermission('data_management', 'write'), validateBody(previewImportSchema), async (req, res, next) => {
+  try {
+    const { sessionId, dataTypeId, duplicateStrategy } = (req as any).validated;
+
+    const dt = DataTypeRegistry.getById(dataTypeId);
+    if (!dt) return next(ApiError.notFound(`Data type "${dataTypeId}" not found`));
+
+    const { session, rows } = await UploadSessionService.getValidated(sessionId, dt.id);
+    const result = await importRows({
+      dataType: dt,
+      fileName: session.fileName,
+      rows,
+      duplicateStrategy: duplicateStrategy as DuplicateStrategy,
+      dryRun: true,
+    });
+    res.json(result);
+  } catch (err) {
+    next(sessionError(err) ?? err);
+  }
 });
 
 // GET /history — Upload audit trail
@@ -332,7 +441,7 @@ const historySchema = z.object({
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
-router.get('/history', validateQuery(historySchema), async (req, res, next) => {
+router.get('/history', requirePermission('data_management', 'read'), validateQuery(historySchema), async (req, res, next) => {
   try {
     const { dataType, status, from, to } = (req as any).validated;
     const where: any = {};
@@ -349,30 +458,66 @@ router.get('/history', validateQuery(historySchema), async (req, res, next) => {
       orderBy: { createdAt: 'desc' },
       include: { mapping: { select: { name: true } } },
     });
-    res.json(uploads);
+
+    // Later uploads that overwrote each upload's records, and the earlier ones it overwrote
+    const dependencies = await getUploadDependencies();
+    res.json(uploads.map((u) => ({
+      ...u,
+      overwrittenBy: dependencies.get(u.id)?.overwrittenBy ?? [],
+      overwrote: dependencies.get(u.id)?.overwrote ?? [],
+    })));
   } catch (err) { next(err); }
 });
 
-// POST /:id/rollback — Rollback an upload
-router.post('/:id/rollback', async (req, res, next) => {
+/** Surface known rollback errors as 400/404 */
+function rollbackError(err: any): ApiError | null {
+  if (err.message === 'Upload not found') return ApiError.notFound(err.message);
+  if (err.message.includes('already been rolled back') || err.message.includes('Cannot rollback') || err.message.includes('No rollback data') || err.message.includes('Later uploads') || err.message.includes('changed since')) {
+    return ApiError.badRequest(err.message);
+  }
+  return null;
+}
+
+// GET /:id/rollback-preview — Rows a rollback would delete and restore, later uploads it cascades through, and conflicts
+router.get('/:id/rollback-preview', requirePermission('data_management', 'read'), async (req, res, next) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const id = parseInt(req.params.id as string, 10);
     if (isNaN(id)) return next(ApiError.badRequest('Invalid upload ID'));
 
-    const result = await rollbackUpload(id);
-    res.json(result);
+    res.json(await previewRollback(id));
   } catch (err: any) {
-    // Surface known rollback errors as 400/404
-    if (err.message === 'Upload not found') return next(ApiError.notFound(err.message));
-    if (err.message.includes('already been rolled back') || err.message.includes('Cannot rollback') || err.message.includes('No rollback data')) {
-      return next(ApiError.badRequest(err.message));
+    next(rollbackError(err) ?? err);
+  }
+});
+
+// POST /:id/rollback — Rollback an upload. Refused on conflicts, and when later uploads overwrote its records unless cascade is set.
+const rollbackSchema = z.object({
+  cascade: z.boolean().default(false),
+});
+
+router.post('/:id/rollback', requirePermission('data_management', 'write'), validateBody(rollbackSchema), async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return next(ApiError.badRequest('Invalid upload ID'));
+
+    const { cascade } = (req as any).validated;
+    const result = await rollbackUpload(id, { cascade });
+
+    // Alerts for the weeks it changed may no longer hold; a failure here shouldn't fail the rollback
+    if (result.tables.some((table) => ALERT_SOURCE_TABLES.includes(table))) {
+      await AlertService.evaluateWeeks(result.weeks).catch((err) => {
+        console.error('[Alerts] Evaluation after rollback failed:', err);
+      });
     }
-    next(err);
+
+    res.json(result);
+  } catch (err: any) {
+    next(rollbackError(err) ?? err);
   }
 });
 
 // GET /mappings — List saved column mappings
-router.get('/mappings', async (_req, res, next) => {
+router.get('/mappings', requirePermission('data_management', 'read'), async (_req, res, next) => {
   try {
     const mappings = await prisma.csvColumnMapping.findMany({
       orderBy: { createdAt: 'desc' },
@@ -388,7 +533,7 @@ const createMappingSchema = z.object({
   mapping: z.record(z.string()),
 });
 
-router.post('/mappings', validateBody(createMappingSchema), async (req, res, next) => {
+router.post('/mappings', requirePermission('data_management', 'write'), validateBody(createMappingSchema), async (req, res, next) => {
   try {
     const data = (req as any).validated;
     const mapping = await prisma.csvColumnMapping.create({ data });
@@ -397,9 +542,9 @@ router.post('/mappings', validateBody(createMappingSchema), async (req, res, nex
 });
 
 // PUT /mappings/:id — Update a mapping
-router.put('/mappings/:id', validateBody(createMappingSchema), async (req, res, next) => {
+router.put('/mappings/:id', requirePermission('data_management', 'write'), validateBody(createMappingSchema), async (req, res, next) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const id = parseInt(req.params.id as string, 10);
     if (isNaN(id)) return next(ApiError.badRequest('Invalid mapping ID'));
 
     const data = (req as any).validated;
@@ -409,9 +554,9 @@ router.put('/mappings/:id', validateBody(createMappingSchema), async (req, res,
 });
 
 // DELETE /mappings/:id — Delete a mapping
-router.delete('/mappings/:id', async (req, res, next) => {
+router.delete('/mappings/:id', requirePermission('data_management', 'write'), async (req, res, next) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const id = parseInt(req.params.id as string, 10);
     if (isNaN(id)) return next(ApiError.badRequest('Invalid mapping ID'));
 
     await prisma.csvColumnMapping.delete({ where: { id } });
@@ -419,4 +564,53 @@ router.delete('/mappings/:id', async (req, res, next) => {
   } catch (err) { next(err); }
 });
 
+// ─── Value Aliases ────────────────────────────────────────────────────────────
+
+// GET /aliases — Saved alternative spellings for enum columns
+const aliasQuerySchema = z.object({
+  field: z.string().optional(),
+});
+
+router.get('/aliases', requirePermission('data_management', 'read'), validateQuery(aliasQuerySchema), async (req, res, next) => {
+  try {
+    const { field } = (req as any).validated;
+    res.json(await ValueAliasService.list(field));
+  } catch (err) { next(err); }
+});
+
+// POST /aliases — Remember an alias, e.g. "SEQ Resi" → region seq_residential
+const createAliasSchema = z.object({
+  field: z.string().min(1),
+  alias: z.string().trim().min(1).max(200),
+  value: z.string().min(1),
+});
+
+router.post('/aliases', requirePermission('data_management', 'write'), validateBody(createAliasSchema), async (req, res, next) => {
+  try {
+    const { field, alias, value } = (req as any).validated;
+    const user = (req as any).user;
+    const saved = await ValueAliasService.remember(field, alias, value, user?.displayName ?? user?.email);
+    res.status(201).json(saved);
+  } catch (err: any) {
+    if (err.message?.startsWith('Unknown field') || err.message?.includes('is not one of')) {
+      return next(ApiError.badRequest(err.message));
+    }
+    next(err);
+  }
+});
+
+// DELETE /aliases/:id — Forget an alias
+router.delete('/aliases/:id', requirePermission('data_management', 'write'), async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id as string, 10);
+    if (isNaN(id)) return next(ApiError.badRequest('Invalid alias ID'));
+
+    await ValueAliasService.remove(id);
+    res.status(204).send();
+  } catch (err: any) {
+    if (err.message === 'Alias not found') return next(ApiError.notFound(err.message));
+    next(err);
+  }
+});
+
 export default router;
@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { UserService } from '../services/UserService.js';
+import { validateBody } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission, getRoleDefaultPermission, ALL_PAGES } from '../middleware/permissions.js';
+
+const router = Router();
+
+const roleEnum = z.enum(['super_admin', 'executive', 'manager', 'staff']);
+const regionEnum = z.enum(['cairns', 'mackay', 'nq_commercial', 'seq_residential', 'seq_commercial', 'town_planning', 'townsville', 'wide_bay', 'all_in_access']);
+const levelEnum = z.enum(['read', 'write', 'no_access']);
+
+function parseId(raw: string): number | null {
+  const id = parseInt(raw, 10);
+  return isNaN(id) ? null : id;
+}
+
+// GET / — All users with their resolved permission matrix
+router.get('/', requirePermission('user_permission_management', 'read'), async (_req, res, next) => {
+  try {
+    const users = await UserService.listWithPermissions();
+    res.json({ pages: ALL_PAGES, users });
+  } catch (err) { next(err); }
+});
+
+// POST /dev/test-users — Create one test account per role (development only)
+const testUsersSchema = z.object({
+  roles: z.array(roleEnum).min(1).optional(),
+});
+
+router.post('/dev/test-users', requirePermission('user_permission_management', 'write'), validateBody(testUsersSchema), async (req, res, next) => {
+  try {
+    if (process.env.NODE_ENV !== 'development') return next(ApiError.notFound());
+
+    const { roles } = (req as any).validated;
+    const users = await UserService.createTestUsers(roles);
+    res.status(201).json(users);
+  } catch (err) { next(err); }
+});
+
+// GET /:id — Single user with permission matrix
+router.get('/:id', requirePermission('user_permission_management', 'read'), async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id as string);
+    if (id == null) return next(ApiError.badRequest('Invalid user ID'));
+
+    const user = await UserService.getWithPermissions(id);
+    if (!user) return next(ApiError.notFound('User not found'));
+    res.json(user);
+  } catch (err) { next(err); }
+});
+
+// POST / — Pre-provision a user (linked on first M365 sign-in by email)
+const createUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  displayName: z.string().trim().min(1),
+  role: roleEnum.default('staff'),
+  team: z.string().trim().nullish(),
+  region: regionEnum.nullish(),
+});
+
+router.post('/', requirePermission('user_permission_management', 'write'), validateBody(createUserSchema), async (req, res, next) => {
+  try {
+    const data = (req as any).validated;
+    const user = await UserService.create(data);
+    res.status(201).json(user);
+  } catch (err: any) {
+    if (err.message?.includes('already exists')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
+});
+
+// PUT /:id — Update profile, role or active state
+const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).optional(),
+  role: roleEnum.optional(),
+  isActive: z.boolean().optional(),
+  team: z.string().trim().nullish(),
+  region: regionEnum.nullish(),
+});
+
+router.put('/:id', requirePermission('user_permission_management', 'write'), validateBody(updateUserSchema), async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id as string);
+    if (id == null) return next(ApiError.badRequest('Invalid user ID'));
+
+    const data = (req as any).validated;
+    // Guard against admins locking themselves out
+    if (req.user?.id === id && (data.isActive === false || (data.role && data.role !== req.user.role))) {
+      return next(ApiError.badRequest('You cannot change your own role or deactivate your own account'));
+    }
+
+    const user = await UserService.update(id, data);
+    if (!user) return next(ApiError.notFound('User not found'));
+    res.json(user);
+  } catch (err) { next(err); }
+});
+
+// DELETE /:id — Deactivate a user (accounts are never hard-deleted)
+router.delete('/:id', requirePermission('user_permission_management', 'write'), async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id as string);
+    if (id == null) return next(ApiError.badRequest('Invalid user ID'));
+    if (req.user?.id === id) return next(ApiError.badRequest('You cannot deactivate your own account'));
+
+    const user = await UserService.update(id, { isActive: false });
+    if (!user) return next(ApiError.notFound('User not found'));
+    res.json(user);
+  } catch (err) { next(err); }
+});
+
+// PUT /:id/permissions — Set explicit permission levels per page
+const permissionsSchema = z.object({
+  permissions: z.record(z.enum(ALL_PAGES as [string, ...string[]]), levelEnum)
+    .refine((p) => Object.keys(p).length > 0, 'At least one page is required'),
+});
+
+router.put('/:id/permissions', requirePermission('user_permission_management', 'write'), validateBody(permissionsSchema), async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id as string);
+    if (id == null) return next(ApiError.badRequest('Invalid user ID'));
+
+    const { permissions } = (req as any).validated;
+    if (req.user?.id === id && permissions.user_permission_management && permissions.user_permission_management !== 'write') {
+      return next(ApiError.badRequest('You cannot remove your own access to user management'));
+    }
+
+    const user = await UserService.setPermissions(id, permissions);
+    if (!user) return next(ApiError.notFound('User not found'));
+    res.json(user);
+  } catch (err) { next(err); }
+});
+
+// POST /:id/permissions/reset — Drop explicit permissions, reverting to role defaults
+router.post('/:id/permissions/reset', requirePermission('user_permission_management', 'write'), async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id as string);
+    if (id == null) return next(ApiError.badRequest('Invalid user ID'));
+    if (req.user?.id === id && getRoleDefaultPermission(req.user.role, 'user_permission_management') !== 'write') {
+      return next(ApiError.badRequest('Resetting would remove your own access to user management'));
+    }
+
+    const user = await UserService.resetPermissions(id);
+    if (!user) return next(ApiError.notFound('User not found'));
+    res.json(user);
+  } catch (err) { next(err); }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { WeekService } from '../services/WeekService.js';
+import { CompletenessService } from '../services/CompletenessService.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
 
 const router = Router();
 
@@ -29,4 +32,30 @@ router.get('/list', validateQuery(schemas.optionalDateRangeQuery), async (req, r
   } catch (err) { next(err); }
 });
 
+/** Longest range the completeness grid will compute in one request */
+const MAX_COMPLETENESS_WEEKS = 104;
+
+/**
+ * GET /completeness?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Rows per data type for each Saturday in the range (default: the last 13
+ * weeks), against the rows a complete week needs.
+ */
+router.get('/completeness', requirePermission('data_management', 'read'), validateQuery(schemas.optionalDateRangeQuery), async (req, res, next) => {
+  try {
+    const { from, to } = (req as any).validated;
+    const end = to ? WeekService.toSaturday(new Date(to)) : WeekService.getCurrentWeekEnding();
+    const start = from ? WeekService.toSaturday(new Date(from)) : new Date(end.getTime() - 12 * 7 * 86_400_000);
+
+    if (start > end) return next(ApiError.badRequest('"from" must be on or before "to"'));
+    if ((end.getTime() - start.getTime()) / (7 * 86_400_000) >= MAX_COMPLETENESS_WEEKS) {
+      return next(ApiError.badRequest(`Range cannot exceed ${MAX_COMPLETENESS_WEEKS} weeks`));
+    }
+
+    res.json({
+      dataTypes: CompletenessService.getDataTypes(),
+      weeks: await CompletenessService.getRange(start, end),
+    });
+  } catch (err) { next(err); }
+});
+
 export default router;
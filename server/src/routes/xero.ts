@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { XeroService, XERO_SYNC_TYPES, type XeroSyncType } from '../services/XeroService.js';
+import { AlertService } from '../services/AlertService.js';
+import { DigestService } from '../services/DigestService.js';
+import { authenticate } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validation.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { requirePermission } from '../middleware/permissions.js';
+
+const router = Router();
+
+const syncBody = z.object({
+  weekEnding: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  types: z.array(z.enum(XERO_SYNC_TYPES as [XeroSyncType, ...XeroSyncType[]])).min(1).optional(),
+});
+
+// Mounted ahead of the global auth middleware because Xero's callback is a
+// plain browser redirect; every other route authenticates itself.
+
+// GET /status — Connection state, token expiry and remaining request budget
+router.get('/status', authenticate, requirePermission('admin_settings', 'read'), async (_req, res, next) => {
+  try {
+    res.json(await XeroService.getStatus());
+  } catch (err) { next(err); }
+});
+
+// GET /connect — Xero authorisation URL for the client to navigate to
+router.get('/connect', authenticate, requirePermission('admin_settings', 'write'), (req, res, next) => {
+  try {
+    if (!XeroService.isConfigured()) {
+      res.status(503).json({
+        error: { message: 'Xero is not configured. Set XERO_CLIENT_ID and XERO_CLIENT_SECRET, or XERO_MODE=mock.', statusCode: 503 },
+      });
+      return;
+    }
+    res.json({ authUrl: XeroService.getAuthUrl(req.user?.email) });
+  } catch (err) { next(err); }
+});
+
+// GET /callback — Handle the Xero OAuth callback, then return to the app
+router.get('/callback', async (req, res, next) => {
+  try {
+    const code = req.query.code as string;
+    const state = req.query.state as string;
+    if (!code || !state) {
+      res.redirect(`/?xero=error&message=${encodeURIComponent((req.query.error as string) || 'Missing authorization code')}`);
+      return;
+    }
+
+    await XeroService.handleCallback(code, state);
+    res.redirect('/?xero=connected');
+  } catch (err: any) {
+    if (err.message?.startsWith('Invalid or expired Xero') || err.message?.startsWith('No Xero organisation')) {
+      res.redirect(`/?xero=error&message=${encodeURIComponent(err.message)}`);
+      return;
+    }
+    next(err);
+  }
+});
+
+// POST /disconnect — Remove the stored Xero tokens
+router.post('/disconnect', authenticate, requirePermission('admin_settings', 'write'), async (_req, res, next) => {
+  try {
+    await XeroService.disconnect();
+    res.json({ message: 'Xero disconnected' });
+  } catch (err) { next(err); }
+});
+
+/**
+ * POST /sync
+ * Body: { weekEnding: 'YYYY-MM-DD', types?: ('profit_and_loss' | 'invoices' | 'bank_summary')[] }
+ * Pulls the week from Xero into financial, revenue, projects and cash position tables.
+ */
+router.post('/sync', authenticate, requirePermission('data_management', 'write'), validateBody(syncBody), async (req, res, next) => {
+  try {
+    const { weekEnding, types } = (req as any).validated;
+    const week = new Date(weekEnding);
+    const results = await XeroService.syncWeek(week, types);
+
+    // Follow-up work for the synced week; a failure here shouldn't fail the sync
+    await AlertService.evaluateWeeks([week]).catch((err) => {
+      console.error('[Alerts] Evaluation after Xero sync failed:', err);
+    });
+    await DigestService.sendIfReady([week]).catch((err) => {
+      console.error('[Digest] Send after Xero sync failed:', err);
+    });
+
+    res.json({ results });
+  } catch (err: any) {
+    if (err.message?.startsWith('Xero is not')) return next(ApiError.badRequest(err.message));
+    next(err);
+  }
+});
+
+export default router;
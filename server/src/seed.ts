@@ -455,10 +455,10 @@ async function main() {
   });
 
   await prisma.setting.upsert({
-    where: { key: 'passthrough_items' },
+    where: { key: 'pass_through_categories' },
     update: {},
     create: {
-      key: 'passthrough_items',
+      key: 'pass_through_categories',
       value: ['council_fees', 'insurance_levy'],
     },
   });
@@ -471,6 +471,7 @@ async function main() {
       value: {
         netProfitBelowBudgetWeeks: 2,
         teamBelowTargetPercent: 50,
+        conversionBelowAverage: true,
         cashNearOverdraftAmount: 50000,
       },
     },
@@ -0,0 +1,294 @@
+import prisma from '../db.js';
+import { SettingsService, type SettingValue } from './SettingsService.js';
+import { TargetService } from './TargetService.js';
+import { ALL_REGIONS, REGION_LABELS } from './DashboardService.js';
+import type { AlertType, AlertSeverity, DashboardPage, SalesType } from '../generated/prisma/index.js';
+
+/** An alert the rules say should be active for the week */
+interface FiringAlert {
+  type: AlertType;
+  severity: AlertSeverity;
+  entity: string;
+  page: DashboardPage;
+  title: string;
+  message: string;
+  value: number | null;
+  threshold: number | null;
+}
+
+export interface AlertFilters {
+  status?: 'active' | 'unacknowledged' | 'all';
+  weekEnding?: Date;
+  pages?: DashboardPage[];
+  limit?: number;
+}
+
+const SALES_TYPES: SalesType[] = ['residential', 'commercial', 'retrospective'];
+
+const SALES_TYPE_LABELS: Record<SalesType, string> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  retrospective: 'Retrospective',
+};
+
+/** Weeks of history the conversion average is taken over */
+const CONVERSION_WINDOW_WEEKS = 13;
+
+// How far back to look when counting a net profit streak
+const MAX_STREAK_WEEKS = 52;
+
+/**
+ * Tables whose data feeds an alert rule. Imports into other tables don't
+ * trigger an evaluation.
+ */
+export const ALERT_SOURCE_TABLES = [
+  'financial_weekly',
+  'team_performance_weekly',
+  'sales_weekly',
+  'cash_position_weekly',
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function weeksBefore(weekEnding: Date, count: number): Date {
+  const d = new Date(weekEnding);
+  d.setUTCDate(d.getUTCDate() - count * 7);
+  return d;
+}
+
+function currency(val: number): string {
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 });
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/**
+ * Net profit under budget for at least N consecutive weeks up to this one.
+ * Critical once the streak reaches double the threshold.
+ */
+async function netProfitRule(weekEnding: Date, thresholds: SettingValue<'alert_thresholds'>): Promise<FiringAlert[]> {
+  const financials = await prisma.financialWeekly.findMany({
+    where: { weekEnding: { gt: weeksBefore(weekEnding, MAX_STREAK_WEEKS), lte: weekEnding } },
+    orderBy: { weekEnding: 'desc' },
+  });
+  const byWeek = new Map(financials.map((f) => [f.weekEnding.toISOString(), Number(f.netProfit)]));
+
+  let streak = 0;
+  let latest: { netProfit: number; budget: number } | null = null;
+  for (let i = 0; i < MAX_STREAK_WEEKS; i++) {
+    const week = weeksBefore(weekEnding, i);
+    const netProfit = byWeek.get(week.toISOString());
+    if (netProfit == null) break;
+    const target = await TargetService.getTargetForWeek('net_profit', week);
+    if (!target || netProfit >= Number(target.amount)) break;
+    if (i === 0) latest = { netProfit, budget: Number(target.amount) };
+    streak++;
+  }
+
+  if (!latest || streak < thresholds.netProfitBelowBudgetWeeks) return [];
+  return [{
+    type: 'net_profit_below_budget',
+    severity: streak >= thresholds.netProfitBelowBudgetWeeks * 2 ? 'critical' : 'warning',
+    entity: '',
+    page: 'executive_summary',
+    title: `Net profit below budget for ${streak} weeks`,
+    message: `Net profit of ${currency(latest.netProfit)} against a budget of ${currency(latest.budget)}; `
+      + `below budget for ${streak} consecutive weeks.`,
+    value: latest.netProfit,
+    threshold: latest.budget,
+  }];
+}
+
+/**
+ * Regional teams invoicing below X% of their weekly target. Critical below
+ * half of X.
+ */
+async function teamTargetRule(weekEnding: Date, thresholds: SettingValue<'alert_thresholds'>): Promise<FiringAlert[]> {
+  const [teams, targets] = await Promise.all([
+    prisma.teamPerformanceWeekly.findMany({ where: { weekEnding } }),
+    TargetService.getAllTargetsForWeek(weekEnding),
+  ]);
+
+  const alerts: FiringAlert[] = [];
+  for (const region of ALL_REGIONS) {
+    const team = teams.find((t) => t.region === region);
+    const target = targets.find((t) => t.targetType === 'team_revenue' && t.entity === region);
+    if (!team || !target || Number(target.amount) <= 0) continue;
+
+    const pct = (Number(team.actualInvoiced) / Number(target.amount)) * 100;
+    if (pct >= thresholds.teamBelowTargetPercent) continue;
+
+    alerts.push({
+      type: 'team_below_target',
+      severity: pct < thresholds.teamBelowTargetPercent / 2 ? 'critical' : 'warning',
+      entity: region,
+      page: 'regional_performance',
+      title: `${REGION_LABELS[region]} at ${pct.toFixed(0)}% of target`,
+      message: `${REGION_LABELS[region]} invoiced ${currency(Number(team.actualInvoiced))} against a target of `
+        + `${currency(Number(target.amount))} (alert below ${thresholds.teamBelowTargetPercent}%).`,
+      value: Number(pct.toFixed(2)),
+      threshold: thresholds.teamBelowTargetPercent,
+    });
+  }
+  return alerts;
+}
+
+/**
+ * Quote conversion (won ÷ issued) for a sales type below its trailing
+ * average. Warning when under three quarters of the average.
+ */
+async function conversionRule(weekEnding: Date, thresholds: SettingValue<'alert_thresholds'>): Promise<FiringAlert[]> {
+  if (!thresholds.conversionBelowAverage) return [];
+
+  const sales = await prisma.salesWeekly.findMany({
+    where: { weekEnding: { gt: weeksBefore(weekEnding, CONVERSION_WINDOW_WEEKS + 1), lte: weekEnding } },
+  });
+
+  const alerts: FiringAlert[] = [];
+  for (const salesType of SALES_TYPES) {
+    const rows = sales.filter((s) => s.salesType === salesType);
+    const current = rows.find((s) => s.weekEnding.getTime() === weekEnding.getTime());
+    const history = rows.filter((s) => s.weekEnding < weekEnding);
+    if (!current || current.quotesIssuedCount === 0 || history.length === 0) continue;
+
+    const issued = history.reduce((sum, s) => sum + s.quotesIssuedCount, 0);
+    const won = history.reduce((sum, s) => sum + s.quotesWonCount, 0);
+    if (issued === 0) continue;
+
+    const rate = (current.quotesWonCount / current.quotesIssuedCount) * 100;
+    const average = (won / issued) * 100;
+    if (rate >= average) continue;
+
+    alerts.push({
+      type: 'conversion_below_average',
+      severity: rate < average * 0.75 ? 'warning' : 'info',
+      entity: salesType,
+      page: 'sales_pipeline',
+      title: `${SALES_TYPE_LABELS[salesType]} conversion below average`,
+      message: `${SALES_TYPE_LABELS[salesType]} quotes converted at ${rate.toFixed(1)}% this week against a `
+        + `${history.length}-week average of ${average.toFixed(1)}%.`,
+      value: Number(rate.toFixed(2)),
+      threshold: Number(average.toFixed(2)),
+    });
+  }
+  return alerts;
+}
+
+/**
+ * Everyday account within $X of drawing the full overdraft. Critical once
+ * the limit is reached.
+ */
+async function cashRule(weekEnding: Date, thresholds: SettingValue<'alert_thresholds'>): Promise<FiringAlert[]> {
+  const cash = await prisma.cashPositionWeekly.findUnique({ where: { weekEnding } });
+  if (!cash || cash.everydayAccount == null || cash.overdraftLimit == null) return [];
+
+  // Headroom is how much more can be drawn before hitting the limit
+  const headroom = Number(cash.everydayAccount) + Number(cash.overdraftLimit);
+  if (headroom > thresholds.cashNearOverdraftAmount) return [];
+
+  return [{
+    type: 'cash_near_overdraft',
+    severity: headroom <= 0 ? 'critical' : 'warning',
+    entity: '',
+    page: 'financial_deep_dive',
+    title: headroom <= 0 ? 'Overdraft limit reached' : 'Cash close to overdraft limit',
+    message: `Everyday account at ${currency(Number(cash.everydayAccount))} leaves ${currency(headroom)} of a `
+      + `${currency(Number(cash.overdraftLimit))} overdraft (alert within ${currency(thresholds.cashNearOverdraftAmount)}).`,
+    value: Number(headroom.toFixed(2)),
+    threshold: thresholds.cashNearOverdraftAmount,
+  }];
+}
+
+const RULES = [netProfitRule, teamTargetRule, conversionRule, cashRule];
+
+export class AlertService {
+  /**
+   * Run every rule for a week and reconcile the stored alerts: new ones are
+   * created, still-firing ones refreshed (keeping acknowledgement unless the
+   * severity got worse), and ones that no longer fire are marked resolved.
+   */
+  static async evaluateWeek(weekEnding: Date) {
+    const thresholds = await SettingsService.get('alert_thresholds');
+    const firing = (await Promise.all(RULES.map((rule) => rule(weekEnding, thresholds)))).flat();
+
+    const existing = await prisma.alert.findMany({ where: { weekEnding } });
+    const severityRank: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+    const now = new Date();
+
+    let created = 0;
+    let resolved = 0;
+    await prisma.$transaction(async (tx) => {
+      for (const alert of firing) {
+        const previous = existing.find((e) => e.type === alert.type && e.entity === alert.entity);
+        if (!previous) {
+          await tx.alert.create({ data: { ...alert, weekEnding } });
+          created++;
+          continue;
+        }
+
+        const escalated = severityRank[alert.severity] > severityRank[previous.severity];
+        await tx.alert.update({
+          where: { id: previous.id },
+          data: {
+            ...alert,
+            resolvedAt: null,
+            ...(escalated || previous.resolvedAt ? { acknowledgedAt: null, acknowledgedBy: null } : {}),
+          },
+        });
+      }
+
+      for (const previous of existing) {
+        const stillFiring = firing.some((a) => a.type === previous.type && a.entity === previous.entity);
+        if (!stillFiring && !previous.resolvedAt) {
+          await tx.alert.update({ where: { id: previous.id }, data: { resolvedAt: now } });
+          resolved++;
+        }
+      }
+    });
+
+    return { weekEnding: weekEnding.toISOString().split('T')[0], active: firing.length, created, resolved };
+  }
+
+  /**
+   * Evaluate several weeks (e.g. every week touched by an import), oldest
+   * first so net profit streaks build up in order.
+   */
+  static async evaluateWeeks(weeks: Date[]) {
+    const unique = [...new Set(weeks.map((w) => w.getTime()))].sort((a, b) => a - b);
+    const results = [];
+    for (const time of unique) {
+      results.push(await this.evaluateWeek(new Date(time)));
+    }
+    return results;
+  }
+
+  /**
+   * Stored alerts, most severe and newest first.
+   */
+  static async list(filters: AlertFilters = {}) {
+    const where: Record<string, unknown> = {};
+    if (filters.status !== 'all') where.resolvedAt = null;
+    if (filters.status === 'unacknowledged') where.acknowledgedAt = null;
+    if (filters.weekEnding) where.weekEnding = filters.weekEnding;
+    if (filters.pages) where.page = { in: filters.pages };
+
+    return prisma.alert.findMany({
+      where,
+      orderBy: [{ weekEnding: 'desc' }, { severity: 'desc' }, { createdAt: 'desc' }],
+      take: filters.limit ?? 100,
+    });
+  }
+
+  /**
+   * Mark an alert as seen. `pages` limits it to alerts the caller can read.
+   */
+  static async acknowledge(id: number, acknowledgedBy?: string, pages?: DashboardPage[]) {
+    const alert = await prisma.alert.findUnique({ where: { id } });
+    if (!alert || (pages && !pages.includes(alert.page))) throw new Error('Alert not found');
+
+    return prisma.alert.update({
+      where: { id },
+      data: { acknowledgedAt: new Date(), acknowledgedBy: acknowledgedBy ?? null },
+    });
+  }
+}
@@ -80,6 +80,17 @@ export class AuthService {
     const email = account.username;
     const displayName = account.name || email;
 
+    // Link a pre-provisioned account (created by email in User Management)
+    const provisioned = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, m365Id: null },
+    });
+    if (provisioned) {
+      return prisma.user.update({
+        where: { id: provisioned.id },
+        data: { m365Id, lastLogin: new Date() },
+      });
+    }
+
     // Auto-provision user on first login
     const user = await prisma.user.upsert({
       where: { m365Id },
@@ -0,0 +1,107 @@
+import prisma from '../db.js';
+import { DataTypeRegistry, type DataTypeDefinition } from './DataTypeRegistry.js';
+import { TABLE_UNIQUE_KEYS, toPrismaModel } from './ImportService.js';
+import { WeekService, toDateKey } from './WeekService.js';
+import { ENUM_FIELDS } from './ValueAliasService.js';
+
+export type CompletenessStatus = 'complete' | 'partial' | 'missing';
+
+export interface DataTypeCompleteness {
+  dataTypeId: string;
+  rows: number;
+  /** Rows a full week has, or null when it can't be known (e.g. one row per staff member) */
+  expected: number | null;
+  status: CompletenessStatus;
+}
+
+export interface WeekCompleteness {
+  weekEnding: string;
+  status: CompletenessStatus;
+  completeCount: number;
+  dataTypes: DataTypeCompleteness[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Rows a complete week has for a data type: the product of the member counts
+ * of its key fields, leaving out weekEnding and fields the type fixes.
+ */
+function expectedRows(dt: DataTypeDefinition): number | null {
+  const keys = (TABLE_UNIQUE_KEYS[dt.targetTable] ?? [])
+    .filter((k) => k !== 'weekEnding' && !(k in dt.fixedFields));
+
+  let expected = 1;
+  for (const key of keys) {
+    const members = ENUM_FIELDS[key];
+    if (!members) return null;
+    expected *= members.length;
+  }
+  return expected;
+}
+
+function statusFor(rows: number, expected: number | null): CompletenessStatus {
+  if (rows === 0) return 'missing';
+  if (expected != null && rows < expected) return 'partial';
+  return 'complete';
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class CompletenessService {
+  /**
+   * Registered data types with the rows a complete week needs.
+   */
+  static getDataTypes() {
+    return DataTypeRegistry.getTableTypes().map((dt) => ({
+      id: dt.id,
+      name: dt.name,
+      category: dt.category,
+      expected: expectedRows(dt),
+    }));
+  }
+
+  /**
+   * Row counts per data type for every Saturday from `from` to `to`.
+   * `dataTypeIds` limits the check to those types.
+   */
+  static async getRange(from: Date, to: Date, dataTypeIds?: string[]): Promise<WeekCompleteness[]> {
+    const weeks = WeekService.getWeekRange(from, to);
+    if (weeks.length === 0) return [];
+
+    const dataTypes = DataTypeRegistry.getTableTypes().filter((dt) => !dataTypeIds || dataTypeIds.includes(dt.id));
+
+    // One grouped count per data type rather than one per cell
+    const counts = await Promise.all(dataTypes.map(async (dt) => {
+      const model = (prisma as any)[toPrismaModel(dt.targetTable)];
+      const grouped: { weekEnding: Date; _count: { _all: number } }[] = await model.groupBy({
+        by: ['weekEnding'],
+        where: { weekEnding: { gte: weeks[0], lte: weeks[weeks.length - 1] }, ...dt.fixedFields },
+        _count: { _all: true },
+      });
+      return new Map(grouped.map((g) => [toDateKey(g.weekEnding), g._count._all]));
+    }));
+
+    return weeks.map((week) => {
+      const key = toDateKey(week);
+      const cells = dataTypes.map((dt, i): DataTypeCompleteness => {
+        const rows = counts[i].get(key) ?? 0;
+        const expected = expectedRows(dt);
+        return { dataTypeId: dt.id, rows, expected, status: statusFor(rows, expected) };
+      });
+
+      const completeCount = cells.filter((c) => c.status === 'complete').length;
+      const status: CompletenessStatus = completeCount === cells.length ? 'complete'
+        : cells.every((c) => c.status === 'missing') ? 'missing' : 'partial';
+      return { weekEnding: key, status, completeCount, dataTypes: cells };
+    });
+  }
+
+  /**
+   * Completeness of a single week.
+   */
+  static async getWeek(weekEnding: Date, dataTypeIds?: string[]): Promise<WeekCompleteness> {
+    const [week] = await this.getRange(weekEnding, weekEnding, dataTypeIds);
+    return week;
+  }
+}
@@ -0,0 +1,121 @@
+import { escalateRow, type ValidationResult } from './CsvParserService.js';
+import type { ConsistencyRule, DataTypeDefinition } from './DataTypeRegistry.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** How one rule fared across the file */
+export interface RuleResult {
+  field: string;
+  severity: 'error' | 'warning';
+  /** e.g. "Gross Profit = Total Trading Income − Total Cost of Sales" */
+  description: string;
+  /** Rows that broke the rule */
+  violations: number[];
+  /** Rows where the field was blank and filled from the rule */
+  derived: number[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function parseTerm(term: string): { field: string; sign: 1 | -1 } {
+  return term.startsWith('-') ? { field: term.slice(1), sign: -1 } : { field: term, sign: 1 };
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function format(value: number): string {
+  return value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Sum of the terms for a row; null when any term is blank. */
+function sumTerms(terms: string[], data: Record<string, any>): number | null {
+  let total = 0;
+  for (const term of terms) {
+    const { field, sign } = parseTerm(term);
+    if (isBlank(data[field])) return null;
+    total += sign * Number(data[field]);
+  }
+  return round(total);
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class ConsistencyRuleService {
+  /**
+   * Fields a data type can calculate because every term of their `derive`
+   * rule is mapped. These needn't be mapped, or filled, even when required.
+   */
+  static derivableFields(dt: DataTypeDefinition, mappedFields: Set<string>): Set<string> {
+    return new Set((dt.rules ?? [])
+      .filter((r) => r.derive && r.equals?.every((t) => mappedFields.has(parseTerm(t).field)))
+      .map((r) => r.field));
+  }
+
+  /**
+   * Run a data type's rules over the validated rows. Blank derivable fields
+   * are filled first; required ones that can't be filled make the row an
+   * error. Rows already in error are left alone.
+   */
+  static apply(dt: DataTypeDefinition, validation: ValidationResult): RuleResult[] {
+    const rules = dt.rules ?? [];
+    const label = (field: string) => dt.fields.find((f) => f.dbField === field)?.label ?? field;
+    const describe = (terms: string[]) => terms
+      .map((t, i) => {
+        const { field, sign } = parseTerm(t);
+        return i === 0 ? (sign < 0 ? `−${label(field)}` : label(field)) : `${sign < 0 ? '−' : '+'} ${label(field)}`;
+      })
+      .join(' ');
+
+    const results = rules.map((rule): RuleResult => ({
+      field: rule.field,
+      severity: rule.severity,
+      description: `${label(rule.field)} ${rule.equals ? '=' : '≤'} ${describe(rule.equals ?? rule.atMost ?? [])}`,
+      violations: [],
+      derived: [],
+    }));
+
+    for (const row of validation.rows) {
+      if (row.status === 'error') continue;
+
+      rules.forEach((rule, i) => {
+        const result = results[i];
+        const terms = rule.equals ?? rule.atMost ?? [];
+        const expected = sumTerms(terms, row.data);
+
+        if (isBlank(row.data[rule.field])) {
+          if (rule.derive && rule.equals && expected !== null) {
+            row.data[rule.field] = expected;
+            row.messages.push(`${label(rule.field)} calculated as ${describe(terms)}`);
+            result.derived.push(row.rowIndex);
+          } else if (rule.derive && dt.fields.find((f) => f.dbField === rule.field)?.required) {
+            escalateRow(validation, row, 'error', [`${label(rule.field)} is empty and could not be calculated from ${describe(terms)}`]);
+          }
+          return;
+        }
+
+        if (expected === null) return;
+        const actual = Number(row.data[rule.field]);
+        const tolerance = rule.tolerance ?? 0;
+        const broken = rule.equals ? Math.abs(actual - expected) > tolerance : actual - expected > tolerance;
+        if (!broken) return;
+
+        result.violations.push(row.rowIndex);
+        escalateRow(validation, row, rule.severity, [message(rule, label(rule.field), actual, describe(terms), expected)]);
+      });
+    }
+
+    return results;
+  }
+}
+
+function message(rule: ConsistencyRule, fieldLabel: string, actual: number, termsLabel: string, expected: number): string {
+  return rule.equals
+    ? `${fieldLabel} (${format(actual)}) should equal ${termsLabel} (${format(expected)}); off by ${format(round(actual - expected))}`
+    : `${fieldLabel} (${format(actual)}) is more than ${termsLabel} (${format(expected)})`;
+}
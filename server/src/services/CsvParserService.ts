@@ -1,5 +1,8 @@
 import Papa from 'papaparse';
 import { WeekService } from './WeekService.js';
+import type { RoutedRecord } from './DataTypeRegistry.js';
+import type { Outlier } from './OutlierService.js';
+import { findExistingKeys, keyString, uniqueKey } from './ImportService.js';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -19,6 +22,10 @@ export interface RowValidation {
   messages: string[];
   data: Record<string, any>;
   original: Record<string, string>;
+  /** Set for composite data types: the record each target data type receives */
+  targets?: RoutedRecord[];
+  /** Values far outside their series' recent history */
+  outliers?: Outlier[];
 }
 
 export interface ParseResult {
@@ -26,8 +33,46 @@ export interface ParseResult {
   columns: ColumnInfo[];
   totalRows: number;
   previewRows: Record<string, string>[];
+  /** Every non-blank row, for validation and import */
+  rows: Record<string, string>[];
   delimiter: string;
   encoding: string;
+  /** 1-based row number the headers were read from */
+  headerRow: number;
+  /** First rows of the file or sheet as plain cell text, for picking the header row */
+  rawPreview: string[][];
+  /** Workbook uploads only: the sheet choice */
+  workbook?: WorkbookInfo;
+  /** Problems found while reading the file, e.g. formula error cells */
+  warnings?: string[];
+  /** Wide layout only: how the weeks-as-columns table was unpivoted */
+  pivot?: PivotInfo;
+}
+
+export interface WorkbookInfo {
+  sheets: string[];
+  sheet: string;
+}
+
+export interface CsvParseOptions {
+  /** 1-based header row; defaults to the first row with more than one value */
+  headerRow?: number;
+}
+
+/** Rows of the raw file or sheet returned for picking the header row */
+export const RAW_PREVIEW_ROWS = 15;
+
+export type FileLayout = 'long' | 'wide';
+
+export interface PivotInfo {
+  /** Column the metric labels were read from */
+  labelColumn: string;
+  /** Columns whose header is a week-ending date, in file order */
+  weekColumns: string[];
+  /** Other non-date columns (candidate label columns, totals, notes) */
+  otherColumns: string[];
+  /** Week endings that had data, as YYYY-MM-DD */
+  weeks: string[];
 }
 
 export interface ValidationResult {
@@ -67,26 +112,62 @@ function detectDelimiter(text: string): string {
 }
 
 /**
- * Parse a CSV file buffer into structured data.
+ * Report exports put title lines (report name, company, period) above the
+ * table, one value each. The header is the first row with more than one.
+ */
+function guessHeaderRow(preview: string[][]): number {
+  const index = preview.findIndex((row) => row.filter((v) => v !== '').length > 1);
+  return index >= 0 ? index + 1 : 1;
+}
+
+/**
+ * Parse a CSV file buffer into structured data, reading the headers from
+ * `headerRow` and skipping any lines above it.
  */
-export function parseCsv(buffer: Buffer): ParseResult {
+export function parseCsv(buffer: Buffer, options: CsvParseOptions = {}): ParseResult {
   let text = buffer.toString('utf-8');
   text = stripBom(text);
 
   const delimiter = detectDelimiter(text);
 
+  const rawPreview = Papa.parse<string[]>(text, { delimiter, preview: RAW_PREVIEW_ROWS }).data
+    .map((row) => row.map((cell) => cell.trim()));
+  while (rawPreview.length > 0 && rawPreview[rawPreview.length - 1].every((v) => v === '')) rawPreview.pop();
+
+  const headerRow = options.headerRow ?? guessHeaderRow(rawPreview);
+
   const parsed = Papa.parse<Record<string, string>>(text, {
     header: true,
     delimiter,
+    skipFirstNLines: headerRow - 1,
     skipEmptyLines: false, // We handle blank rows ourselves
     transformHeader: (h) => h.trim(),
   });
 
   const headers = parsed.meta.fields ?? [];
+  if (options.headerRow && headers.length === 0) {
+    throw new Error(`Header row ${headerRow} is past the end of the file`);
+  }
   const allRows = parsed.data;
 
+  return {
+    headers,
+    ...summariseRows(headers, allRows),
+    totalRows: allRows.length,
+    delimiter: delimiter === '\t' ? 'tab' : delimiter,
+    encoding: 'utf-8',
+    headerRow,
+    rawPreview,
+  };
+}
+
+/**
+ * Column type inference and preview rows for parsed data. Shared by the CSV
+ * and workbook parsers so both produce the same ParseResult.
+ */
+export function summariseRows(headers: string[], rows: Record<string, string>[]) {
   // Filter out completely blank rows for column inference
-  const nonBlankRows = allRows.filter((row) =>
+  const nonBlankRows = rows.filter((row) =>
     Object.values(row).some((v) => v != null && v.trim() !== '')
   );
 
@@ -107,13 +188,92 @@ export function parseCsv(buffer: Buffer): ParseResult {
   // Preview: first 10 non-blank rows
   const previewRows = nonBlankRows.slice(0, 10);
 
+  return { columns, previewRows, rows: nonBlankRows };
+}
+
+// ─── Wide Layout ──────────────────────────────────────────────────────────────
+
+/** Header given to the generated week column of an unpivoted table */
+export const PIVOT_WEEK_HEADER = 'Week Ending';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TEXT_DATE_REGEX = /^(\d{1,2})[\s-]([a-z]{3})[a-z]*[\s-](\d{2,4})$/i;
+
+/**
+ * Parse a column header as a date. Besides the formats parseDate accepts,
+ * report exports label weeks like "4 Jan 2026" or "04-Jan-26".
+ */
+function parseHeaderDate(header: string): Date | null {
+  const parsed = parseDate(header);
+  if (parsed) return parsed;
+
+  const match = TEXT_DATE_REGEX.exec(header.trim());
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2].toLowerCase());
+  if (month < 0) return null;
+
+  const day = parseInt(match[1], 10);
+  let year = parseInt(match[3], 10);
+  if (year < 100) year += year < 50 ? 2000 : 1900;
+
+  const d = new Date(Date.UTC(year, month, day));
+  return d.getUTCDate() === day ? d : null;
+}
+
+/**
+ * Whether a table looks like weeks-as-columns: at least two date headers,
+ * making up at least half of all headers.
+ */
+export function detectLayout(headers: string[]): FileLayout {
+  const dateHeaders = headers.filter((h) => parseHeaderDate(h)).length;
+  return dateHeaders >= 2 && dateHeaders * 2 >= headers.length ? 'wide' : 'long';
+}
+
+/**
+ * Turn a wide table (one row per metric, one column per week) into one
+ * record per week keyed by metric label, so it can be mapped and validated
+ * like any other upload. Weeks with no values at all are dropped, which
+ * covers the empty future columns of a year-to-date workbook.
+ */
+export function unpivotWeeks(result: ParseResult, labelColumn?: string): ParseResult {
+  const weekColumns = result.headers.filter((h) => parseHeaderDate(h));
+  if (weekColumns.length === 0) {
+    throw new Error('No week-ending dates found in the header row');
+  }
+
+  const otherColumns = result.headers.filter((h) => !weekColumns.includes(h));
+  const label = labelColumn ?? otherColumns[0];
+  if (!label || !otherColumns.includes(label)) {
+    throw new Error(`Label column not found: ${labelColumn ?? '(none)'}`);
+  }
+
+  // Metric rows, named by their label; repeats get a suffix like duplicate headers
+  const seen = new Map<string, number>();
+  const metrics: { name: string; row: Record<string, string> }[] = [];
+  for (const row of result.rows) {
+    const text = (row[label] ?? '').trim();
+    if (!text || weekColumns.every((w) => (row[w] ?? '').trim() === '')) continue;
+    const count = (seen.get(text) ?? 0) + 1;
+    seen.set(text, count);
+    metrics.push({ name: count > 1 ? `${text} (${count})` : text, row });
+  }
+
+  const headers = [PIVOT_WEEK_HEADER, ...metrics.map((m) => m.name)];
+  const rows: Record<string, string>[] = [];
+  for (const week of weekColumns) {
+    const record: Record<string, string> = {
+      [PIVOT_WEEK_HEADER]: parseHeaderDate(week)!.toISOString().split('T')[0],
+    };
+    for (const metric of metrics) record[metric.name] = (metric.row[week] ?? '').trim();
+    if (metrics.some((m) => record[m.name] !== '')) rows.push(record);
+  }
+
   return {
+    ...result,
     headers,
-    columns,
-    totalRows: allRows.length,
-    previewRows,
-    delimiter: delimiter === '\t' ? 'tab' : delimiter,
-    encoding: 'utf-8',
+    ...summariseRows(headers, rows),
+    totalRows: rows.length,
+    pivot: { labelColumn: label, weekColumns, otherColumns, weeks: rows.map((r) => r[PIVOT_WEEK_HEADER]) },
   };
 }
 
@@ -414,41 +574,80 @@ export function validateRows(
   };
 }
 
+/**
+ * Raise a validated row's status (never lower it) with the messages that
+ * explain why, keeping the summary counts in step.
+ */
+export function escalateRow(validation: ValidationResult, row: RowValidation, status: RowStatus, messages: string[]) {
+  const rank: Record<RowStatus, number> = { pass: 0, warning: 1, error: 2 };
+  row.messages.push(...messages);
+  if (rank[status] <= rank[row.status]) return;
+
+  const counts = { pass: 'passed', warning: 'warnings', error: 'errors' } as const;
+  validation.summary[counts[row.status]]--;
+  validation.summary[counts[status]]++;
+  row.status = status;
+}
+
 // ─── Duplicate Detection ──────────────────────────────────────────────────────
 
+/** A record a validated row will write, and the table it goes to */
+export interface KeyedRecord {
+  rowIndex: number;
+  table: string;
+  data: Record<string, any>;
+}
+
 export interface DuplicateInfo {
-  weekEnding: string;
   rowIndex: number;
-  existsInDb: boolean;
+  table: string;
+  /** The table's unique key, e.g. { weekEnding: '2026-01-03', region: 'cairns' } */
+  key: Record<string, string>;
+  /** In-file duplicates: the earlier row with the same key */
+  firstRowIndex?: number;
+}
+
+export interface DuplicateReport {
+  /** Records whose key appears on an earlier row of the same file */
+  inFile: DuplicateInfo[];
+  /** Records whose key already exists in the database */
+  inDb: DuplicateInfo[];
 }
 
 /**
- * Check which week_ending values in the validated rows already exist in a table.
+ * Find records that collide on their table's unique key (TABLE_UNIQUE_KEYS,
+ * as used by the import), either with an earlier row of the file or with a
+ * stored record. Records missing a key field are left to fail at import.
  */
-export async function detectDuplicates(
-  rows: RowValidation[],
-  weekEndingField: string,
-  existingWeeks: Date[],
-): Promise<DuplicateInfo[]> {
-  const existingSet = new Set(existingWeeks.map((d) => d.toISOString().split('T')[0]));
-  const duplicates: DuplicateInfo[] = [];
-
-  for (const row of rows) {
-    const weekVal = row.data[weekEndingField];
-    if (!weekVal) continue;
-
-    const weekStr = weekVal instanceof Date
-      ? weekVal.toISOString().split('T')[0]
-      : new Date(weekVal).toISOString().split('T')[0];
-
-    if (existingSet.has(weekStr)) {
-      duplicates.push({
-        weekEnding: weekStr,
-        rowIndex: row.rowIndex,
-        existsInDb: true,
-      });
+export async function detectDuplicates(records: KeyedRecord[]): Promise<DuplicateReport> {
+  const inFile: DuplicateInfo[] = [];
+  const firstRows = new Map<string, number>();
+  const byTable = new Map<string, { rowIndex: number; key: Record<string, string> }[]>();
+
+  for (const record of records) {
+    const key = uniqueKey(record.table, record.data);
+    if (!key) continue;
+
+    const id = `${record.table}:${keyString(key)}`;
+    const firstRowIndex = firstRows.get(id);
+    if (firstRowIndex === undefined) {
+      firstRows.set(id, record.rowIndex);
+    } else if (firstRowIndex !== record.rowIndex) {
+      inFile.push({ rowIndex: record.rowIndex, table: record.table, key, firstRowIndex });
+    }
+
+    const entries = byTable.get(record.table) ?? [];
+    entries.push({ rowIndex: record.rowIndex, key });
+    byTable.set(record.table, entries);
+  }
+
+  const inDb: DuplicateInfo[] = [];
+  for (const [table, entries] of byTable) {
+    const existing = await findExistingKeys(table, entries.map((e) => e.key));
+    for (const entry of entries) {
+      if (existing.has(keyString(entry.key))) inDb.push({ rowIndex: entry.rowIndex, table, key: entry.key });
     }
   }
 
-  return duplicates;
+  return { inFile, inDb };
 }
@@ -0,0 +1,1153 @@
+import prisma from '../db.js';
+import { FinancialService } from './FinancialService.js';
+import { TargetService } from './TargetService.js';
+import { SettingsService } from './SettingsService.js';
+import type { Region, SalesType, LeadSource, MarketingPlatform, StaffRole } from '../generated/prisma/index.js';
+
+export const ALL_REGIONS: Region[] = [
+  'cairns', 'mackay', 'nq_commercial', 'seq_residential', 'seq_commercial',
+  'town_planning', 'townsville', 'wide_bay', 'all_in_access',
+];
+
+export const REGION_LABELS: Record<Region, string> = {
+  cairns: 'Cairns',
+  mackay: 'Mackay',
+  nq_commercial: 'NQ Commercial',
+  seq_residential: 'SEQ Residential',
+  seq_commercial: 'SEQ Commercial',
+  town_planning: 'Town Planning',
+  townsville: 'Townsville',
+  wide_bay: 'Wide Bay',
+  all_in_access: 'All In Access',
+};
+
+export const REVENUE_CATEGORY_LABELS: Record<string, string> = {
+  class_1a: 'Class 1A',
+  class_10a_sheds: 'Class 10a Sheds',
+  class_10b_pools: 'Class 10b Pools',
+  class_2_9_commercial: 'Class 2-9 Commercial',
+  inspections: 'Inspections',
+  retrospective: 'Retrospective',
+  council_fees: 'Council Fees',
+  planning_1_10: 'Planning 1&10',
+  planning_2_9: 'Planning 2-9',
+  property_searches: 'Property Searches',
+  qleave: 'Qleave',
+  sundry: 'Sundry',
+  access_labour_hire: 'Access Labour Hire',
+  insurance_levy: 'Insurance Levy',
+};
+
+const SALES_TYPES: SalesType[] = ['residential', 'commercial', 'retrospective'];
+
+interface QuoteTotals {
+  issuedCount: number;
+  issuedValue: number;
+  wonCount: number;
+  wonValue: number;
+}
+
+function emptyQuoteTotals(): QuoteTotals {
+  return { issuedCount: 0, issuedValue: 0, wonCount: 0, wonValue: 0 };
+}
+
+function addQuotes(totals: QuoteTotals, row: {
+  quotesIssuedCount: number; quotesIssuedValue: unknown;
+  quotesWonCount: number; quotesWonValue: unknown;
+}) {
+  totals.issuedCount += row.quotesIssuedCount;
+  totals.issuedValue += Number(row.quotesIssuedValue);
+  totals.wonCount += row.quotesWonCount;
+  totals.wonValue += Number(row.quotesWonValue);
+}
+
+/**
+ * Round the running totals and attach win rate (by count) and average quote values.
+ */
+function summariseQuotes(totals: QuoteTotals) {
+  return {
+    issuedCount: totals.issuedCount,
+    issuedValue: Number(totals.issuedValue.toFixed(2)),
+    wonCount: totals.wonCount,
+    wonValue: Number(totals.wonValue.toFixed(2)),
+    winRate: totals.issuedCount > 0 ? Number(((totals.wonCount / totals.issuedCount) * 100).toFixed(1)) : 0,
+    valueWinRate: totals.issuedValue > 0 ? Number(((totals.wonValue / totals.issuedValue) * 100).toFixed(1)) : 0,
+    avgQuoteValue: totals.issuedCount > 0 ? Number((totals.issuedValue / totals.issuedCount).toFixed(2)) : 0,
+    avgWonValue: totals.wonCount > 0 ? Number((totals.wonValue / totals.wonCount).toFixed(2)) : 0,
+  };
+}
+
+const LEAD_SOURCES: LeadSource[] = ['google', 'seo', 'meta', 'bing', 'tiktok', 'other'];
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  google: 'Google',
+  seo: 'SEO',
+  meta: 'Meta',
+  bing: 'Bing',
+  tiktok: 'TikTok',
+  other: 'Other',
+};
+
+const MARKETING_PLATFORMS: MarketingPlatform[] = ['google_ads', 'meta_ads', 'bing_ads', 'tiktok_ads', 'seo'];
+
+const PLATFORM_LABELS: Record<MarketingPlatform, string> = {
+  google_ads: 'Google Ads',
+  meta_ads: 'Meta Ads',
+  bing_ads: 'Bing Ads',
+  tiktok_ads: 'TikTok Ads',
+  seo: 'SEO',
+};
+
+/** Lead source that each ad platform's spend is attributed to. */
+const PLATFORM_LEAD_SOURCE: Record<MarketingPlatform, LeadSource> = {
+  google_ads: 'google',
+  meta_ads: 'meta',
+  bing_ads: 'bing',
+  tiktok_ads: 'tiktok',
+  seo: 'seo',
+};
+
+/**
+ * Normalise a stored rate to a whole percentage. CSV imports store rates as
+ * decimals (0.425) while backfilled rows may hold whole percentages (42.5).
+ */
+function toPercent(val: unknown): number | null {
+  if (val == null) return null;
+  const num = Number(val);
+  return Number((num <= 1 ? num * 100 : num).toFixed(2));
+}
+
+export const STAFF_ROLES: StaffRole[] = ['certifier', 'cadet', 'admin', 'town_planner', 'manager', 'other'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  certifier: 'Certifier',
+  cadet: 'Cadet',
+  admin: 'Admin',
+  town_planner: 'Town Planner',
+  manager: 'Manager',
+  other: 'Other',
+};
+
+interface StaffTotals {
+  jobsCompleted: number;
+  inspectionsCompleted: number;
+  revenueGenerated: number;
+  inboundCalls: number;
+  outboundCalls: number;
+  missedCalls: number;
+  /** Sum of avgCallDuration × calls, so the window average is weighted by call volume */
+  weightedDuration: number;
+  durationCalls: number;
+}
+
+function emptyStaffTotals(): StaffTotals {
+  return {
+    jobsCompleted: 0, inspectionsCompleted: 0, revenueGenerated: 0,
+    inboundCalls: 0, outboundCalls: 0, missedCalls: 0, weightedDuration: 0, durationCalls: 0,
+  };
+}
+
+function addProductivity(totals: StaffTotals, row: {
+  jobsCompleted: number | null;
+  inspectionsCompleted: number | null;
+  revenueGenerated: unknown;
+}) {
+  totals.jobsCompleted += row.jobsCompleted ?? 0;
+  totals.inspectionsCompleted += row.inspectionsCompleted ?? 0;
+  totals.revenueGenerated += Number(row.revenueGenerated ?? 0);
+}
+
+function addPhone(totals: StaffTotals, row: {
+  inboundCalls: number | null;
+  outboundCalls: number | null;
+  missedCalls: number | null;
+  avgCallDuration: unknown;
+}) {
+  const inbound = row.inboundCalls ?? 0;
+  const outbound = row.outboundCalls ?? 0;
+  const missed = row.missedCalls ?? 0;
+  totals.inboundCalls += inbound;
+  totals.outboundCalls += outbound;
+  totals.missedCalls += missed;
+
+  // Missed calls have no duration, so only answered calls carry weight
+  const answered = Math.max(inbound - missed, 0) + outbound;
+  if (row.avgCallDuration != null && answered > 0) {
+    totals.weightedDuration += Number(row.avgCallDuration) * answered;
+    totals.durationCalls += answered;
+  }
+}
+
+/**
+ * Derived per-staff metrics. Missed-call rate is missed ÷ inbound; revenue per
+ * call divides revenue generated by all calls handled (inbound + outbound).
+ */
+function summariseStaff(totals: StaffTotals) {
+  const totalCalls = totals.inboundCalls + totals.outboundCalls;
+  return {
+    jobsCompleted: totals.jobsCompleted,
+    inspectionsCompleted: totals.inspectionsCompleted,
+    revenueGenerated: Number(totals.revenueGenerated.toFixed(2)),
+    inboundCalls: totals.inboundCalls,
+    outboundCalls: totals.outboundCalls,
+    missedCalls: totals.missedCalls,
+    totalCalls,
+    missedCallRate: totals.inboundCalls > 0
+      ? Number(((totals.missedCalls / totals.inboundCalls) * 100).toFixed(1)) : null,
+    avgCallDuration: totals.durationCalls > 0
+      ? Number((totals.weightedDuration / totals.durationCalls).toFixed(2)) : null,
+    revenuePerCall: totalCalls > 0
+      ? Number((totals.revenueGenerated / totalCalls).toFixed(2)) : null,
+  };
+}
+
+/**
+ * Builds the payload behind each dashboard page. Routes validate the query and
+ * pass it through; exports and reports reuse the same payloads so downloaded
+ * numbers always match what is on screen.
+ */
+export class DashboardService {
+  /**
+   * Returns all data needed for the Executive Summary dashboard in a single call.
+   */
+  static async getExecutiveSummary(weekDate: Date) {
+    // Calculate 13-week window (12 weeks before + current week)
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - 12 * 7);
+
+    // Fire all queries in parallel
+    const [
+      financial,
+      financialTrend,
+      projects,
+      projectsTrend,
+      sales,
+      leads,
+      cashPosition,
+      googleReviews,
+      teamPerformance,
+      targets,
+    ] = await Promise.all([
+      // Current week financial
+      FinancialService.getWeeklySummary(weekDate),
+      // 13-week financial trend
+      FinancialService.getWeeklyRange(trendStart, weekDate),
+      // Current week projects
+      prisma.projectsWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { projectType: 'asc' },
+      }),
+      // 13-week projects trend (for revenue by category chart)
+      prisma.projectsWeekly.findMany({
+        where: { weekEnding: { gte: trendStart, lte: weekDate } },
+        orderBy: [{ weekEnding: 'asc' }, { projectType: 'asc' }],
+      }),
+      // Current week sales
+      prisma.salesWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { salesType: 'asc' },
+      }),
+      // Current week leads
+      prisma.leadsWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { source: 'asc' },
+      }),
+      // Cash position
+      FinancialService.getCashPosition(weekDate),
+      // Google reviews
+      prisma.googleReviewsWeekly.findUnique({
+        where: { weekEnding: weekDate },
+      }),
+      // Team performance
+      prisma.teamPerformanceWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { region: 'asc' },
+      }),
+      // All active targets
+      TargetService.getAllTargetsForWeek(weekDate),
+    ]);
+
+    // --- Compute KPI values ---
+
+    // Net Profit
+    const netProfit = financial ? Number(financial.netProfit) : null;
+    const netProfitBudget = targets.find(t => t.targetType === 'net_profit');
+    const netProfitBudgetAmount = netProfitBudget ? Number(netProfitBudget.amount) : null;
+
+    // Revenue (Invoiced) = sum of Resi + Commercial + Retro xeroInvoicedAmount
+    const revenueInvoiced = projects.reduce((sum, p) => sum + Number(p.xeroInvoicedAmount), 0);
+
+    // Revenue (P&L) = totalTradingIncome
+    const revenuePL = financial ? Number(financial.totalTradingIncome) : null;
+
+    // Gross Profit Margin
+    const grossProfitMargin = financial ? financial.grossProfitMargin : null;
+
+    // Revenue to Staff Ratio
+    const revenueToStaffRatio = financial ? financial.revenueToStaffRatio : null;
+
+    // Total Leads
+    const totalLeads = leads.reduce((sum, l) => sum + Number(l.leadCount), 0);
+    const totalLeadCost = leads.reduce((sum, l) => sum + Number(l.totalCost ?? 0), 0);
+    const avgCostPerLead = totalLeads > 0 ? totalLeadCost / totalLeads : 0;
+
+    // Total Cash Available
+    const totalCashAvailable = cashPosition ? Number(cashPosition.totalCashAvailable ?? 0) : null;
+
+    // --- Team performance with targets ---
+    const teamResults = await Promise.all(
+      ALL_REGIONS.map(async (region) => {
+        const actual = teamPerformance.find(tp => tp.region === region);
+        const target = await TargetService.getTargetForWeek('team_revenue', weekDate, region);
+        const actualAmount = actual ? Number(actual.actualInvoiced) : 0;
+        const targetAmount = target ? Number(target.amount) : 0;
+        const pctToTarget = targetAmount > 0 ? Number(((actualAmount / targetAmount) * 100).toFixed(1)) : 0;
+
+        return {
+          region,
+          label: REGION_LABELS[region],
+          actual: actualAmount,
+          target: targetAmount,
+          percentageToTarget: pctToTarget,
+          variance: Number((actualAmount - targetAmount).toFixed(2)),
+        };
+      })
+    );
+
+    // --- Project targets ---
+    const resiTarget = targets.find(t => t.targetType === 'residential_revenue');
+    const commTarget = targets.find(t => t.targetType === 'commercial_revenue');
+    const retroTarget = targets.find(t => t.targetType === 'retrospective_revenue');
+
+    const projectSummary = ['residential', 'commercial', 'retrospective'].map(type => {
+      const row = projects.find(p => p.projectType === type);
+      const target = type === 'residential' ? resiTarget
+        : type === 'commercial' ? commTarget : retroTarget;
+      const invoiced = row ? Number(row.xeroInvoicedAmount) : 0;
+      const targetAmt = target ? Number(target.amount) : 0;
+      const pct = targetAmt > 0 ? Number(((invoiced / targetAmt) * 100).toFixed(1)) : 0;
+
+      return {
+        type,
+        hyperfloCount: row ? row.hyperfloCount : 0,
+        xeroInvoiced: invoiced,
+        target: targetAmt,
+        percentageToTarget: pct,
+        newBusinessPercentage: row?.newBusinessPercentage != null ? Number(row.newBusinessPercentage) : null,
+      };
+    });
+
+    // --- Sales pipeline summary ---
+    const salesSummary = ['residential', 'commercial', 'retrospective'].map(type => {
+      const row = sales.find(s => s.salesType === type);
+      const issuedCount = row ? row.quotesIssuedCount : 0;
+      const issuedValue = row ? Number(row.quotesIssuedValue) : 0;
+      const wonCount = row ? row.quotesWonCount : 0;
+      const wonValue = row ? Number(row.quotesWonValue) : 0;
+      const winRate = issuedCount > 0 ? Number(((wonCount / issuedCount) * 100).toFixed(1)) : 0;
+
+      return { type, issuedCount, issuedValue, wonCount, wonValue, winRate };
+    });
+
+    // --- Lead source breakdown ---
+    const leadBreakdown = leads.map(l => ({
+      source: l.source,
+      leadCount: Number(l.leadCount),
+      costPerLead: l.costPerLead ? Number(l.costPerLead) : null,
+      totalCost: l.totalCost ? Number(l.totalCost) : null,
+    }));
+
+    // --- Google Reviews ---
+    const reviews = googleReviews ? {
+      reviewCount: googleReviews.reviewCount,
+      averageRating: googleReviews.averageRating ? Number(googleReviews.averageRating) : null,
+      cumulativeCount: googleReviews.cumulativeCount,
+      cumulativeAverageRating: googleReviews.cumulativeAverageRating
+        ? Number(googleReviews.cumulativeAverageRating) : null,
+    } : null;
+
+    // --- Trend data for charts ---
+
+    // Net profit trend (13 weeks) with budget
+    const netProfitTrend = financialTrend.map(w => ({
+      weekEnding: (w.weekEnding as Date).toISOString().split('T')[0],
+      netProfit: Number(w.netProfit),
+      totalTradingIncome: Number(w.totalTradingIncome),
+      budget: netProfitBudgetAmount,
+    }));
+
+    // Revenue by category trend (13 weeks): group by week, sum per project type
+    const revByCategoryMap = new Map<string, { residential: number; commercial: number; retrospective: number }>();
+    for (const p of projectsTrend) {
+      const wk = (p.weekEnding as Date).toISOString().split('T')[0];
+      if (!revByCategoryMap.has(wk)) {
+        revByCategoryMap.set(wk, { residential: 0, commercial: 0, retrospective: 0 });
+      }
+      const entry = revByCategoryMap.get(wk)!;
+      entry[p.projectType as keyof typeof entry] = Number(p.xeroInvoicedAmount);
+    }
+    const revenueByCategoryTrend = Array.from(revByCategoryMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekEnding, values]) => ({ weekEnding, ...values }));
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      hasData: !!financial,
+      kpis: {
+        netProfit: {
+          actual: netProfit,
+          budget: netProfitBudgetAmount,
+          variance: netProfit != null && netProfitBudgetAmount != null
+            ? Number((netProfit - netProfitBudgetAmount).toFixed(2)) : null,
+          variancePct: netProfit != null && netProfitBudgetAmount != null && netProfitBudgetAmount !== 0
+            ? Number((((netProfit - netProfitBudgetAmount) / Math.abs(netProfitBudgetAmount)) * 100).toFixed(1)) : null,
+        },
+        revenueInvoiced: {
+          actual: Number(revenueInvoiced.toFixed(2)),
+        },
+        revenuePL: {
+          actual: revenuePL,
+          varianceToInvoiced: revenuePL != null
+            ? Number((revenuePL - revenueInvoiced).toFixed(2)) : null,
+        },
+        grossProfitMargin: {
+          actual: grossProfitMargin,
+        },
+        revenueToStaffRatio: {
+          actual: revenueToStaffRatio,
+        },
+        totalLeads: {
+          actual: totalLeads,
+          avgCostPerLead: Number(avgCostPerLead.toFixed(2)),
+        },
+        totalCashAvailable: {
+          actual: totalCashAvailable,
+        },
+      },
+      projectSummary,
+      salesSummary,
+      leadBreakdown,
+      reviews,
+      teamPerformance: teamResults,
+      trends: {
+        netProfit: netProfitTrend,
+        revenueByCategory: revenueByCategoryTrend,
+      },
+    };
+  }
+
+  /**
+   * Returns all data for the Financial Deep Dive page.
+   */
+  static async getFinancialDeepDive(weekDate: Date) {
+    // 13-week window
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - 12 * 7);
+
+    // 6-month window for monthly aggregation (roughly 26 weeks)
+    const monthlyStart = new Date(weekDate);
+    monthlyStart.setMonth(monthlyStart.getMonth() - 5);
+    monthlyStart.setDate(1); // Start of month
+
+    // Pass-through categories are stripped when the Net Revenue toggle is on
+    const passThroughCategories = await SettingsService.get('pass_through_categories');
+
+    const [
+      financial,
+      financialTrend,
+      revenueBreakdown,
+      revenueTrend,
+      cashPosition,
+      liabilities,
+      netProfitBudget,
+      projectsWeek,
+    ] = await Promise.all([
+      // Current week P&L
+      FinancialService.getWeeklySummary(weekDate),
+      // Financial trend for cost analysis + monthly aggregation
+      FinancialService.getWeeklyRange(monthlyStart, weekDate),
+      // Revenue breakdown for current week
+      prisma.revenueWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { category: 'asc' },
+      }),
+      // Revenue breakdown trend (13 weeks for stacked area chart)
+      prisma.revenueWeekly.findMany({
+        where: { weekEnding: { gte: trendStart, lte: weekDate } },
+        orderBy: [{ weekEnding: 'asc' }, { category: 'asc' }],
+      }),
+      // Cash position
+      FinancialService.getCashPosition(weekDate),
+      // Upcoming liabilities (active only)
+      prisma.upcomingLiability.findMany({
+        where: { isActive: true },
+        orderBy: { dueDate: 'asc' },
+      }),
+      // Net profit budget target
+      TargetService.getTargetForWeek('net_profit', weekDate),
+      // Projects for Revenue (Invoiced) calculation
+      prisma.projectsWeekly.findMany({
+        where: { weekEnding: weekDate },
+      }),
+    ]);
+
+    const budgetAmount = netProfitBudget ? Number(netProfitBudget.amount) : null;
+
+    // --- P&L Summary (weekly) ---
+    const plWeekly = financial ? {
+      totalTradingIncome: Number(financial.totalTradingIncome),
+      totalCostOfSales: Number(financial.totalCostOfSales),
+      grossProfit: Number(financial.grossProfit),
+      otherIncome: Number(financial.otherIncome),
+      operatingExpenses: Number(financial.operatingExpenses),
+      wagesAndSalaries: Number(financial.wagesAndSalaries),
+      netProfit: Number(financial.netProfit),
+      budget: budgetAmount,
+      profitPercentage: financial.profitPercentage,
+      revenueToStaffRatio: financial.revenueToStaffRatio,
+      grossProfitMargin: financial.grossProfitMargin,
+    } : null;
+
+    // --- P&L Monthly aggregation ---
+    // Group financial trend by YYYY-MM and sum
+    const monthlyMap = new Map<string, {
+      totalTradingIncome: number; totalCostOfSales: number; grossProfit: number;
+      otherIncome: number; operatingExpenses: number; wagesAndSalaries: number;
+      netProfit: number; weekCount: number;
+    }>();
+
+    for (const w of financialTrend) {
+      const d = new Date(w.weekEnding);
+      const monthKey = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+      const existing = monthlyMap.get(monthKey) ?? {
+        totalTradingIncome: 0, totalCostOfSales: 0, grossProfit: 0,
+        otherIncome: 0, operatingExpenses: 0, wagesAndSalaries: 0,
+        netProfit: 0, weekCount: 0,
+      };
+      existing.totalTradingIncome += Number(w.totalTradingIncome);
+      existing.totalCostOfSales += Number(w.totalCostOfSales);
+      existing.grossProfit += Number(w.grossProfit);
+      existing.otherIncome += Number(w.otherIncome);
+      existing.operatingExpenses += Number(w.operatingExpenses);
+      existing.wagesAndSalaries += Number(w.wagesAndSalaries);
+      existing.netProfit += Number(w.netProfit);
+      existing.weekCount += 1;
+      monthlyMap.set(monthKey, existing);
+    }
+
+    const plMonthly = Array.from(monthlyMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, data]) => {
+        const income = data.totalTradingIncome;
+        return {
+          month,
+          ...data,
+          budget: budgetAmount != null ? budgetAmount * data.weekCount : null,
+          profitPercentage: income > 0 ? Number(((data.netProfit / income) * 100).toFixed(2)) : 0,
+          revenueToStaffRatio: income > 0 ? Number(((data.wagesAndSalaries / income) * 100).toFixed(2)) : 0,
+          grossProfitMargin: income > 0 ? Number(((data.grossProfit / income) * 100).toFixed(2)) : 0,
+        };
+      });
+
+    // --- Revenue breakdown (current week) ---
+    const grossRevenue = revenueBreakdown.map(r => ({
+      category: r.category,
+      label: REVENUE_CATEGORY_LABELS[r.category] ?? r.category,
+      amount: Number(r.amount),
+      isPassThrough: passThroughCategories.includes(r.category),
+    }));
+
+    const grossTotal = grossRevenue.reduce((s, r) => s + r.amount, 0);
+    const passThroughTotal = grossRevenue.filter(r => r.isPassThrough).reduce((s, r) => s + r.amount, 0);
+    const netTotal = grossTotal - passThroughTotal;
+
+    // --- Revenue Invoiced vs P&L comparison ---
+    const revenueInvoiced = projectsWeek.reduce((sum, p) => sum + Number(p.xeroInvoicedAmount), 0);
+    const revenuePL = financial ? Number(financial.totalTradingIncome) : null;
+
+    // --- Revenue trend (13 weeks, grouped by week with all categories) ---
+    const revTrendMap = new Map<string, Record<string, number>>();
+    for (const r of revenueTrend) {
+      const wk = (r.weekEnding as Date).toISOString().split('T')[0];
+      if (!revTrendMap.has(wk)) revTrendMap.set(wk, {});
+      const entry = revTrendMap.get(wk)!;
+      entry[r.category] = Number(r.amount);
+    }
+    const revenueTrendData = Array.from(revTrendMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekEnding, categories]) => ({ weekEnding, ...categories }));
+
+    // --- Cost analysis trend (13 weeks) ---
+    const last13 = financialTrend.filter(w => {
+      const d = new Date(w.weekEnding);
+      return d >= trendStart && d <= weekDate;
+    });
+    const costAnalysisTrend = last13.map(w => ({
+      weekEnding: (w.weekEnding as Date).toISOString().split('T')[0],
+      revenueToStaffRatio: w.revenueToStaffRatio,
+      wagesAndSalaries: Number(w.wagesAndSalaries),
+      totalTradingIncome: Number(w.totalTradingIncome),
+    }));
+
+    // --- Cash position ---
+    const cashData = cashPosition ? {
+      everydayAccount: Number(cashPosition.everydayAccount ?? 0),
+      overdraftLimit: Number(cashPosition.overdraftLimit ?? 0),
+      taxSavings: Number(cashPosition.taxSavings ?? 0),
+      capitalAccount: Number(cashPosition.capitalAccount ?? 0),
+      creditCards: Number(cashPosition.creditCards ?? 0),
+      totalCashAvailable: Number(cashPosition.totalCashAvailable ?? 0),
+    } : null;
+
+    // --- Aged receivables ---
+    const receivables = cashPosition ? {
+      totalReceivables: Number(cashPosition.totalReceivables ?? 0),
+      current: Number(cashPosition.currentReceivables ?? 0),
+      over30Days: Number(cashPosition.over30Days ?? 0),
+      over60Days: Number(cashPosition.over60Days ?? 0),
+      over90Days: Number(cashPosition.over90Days ?? 0),
+      totalPayables: Number(cashPosition.totalPayables ?? 0),
+    } : null;
+
+    // --- Upcoming liabilities ---
+    const liabilityData = liabilities.map(l => ({
+      id: l.id,
+      description: l.description,
+      amount: Number(l.amount),
+      dueDate: l.dueDate.toISOString().split('T')[0],
+      type: l.liabilityType,
+    }));
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      hasData: !!financial,
+      plWeekly,
+      plMonthly,
+      revenueBreakdown: {
+        categories: grossRevenue,
+        grossTotal: Number(grossTotal.toFixed(2)),
+        passThroughTotal: Number(passThroughTotal.toFixed(2)),
+        netTotal: Number(netTotal.toFixed(2)),
+        passThroughCategories,
+      },
+      revenueComparison: {
+        invoiced: Number(revenueInvoiced.toFixed(2)),
+        pl: revenuePL,
+        variance: revenuePL != null ? Number((revenuePL - revenueInvoiced).toFixed(2)) : null,
+      },
+      costAnalysisTrend,
+      revenueTrend: revenueTrendData,
+      cashPosition: cashData,
+      agedReceivables: receivables,
+      upcomingLiabilities: liabilityData,
+    };
+  }
+
+  /**
+   * Returns all data for the Regional Performance page.
+   */
+  static async getRegionalPerformance(weekDate: Date) {
+    // 13-week window
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - 12 * 7);
+
+    const [teamActuals, teamTrend] = await Promise.all([
+      // Current week: all teams
+      prisma.teamPerformanceWeekly.findMany({
+        where: { weekEnding: weekDate },
+        orderBy: { region: 'asc' },
+      }),
+      // 13-week trend: all teams
+      prisma.teamPerformanceWeekly.findMany({
+        where: { weekEnding: { gte: trendStart, lte: weekDate } },
+        orderBy: [{ weekEnding: 'asc' }, { region: 'asc' }],
+      }),
+    ]);
+
+    // Resolve targets for each team
+    const teams = await Promise.all(
+      ALL_REGIONS.map(async (region) => {
+        const actual = teamActuals.find(t => t.region === region);
+        const target = await TargetService.getTargetForWeek('team_revenue', weekDate, region);
+        const actualAmount = actual ? Number(actual.actualInvoiced) : 0;
+        const targetAmount = target ? Number(target.amount) : 0;
+        const pct = targetAmount > 0 ? Number(((actualAmount / targetAmount) * 100).toFixed(1)) : 0;
+
+        return {
+          region,
+          label: REGION_LABELS[region],
+          actual: actualAmount,
+          target: targetAmount,
+          percentageToTarget: pct,
+          variance: Number((actualAmount - targetAmount).toFixed(2)),
+          color: pct >= 80 ? 'green' : pct >= 50 ? 'amber' : 'red',
+        };
+      })
+    );
+
+    // Build trend data: { weekEnding, [region]: actualInvoiced }
+    // Also collect targets per region for dashed lines
+    const trendMap = new Map<string, Record<string, number>>();
+    for (const row of teamTrend) {
+      const wk = (row.weekEnding as Date).toISOString().split('T')[0];
+      if (!trendMap.has(wk)) trendMap.set(wk, {});
+      const entry = trendMap.get(wk)!;
+      entry[row.region] = Number(row.actualInvoiced);
+    }
+
+    const trendData = Array.from(trendMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekEnding, values]) => ({ weekEnding, ...values }));
+
+    // Targets per region (for chart reference lines)
+    const targetMap: Record<string, number> = {};
+    for (const t of teams) {
+      targetMap[t.region] = t.target;
+    }
+
+    // Drill-down: weekly detail per team (13-week window)
+    const drillDown: Record<string, Array<{ weekEnding: string; actual: number; target: number; pct: number }>> = {};
+    for (const region of ALL_REGIONS) {
+      const regionRows = teamTrend.filter(r => r.region === region);
+      const target = await TargetService.getTargetForWeek('team_revenue', weekDate, region);
+      const targetAmt = target ? Number(target.amount) : 0;
+
+      drillDown[region] = regionRows.map(r => {
+        const actual = Number(r.actualInvoiced);
+        return {
+          weekEnding: (r.weekEnding as Date).toISOString().split('T')[0],
+          actual,
+          target: targetAmt,
+          pct: targetAmt > 0 ? Number(((actual / targetAmt) * 100).toFixed(1)) : 0,
+        };
+      });
+    }
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      hasData: teamActuals.length > 0,
+      teams,
+      trend: trendData,
+      targets: targetMap,
+      drillDown,
+      regionLabels: REGION_LABELS,
+    };
+  }
+
+  /**
+   * Returns quotes issued vs won over the selected window, win rates by sales
+   * type and region, and a region × sales-type heatmap.
+   */
+  static async getSalesPipeline(weekDate: Date, windowWeeks: number) {
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - (windowWeeks - 1) * 7);
+
+    const [salesTrend, regionalTrend] = await Promise.all([
+      prisma.salesWeekly.findMany({
+        where: { weekEnding: { gte: trendStart, lte: weekDate } },
+        orderBy: [{ weekEnding: 'asc' }, { salesType: 'asc' }],
+      }),
+      prisma.salesRegionalWeekly.findMany({
+        where: { weekEnding: { gte: trendStart, lte: weekDate } },
+        orderBy: [{ weekEnding: 'asc' }, { region: 'asc' }, { salesType: 'asc' }],
+      }),
+    ]);
+
+    // --- Weekly trend: totals across all sales types ---
+    const weeklyMap = new Map<string, QuoteTotals>();
+    for (const row of salesTrend) {
+      const wk = (row.weekEnding as Date).toISOString().split('T')[0];
+      if (!weeklyMap.has(wk)) weeklyMap.set(wk, emptyQuoteTotals());
+      addQuotes(weeklyMap.get(wk)!, row);
+    }
+    const trend = Array.from(weeklyMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([wk, totals]) => ({ weekEnding: wk, ...summariseQuotes(totals) }));
+
+    // --- Window totals by sales type ---
+    const overall = emptyQuoteTotals();
+    const byTypeTotals = new Map<SalesType, QuoteTotals>(SALES_TYPES.map(t => [t, emptyQuoteTotals()]));
+    for (const row of salesTrend) {
+      addQuotes(overall, row);
+      addQuotes(byTypeTotals.get(row.salesType)!, row);
+    }
+    const byType = SALES_TYPES.map(type => ({ type, ...summariseQuotes(byTypeTotals.get(type)!) }));
+
+    // --- Current week by sales type ---
+    const currentWeek = SALES_TYPES.map(type => {
+      const totals = emptyQuoteTotals();
+      const row = salesTrend.find(s => s.salesType === type && (s.weekEnding as Date).getTime() === weekDate.getTime());
+      if (row) addQuotes(totals, row);
+      return { type, ...summariseQuotes(totals) };
+    });
+
+    // --- Window totals by region, plus region × sales-type heatmap ---
+    const byRegionTotals = new Map<Region, QuoteTotals>(ALL_REGIONS.map(r => [r, emptyQuoteTotals()]));
+    const cellTotals = new Map<string, QuoteTotals>();
+    for (const row of regionalTrend) {
+      addQuotes(byRegionTotals.get(row.region)!, row);
+      const key = `${row.region}:${row.salesType}`;
+      if (!cellTotals.has(key)) cellTotals.set(key, emptyQuoteTotals());
+      addQuotes(cellTotals.get(key)!, row);
+    }
+
+    const byRegion = ALL_REGIONS.map(region => ({
+      region,
+      label: REGION_LABELS[region],
+      ...summariseQuotes(byRegionTotals.get(region)!),
+    }));
+
+    const heatmap = ALL_REGIONS.map(region => ({
+      region,
+      label: REGION_LABELS[region],
+      cells: SALES_TYPES.map(type => {
+        const totals = cellTotals.get(`${region}:${type}`);
+        return { salesType: type, hasData: !!totals, ...summariseQuotes(totals ?? emptyQuoteTotals()) };
+      }),
+    }));
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      weeks: windowWeeks,
+      hasData: salesTrend.length > 0 || regionalTrend.length > 0,
+      summary: summariseQuotes(overall),
+      currentWeek,
+      byType,
+      byRegion,
+      heatmap,
+      trend,
+      regionLabels: REGION_LABELS,
+    };
+  }
+
+  /**
+   * Returns lead cost by source, ad platform trends, spend vs leads attribution,
+   * website traffic and Google review trends for the selected window.
+   */
+  static async getMarketingLeads(weekDate: Date, windowWeeks: number) {
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - (windowWeeks - 1) * 7);
+    const range = { gte: trendStart, lte: weekDate };
+
+    const [leadsTrend, platformTrend, websiteTrend, reviewsTrend] = await Promise.all([
+      prisma.leadsWeekly.findMany({
+        where: { weekEnding: range },
+        orderBy: [{ weekEnding: 'asc' }, { source: 'asc' }],
+      }),
+      prisma.marketingPerformanceWeekly.findMany({
+        where: { weekEnding: range },
+        orderBy: [{ weekEnding: 'asc' }, { platform: 'asc' }],
+      }),
+      prisma.websiteAnalyticsWeekly.findMany({
+        where: { weekEnding: range },
+        orderBy: { weekEnding: 'asc' },
+      }),
+      prisma.googleReviewsWeekly.findMany({
+        where: { weekEnding: range },
+        orderBy: { weekEnding: 'asc' },
+      }),
+    ]);
+
+    // --- Cost per lead by source (window totals) ---
+    const sourceTotals = new Map<LeadSource, { leads: number; cost: number }>(
+      LEAD_SOURCES.map(s => [s, { leads: 0, cost: 0 }])
+    );
+    for (const l of leadsTrend) {
+      const totals = sourceTotals.get(l.source)!;
+      totals.leads += Number(l.leadCount);
+      totals.cost += Number(l.totalCost ?? 0);
+    }
+
+    const bySource = LEAD_SOURCES.map(source => {
+      const { leads, cost } = sourceTotals.get(source)!;
+      return {
+        source,
+        label: LEAD_SOURCE_LABELS[source],
+        leadCount: Number(leads.toFixed(2)),
+        totalCost: Number(cost.toFixed(2)),
+        costPerLead: leads > 0 ? Number((cost / leads).toFixed(2)) : null,
+      };
+    });
+
+    const totalLeads = bySource.reduce((s, r) => s + r.leadCount, 0);
+    const totalLeadCost = bySource.reduce((s, r) => s + r.totalCost, 0);
+
+    // Weekly cost per lead per source: { weekEnding, [source]: cpl }
+    const cplMap = new Map<string, Record<string, number | null>>();
+    const leadsWeeklyMap = new Map<string, Record<string, number>>();
+    for (const l of leadsTrend) {
+      const wk = (l.weekEnding as Date).toISOString().split('T')[0];
+      if (!cplMap.has(wk)) cplMap.set(wk, {});
+      if (!leadsWeeklyMap.has(wk)) leadsWeeklyMap.set(wk, {});
+      const leads = Number(l.leadCount);
+      const cost = Number(l.totalCost ?? 0);
+      cplMap.get(wk)![l.source] = leads > 0 ? Number((cost / leads).toFixed(2)) : null;
+      leadsWeeklyMap.get(wk)![l.source] = leads;
+    }
+    const costPerLeadTrend = Array.from(cplMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([wk, values]) => ({ weekEnding: wk, ...values }));
+
+    // --- Ad platform trends: CTR, CPC and conversion rate per platform ---
+    const platformMetrics = (row: typeof platformTrend[0]) => {
+      const impressions = row.impressions ?? 0;
+      const clicks = row.clicks ?? 0;
+      const cost = Number(row.cost ?? 0);
+      const conversions = row.conversions ?? 0;
+      return {
+        impressions,
+        clicks,
+        cost,
+        conversions,
+        ctr: impressions > 0 ? Number(((clicks / impressions) * 100).toFixed(2)) : toPercent(row.ctr),
+        cpc: clicks > 0 ? Number((cost / clicks).toFixed(2)) : (row.cpc != null ? Number(row.cpc) : null),
+        conversionRate: clicks > 0 ? Number(((conversions / clicks) * 100).toFixed(2)) : null,
+      };
+    };
+
+    const platformTrendData = MARKETING_PLATFORMS.map(platform => ({
+      platform,
+      label: PLATFORM_LABELS[platform],
+      weeks: platformTrend
+        .filter(p => p.platform === platform)
+        .map(p => ({
+          weekEnding: (p.weekEnding as Date).toISOString().split('T')[0],
+          ...platformMetrics(p),
+        })),
+    })).filter(p => p.weeks.length > 0);
+
+    // --- Spend vs leads attribution per channel (window totals) ---
+    const attribution = MARKETING_PLATFORMS.map(platform => {
+      const rows = platformTrend.filter(p => p.platform === platform);
+      const source = PLATFORM_LEAD_SOURCE[platform];
+      const leadTotals = sourceTotals.get(source)!;
+
+      const impressions = rows.reduce((s, r) => s + (r.impressions ?? 0), 0);
+      const clicks = rows.reduce((s, r) => s + (r.clicks ?? 0), 0);
+      const conversions = rows.reduce((s, r) => s + (r.conversions ?? 0), 0);
+      // Platform spend is authoritative; fall back to the lead source cost when no platform rows exist
+      const spend = rows.length > 0
+        ? rows.reduce((s, r) => s + Number(r.cost ?? 0), 0)
+        : leadTotals.cost;
+
+      return {
+        platform,
+        label: PLATFORM_LABELS[platform],
+        leadSource: source,
+        spend: Number(spend.toFixed(2)),
+        leads: Number(leadTotals.leads.toFixed(2)),
+        impressions,
+        clicks,
+        conversions,
+        costPerLead: leadTotals.leads > 0 ? Number((spend / leadTotals.leads).toFixed(2)) : null,
+        ctr: impressions > 0 ? Number(((clicks / impressions) * 100).toFixed(2)) : null,
+        cpc: clicks > 0 ? Number((spend / clicks).toFixed(2)) : null,
+        conversionRate: clicks > 0 ? Number(((conversions / clicks) * 100).toFixed(2)) : null,
+        shareOfSpend: 0,
+        shareOfLeads: totalLeads > 0 ? Number(((leadTotals.leads / totalLeads) * 100).toFixed(1)) : 0,
+      };
+    });
+
+    const totalSpend = attribution.reduce((s, a) => s + a.spend, 0);
+    for (const a of attribution) {
+      a.shareOfSpend = totalSpend > 0 ? Number(((a.spend / totalSpend) * 100).toFixed(1)) : 0;
+    }
+
+    // Weekly spend vs total leads: { weekEnding, spend, leads }
+    const spendMap = new Map<string, { spend: number; leads: number }>();
+    for (const p of platformTrend) {
+      const wk = (p.weekEnding as Date).toISOString().split('T')[0];
+      const entry = spendMap.get(wk) ?? { spend: 0, leads: 0 };
+      entry.spend += Number(p.cost ?? 0);
+      spendMap.set(wk, entry);
+    }
+    for (const [wk, sources] of leadsWeeklyMap) {
+      const entry = spendMap.get(wk) ?? { spend: 0, leads: 0 };
+      entry.leads = Object.values(sources).reduce((s, v) => s + v, 0);
+      spendMap.set(wk, entry);
+    }
+    const spendVsLeadsTrend = Array.from(spendMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([wk, v]) => ({
+        weekEnding: wk,
+        spend: Number(v.spend.toFixed(2)),
+        leads: Number(v.leads.toFixed(2)),
+        costPerLead: v.leads > 0 ? Number((v.spend / v.leads).toFixed(2)) : null,
+      }));
+
+    // --- Website sessions / bounce trend ---
+    const websiteTrendData = websiteTrend.map(w => ({
+      weekEnding: (w.weekEnding as Date).toISOString().split('T')[0],
+      sessions: w.sessions,
+      users: w.users,
+      newUsers: w.newUsers,
+      pageViews: w.pageViews,
+      bounceRate: toPercent(w.bounceRate),
+      avgSessionDuration: w.avgSessionDuration != null ? Number(w.avgSessionDuration) : null,
+    }));
+
+    // --- Review rating trend ---
+    const reviewsTrendData = reviewsTrend.map(r => ({
+      weekEnding: (r.weekEnding as Date).toISOString().split('T')[0],
+      reviewCount: r.reviewCount,
+      averageRating: r.averageRating != null ? Number(r.averageRating) : null,
+      cumulativeCount: r.cumulativeCount,
+      cumulativeAverageRating: r.cumulativeAverageRating != null ? Number(r.cumulativeAverageRating) : null,
+    }));
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      weeks: windowWeeks,
+      hasData: leadsTrend.length > 0 || platformTrend.length > 0 || websiteTrend.length > 0 || reviewsTrend.length > 0,
+      summary: {
+        totalLeads: Number(totalLeads.toFixed(2)),
+        totalLeadCost: Number(totalLeadCost.toFixed(2)),
+        avgCostPerLead: totalLeads > 0 ? Number((totalLeadCost / totalLeads).toFixed(2)) : null,
+        totalAdSpend: Number(totalSpend.toFixed(2)),
+        totalSessions: websiteTrend.reduce((s, w) => s + (w.sessions ?? 0), 0),
+        latestRating: reviewsTrendData.length > 0
+          ? reviewsTrendData[reviewsTrendData.length - 1].cumulativeAverageRating : null,
+      },
+      bySource,
+      costPerLeadTrend,
+      platformTrend: platformTrendData,
+      attribution,
+      spendVsLeadsTrend,
+      websiteTrend: websiteTrendData,
+      reviewsTrend: reviewsTrendData,
+      sourceLabels: LEAD_SOURCE_LABELS,
+    };
+  }
+
+  /**
+   * Returns a staff leaderboard for the window, joining staff productivity and
+   * phone metrics on staffName. Role and region filters apply to productivity
+   * rows; phone-only staff are included when no filter is set.
+   */
+  static async getOperations(weekDate: Date, windowWeeks: number, role?: StaffRole, region?: Region) {
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - (windowWeeks - 1) * 7);
+    const range = { gte: trendStart, lte: weekDate };
+
+    const [productivity, phone] = await Promise.all([
+      prisma.staffProductivityWeekly.findMany({
+        where: {
+          weekEnding: range,
+          ...(role ? { role } : {}),
+          ...(region ? { region } : {}),
+        },
+        orderBy: [{ weekEnding: 'asc' }, { staffName: 'asc' }],
+      }),
+      prisma.phoneWeekly.findMany({
+        where: { weekEnding: range },
+        orderBy: [{ weekEnding: 'asc' }, { staffName: 'asc' }],
+      }),
+    ]);
+
+    const filtered = Boolean(role || region);
+    const staff = new Map<string, { role: StaffRole | null; region: Region | null; totals: StaffTotals }>();
+
+    // Role and region come from the most recent productivity row in the window
+    for (const p of productivity) {
+      const entry = staff.get(p.staffName) ?? { role: null, region: null, totals: emptyStaffTotals() };
+      entry.role = p.role;
+      entry.region = p.region;
+      addProductivity(entry.totals, p);
+      staff.set(p.staffName, entry);
+    }
+
+    for (const ph of phone) {
+      let entry = staff.get(ph.staffName);
+      if (!entry) {
+        if (filtered) continue;
+        entry = { role: null, region: null, totals: emptyStaffTotals() };
+        staff.set(ph.staffName, entry);
+      }
+      addPhone(entry.totals, ph);
+    }
+
+    const leaderboard = Array.from(staff.entries())
+      .map(([staffName, { role: staffRole, region: staffRegion, totals }]) => ({
+        staffName,
+        role: staffRole,
+        roleLabel: staffRole ? STAFF_ROLE_LABELS[staffRole] : null,
+        region: staffRegion,
+        regionLabel: staffRegion ? REGION_LABELS[staffRegion] : null,
+        ...summariseStaff(totals),
+      }))
+      .sort((a, b) => b.revenueGenerated - a.revenueGenerated || a.staffName.localeCompare(b.staffName));
+
+    const overall = emptyStaffTotals();
+    for (const p of productivity) addProductivity(overall, p);
+    for (const ph of phone) {
+      if (staff.has(ph.staffName)) addPhone(overall, ph);
+    }
+
+    return {
+      weekEnding: weekDate.toISOString().split('T')[0],
+      weeks: windowWeeks,
+      filters: { role: role ?? null, region: region ?? null },
+      hasData: leaderboard.length > 0,
+      summary: {
+        staffCount: leaderboard.length,
+        ...summariseStaff(overall),
+      },
+      leaderboard,
+      roleLabels: STAFF_ROLE_LABELS,
+      regionLabels: REGION_LABELS,
+    };
+  }
+
+  /**
+   * Returns one staff member's weekly productivity and phone metrics for the
+   * drill-down view.
+   */
+  static async getStaffTrend(staffName: string, weekDate: Date, windowWeeks: number) {
+    const trendStart = new Date(weekDate);
+    trendStart.setDate(trendStart.getDate() - (windowWeeks - 1) * 7);
+    const range = { gte: trendStart, lte: weekDate };
+
+    const [productivity, phone] = await Promise.all([
+      prisma.staffProductivityWeekly.findMany({
+        where: { weekEnding: range, staffName },
+        orderBy: { weekEnding: 'asc' },
+      }),
+      prisma.phoneWeekly.findMany({
+        where: { weekEnding: range, staffName },
+        orderBy: { weekEnding: 'asc' },
+      }),
+    ]);
+
+    const byWeek = new Map<string, StaffTotals>();
+    for (const p of productivity) {
+      const wk = (p.weekEnding as Date).toISOString().split('T')[0];
+      const totals = byWeek.get(wk) ?? emptyStaffTotals();
+      addProductivity(totals, p);
+      byWeek.set(wk, totals);
+    }
+    for (const ph of phone) {
+      const wk = (ph.weekEnding as Date).toISOString().split('T')[0];
+      const totals = byWeek.get(wk) ?? emptyStaffTotals();
+      addPhone(totals, ph);
+      byWeek.set(wk, totals);
+    }
+
+    const trend = Array.from(byWeek.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([wk, totals]) => ({ weekEnding: wk, ...summariseStaff(totals) }));
+
+    const latest = productivity[productivity.length - 1];
+
+    return {
+      staffName,
+      weekEnding: weekDate.toISOString().split('T')[0],
+      weeks: windowWeeks,
+      role: latest?.role ?? null,
+      roleLabel: latest ? STAFF_ROLE_LABELS[latest.role] : null,
+      region: latest?.region ?? null,
+      regionLabel: latest?.region ? REGION_LABELS[latest.region] : null,
+      hasData: trend.length > 0,
+      trend,
+    };
+  }
+}
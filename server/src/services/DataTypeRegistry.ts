@@ -19,10 +19,80 @@ export interface DataTypeDefinition {
   fixedFields: Record<string, string>;
   /** Fields that can be mapped from CSV columns */
   fields: FieldDefinition[];
+  /** Set on data types that split each row across other data types */
+  composite?: CompositeDefinition;
+  /** Cross-field accounting checks run on every validated row */
+  rules?: ConsistencyRule[];
+}
+
+/**
+ * A cross-field check on one row, e.g. gross profit = income − cost of
+ * sales. Terms are field names; a leading '-' subtracts the field.
+ */
+export interface ConsistencyRule {
+  field: string;
+  /** `field` must equal the sum of these terms */
+  equals?: string[];
+  /** `field` must not exceed the sum of these terms */
+  atMost?: string[];
+  /** Allowed difference in the field's units; defaults to 0 */
+  tolerance?: number;
+  severity: 'error' | 'warning';
+  /** `equals` rules only: fill a blank `field` when every term has a value */
+  derive?: boolean;
+}
+
+/**
+ * Picks each row's destination from one mapped column, e.g. a "Type" column
+ * of "Resi" selecting projectType 'residential'.
+ */
+export interface RoutingRule {
+  /** Field holding the routing column's value */
+  field: string;
+  /** Column value (case-insensitive) → the fixed field values it selects */
+  values: Record<string, Record<string, string>>;
+}
+
+export interface CompositeTarget {
+  /** Candidate data types; a row is written as the one whose fixedFields match its route */
+  dataTypeIds: string[];
+  /** Composite field → field on the target, where the names differ */
+  rename?: Record<string, string>;
+}
+
+export interface CompositeDefinition {
+  routing?: RoutingRule;
+  /** Every row is written to each target that has values for it */
+  targets: CompositeTarget[];
+}
+
+/** A record a composite row writes, as one of the regular data types */
+export interface RoutedRecord {
+  dataTypeId: string;
+  data: Record<string, any>;
 }
 
 // ─── Registry ─────────────────────────────────────────────────────────────────
 
+/** Won quotes normally come from those issued, but can include quotes issued in earlier weeks */
+const QUOTE_RULES: ConsistencyRule[] = [
+  { field: 'quotesWonCount', atMost: ['quotesIssuedCount'], severity: 'warning' },
+];
+
+/** Routing values for the residential/commercial/retrospective split, with common abbreviations */
+function projectTypeRoutes(...fields: string[]): RoutingRule['values'] {
+  const names: Record<string, string[]> = {
+    residential: ['residential', 'resi'],
+    commercial: ['commercial', 'comm'],
+    retrospective: ['retrospective', 'retro'],
+  };
+  const values: RoutingRule['values'] = {};
+  for (const [type, aliases] of Object.entries(names)) {
+    for (const alias of aliases) values[alias] = Object.fromEntries(fields.map((f) => [f, type]));
+  }
+  return values;
+}
+
 const DATA_TYPES: DataTypeDefinition[] = [
   // ── Financial ───────────────────────────────────────────────────────────────
   {
@@ -42,6 +112,9 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'wagesAndSalaries', label: 'Wages & Salaries', type: 'currency', required: true },
       { dbField: 'netProfit', label: 'Net Profit', type: 'currency', required: true },
     ],
+    rules: [
+      { field: 'grossProfit', equals: ['totalTradingIncome', '-totalCostOfSales'], tolerance: 1, severity: 'error', derive: true },
+    ],
   },
 
   {
@@ -80,6 +153,15 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'over90Days', label: 'Over 90 Days', type: 'currency', required: false },
       { dbField: 'totalPayables', label: 'Total Payables', type: 'currency', required: false },
     ],
+    rules: [
+      {
+        field: 'totalReceivables',
+        equals: ['currentReceivables', 'over30Days', 'over60Days', 'over90Days'],
+        tolerance: 1,
+        severity: 'error',
+        derive: true,
+      },
+    ],
   },
 
   // ── Projects ────────────────────────────────────────────────────────────────
@@ -141,6 +223,7 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'quotesWonCount', label: 'Quotes Won (Count)', type: 'integer', required: true },
       { dbField: 'quotesWonValue', label: 'Quotes Won (Value)', type: 'currency', required: true },
     ],
+    rules: QUOTE_RULES,
   },
   {
     id: 'sales_commercial',
@@ -156,6 +239,7 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'quotesWonCount', label: 'Quotes Won (Count)', type: 'integer', required: true },
       { dbField: 'quotesWonValue', label: 'Quotes Won (Value)', type: 'currency', required: true },
     ],
+    rules: QUOTE_RULES,
   },
   {
     id: 'sales_retrospective',
@@ -171,6 +255,7 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'quotesWonCount', label: 'Quotes Won (Count)', type: 'integer', required: true },
       { dbField: 'quotesWonValue', label: 'Quotes Won (Value)', type: 'currency', required: true },
     ],
+    rules: QUOTE_RULES,
   },
   {
     id: 'sales_regional',
@@ -188,6 +273,53 @@ const DATA_TYPES: DataTypeDefinition[] = [
       { dbField: 'quotesWonCount', label: 'Quotes Won (Count)', type: 'integer', required: true },
       { dbField: 'quotesWonValue', label: 'Quotes Won (Value)', type: 'currency', required: true },
     ],
+    rules: QUOTE_RULES,
+  },
+
+  {
+    id: 'projects_all',
+    name: 'Projects - All Types',
+    description: 'Hyperflo export with residential, commercial and retrospective rows, split by a type column.',
+    category: 'Projects',
+    targetTable: 'projects_weekly',
+    fixedFields: {},
+    fields: [
+      { dbField: 'weekEnding', label: 'Week Ending', type: 'date', required: true },
+      { dbField: 'projectType', label: 'Project Type', type: 'text', required: true },
+      { dbField: 'hyperfloCount', label: 'Hyperflo Count', type: 'integer', required: true },
+      { dbField: 'xeroInvoicedAmount', label: 'Xero Invoiced Amount', type: 'currency', required: true },
+      { dbField: 'newBusinessPercentage', label: 'New Business %', type: 'percentage', required: false },
+    ],
+    composite: {
+      routing: { field: 'projectType', values: projectTypeRoutes('projectType') },
+      targets: [{ dataTypeIds: ['projects_residential', 'projects_commercial', 'projects_retrospective'] }],
+    },
+  },
+  {
+    id: 'hyperflo_weekly',
+    name: 'Hyperflo Weekly Export',
+    description: 'Projects and quotes by type in one file; writes projects and sales together.',
+    category: 'Projects',
+    targetTable: 'projects_weekly',
+    fixedFields: {},
+    fields: [
+      { dbField: 'weekEnding', label: 'Week Ending', type: 'date', required: true },
+      { dbField: 'type', label: 'Type', type: 'text', required: true },
+      { dbField: 'hyperfloCount', label: 'Hyperflo Count', type: 'integer', required: false },
+      { dbField: 'xeroInvoicedAmount', label: 'Xero Invoiced Amount', type: 'currency', required: false },
+      { dbField: 'quotesIssuedCount', label: 'Quotes Issued (Count)', type: 'integer', required: false },
+      { dbField: 'quotesIssuedValue', label: 'Quotes Issued (Value)', type: 'currency', required: false },
+      { dbField: 'quotesWonCount', label: 'Quotes Won (Count)', type: 'integer', required: false },
+      { dbField: 'quotesWonValue', label: 'Quotes Won (Value)', type: 'currency', required: false },
+    ],
+    rules: QUOTE_RULES,
+    composite: {
+      routing: { field: 'type', values: projectTypeRoutes('projectType', 'salesType') },
+      targets: [
+        { dataTypeIds: ['projects_residential', 'projects_commercial', 'projects_retrospective'] },
+        { dataTypeIds: ['sales_residential', 'sales_commercial', 'sales_retrospective'] },
+      ],
+    },
   },
 
   // ── Marketing ───────────────────────────────────────────────────────────────
@@ -326,6 +458,11 @@ export const DataTypeRegistry = {
     return DATA_TYPES;
   },
 
+  /** Data types that store into their own table (everything except composites). */
+  getTableTypes(): DataTypeDefinition[] {
+    return DATA_TYPES.filter((dt) => !dt.composite);
+  },
+
   /** Get all data types grouped by category. */
   getGrouped(): Record<string, DataTypeDefinition[]> {
     const grouped: Record<string, DataTypeDefinition[]> = {};
@@ -388,6 +525,57 @@ export const DataTypeRegistry = {
     return mappings;
   },
 
+  /**
+   * Split one validated composite row into the records it writes. Throws
+   * when the routing column holds a value the rule doesn't know, or when a
+   * target gets some values but not all of its required fields.
+   */
+  resolveTargets(dataTypeId: string, data: Record<string, any>): RoutedRecord[] {
+    const dt = byId.get(dataTypeId);
+    if (!dt?.composite) throw new Error(`Data type "${dataTypeId}" is not composite`);
+    const { routing, targets } = dt.composite;
+
+    let route: Record<string, string> = {};
+    if (routing) {
+      const value = String(data[routing.field] ?? '').trim();
+      const matched = routing.values[value.toLowerCase()];
+      if (!matched) {
+        const label = dt.fields.find((f) => f.dbField === routing.field)?.label ?? routing.field;
+        throw new Error(`"${label}" value "${value}" is not one of: ${Object.keys(routing.values).join(', ')}`);
+      }
+      route = matched;
+    }
+
+    const records: RoutedRecord[] = [];
+    for (const target of targets) {
+      const candidate = target.dataTypeIds
+        .map((id) => byId.get(id)!)
+        .find((c) => Object.entries(c.fixedFields).every(([key, value]) => route[key] === value));
+      if (!candidate) continue;
+
+      const fieldNames = new Set(candidate.fields.map((f) => f.dbField));
+      const record: Record<string, any> = {};
+      for (const [field, value] of Object.entries(data)) {
+        if (field === routing?.field) continue;
+        const targetField = target.rename?.[field] ?? field;
+        if (fieldNames.has(targetField)) record[targetField] = value;
+      }
+
+      // Only write targets the row actually has values for
+      const hasValues = Object.entries(record).some(([field, value]) => field !== 'weekEnding' && value != null);
+      if (!hasValues) continue;
+
+      // A partial record would fail the target table's NOT NULL columns at import
+      const routed = { ...record, ...candidate.fixedFields };
+      const missing = candidate.fields.filter((f) => f.required && (routed[f.dbField] == null || routed[f.dbField] === ''));
+      if (missing.length > 0) {
+        throw new Error(`${candidate.name} needs ${missing.map((f) => f.label).join(', ')} as well`);
+      }
+      records.push({ dataTypeId: candidate.id, data: routed });
+    }
+    return records;
+  },
+
   /**
    * Score how well a set of CSV headers matches a saved mapping.
    * Returns a number between 0 and 1 (percentage of saved mapping headers found in CSV).
@@ -0,0 +1,333 @@
+import os from 'os';
+import path from 'path';
+import prisma from '../db.js';
+import { DashboardService } from './DashboardService.js';
+import { AlertService } from './AlertService.js';
+import { SettingsService, type SettingValue } from './SettingsService.js';
+import { DataTypeRegistry } from './DataTypeRegistry.js';
+import { CompletenessService } from './CompletenessService.js';
+import { SmtpTransport } from './mail/SmtpTransport.js';
+import { FileTransport } from './mail/FileTransport.js';
+import { toDateKey } from './WeekService.js';
+import type { MailMessage, MailTransport } from './mail/transport.js';
+import type { DigestTrigger } from '../generated/prisma/index.js';
+
+type ExecutiveSummary = Awaited<ReturnType<typeof DashboardService.getExecutiveSummary>>;
+type DigestAlert = Awaited<ReturnType<typeof AlertService.list>>[number];
+
+/** Weeks of net profit history shown under the KPI cards */
+const NET_PROFIT_HISTORY_WEEKS = 6;
+
+const SEVERITY_COLOURS = { critical: '#D94F4F', warning: '#E8A442', info: '#4573D2' };
+
+// ─── Transport ────────────────────────────────────────────────────────────────
+
+let transport: MailTransport | null | undefined;
+
+/**
+ * MAIL_TRANSPORT=file writes messages to disk. Otherwise SMTP is used when
+ * SMTP_HOST is set; development falls back to the file transport and other
+ * environments report email as not configured. Resolved on first use so
+ * .env has been loaded.
+ */
+function getTransport(): MailTransport | null {
+  if (transport !== undefined) return transport;
+
+  const outputDir = process.env.MAIL_OUTPUT_DIR || path.join(os.tmpdir(), 'buildable-dashboard-mail');
+  const host = process.env.SMTP_HOST;
+
+  if (process.env.MAIL_TRANSPORT === 'file') transport = new FileTransport(outputDir);
+  else if (host) {
+    transport = new SmtpTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+      from: process.env.MAIL_FROM || 'Buildable Dashboard <dashboard@buildable.com.au>',
+    });
+  } else if (process.env.NODE_ENV === 'development') transport = new FileTransport(outputDir);
+  else transport = null;
+  return transport;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function escapeHtml(val: string): string {
+  return val
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fmtAUD(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 });
+}
+
+function fmtPct(val: number | null | undefined): string {
+  if (val == null) return '—';
+  return `${val.toFixed(1)}%`;
+}
+
+function fmtDate(key: string): string {
+  const d = new Date(key + 'T00:00:00Z');
+  return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function toneColour(val: number | null | undefined): string {
+  if (val == null) return '#6B7280';
+  return val >= 0 ? '#6AAF50' : '#D94F4F';
+}
+
+/** Same green / amber / red bands as the Regional Performance page */
+function targetColour(pct: number): string {
+  if (pct >= 100) return '#6AAF50';
+  if (pct >= 80) return '#E8A442';
+  return '#D94F4F';
+}
+
+// ─── HTML ─────────────────────────────────────────────────────────────────────
+
+// Email clients ignore stylesheets, so everything is inline and table-based
+
+const CELL = 'padding:8px 12px;border-bottom:1px solid #F3F4F6;font-size:14px;';
+const HEAD = 'padding:8px 12px;border-bottom:1px solid #E5E7EB;font-size:12px;color:#6B7280;text-transform:uppercase;';
+
+function section(title: string, body: string): string {
+  return `<tr><td style="padding:24px 24px 0">
+  <h2 style="margin:0 0 12px;font-size:16px;color:#1A1A2E">${escapeHtml(title)}</h2>
+  ${body}
+</td></tr>`;
+}
+
+function kpiCell(label: string, value: string, note = '', noteColour = '#6B7280'): string {
+  return `<td width="33%" style="padding:12px;background:#F9FAFB;border-radius:8px;vertical-align:top">
+  <div style="font-size:12px;color:#6B7280;text-transform:uppercase">${label}</div>
+  <div style="font-size:20px;font-weight:bold;color:#1A1A2E;margin-top:4px">${value}</div>
+  ${note ? `<div style="font-size:12px;color:${noteColour};margin-top:2px">${note}</div>` : ''}
+</td>`;
+}
+
+function renderKpis(summary: ExecutiveSummary): string {
+  const { kpis } = summary;
+  const np = kpis.netProfit;
+  const rows = [
+    [
+      kpiCell('Net Profit', fmtAUD(np.actual),
+        np.variance != null ? `${np.variance >= 0 ? '+' : ''}${fmtAUD(np.variance)} vs budget` : 'No budget', toneColour(np.variance)),
+      kpiCell('Revenue Invoiced', fmtAUD(kpis.revenueInvoiced.actual)),
+      kpiCell('Gross Profit Margin', fmtPct(kpis.grossProfitMargin.actual)),
+    ],
+    [
+      kpiCell('Revenue to Staff', fmtPct(kpis.revenueToStaffRatio.actual)),
+      kpiCell('Total Leads', String(kpis.totalLeads.actual), `${fmtAUD(kpis.totalLeads.avgCostPerLead)} per lead`),
+      kpiCell('Cash Available', fmtAUD(kpis.totalCashAvailable.actual)),
+    ],
+  ];
+  return `<table width="100%" cellspacing="8" cellpadding="0" style="margin:-8px">
+  ${rows.map((cells) => `<tr>${cells.join('')}</tr>`).join('\n')}
+</table>`;
+}
+
+function renderNetProfit(summary: ExecutiveSummary): string {
+  const history = summary.trends.netProfit.slice(-NET_PROFIT_HISTORY_WEEKS).reverse();
+  if (history.length === 0) return '<p style="font-size:14px;color:#6B7280">No net profit data.</p>';
+
+  const rows = history.map((w) => {
+    const variance = w.budget != null ? w.netProfit - w.budget : null;
+    return `<tr>
+    <td style="${CELL}">${fmtDate(w.weekEnding)}</td>
+    <td style="${CELL}text-align:right">${fmtAUD(w.netProfit)}</td>
+    <td style="${CELL}text-align:right;color:#6B7280">${fmtAUD(w.budget)}</td>
+    <td style="${CELL}text-align:right;color:${toneColour(variance)}">${fmtAUD(variance)}</td>
+  </tr>`;
+  });
+  return `<table width="100%" cellspacing="0" cellpadding="0">
+  <tr><th align="left" style="${HEAD}">Week Ending</th><th align="right" style="${HEAD}">Net Profit</th>
+    <th align="right" style="${HEAD}">Budget</th><th align="right" style="${HEAD}">Variance</th></tr>
+  ${rows.join('\n')}
+</table>`;
+}
+
+function renderRegions(summary: ExecutiveSummary): string {
+  const rows = summary.teamPerformance.map((t) => `<tr>
+    <td style="${CELL}">${escapeHtml(t.label)}</td>
+    <td style="${CELL}text-align:right">${fmtAUD(t.actual)}</td>
+    <td style="${CELL}text-align:right;color:#6B7280">${fmtAUD(t.target)}</td>
+    <td style="${CELL}text-align:right;font-weight:bold;color:${targetColour(t.percentageToTarget)}">${fmtPct(t.percentageToTarget)}</td>
+  </tr>`);
+  return `<table width="100%" cellspacing="0" cellpadding="0">
+  <tr><th align="left" style="${HEAD}">Team</th><th align="right" style="${HEAD}">Invoiced</th>
+    <th align="right" style="${HEAD}">Target</th><th align="right" style="${HEAD}">% of Target</th></tr>
+  ${rows.join('\n')}
+</table>`;
+}
+
+function renderAlerts(alerts: DigestAlert[]): string {
+  if (alerts.length === 0) return '<p style="margin:0;font-size:14px;color:#6AAF50">No active alerts this week.</p>';
+  return alerts.map((a) => `<div style="border-left:4px solid ${SEVERITY_COLOURS[a.severity]};background:#F9FAFB;padding:8px 12px;margin-bottom:8px">
+  <div style="font-size:14px;font-weight:bold;color:#1A1A2E">${escapeHtml(a.title)}</div>
+  <div style="font-size:13px;color:#6B7280;margin-top:2px">${escapeHtml(a.message)}</div>
+</div>`).join('\n');
+}
+
+function renderHtml(
+  summary: ExecutiveSummary,
+  alerts: DigestAlert[],
+  branding: SettingValue<'branding'>,
+): string {
+  const logo = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="" height="32" style="display:block;margin-bottom:8px">`
+    : '';
+  return `<!DOCTYPE html>
+<html><body style="margin:0;padding:16px;background:#F9FAFB;font-family:Arial,Helvetica,sans-serif">
+<table width="100%" cellspacing="0" cellpadding="0" style="max-width:640px;margin:0 auto;background:#FFFFFF;border-radius:12px;overflow:hidden">
+<tr><td style="padding:20px 24px;background:${branding.primaryColour};color:#FFFFFF">
+  ${logo}<div style="font-size:12px;text-transform:uppercase;opacity:0.85">${escapeHtml(branding.companyName)}</div>
+  <div style="font-size:20px;font-weight:bold;margin-top:4px">Weekly Executive Summary</div>
+  <div style="font-size:14px;margin-top:2px">Week ending ${fmtDate(summary.weekEnding)}</div>
+</td></tr>
+${section('Key Metrics', renderKpis(summary))}
+${section('Net Profit vs Budget', renderNetProfit(summary))}
+${section('Regional Performance', renderRegions(summary))}
+${section('Active Alerts', renderAlerts(alerts))}
+<tr><td style="padding:24px;font-size:12px;color:#6B7280">Sent by the ${escapeHtml(branding.companyName)} dashboard.</td></tr>
+</table>
+</body></html>`;
+}
+
+function renderText(summary: ExecutiveSummary, alerts: DigestAlert[], companyName: string): string {
+  const { kpis } = summary;
+  const lines = [
+    `${companyName} — Weekly Executive Summary`,
+    `Week ending ${fmtDate(summary.weekEnding)}`,
+    '',
+    `Net profit: ${fmtAUD(kpis.netProfit.actual)} (budget ${fmtAUD(kpis.netProfit.budget)}, variance ${fmtAUD(kpis.netProfit.variance)})`,
+    `Revenue invoiced: ${fmtAUD(kpis.revenueInvoiced.actual)}`,
+    `Gross profit margin: ${fmtPct(kpis.grossProfitMargin.actual)}`,
+    `Revenue to staff: ${fmtPct(kpis.revenueToStaffRatio.actual)}`,
+    `Total leads: ${kpis.totalLeads.actual}`,
+    `Cash available: ${fmtAUD(kpis.totalCashAvailable.actual)}`,
+    '',
+    'Regional performance:',
+    ...summary.teamPerformance.map((t) => `  ${t.label}: ${fmtAUD(t.actual)} of ${fmtAUD(t.target)} (${fmtPct(t.percentageToTarget)})`),
+    '',
+    'Active alerts:',
+    ...(alerts.length > 0 ? alerts.map((a) => `  [${a.severity}] ${a.title} — ${a.message}`) : ['  None']),
+  ];
+  return lines.join('\n');
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class DigestService {
+  static isConfigured(): boolean {
+    return getTransport() !== null;
+  }
+
+  /**
+   * Build the digest email for a week. Throws when the week has no data.
+   */
+  static async compose(weekEnding: Date): Promise<Omit<MailMessage, 'to'>> {
+    const [summary, alerts, branding] = await Promise.all([
+      DashboardService.getExecutiveSummary(weekEnding),
+      AlertService.list({ status: 'active', weekEnding }),
+      SettingsService.get('branding'),
+    ]);
+    if (!summary.hasData) throw new Error(`No data for week ending ${toDateKey(weekEnding)}`);
+
+    return {
+      subject: `${branding.companyName} weekly summary — w/e ${fmtDate(summary.weekEnding)}`,
+      html: renderHtml(summary, alerts, branding),
+      text: renderText(summary, alerts, branding.companyName),
+    };
+  }
+
+  /**
+   * Required data types (per the digest setting) that aren't fully imported
+   * for the week.
+   */
+  static async getMissingDataTypes(weekEnding: Date, required?: string[]) {
+    const ids = required ?? (await SettingsService.get('digest')).requiredDataTypes;
+    const week = await CompletenessService.getWeek(weekEnding, ids);
+    return week.dataTypes
+      .filter((c) => c.status !== 'complete')
+      .map((c) => ({ id: c.dataTypeId, name: DataTypeRegistry.getById(c.dataTypeId)!.name }));
+  }
+
+  /**
+   * Readiness of the digest for a week: transport, recipients, missing data
+   * and the most recent delivery.
+   */
+  static async getStatus(weekEnding: Date) {
+    const settings = await SettingsService.get('digest');
+    const [missingDataTypes, lastDelivery] = await Promise.all([
+      this.getMissingDataTypes(weekEnding, settings.requiredDataTypes),
+      prisma.digestDelivery.findFirst({ where: { weekEnding }, orderBy: { sentAt: 'desc' } }),
+    ]);
+
+    return {
+      weekEnding: toDateKey(weekEnding),
+      transport: getTransport()?.name ?? null,
+      enabled: settings.enabled,
+      recipientCount: settings.recipients.length,
+      missingDataTypes,
+      lastDelivery,
+    };
+  }
+
+  /**
+   * Compose and send the digest, recording the attempt. Throws when email or
+   * recipients aren't configured; a failed send is recorded and rethrown.
+   */
+  static async send(weekEnding: Date, trigger: DigestTrigger, sentBy?: string) {
+    const mail = getTransport();
+    if (!mail) throw new Error('Email is not configured. Set SMTP_HOST, or MAIL_TRANSPORT=file.');
+
+    const { recipients } = await SettingsService.get('digest');
+    if (recipients.length === 0) throw new Error('No digest recipients configured');
+
+    const message = await this.compose(weekEnding);
+    const base = { weekEnding, trigger, recipients, transport: mail.name, subject: message.subject, sentBy };
+
+    try {
+      const { messageId } = await mail.send({ ...message, to: recipients });
+      return prisma.digestDelivery.create({ data: { ...base, status: 'sent', messageId } });
+    } catch (err) {
+      await prisma.digestDelivery.create({ data: { ...base, status: 'failed', error: (err as Error).message } });
+      throw new Error(`Digest delivery failed: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Send the digest for each week that now has every required data type and
+   * hasn't already been sent. Called after imports and Xero syncs; does
+   * nothing while the digest is disabled or email isn't configured.
+   */
+  static async sendIfReady(weeks: Date[]) {
+    const settings = await SettingsService.get('digest');
+    if (!settings.enabled || settings.recipients.length === 0 || !getTransport()) return [];
+
+    const sent = [];
+    for (const time of [...new Set(weeks.map((w) => w.getTime()))]) {
+      const weekEnding = new Date(time);
+      const missing = await this.getMissingDataTypes(weekEnding, settings.requiredDataTypes);
+      if (missing.length > 0) continue;
+
+      const delivered = await prisma.digestDelivery.findFirst({ where: { weekEnding, status: 'sent' } });
+      if (delivered) continue;
+
+      sent.push(await this.send(weekEnding, 'auto'));
+    }
+    return sent;
+  }
+
+  /**
+   * Recent deliveries, newest first.
+   */
+  static async getDeliveries(limit = 20) {
+    return prisma.digestDelivery.findMany({ orderBy: { sentAt: 'desc' }, take: limit });
+  }
+}
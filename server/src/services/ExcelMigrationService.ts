@@ -0,0 +1,275 @@
+import prisma from '../db.js';
+import { validateRows, unpivotWeeks, PIVOT_WEEK_HEADER, type ParseResult } from './CsvParserService.js';
+import { parseXlsx } from './XlsxParserService.js';
+import { DataTypeRegistry } from './DataTypeRegistry.js';
+import { TABLE_UNIQUE_KEYS, toPrismaModel } from './ImportService.js';
+import { toDateKey } from './WeekService.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Where one data type's values sit in a sheet. Either a fixed set of metric
+ * labels (`fields`, label → dbField) giving one record per week, or
+ * `eachLabel`, where every label not claimed by another target is its own
+ * entity (e.g. one row per staff member).
+ */
+export type TargetMapping =
+  | {
+    dataTypeId: string;
+    /** Extra values for every record, e.g. { region: 'cairns' } */
+    fixed?: Record<string, string>;
+    fields: Record<string, string>;
+  }
+  | {
+    dataTypeId: string;
+    fixed?: Record<string, string>;
+    eachLabel: { field: string; value: string; exclude?: string[] };
+  };
+
+export interface SheetMapping {
+  sheet: string;
+  /** 1-based row holding the week-ending dates */
+  headerRow: number;
+  /** Column holding the metric labels; defaults to the first non-date column */
+  labelColumn?: string;
+  targets: TargetMapping[];
+}
+
+/** A known figure the migrated data must reproduce. Matching rows are summed. */
+export interface Checkpoint {
+  label: string;
+  table: string;
+  weekEnding: string;
+  where?: Record<string, string>;
+  field: string;
+  expected: number;
+  /** Allowed difference; defaults to one cent */
+  tolerance?: number;
+}
+
+export interface MigrationConfig {
+  sheets: SheetMapping[];
+  /** Sheets deliberately not migrated, with the reason */
+  skipSheets: Record<string, string>;
+  checkpoints: Checkpoint[];
+}
+
+export interface SheetReport {
+  sheet: string;
+  status: 'migrated' | 'skipped' | 'failed';
+  reason?: string;
+  weeks: number;
+  recordsWritten: number;
+  /** Formula error cells (#REF!, #DIV/0!) that were written as null */
+  errorCells: string[];
+  /** Labels in the sheet that no target uses */
+  unmappedLabels: string[];
+  /** Labels the mapping expects but the sheet doesn't have */
+  missingLabels: string[];
+  /** Records that failed validation or could not be written */
+  rowErrors: { dataTypeId: string; entity: string; weekEnding: string; messages: string[] }[];
+}
+
+export interface CheckpointResult extends Checkpoint {
+  actual: number | null;
+  status: 'ok' | 'mismatch' | 'missing';
+}
+
+export interface MigrationReport {
+  startedAt: string;
+  finishedAt: string;
+  sheets: SheetReport[];
+  /** Sheets in the workbook that are neither mapped nor skipped */
+  unconfiguredSheets: string[];
+  /** Records written per table per week ending */
+  tables: Record<string, Record<string, number>>;
+  checkpoints: CheckpointResult[];
+  ok: boolean;
+}
+
+/** One record per week for a data type, from a set of metric labels */
+interface RecordSpec {
+  dataTypeId: string;
+  fixed: Record<string, string>;
+  fields: Record<string, string>;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Expand a sheet's targets into record specs. `eachLabel` targets pick up
+ * whatever labels the explicit `fields` targets leave over.
+ */
+function expandTargets(targets: TargetMapping[], labels: string[]): RecordSpec[] {
+  const specs: RecordSpec[] = [];
+  const claimed = new Set<string>();
+
+  for (const target of targets) {
+    if ('fields' in target) {
+      specs.push({ dataTypeId: target.dataTypeId, fixed: target.fixed ?? {}, fields: target.fields });
+      Object.keys(target.fields).forEach((label) => claimed.add(label));
+    }
+  }
+
+  for (const target of targets) {
+    if (!('eachLabel' in target)) continue;
+    const { field, value, exclude = [] } = target.eachLabel;
+    for (const label of labels) {
+      if (claimed.has(label) || exclude.includes(label)) continue;
+      specs.push({ dataTypeId: target.dataTypeId, fixed: { ...target.fixed, [field]: label }, fields: { [label]: value } });
+      claimed.add(label);
+    }
+  }
+  return specs;
+}
+
+/**
+ * Insert or update one record by the table's unique key. Migrated rows are
+ * marked as backfilled and detached from any upload.
+ */
+async function writeRecord(table: string, data: Record<string, any>): Promise<void> {
+  const model = (prisma as any)[toPrismaModel(table)];
+  const keys = TABLE_UNIQUE_KEYS[table];
+  if (!model || !keys) throw new Error(`Unknown table: ${table}`);
+
+  const where = Object.fromEntries(keys.map((k) => [k, data[k]]));
+  const existing = await model.findFirst({ where });
+  const values = { ...data, dataSource: 'backfilled', uploadId: null };
+
+  if (existing) {
+    await model.update({ where: { id: existing.id }, data: values });
+  } else {
+    await model.create({ data: values });
+  }
+}
+
+export class ExcelMigrationService {
+  /**
+   * Migrate a workbook into the weekly tables. Safe to re-run: records are
+   * matched on each table's unique key and updated in place.
+   */
+  static async run(buffer: Buffer, config: MigrationConfig): Promise<MigrationReport> {
+    const startedAt = new Date().toISOString();
+    const { workbook } = await parseXlsx(buffer);
+    const sheetNames = workbook?.sheets ?? [];
+
+    const tables: MigrationReport['tables'] = {};
+    const sheets: SheetReport[] = [];
+
+    for (const mapping of config.sheets) {
+      const report: SheetReport = {
+        sheet: mapping.sheet,
+        status: 'migrated',
+        weeks: 0,
+        recordsWritten: 0,
+        errorCells: [],
+        unmappedLabels: [],
+        missingLabels: [],
+        rowErrors: [],
+      };
+      sheets.push(report);
+
+      let table: ParseResult;
+      try {
+        const parsed = await parseXlsx(buffer, { sheet: mapping.sheet, headerRow: mapping.headerRow });
+        report.errorCells = parsed.warnings ?? [];
+        table = unpivotWeeks(parsed, mapping.labelColumn);
+      } catch (err: any) {
+        report.status = 'failed';
+        report.reason = err.message;
+        continue;
+      }
+
+      report.weeks = table.rows.length;
+      const labels = table.headers.filter((h) => h !== PIVOT_WEEK_HEADER);
+      const specs = expandTargets(mapping.targets, labels);
+      const used = new Set<string>();
+
+      for (const spec of specs) {
+        const dt = DataTypeRegistry.getById(spec.dataTypeId);
+        if (!dt) throw new Error(`Unknown data type in migration config: ${spec.dataTypeId}`);
+        const entity = Object.values(spec.fixed).join(' / ');
+
+        const present = Object.fromEntries(Object.entries(spec.fields).filter(([label]) => labels.includes(label)));
+        for (const label of Object.keys(spec.fields)) {
+          if (!(label in present) && !report.missingLabels.includes(label)) report.missingLabels.push(label);
+        }
+        if (Object.keys(present).length === 0) continue;
+        Object.keys(present).forEach((label) => used.add(label));
+
+        // Weeks where none of this target's cells are filled (e.g. sparse Week 27) aren't records
+        const rows = table.rows.filter((r) => Object.keys(present).some((label) => r[label] !== ''));
+        const fieldMappings = DataTypeRegistry.buildFieldMappings(dt.id, { [PIVOT_WEEK_HEADER]: 'weekEnding', ...present });
+        const validation = validateRows(rows, fieldMappings, 'weekEnding');
+
+        for (const row of validation.rows) {
+          const weekEnding = row.original[PIVOT_WEEK_HEADER];
+          if (row.status === 'error') {
+            report.rowErrors.push({ dataTypeId: dt.id, entity, weekEnding, messages: row.messages });
+            continue;
+          }
+
+          try {
+            await writeRecord(dt.targetTable, { ...row.data, ...dt.fixedFields, ...spec.fixed });
+          } catch (err: any) {
+            report.rowErrors.push({ dataTypeId: dt.id, entity, weekEnding, messages: [err.message] });
+            continue;
+          }
+          report.recordsWritten++;
+          const week = toDateKey(row.data.weekEnding);
+          const counts = (tables[dt.targetTable] ??= {});
+          counts[week] = (counts[week] ?? 0) + 1;
+        }
+      }
+
+      report.unmappedLabels = labels.filter((label) => !used.has(label));
+    }
+
+    for (const [sheet, reason] of Object.entries(config.skipSheets)) {
+      sheets.push({
+        sheet, status: 'skipped', reason, weeks: 0, recordsWritten: 0,
+        errorCells: [], unmappedLabels: [], missingLabels: [], rowErrors: [],
+      });
+    }
+
+    const configured = new Set([...config.sheets.map((s) => s.sheet), ...Object.keys(config.skipSheets)]);
+    const checkpoints = await this.checkCheckpoints(config.checkpoints);
+
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      sheets,
+      unconfiguredSheets: sheetNames.filter((name) => !configured.has(name)),
+      tables,
+      checkpoints,
+      ok: checkpoints.every((c) => c.status === 'ok'),
+    };
+  }
+
+  /**
+   * Compare stored values against the known figures.
+   */
+  static async checkCheckpoints(checkpoints: Checkpoint[]): Promise<CheckpointResult[]> {
+    const results: CheckpointResult[] = [];
+    for (const checkpoint of checkpoints) {
+      const model = (prisma as any)[toPrismaModel(checkpoint.table)];
+      const rows: Record<string, any>[] = await model.findMany({
+        where: { weekEnding: new Date(checkpoint.weekEnding), ...checkpoint.where },
+      });
+
+      if (rows.length === 0 || rows.every((r) => r[checkpoint.field] == null)) {
+        results.push({ ...checkpoint, actual: null, status: 'missing' });
+        continue;
+      }
+
+      const actual = Number(rows.reduce((sum, r) => sum + Number(r[checkpoint.field] ?? 0), 0).toFixed(2));
+      const tolerance = checkpoint.tolerance ?? 0.01;
+      results.push({
+        ...checkpoint,
+        actual,
+        status: Math.abs(actual - checkpoint.expected) <= tolerance ? 'ok' : 'mismatch',
+      });
+    }
+    return results;
+  }
+}
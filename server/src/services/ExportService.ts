@@ -0,0 +1,628 @@
+import {
+  DashboardService,
+  ALL_REGIONS,
+  REGION_LABELS,
+  REVENUE_CATEGORY_LABELS,
+  LEAD_SOURCE_LABELS,
+} from './DashboardService.js';
+import type { DashboardPage, Region, StaffRole } from '../generated/prisma/index.js';
+
+export type ExportFormat = 'text' | 'date' | 'month' | 'currency' | 'percent' | 'number';
+
+type ExportRow = Record<string, unknown>;
+
+export interface ExportColumn {
+  header: string;
+  key: string;
+  /** Fixed format, or a per-row resolver for long-form tables that mix units */
+  format: ExportFormat | ((row: ExportRow) => ExportFormat);
+}
+
+export interface ExportParams {
+  weekEnding: Date;
+  weeks: number;
+  region?: Region;
+  role?: StaffRole;
+  staffName?: string;
+}
+
+export interface ExportSection {
+  id: string;
+  title: string;
+  /** Page whose read permission is required to download the section */
+  page: DashboardPage;
+  columns: ExportColumn[];
+  rows: (params: ExportParams) => Promise<ExportRow[]>;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  retrospective: 'Retrospective',
+};
+
+const col = (header: string, key: string, format: ExportColumn['format'] = 'number'): ExportColumn => ({ header, key, format });
+const rowFormat = (row: ExportRow) => row.format as ExportFormat;
+const weekCol = col('Week Ending', 'weekEnding', 'date');
+
+// ─── Section registry ─────────────────────────────────────────────────────────
+// Each section flattens part of a DashboardService payload, so the CSV always
+// matches the card it was downloaded from.
+
+const SECTIONS: ExportSection[] = [
+  // ── Executive Summary ──
+  {
+    id: 'executive-kpis',
+    title: 'Executive Summary KPIs',
+    page: 'executive_summary',
+    columns: [
+      col('Metric', 'metric', 'text'),
+      col('Actual', 'actual', rowFormat),
+      col('Budget', 'budget', rowFormat),
+      col('Variance', 'variance', rowFormat),
+      col('Variance %', 'variancePct', 'percent'),
+    ],
+    rows: async ({ weekEnding }) => {
+      const { kpis } = await DashboardService.getExecutiveSummary(weekEnding);
+      return [
+        { metric: 'Net Profit', format: 'currency', ...kpis.netProfit },
+        { metric: 'Revenue (Invoiced)', format: 'currency', actual: kpis.revenueInvoiced.actual },
+        { metric: 'Revenue (P&L)', format: 'currency', actual: kpis.revenuePL.actual, variance: kpis.revenuePL.varianceToInvoiced },
+        { metric: 'Gross Profit Margin', format: 'percent', actual: kpis.grossProfitMargin.actual },
+        { metric: 'Revenue to Staff Ratio', format: 'percent', actual: kpis.revenueToStaffRatio.actual },
+        { metric: 'Total Leads', format: 'number', actual: kpis.totalLeads.actual },
+        { metric: 'Average Cost per Lead', format: 'currency', actual: kpis.totalLeads.avgCostPerLead },
+        { metric: 'Total Cash Available', format: 'currency', actual: kpis.totalCashAvailable.actual },
+      ];
+    },
+  },
+  {
+    id: 'net-profit-trend',
+    title: 'Net Profit Trend',
+    page: 'executive_summary',
+    columns: [
+      weekCol,
+      col('Net Profit', 'netProfit', 'currency'),
+      col('Budget', 'budget', 'currency'),
+      col('Total Trading Income', 'totalTradingIncome', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).trends.netProfit,
+  },
+  {
+    id: 'revenue-by-category-trend',
+    title: 'Revenue by Category',
+    page: 'executive_summary',
+    columns: [
+      weekCol,
+      col('Residential', 'residential', 'currency'),
+      col('Commercial', 'commercial', 'currency'),
+      col('Retrospective', 'retrospective', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).trends.revenueByCategory,
+  },
+  {
+    id: 'team-performance',
+    title: 'Regional Team Performance',
+    page: 'executive_summary',
+    columns: [
+      col('Team', 'label', 'text'),
+      col('Actual', 'actual', 'currency'),
+      col('Target', 'target', 'currency'),
+      col('% to Target', 'percentageToTarget', 'percent'),
+      col('Variance', 'variance', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).teamPerformance,
+  },
+  {
+    id: 'project-summary',
+    title: 'Project Summary',
+    page: 'executive_summary',
+    columns: [
+      col('Type', 'label', 'text'),
+      col('Hyperflo Count', 'hyperfloCount'),
+      col('Xero Invoiced', 'xeroInvoiced', 'currency'),
+      col('Target', 'target', 'currency'),
+      col('% to Target', 'percentageToTarget', 'percent'),
+      col('New Business %', 'newBusinessPercentage', 'percent'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).projectSummary
+      .map(p => ({ ...p, label: TYPE_LABELS[p.type] ?? p.type })),
+  },
+  {
+    id: 'sales-summary',
+    title: 'Sales Pipeline Summary',
+    page: 'executive_summary',
+    columns: [
+      col('Type', 'label', 'text'),
+      col('Quotes Issued', 'issuedCount'),
+      col('Issued Value', 'issuedValue', 'currency'),
+      col('Quotes Won', 'wonCount'),
+      col('Won Value', 'wonValue', 'currency'),
+      col('Win Rate', 'winRate', 'percent'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).salesSummary
+      .map(s => ({ ...s, label: TYPE_LABELS[s.type] ?? s.type })),
+  },
+  {
+    id: 'lead-sources',
+    title: 'Lead Sources',
+    page: 'executive_summary',
+    columns: [
+      col('Source', 'label', 'text'),
+      col('Leads', 'leadCount'),
+      col('Cost per Lead', 'costPerLead', 'currency'),
+      col('Total Cost', 'totalCost', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getExecutiveSummary(weekEnding)).leadBreakdown
+      .map(l => ({ ...l, label: LEAD_SOURCE_LABELS[l.source] ?? l.source })),
+  },
+  {
+    id: 'google-reviews',
+    title: 'Google Reviews',
+    page: 'executive_summary',
+    columns: [
+      col('Reviews This Week', 'reviewCount'),
+      col('Average Rating', 'averageRating'),
+      col('Cumulative Reviews', 'cumulativeCount'),
+      col('Cumulative Average Rating', 'cumulativeAverageRating'),
+    ],
+    rows: async ({ weekEnding }) => {
+      const { reviews } = await DashboardService.getExecutiveSummary(weekEnding);
+      return reviews ? [reviews] : [];
+    },
+  },
+
+  // ── Financial Deep Dive ──
+  {
+    id: 'pl-weekly',
+    title: 'Profit & Loss (Weekly)',
+    page: 'financial_deep_dive',
+    columns: [col('Line Item', 'item', 'text'), col('Amount', 'amount', rowFormat)],
+    rows: async ({ weekEnding }) => {
+      const { plWeekly: pl } = await DashboardService.getFinancialDeepDive(weekEnding);
+      if (!pl) return [];
+      return [
+        { item: 'Total Trading Income', amount: pl.totalTradingIncome, format: 'currency' },
+        { item: 'Cost of Sales', amount: pl.totalCostOfSales, format: 'currency' },
+        { item: 'Gross Profit', amount: pl.grossProfit, format: 'currency' },
+        { item: 'Other Income', amount: pl.otherIncome, format: 'currency' },
+        { item: 'Operating Expenses', amount: pl.operatingExpenses, format: 'currency' },
+        { item: 'Wages & Salaries', amount: pl.wagesAndSalaries, format: 'currency' },
+        { item: 'Net Profit', amount: pl.netProfit, format: 'currency' },
+        { item: 'Budget', amount: pl.budget, format: 'currency' },
+        { item: 'Profit %', amount: pl.profitPercentage, format: 'percent' },
+        { item: 'Revenue to Staff Ratio', amount: pl.revenueToStaffRatio, format: 'percent' },
+        { item: 'Gross Profit Margin', amount: pl.grossProfitMargin, format: 'percent' },
+      ];
+    },
+  },
+  {
+    id: 'pl-monthly',
+    title: 'Profit & Loss (Monthly)',
+    page: 'financial_deep_dive',
+    columns: [
+      col('Month', 'month', 'month'),
+      col('Weeks', 'weekCount'),
+      col('Total Trading Income', 'totalTradingIncome', 'currency'),
+      col('Cost of Sales', 'totalCostOfSales', 'currency'),
+      col('Gross Profit', 'grossProfit', 'currency'),
+      col('Other Income', 'otherIncome', 'currency'),
+      col('Operating Expenses', 'operatingExpenses', 'currency'),
+      col('Wages & Salaries', 'wagesAndSalaries', 'currency'),
+      col('Net Profit', 'netProfit', 'currency'),
+      col('Budget', 'budget', 'currency'),
+      col('Profit %', 'profitPercentage', 'percent'),
+      col('Revenue to Staff Ratio', 'revenueToStaffRatio', 'percent'),
+      col('Gross Profit Margin', 'grossProfitMargin', 'percent'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getFinancialDeepDive(weekEnding)).plMonthly,
+  },
+  {
+    id: 'revenue-comparison',
+    title: 'Revenue Comparison',
+    page: 'financial_deep_dive',
+    columns: [
+      col('Revenue (Invoiced)', 'invoiced', 'currency'),
+      col('Revenue (P&L)', 'pl', 'currency'),
+      col('Variance', 'variance', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => [(await DashboardService.getFinancialDeepDive(weekEnding)).revenueComparison],
+  },
+  {
+    id: 'revenue-breakdown',
+    title: 'Revenue by Income Category',
+    page: 'financial_deep_dive',
+    columns: [
+      col('Category', 'label', 'text'),
+      col('Amount', 'amount', 'currency'),
+      col('Pass-Through', 'passThrough', 'text'),
+    ],
+    rows: async ({ weekEnding }) => {
+      const { revenueBreakdown } = await DashboardService.getFinancialDeepDive(weekEnding);
+      return [
+        ...revenueBreakdown.categories.map(c => ({ ...c, passThrough: c.isPassThrough ? 'Yes' : 'No' })),
+        { label: 'Gross Revenue', amount: revenueBreakdown.grossTotal },
+        { label: 'Pass-Through Total', amount: revenueBreakdown.passThroughTotal },
+        { label: 'Net Revenue', amount: revenueBreakdown.netTotal },
+      ];
+    },
+  },
+  {
+    id: 'revenue-trend',
+    title: 'Revenue Breakdown Trend',
+    page: 'financial_deep_dive',
+    columns: [
+      weekCol,
+      ...Object.entries(REVENUE_CATEGORY_LABELS).map(([key, label]) => col(label, key, 'currency')),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getFinancialDeepDive(weekEnding)).revenueTrend,
+  },
+  {
+    id: 'cost-analysis',
+    title: 'Cost Analysis',
+    page: 'financial_deep_dive',
+    columns: [
+      weekCol,
+      col('Wages & Salaries', 'wagesAndSalaries', 'currency'),
+      col('Total Trading Income', 'totalTradingIncome', 'currency'),
+      col('Revenue to Staff Ratio', 'revenueToStaffRatio', 'percent'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getFinancialDeepDive(weekEnding)).costAnalysisTrend,
+  },
+  {
+    id: 'cash-position',
+    title: 'Cash Position',
+    page: 'financial_deep_dive',
+    columns: [col('Account', 'account', 'text'), col('Balance', 'amount', 'currency')],
+    rows: async ({ weekEnding }) => {
+      const { cashPosition: cash } = await DashboardService.getFinancialDeepDive(weekEnding);
+      if (!cash) return [];
+      return [
+        { account: 'Everyday Account', amount: cash.everydayAccount },
+        { account: 'Overdraft Limit', amount: cash.overdraftLimit },
+        { account: 'Tax Savings', amount: cash.taxSavings },
+        { account: 'Capital Account', amount: cash.capitalAccount },
+        { account: 'Credit Cards', amount: cash.creditCards },
+        { account: 'Total Cash Available', amount: cash.totalCashAvailable },
+      ];
+    },
+  },
+  {
+    id: 'aged-receivables',
+    title: 'Aged Receivables',
+    page: 'financial_deep_dive',
+    columns: [col('Ageing', 'bucket', 'text'), col('Amount', 'amount', 'currency')],
+    rows: async ({ weekEnding }) => {
+      const { agedReceivables: ar } = await DashboardService.getFinancialDeepDive(weekEnding);
+      if (!ar) return [];
+      return [
+        { bucket: 'Current', amount: ar.current },
+        { bucket: '30+ Days', amount: ar.over30Days },
+        { bucket: '60+ Days', amount: ar.over60Days },
+        { bucket: '90+ Days', amount: ar.over90Days },
+        { bucket: 'Total Receivables', amount: ar.totalReceivables },
+        { bucket: 'Total Payables', amount: ar.totalPayables },
+      ];
+    },
+  },
+  {
+    id: 'upcoming-liabilities',
+    title: 'Upcoming Liabilities',
+    page: 'financial_deep_dive',
+    columns: [
+      col('Description', 'description', 'text'),
+      col('Type', 'type', 'text'),
+      col('Due Date', 'dueDate', 'date'),
+      col('Amount', 'amount', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getFinancialDeepDive(weekEnding)).upcomingLiabilities,
+  },
+
+  // ── Regional Performance ──
+  {
+    id: 'regional-comparison',
+    title: 'Regional Comparison',
+    page: 'regional_performance',
+    columns: [
+      col('Team', 'label', 'text'),
+      col('Actual', 'actual', 'currency'),
+      col('Target', 'target', 'currency'),
+      col('% to Target', 'percentageToTarget', 'percent'),
+      col('Variance', 'variance', 'currency'),
+    ],
+    rows: async ({ weekEnding }) => (await DashboardService.getRegionalPerformance(weekEnding)).teams,
+  },
+  {
+    id: 'regional-trend',
+    title: 'Regional Revenue Trend',
+    page: 'regional_performance',
+    columns: [weekCol, ...ALL_REGIONS.map(region => col(REGION_LABELS[region], region, 'currency'))],
+    rows: async ({ weekEnding }) => (await DashboardService.getRegionalPerformance(weekEnding)).trend,
+  },
+  {
+    id: 'regional-drilldown',
+    title: 'Regional Drill-Down',
+    page: 'regional_performance',
+    columns: [
+      col('Team', 'label', 'text'),
+      weekCol,
+      col('Actual', 'actual', 'currency'),
+      col('Target', 'target', 'currency'),
+      col('% to Target', 'pct', 'percent'),
+    ],
+    rows: async ({ weekEnding, region }) => {
+      const { drillDown } = await DashboardService.getRegionalPerformance(weekEnding);
+      return (region ? [region] : ALL_REGIONS).flatMap(r =>
+        (drillDown[r] ?? []).map(row => ({ label: REGION_LABELS[r], ...row })));
+    },
+  },
+
+  // ── Sales & Pipeline ──
+  {
+    id: 'sales-trend',
+    title: 'Quotes Issued vs Won',
+    page: 'sales_pipeline',
+    columns: [
+      weekCol,
+      col('Quotes Issued', 'issuedCount'),
+      col('Issued Value', 'issuedValue', 'currency'),
+      col('Quotes Won', 'wonCount'),
+      col('Won Value', 'wonValue', 'currency'),
+      col('Win Rate', 'winRate', 'percent'),
+      col('Value Win Rate', 'valueWinRate', 'percent'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getSalesPipeline(weekEnding, weeks)).trend,
+  },
+  {
+    id: 'sales-by-type',
+    title: 'Win Rate by Sales Type',
+    page: 'sales_pipeline',
+    columns: [
+      col('Sales Type', 'label', 'text'),
+      col('Quotes Issued', 'issuedCount'),
+      col('Issued Value', 'issuedValue', 'currency'),
+      col('Quotes Won', 'wonCount'),
+      col('Won Value', 'wonValue', 'currency'),
+      col('Win Rate', 'winRate', 'percent'),
+      col('Value Win Rate', 'valueWinRate', 'percent'),
+      col('Average Quote', 'avgQuoteValue', 'currency'),
+      col('Average Won', 'avgWonValue', 'currency'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getSalesPipeline(weekEnding, weeks)).byType
+      .map(t => ({ ...t, label: TYPE_LABELS[t.type] ?? t.type })),
+  },
+  {
+    id: 'sales-by-region',
+    title: 'Win Rate by Region',
+    page: 'sales_pipeline',
+    columns: [
+      col('Region', 'label', 'text'),
+      col('Quotes Issued', 'issuedCount'),
+      col('Issued Value', 'issuedValue', 'currency'),
+      col('Quotes Won', 'wonCount'),
+      col('Won Value', 'wonValue', 'currency'),
+      col('Win Rate', 'winRate', 'percent'),
+      col('Value Win Rate', 'valueWinRate', 'percent'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getSalesPipeline(weekEnding, weeks)).byRegion,
+  },
+  {
+    id: 'sales-heatmap',
+    title: 'Win Rate Heatmap',
+    page: 'sales_pipeline',
+    columns: [
+      col('Region', 'label', 'text'),
+      col('Sales Type', 'typeLabel', 'text'),
+      col('Quotes Issued', 'issuedCount'),
+      col('Quotes Won', 'wonCount'),
+      col('Win Rate', 'winRate', 'percent'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getSalesPipeline(weekEnding, weeks)).heatmap
+      .flatMap(r => r.cells.filter(c => c.hasData).map(c => ({ ...c, label: r.label, typeLabel: TYPE_LABELS[c.salesType] }))),
+  },
+
+  // ── Marketing & Leads ──
+  {
+    id: 'leads-by-source',
+    title: 'Cost per Lead by Source',
+    page: 'marketing_leads',
+    columns: [
+      col('Source', 'label', 'text'),
+      col('Leads', 'leadCount'),
+      col('Total Cost', 'totalCost', 'currency'),
+      col('Cost per Lead', 'costPerLead', 'currency'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).bySource,
+  },
+  {
+    id: 'cost-per-lead-trend',
+    title: 'Cost per Lead Trend',
+    page: 'marketing_leads',
+    columns: [
+      weekCol,
+      ...Object.entries(LEAD_SOURCE_LABELS).map(([key, label]) => col(label, key, 'currency')),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).costPerLeadTrend,
+  },
+  {
+    id: 'spend-vs-leads',
+    title: 'Spend vs Leads',
+    page: 'marketing_leads',
+    columns: [
+      weekCol,
+      col('Ad Spend', 'spend', 'currency'),
+      col('Leads', 'leads'),
+      col('Cost per Lead', 'costPerLead', 'currency'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).spendVsLeadsTrend,
+  },
+  {
+    id: 'attribution',
+    title: 'Spend vs Leads Attribution',
+    page: 'marketing_leads',
+    columns: [
+      col('Channel', 'label', 'text'),
+      col('Spend', 'spend', 'currency'),
+      col('Leads', 'leads'),
+      col('Cost per Lead', 'costPerLead', 'currency'),
+      col('Share of Spend', 'shareOfSpend', 'percent'),
+      col('Share of Leads', 'shareOfLeads', 'percent'),
+      col('Impressions', 'impressions'),
+      col('Clicks', 'clicks'),
+      col('CTR', 'ctr', 'percent'),
+      col('CPC', 'cpc', 'currency'),
+      col('Conversion Rate', 'conversionRate', 'percent'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).attribution,
+  },
+  {
+    id: 'platform-trend',
+    title: 'Ad Platform Performance',
+    page: 'marketing_leads',
+    columns: [
+      col('Platform', 'label', 'text'),
+      weekCol,
+      col('Impressions', 'impressions'),
+      col('Clicks', 'clicks'),
+      col('Cost', 'cost', 'currency'),
+      col('Conversions', 'conversions'),
+      col('CTR', 'ctr', 'percent'),
+      col('CPC', 'cpc', 'currency'),
+      col('Conversion Rate', 'conversionRate', 'percent'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).platformTrend
+      .flatMap(p => p.weeks.map(w => ({ label: p.label, ...w }))),
+  },
+  {
+    id: 'website-traffic',
+    title: 'Website Traffic',
+    page: 'marketing_leads',
+    columns: [
+      weekCol,
+      col('Sessions', 'sessions'),
+      col('Users', 'users'),
+      col('New Users', 'newUsers'),
+      col('Page Views', 'pageViews'),
+      col('Bounce Rate', 'bounceRate', 'percent'),
+      col('Avg Session Duration (s)', 'avgSessionDuration'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).websiteTrend,
+  },
+  {
+    id: 'reviews-trend',
+    title: 'Google Reviews Trend',
+    page: 'marketing_leads',
+    columns: [
+      weekCol,
+      col('Reviews', 'reviewCount'),
+      col('Average Rating', 'averageRating'),
+      col('Cumulative Reviews', 'cumulativeCount'),
+      col('Cumulative Average Rating', 'cumulativeAverageRating'),
+    ],
+    rows: async ({ weekEnding, weeks }) => (await DashboardService.getMarketingLeads(weekEnding, weeks)).reviewsTrend,
+  },
+
+  // ── Operations & Productivity ──
+  {
+    id: 'staff-leaderboard',
+    title: 'Staff Leaderboard',
+    page: 'operations_productivity',
+    columns: [
+      col('Staff', 'staffName', 'text'),
+      col('Role', 'roleLabel', 'text'),
+      col('Region', 'regionLabel', 'text'),
+      col('Jobs Completed', 'jobsCompleted'),
+      col('Inspections', 'inspectionsCompleted'),
+      col('Revenue Generated', 'revenueGenerated', 'currency'),
+      col('Inbound Calls', 'inboundCalls'),
+      col('Outbound Calls', 'outboundCalls'),
+      col('Missed Calls', 'missedCalls'),
+      col('Missed Call Rate', 'missedCallRate', 'percent'),
+      col('Avg Call Duration (s)', 'avgCallDuration'),
+      col('Revenue per Call', 'revenuePerCall', 'currency'),
+    ],
+    rows: async ({ weekEnding, weeks, role, region }) =>
+      (await DashboardService.getOperations(weekEnding, weeks, role, region)).leaderboard,
+  },
+  {
+    id: 'staff-trend',
+    title: 'Staff Weekly Trend',
+    page: 'operations_productivity',
+    columns: [
+      weekCol,
+      col('Jobs Completed', 'jobsCompleted'),
+      col('Inspections', 'inspectionsCompleted'),
+      col('Revenue Generated', 'revenueGenerated', 'currency'),
+      col('Total Calls', 'totalCalls'),
+      col('Missed Calls', 'missedCalls'),
+      col('Missed Call Rate', 'missedCallRate', 'percent'),
+      col('Avg Call Duration (s)', 'avgCallDuration'),
+    ],
+    rows: async ({ weekEnding, weeks, staffName }) => {
+      if (!staffName) throw new Error('staffName is required for the staff-trend export');
+      return (await DashboardService.getStaffTrend(staffName, weekEnding, weeks)).trend;
+    },
+  },
+];
+
+const SECTIONS_BY_ID = new Map(SECTIONS.map(s => [s.id, s]));
+
+// ─── Formatting ───────────────────────────────────────────────────────────────
+
+function formatCell(value: unknown, format: ExportFormat): string {
+  if (value == null || value === '') return '';
+
+  switch (format) {
+    case 'date': {
+      // YYYY-MM-DD → DD/MM/YYYY
+      const [y, m, d] = String(value).split('T')[0].split('-');
+      return `${d}/${m}/${y}`;
+    }
+    case 'month': {
+      // YYYY-MM → MM/YYYY
+      const [y, m] = String(value).split('-');
+      return `${m}/${y}`;
+    }
+    case 'currency':
+      return Number(value).toLocaleString('en-AU', { style: 'currency', currency: 'AUD' });
+    case 'percent':
+      return `${Number(value).toFixed(1)}%`;
+    case 'number':
+      return String(Number(value));
+    default: {
+      // Neutralise spreadsheet formula injection in free-text fields
+      const text = String(value);
+      return /^[=+\-@]/.test(text) ? `'${text}` : text;
+    }
+  }
+}
+
+function escapeCsv(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export class ExportService {
+  static getSection(id: string): ExportSection | undefined {
+    return SECTIONS_BY_ID.get(id);
+  }
+
+  /**
+   * Yields the CSV for a section one line at a time: a header row, then one
+   * line per data row with AU-formatted dates and currency.
+   */
+  static async *toCsv(section: ExportSection, params: ExportParams): AsyncGenerator<string> {
+    const rows = await section.rows(params);
+
+    yield section.columns.map(c => escapeCsv(c.header)).join(',') + '\r\n';
+    for (const row of rows) {
+      yield section.columns.map(c => {
+        const format = typeof c.format === 'function' ? c.format(row) : c.format;
+        return escapeCsv(formatCell(row[c.key], format));
+      }).join(',') + '\r\n';
+    }
+  }
+
+  static filename(section: ExportSection, params: ExportParams): string {
+    return `${section.id}-${params.weekEnding.toISOString().split('T')[0]}.csv`;
+  }
+}
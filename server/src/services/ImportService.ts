@@ -1,6 +1,6 @@
 import prisma from '../db.js';
 import type { RowValidation } from './CsvParserService.js';
-import type { DataTypeDefinition } from './DataTypeRegistry.js';
+import { DataTypeRegistry, type DataTypeDefinition } from './DataTypeRegistry.js';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -13,17 +13,48 @@ export interface ImportRequest {
   rows: RowValidation[];
   duplicateStrategy: DuplicateStrategy;
   uploadedBy?: string;
+  fileHash?: string;
+  /** Run the matching and writes in a transaction that is rolled back, reporting what would change */
+  dryRun?: boolean;
 }
 
 export interface ImportResult {
-  uploadId: number;
-  status: 'completed' | 'failed';
+  /** Null for a dry run, which creates no upload record */
+  uploadId: number | null;
+  status: 'completed' | 'failed' | 'dry_run';
   rowsProcessed: number;
   rowsFailed: number;
   rowsSkipped: number;
   rowsInserted: number;
   rowsUpdated: number;
   errors: RowError[];
+  /** Dry runs only: one entry per record the import would write or skip */
+  diffs?: RecordDiff[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  /** to − from, when both are numbers */
+  change: number | null;
+  /** Change relative to the old value; null when it was zero or not a number */
+  changePercent: number | null;
+  /** A swing of LARGE_CHANGE_PERCENT or more, or an existing value being cleared */
+  large: boolean;
+}
+
+export interface RecordDiff {
+  rowIndex: number;
+  table: string;
+  action: 'insert' | 'update' | 'skip';
+  /** The record's unique key values, e.g. weekEnding + region */
+  key: Record<string, unknown>;
+  /** The stored record, including its dataSource; null for inserts */
+  existing: Record<string, unknown> | null;
+  incoming: Record<string, unknown>;
+  /** Fields whose value would change; empty for skips and unchanged updates */
+  changes: FieldChange[];
 }
 
 interface RowError {
@@ -32,21 +63,30 @@ interface RowError {
   original?: Record<string, string>;
 }
 
-interface RollbackData {
+interface TableRollback {
   targetTable: string;
   insertedIds: number[];
   overwritten: OverwrittenRecord[];
 }
 
+/** One entry per table written; uploads from before composite types stored a single table inline */
+type RollbackData = { tables: TableRollback[] } | TableRollback;
+
 interface OverwrittenRecord {
   id: number;
   previousData: Record<string, any>;
 }
 
+/** Swings at or above this percentage are flagged in the dry-run diff */
+export const LARGE_CHANGE_PERCENT = 25;
+
+/** Thrown at the end of a dry run to roll its transaction back */
+class DryRunRollback extends Error {}
+
 // ─── Table Configuration ──────────────────────────────────────────────────────
 
 /** Unique key fields for each table (used to detect existing records). */
-const TABLE_UNIQUE_KEYS: Record<string, string[]> = {
+export const TABLE_UNIQUE_KEYS: Record<string, string[]> = {
   financial_weekly: ['weekEnding'],
   revenue_weekly: ['weekEnding', 'category'],
   projects_weekly: ['weekEnding', 'projectType'],
@@ -63,7 +103,7 @@ const TABLE_UNIQUE_KEYS: Record<string, string[]> = {
 };
 
 /** Convert snake_case table name to camelCase Prisma model accessor. */
-function toPrismaModel(tableName: string): string {
+export function toPrismaModel(tableName: string): string {
   return tableName.replace(/_([a-z])/g, (_, c) => c.toUpperCase());
 }
 
@@ -85,6 +125,57 @@ function buildUniqueWhere(tableName: string, data: Record<string, any>): Record<
   return where;
 }
 
+/**
+ * A record's unique key as comparable strings (week ending as YYYY-MM-DD).
+ * Null for unknown tables and when one of the key fields is missing.
+ */
+export function uniqueKey(tableName: string, data: Record<string, any>): Record<string, string> | null {
+  const fields = TABLE_UNIQUE_KEYS[tableName];
+  if (!fields) return null;
+
+  const key: Record<string, string> = {};
+  for (const field of fields) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') return null;
+    key[field] = field === 'weekEnding' ? new Date(value).toISOString().split('T')[0] : String(value);
+  }
+  return key;
+}
+
+export function keyString(key: Record<string, string>): string {
+  return Object.values(key).join('|');
+}
+
+/** Which of the given keys already have a record in the table. */
+export async function findExistingKeys(tableName: string, keys: Record<string, string>[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+  const fields = TABLE_UNIQUE_KEYS[tableName];
+  const weeks = [...new Set(keys.map((k) => k.weekEnding))].map((w) => new Date(w));
+
+  const existing: Record<string, any>[] = await (prisma as any)[toPrismaModel(tableName)].findMany({
+    where: { weekEnding: { in: weeks } },
+    select: Object.fromEntries(fields.map((f) => [f, true])),
+  });
+  return new Set(existing.map((r) => keyString(uniqueKey(tableName, r)!)));
+}
+
+/**
+ * The records a validated row writes, with the data type whose fields
+ * describe each. Composite rows carry one per target data type; other rows
+ * go to the upload's own table.
+ */
+export function rowRecords(
+  dataType: DataTypeDefinition,
+  row: RowValidation,
+): { table: string; dataType: DataTypeDefinition; data: Record<string, any> }[] {
+  if (!row.targets) return [{ table: dataType.targetTable, dataType, data: row.data }];
+  return row.targets.map((t) => {
+    const target = DataTypeRegistry.getById(t.dataTypeId);
+    if (!target) throw new Error(`Unknown data type: ${t.dataTypeId}`);
+    return { table: target.targetTable, dataType: target, data: t.data };
+  });
+}
+
 /**
  * Strip Prisma-managed fields from data before insert/update.
  */
@@ -93,43 +184,94 @@ function stripManagedFields(data: Record<string, any>): Record<string, any> {
   return rest;
 }
 
+/** Normalise a stored or incoming value so the two compare equal when unchanged */
+function comparable(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') return value.toNumber();
+  return value;
+}
+
+/**
+ * Fields an update would change on an existing record. Key fields and the
+ * bookkeeping columns written on every import are left out.
+ */
+function diffFields(tableName: string, existing: Record<string, any>, update: Record<string, any>): FieldChange[] {
+  const keys = TABLE_UNIQUE_KEYS[tableName];
+  const changes: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(update)) {
+    if (keys.includes(field) || field === 'dataSource' || field === 'uploadId') continue;
+    const from = comparable(existing[field]);
+    const to = comparable(value);
+    if (from === to) continue;
+
+    let change: number | null = null;
+    let changePercent: number | null = null;
+    if (typeof from === 'number' && typeof to === 'number') {
+      change = Number((to - from).toFixed(2));
+      if (from !== 0) changePercent = Number(((change / Math.abs(from)) * 100).toFixed(1));
+    }
+
+    const cleared = from !== null && to === null;
+    changes.push({
+      field,
+      from,
+      to,
+      change,
+      changePercent,
+      large: cleared || (changePercent !== null && Math.abs(changePercent) >= LARGE_CHANGE_PERCENT),
+    });
+  }
+  return changes;
+}
+
 // ─── Import Engine ────────────────────────────────────────────────────────────
 
 export async function importRows(request: ImportRequest): Promise<ImportResult> {
-  const { dataType, fileName, mappingId, rows, duplicateStrategy, uploadedBy } = request;
-  const tableName = dataType.targetTable;
-  const modelName = toPrismaModel(tableName);
-  const model = (prisma as any)[modelName];
-
-  if (!model) throw new Error(`Prisma model not found for table: ${tableName}`);
-  if (!TABLE_UNIQUE_KEYS[tableName]) throw new Error(`No unique key config for table: ${tableName}`);
+  const { dataType, fileName, mappingId, rows, duplicateStrategy, uploadedBy, fileHash, dryRun } = request;
 
   // Separate processable rows from failed rows
   const processable = rows.filter((r) => r.status !== 'error');
   const failed = rows.filter((r) => r.status === 'error');
 
+  if (dataType.composite && processable.some((r) => !r.targets)) {
+    throw new Error(`Rows for "${dataType.name}" must be routed to their data types before import`);
+  }
+
+  const tableNames = new Set(processable.flatMap((r) => rowRecords(dataType, r).map((rec) => rec.table)));
+  if (!dataType.composite) tableNames.add(dataType.targetTable);
+  for (const tableName of tableNames) {
+    if (!(prisma as any)[toPrismaModel(tableName)]) throw new Error(`Prisma model not found for table: ${tableName}`);
+    if (!TABLE_UNIQUE_KEYS[tableName]) throw new Error(`No unique key config for table: ${tableName}`);
+  }
+
   const errors: RowError[] = failed.map((r) => ({
     rowIndex: r.rowIndex,
     messages: r.messages,
     original: r.original,
   }));
 
-  // Create the upload record first (outside transaction, so we have an ID)
-  const uploadRecord = await prisma.csvUpload.create({
+  // Create the upload record first (outside transaction, so we have an ID). Dry runs leave no record.
+  const uploadRecord = dryRun ? null : await prisma.csvUpload.create({
     data: {
       fileName,
       dataType: dataType.id,
       mappingId: mappingId ?? null,
       status: 'processing',
       uploadedBy: uploadedBy ?? null,
+      fileHash: fileHash ?? null,
       rowsProcessed: 0,
       rowsFailed: failed.length,
       rowsSkipped: 0,
     },
   });
 
-  const insertedIds: number[] = [];
-  const overwritten: OverwrittenRecord[] = [];
+  const rollbacks = new Map<string, TableRollback>(
+    [...tableNames].map((t) => [t, { targetTable: t, insertedIds: [], overwritten: [] }]),
+  );
+  const uploadId = uploadRecord?.id ?? null;
+  const diffs: RecordDiff[] = [];
   let rowsInserted = 0;
   let rowsUpdated = 0;
   let rowsSkipped = 0;
@@ -137,83 +279,96 @@ export async function importRows(request: ImportRequest): Promise<ImportResult>
   try {
     // Process rows inside an interactive transaction
     await prisma.$transaction(async (tx: any) => {
-      const txModel = tx[modelName];
-
       for (const row of processable) {
         try {
-          const data = { ...row.data };
-
-          // Build unique where clause
-          const where = buildUniqueWhere(tableName, data);
-
-          // Check for existing record
-          const existing = await txModel.findFirst({ where });
-
-          if (existing) {
-            switch (duplicateStrategy) {
-              case 'skip': {
-                rowsSkipped++;
-                break;
-              }
+          for (const record of rowRecords(dataType, row)) {
+            const tableName = record.table;
+            const txModel = tx[toPrismaModel(tableName)];
+            const { insertedIds, overwritten } = rollbacks.get(tableName)!;
+            const data = { ...record.data };
+
+            // Build unique where clause
+            const where = buildUniqueWhere(tableName, data);
+
+            // Check for existing record
+            const existing = await txModel.findFirst({ where });
+            const diff = (action: RecordDiff['action'], changes: FieldChange[] = []) => {
+              if (!dryRun) return;
+              const stored = existing && Object.fromEntries(Object.entries(existing).map(([k, v]) => [k, comparable(v)]));
+              diffs.push({ rowIndex: row.rowIndex, table: tableName, action, key: where, existing: stored, incoming: data, changes });
+            };
+
+            if (existing) {
+              switch (duplicateStrategy) {
+                case 'skip': {
+                  diff('skip');
+                  rowsSkipped++;
+                  break;
+                }
 
-              case 'overwrite': {
-                // Store pre-update state for rollback
-                overwritten.push({
-                  id: existing.id,
-                  previousData: stripManagedFields(existing),
-                });
-
-                // Update with new data + uploadId
-                await txModel.update({
-                  where: { id: existing.id },
-                  data: {
-                    ...stripManagedFields(data),
-                    dataSource: 'csv_upload',
-                    uploadId: uploadRecord.id,
-                  },
-                });
-                rowsUpdated++;
-                break;
-              }
+                case 'overwrite': {
+                  // Store pre-update state for rollback
+                  overwritten.push({
+                    id: existing.id,
+                    previousData: stripManagedFields(existing),
+                  });
+
+                  // Update with new data + uploadId
+                  const updateData = stripManagedFields(data);
+                  diff('update', diffFields(tableName, existing, updateData));
+                  await txModel.update({
+                    where: { id: existing.id },
+                    data: {
+                      ...updateData,
+                      dataSource: 'csv_upload',
+                      uploadId,
+                    },
+                  });
+                  rowsUpdated++;
+                  break;
+                }
 
-              case 'merge': {
-                // Store pre-update state for rollback
-                overwritten.push({
-                  id: existing.id,
-                  previousData: stripManagedFields(existing),
-                });
-
-                // Only update non-null fields from the new data
-                const mergeData: Record<string, any> = {};
-                for (const [key, value] of Object.entries(data)) {
-                  if (value !== null && value !== undefined) {
-                    mergeData[key] = value;
+                case 'merge': {
+                  // Store pre-update state for rollback
+                  overwritten.push({
+                    id: existing.id,
+                    previousData: stripManagedFields(existing),
+                  });
+
+                  // Only update non-null fields from the new data
+                  const mergeData: Record<string, any> = {};
+                  for (const [key, value] of Object.entries(data)) {
+                    if (value !== null && value !== undefined) {
+                      mergeData[key] = value;
+                    }
                   }
-                }
 
-                await txModel.update({
-                  where: { id: existing.id },
-                  data: {
-                    ...mergeData,
-                    dataSource: 'csv_upload',
-                    uploadId: uploadRecord.id,
-                  },
-                });
-                rowsUpdated++;
-                break;
+                  diff('update', diffFields(tableName, existing, mergeData));
+                  await txModel.update({
+                    where: { id: existing.id },
+                    data: {
+                      ...mergeData,
+                      dataSource: 'csv_upload',
+                      uploadId,
+                    },
+                  });
+                  rowsUpdated++;
+                  break;
+                }
               }
+            } else {
+              // Insert new row
+              diff('insert');
+              const created = await txModel.create({
+                data: {
+                  ...stripManagedFields(data),
+                  dataSource: 'csv_upload',
+                  uploadId,
+                },
+              });
+              insertedIds.push(created.id);
+              rowsInserted++;
             }
-          } else {
-            // Insert new row
-            const created = await txModel.create({
-              data: {
-                ...stripManagedFields(data),
-                dataSource: 'csv_upload',
-                uploadId: uploadRecord.id,
-              },
-            });
-            insertedIds.push(created.id);
-            rowsInserted++;
           }
         } catch (rowErr: any) {
           // Row-level error — log and continue
@@ -224,19 +379,17 @@ export async function importRows(request: ImportRequest): Promise<ImportResult>
           });
         }
       }
+
+      if (dryRun) throw new DryRunRollback();
     }, { timeout: 60_000 }); // 60s timeout for large imports
 
     // Store rollback data and update upload record
-    const rollbackData: RollbackData = {
-      targetTable: tableName,
-      insertedIds,
-      overwritten,
-    };
+    const rollbackData: RollbackData = { tables: [...rollbacks.values()] };
 
     const finalRowsFailed = errors.length;
 
     await prisma.csvUpload.update({
-      where: { id: uploadRecord.id },
+      where: { id: uploadRecord!.id },
       data: {
         status: 'completed',
         rowsProcessed: rowsInserted + rowsUpdated,
@@ -248,7 +401,7 @@ export async function importRows(request: ImportRequest): Promise<ImportResult>
     });
 
     return {
-      uploadId: uploadRecord.id,
+      uploadId: uploadRecord!.id,
       status: 'completed',
       rowsProcessed: rowsInserted + rowsUpdated,
       rowsFailed: finalRowsFailed,
@@ -258,7 +411,22 @@ export async function importRows(request: ImportRequest): Promise<ImportResult>
       errors,
     };
   } catch (err: any) {
+    if (err instanceof DryRunRollback) {
+      return {
+        uploadId: null,
+        status: 'dry_run',
+        rowsProcessed: rowsInserted + rowsUpdated,
+        rowsFailed: errors.length,
+        rowsSkipped,
+        rowsInserted,
+        rowsUpdated,
+        errors,
+        diffs,
+      };
+    }
+
     // Transaction-level failure — mark upload as failed
+    if (!uploadRecord) throw err;
     await prisma.csvUpload.update({
       where: { id: uploadRecord.id },
       data: {
@@ -286,9 +454,76 @@ export interface RollbackResult {
   uploadId: number;
   rowsDeleted: number;
   rowsRestored: number;
+  /** Later uploads rolled back first, newest first */
+  cascaded: number[];
+  /** Tables and week endings whose data changed, for follow-up work like alerts */
+  tables: string[];
+  weeks: Date[];
+}
+
+/** A later upload that overwrote records written by the upload being rolled back */
+export interface UploadDependency {
+  uploadId: number;
+  fileName: string;
+  dataType: string;
+  uploadedBy: string | null;
+  createdAt: Date;
+  /** The uploads whose records it overwrote */
+  dependsOn: number[];
+  sharedRecords: number;
+}
+
+export interface RollbackRow {
+  table: string;
+  id: number;
+  key: Record<string, string> | null;
+}
+
+export interface RollbackStep {
+  uploadId: number;
+  fileName: string;
+  deletes: RollbackRow[];
+  /** Each restored record with the fields going back to their earlier values */
+  restores: (RollbackRow & { changes: FieldChange[] })[];
 }
 
-export async function rollbackUpload(uploadId: number): Promise<RollbackResult> {
+/** A record the rollback would undo that something outside it has written since */
+export interface RollbackConflict extends RollbackRow {
+  /** The upload in the rollback that wrote the record */
+  uploadId: number;
+  /** The record's last writer: another upload, or null for the Xero sync and Excel migration */
+  currentUploadId: number | null;
+  dataSource: string;
+}
+
+export interface RollbackPreview {
+  uploadId: number;
+  /** Must be rolled back first; empty when the upload can be rolled back alone */
+  dependents: UploadDependency[];
+  /** In order: dependents newest first, then the upload itself */
+  steps: RollbackStep[];
+  /** The rollback is refused while there are any */
+  conflicts: RollbackConflict[];
+}
+
+function rollbackTables(rollbackData: unknown): TableRollback[] | null {
+  const rollback = rollbackData as RollbackData | null;
+  const tables = rollback && ('tables' in rollback ? rollback.tables : [rollback]);
+  if (!tables || tables.length === 0 || tables.some((t) => !t.targetTable)) return null;
+  return tables;
+}
+
+/**
+ * Snapshots to restore, latest first so a record overwritten twice ends on
+ * its earliest value. Records the upload inserted are deleted instead.
+ */
+function restoreOrder({ insertedIds, overwritten }: TableRollback): OverwrittenRecord[] {
+  const inserted = new Set(insertedIds);
+  return overwritten.filter((r) => !inserted.has(r.id)).reverse();
+}
+
+/** Throws unless the upload is completed and has rollback data. */
+async function loadRollbackable(uploadId: number) {
   const upload = await prisma.csvUpload.findUnique({ where: { id: uploadId } });
   if (!upload) throw new Error('Upload not found');
 
@@ -300,51 +535,299 @@ export async function rollbackUpload(uploadId: number): Promise<RollbackResult>
     throw new Error(`Cannot rollback upload with status "${upload.status}". Only completed uploads can be rolled back.`);
   }
 
-  const rollback = upload.rollbackData as unknown as RollbackData | null;
-  if (!rollback || !rollback.targetTable) {
-    throw new Error('No rollback data available for this upload');
+  const tables = rollbackTables(upload.rollbackData);
+  if (!tables) throw new Error('No rollback data available for this upload');
+
+  for (const { targetTable } of tables) {
+    if (!(prisma as any)[toPrismaModel(targetTable)]) throw new Error(`Prisma model not found for table: ${targetTable}`);
   }
 
-  const { targetTable, insertedIds, overwritten } = rollback;
-  const modelName = toPrismaModel(targetTable);
-  const model = (prisma as any)[modelName];
+  return { upload, tables };
+}
 
-  if (!model) throw new Error(`Prisma model not found for table: ${targetTable}`);
+/** The uploads to roll back, in order: dependents newest first, then the upload itself. */
+async function loadPlan(uploadId: number, dependents: UploadDependency[]) {
+  const plan: Awaited<ReturnType<typeof loadRollbackable>>[] = [];
+  for (const id of [...dependents.map((d) => d.uploadId), uploadId]) plan.push(await loadRollbackable(id));
+  return plan;
+}
 
+/** Current state of every record the plan touches, by "table:id" */
+async function loadPlanRecords(plan: Awaited<ReturnType<typeof loadPlan>>) {
+  const idsByTable = new Map<string, Set<number>>();
+  for (const { tables } of plan) {
+    for (const { targetTable, insertedIds, overwritten } of tables) {
+      const ids = idsByTable.get(targetTable) ?? new Set<number>();
+      for (const id of [...insertedIds, ...overwritten.map((r) => r.id)]) ids.add(id);
+      idsByTable.set(targetTable, ids);
+    }
+  }
+
+  const state = new Map<string, Record<string, any>>();
+  for (const [table, ids] of idsByTable) {
+    const records: Record<string, any>[] = await (prisma as any)[toPrismaModel(table)].findMany({ where: { id: { in: [...ids] } } });
+    for (const record of records) state.set(`${table}:${record.id}`, record);
+  }
+  return state;
+}
+
+/**
+ * Records the plan would delete or restore whose last writer isn't one of
+ * its uploads. The Xero sync and Excel migration write without an upload,
+ * so they never show up as dependents; rolling back would undo their values.
+ */
+function findConflicts(plan: Awaited<ReturnType<typeof loadPlan>>, state: Map<string, Record<string, any>>): RollbackConflict[] {
+  const planIds = new Set(plan.map(({ upload }) => upload.id));
+  const seen = new Set<string>();
+  const conflicts: RollbackConflict[] = [];
+
+  for (const { upload, tables } of plan) {
+    for (const { targetTable, insertedIds, overwritten } of tables) {
+      for (const id of [...insertedIds, ...overwritten.map((r) => r.id)]) {
+        const ref = `${targetTable}:${id}`;
+        const current = state.get(ref);
+        if (!current || seen.has(ref)) continue;
+        seen.add(ref);
+        if (planIds.has(current.uploadId)) continue;
+
+        conflicts.push({
+          table: targetTable,
+          id,
+          key: uniqueKey(targetTable, current),
+          uploadId: upload.id,
+          currentUploadId: current.uploadId ?? null,
+          dataSource: current.dataSource,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function describeConflicts(conflicts: RollbackConflict[]): string {
+  const shown = conflicts.slice(0, 5).map((c) => `${c.table} ${c.key ? Object.values(c.key).join(' / ') : `#${c.id}`} (${c.dataSource})`);
+  const more = conflicts.length > shown.length ? ` and ${conflicts.length - shown.length} more` : '';
+  return shown.join(', ') + more;
+}
+
+/**
+ * Replay completed uploads in order to find which ones overwrote records
+ * last written by an earlier one: earlier upload id → later upload id →
+ * the records ("table:id") it overwrote.
+ */
+async function mapOverwrites() {
+  const uploads = await prisma.csvUpload.findMany({
+    where: { status: 'completed' },
+    orderBy: { id: 'asc' },
+    select: { id: true, fileName: true, dataType: true, uploadedBy: true, createdAt: true, rollbackData: true },
+  });
+
+  const lastWriter = new Map<string, number>();
+  const overwrites = new Map<number, Map<number, Set<string>>>();
+
+  for (const upload of uploads) {
+    const tables = rollbackTables(upload.rollbackData) ?? [];
+
+    for (const { targetTable, overwritten } of tables) {
+      for (const { id } of overwritten) {
+        const ref = `${targetTable}:${id}`;
+        const writer = lastWriter.get(ref);
+        if (writer === undefined || writer === upload.id) continue;
+
+        const later = overwrites.get(writer) ?? new Map<number, Set<string>>();
+        later.set(upload.id, (later.get(upload.id) ?? new Set()).add(ref));
+        overwrites.set(writer, later);
+      }
+    }
+
+    for (const { targetTable, insertedIds, overwritten } of tables) {
+      for (const id of [...insertedIds, ...overwritten.map((r) => r.id)]) {
+        lastWriter.set(`${targetTable}:${id}`, upload.id);
+      }
+    }
+  }
+
+  return { uploads: new Map(uploads.map((u) => [u.id, u])), overwrites };
+}
+
+/**
+ * Later uploads that overwrote this upload's records, directly or through
+ * another dependent, newest first. They must be rolled back before it.
+ */
+export async function findDependents(uploadId: number): Promise<UploadDependency[]> {
+  const { uploads, overwrites } = await mapOverwrites();
+  const dependents = new Map<number, UploadDependency>();
+  const queue = [uploadId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const [laterId, records] of overwrites.get(id) ?? []) {
+      const dependent = dependents.get(laterId);
+      if (dependent) {
+        dependent.dependsOn.push(id);
+        dependent.sharedRecords += records.size;
+        continue;
+      }
+
+      const { fileName, dataType, uploadedBy, createdAt } = uploads.get(laterId)!;
+      dependents.set(laterId, { uploadId: laterId, fileName, dataType, uploadedBy, createdAt, dependsOn: [id], sharedRecords: records.size });
+      queue.push(laterId);
+    }
+  }
+
+  return [...dependents.values()].sort((a, b) => b.uploadId - a.uploadId);
+}
+
+/** For each completed upload, the later uploads that overwrote its records and the earlier ones it overwrote. */
+export async function getUploadDependencies(): Promise<Map<number, { overwrittenBy: number[]; overwrote: number[] }>> {
+  const { overwrites } = await mapOverwrites();
+  const dependencies = new Map<number, { overwrittenBy: number[]; overwrote: number[] }>();
+  const entry = (id: number) => dependencies.get(id) ?? dependencies.set(id, { overwrittenBy: [], overwrote: [] }).get(id)!;
+
+  for (const [earlierId, later] of overwrites) {
+    for (const laterId of later.keys()) {
+      entry(earlierId).overwrittenBy.push(laterId);
+      entry(laterId).overwrote.push(earlierId);
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Exactly what a rollback would delete and restore, including the cascade
+ * through later uploads. Each step is simulated against the records as the
+ * previous steps leave them.
+ */
+export async function previewRollback(uploadId: number): Promise<RollbackPreview> {
+  await loadRollbackable(uploadId);
+  const dependents = await findDependents(uploadId);
+
+  const plan = await loadPlan(uploadId, dependents);
+  const state = await loadPlanRecords(plan);
+  const conflicts = findConflicts(plan, state);
+
+  const steps = plan.map(({ upload, tables }): RollbackStep => {
+    const step: RollbackStep = { uploadId: upload.id, fileName: upload.fileName, deletes: [], restores: [] };
+
+    for (const rollback of tables) {
+      const table = rollback.targetTable;
+
+      for (const id of rollback.insertedIds) {
+        const current = state.get(`${table}:${id}`);
+        if (!current) continue;
+        step.deletes.push({ table, id, key: uniqueKey(table, current) });
+        state.delete(`${table}:${id}`);
+      }
+
+      for (const record of restoreOrder(rollback)) {
+        const current = state.get(`${table}:${record.id}`) ?? {};
+        const restored = fromSnapshot(current, record.previousData);
+        step.restores.push({
+          table,
+          id: record.id,
+          key: uniqueKey(table, record.previousData),
+          changes: diffFields(table, current, restored),
+        });
+        state.set(`${table}:${record.id}`, { ...current, ...restored });
+      }
+    }
+    return step;
+  });
+
+  return { uploadId, dependents, steps, conflicts };
+}
+
+/** Snapshots come back from JSON with decimals as strings; match the stored record's numbers. */
+function fromSnapshot(current: Record<string, any>, previousData: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(previousData).map(([field, value]) => [
+    field,
+    typeof value === 'string' && typeof comparable(current[field]) === 'number' ? Number(value) : value,
+  ]));
+}
+
+/**
+ * Undo one upload's writes. Only rows last written by an upload in the
+ * rollback (`planIds`) are touched, so nothing written since is lost.
+ */
+async function rollbackTablesTx(tx: any, tables: TableRollback[], planIds: number[]) {
   let rowsDeleted = 0;
   let rowsRestored = 0;
 
-  await prisma.$transaction(async (tx: any) => {
-    const txModel = tx[modelName];
+  for (const rollback of tables) {
+    const txModel = tx[toPrismaModel(rollback.targetTable)];
 
     // 1. Delete all rows that were inserted by this upload
-    if (insertedIds.length > 0) {
+    if (rollback.insertedIds.length > 0) {
       const deleteResult = await txModel.deleteMany({
-        where: { id: { in: insertedIds } },
+        where: { id: { in: rollback.insertedIds }, uploadId: { in: planIds } },
       });
-      rowsDeleted = deleteResult.count;
+      rowsDeleted += deleteResult.count;
     }
 
     // 2. Restore overwritten rows to their previous state
-    for (const record of overwritten) {
+    for (const record of restoreOrder(rollback)) {
       // Remove the uploadId link and restore previous data
       const restoreData = { ...record.previousData };
       // Ensure we don't set id through the update data
       delete restoreData.id;
 
-      await txModel.update({
-        where: { id: record.id },
+      const updateResult = await txModel.updateMany({
+        where: { id: record.id, uploadId: { in: planIds } },
         data: restoreData,
       });
-      rowsRestored++;
+      rowsRestored += updateResult.count;
     }
+  }
 
-    // 3. Update upload status
-    await tx.csvUpload.update({
-      where: { id: uploadId },
-      data: { status: 'rolled_back' },
-    });
+  return { rowsDeleted, rowsRestored };
+}
+
+/**
+ * Undo an upload. Refuses when later uploads overwrote its records, since
+ * restoring its snapshots would clobber their values, unless `cascade` is
+ * set: those uploads are then rolled back first, newest first, in the same
+ * transaction. Always refuses when the Xero sync or another source has
+ * written its records since.
+ */
+export async function rollbackUpload(uploadId: number, options: { cascade?: boolean } = {}): Promise<RollbackResult> {
+  await loadRollbackable(uploadId);
+
+  const dependents = await findDependents(uploadId);
+  if (dependents.length > 0 && !options.cascade) {
+    const list = dependents.map((d) => `#${d.uploadId} "${d.fileName}"`).join(', ');
+    throw new Error(`Later uploads changed records from this upload: ${list}. Roll them back first, or roll back with cascade.`);
+  }
+
+  const plan = await loadPlan(uploadId, dependents);
+
+  const state = await loadPlanRecords(plan);
+  const conflicts = findConflicts(plan, state);
+  if (conflicts.length > 0) {
+    throw new Error(`Records from this upload have been changed since by the Xero sync or another source: ${describeConflicts(conflicts)}. Rolling back would undo those values.`);
+  }
+
+  const planIds = plan.map(({ upload }) => upload.id);
+  let rowsDeleted = 0;
+  let rowsRestored = 0;
+
+  await prisma.$transaction(async (tx: any) => {
+    for (const { upload, tables } of plan) {
+      const counts = await rollbackTablesTx(tx, tables, planIds);
+      rowsDeleted += counts.rowsDeleted;
+      rowsRestored += counts.rowsRestored;
+
+      // 3. Update upload status
+      await tx.csvUpload.update({
+        where: { id: upload.id },
+        data: { status: 'rolled_back' },
+      });
+    }
   }, { timeout: 60_000 });
 
-  return { uploadId, rowsDeleted, rowsRestored };
+  const tables = [...new Set(plan.flatMap((p) => p.tables.map((t) => t.targetTable)))];
+  const weeks = [...state.values()]
+    .filter((record) => record.weekEnding)
+    .map((record) => new Date(record.weekEnding));
+
+  return { uploadId, rowsDeleted, rowsRestored, cascaded: dependents.map((d) => d.uploadId), tables, weeks };
 }
@@ -0,0 +1,166 @@
+import prisma from '../db.js';
+import { escalateRow, type RowValidation, type ValidationResult } from './CsvParserService.js';
+import type { DataTypeDefinition } from './DataTypeRegistry.js';
+import { TABLE_UNIQUE_KEYS, rowRecords, toPrismaModel } from './ImportService.js';
+import { SettingsService, type SettingValue } from './SettingsService.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A value far outside the trailing history of its series (same table and key, earlier weeks) */
+export interface Outlier {
+  rowIndex: number;
+  table: string;
+  field: string;
+  label: string;
+  value: number;
+  median: number;
+  /** Weeks of history compared against */
+  historyWeeks: number;
+  /** Standard deviations from the mean; null when the history is flat */
+  zScore: number | null;
+  /** Distance from the median as a % of it; null when the median is 0 */
+  percentFromMedian: number | null;
+  /** 'high' for a jump by the acknowledge factor or more; the import must acknowledge these */
+  severity: 'warning' | 'high';
+}
+
+type OutlierSettings = SettingValue<'outlier_detection'>;
+
+interface SeriesEntry {
+  row: RowValidation;
+  dataType: DataTypeDefinition;
+  data: Record<string, any>;
+  week: Date;
+}
+
+const NUMERIC_TYPES = new Set(['currency', 'integer', 'decimal', 'percentage']);
+
+/** Series with less history than this aren't checked */
+const MIN_HISTORY_WEEKS = 4;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function round(value: number, places: number): number {
+  return Number(value.toFixed(places));
+}
+
+function format(value: number): string {
+  return value.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** How far a value sits from its history, or null when it's within both bands. */
+function assess(value: number, history: number[], settings: OutlierSettings) {
+  const med = median(history);
+  const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+  const sd = Math.sqrt(history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (history.length - 1));
+
+  const zScore = sd > 0 ? round((value - mean) / sd, 1) : null;
+  const percentFromMedian = med !== 0 ? round(((value - med) / Math.abs(med)) * 100, 1) : null;
+  const beyondZ = zScore !== null && Math.abs(zScore) > settings.zScore;
+  const beyondBand = percentFromMedian !== null && Math.abs(percentFromMedian) > settings.percentBand;
+  if (!beyondZ && !beyondBand) return null;
+
+  // A factor-of-N jump in the same direction looks like a units or decimal error
+  const ratio = value !== 0 && med !== 0 && Math.sign(value) === Math.sign(med)
+    ? Math.max(value / med, med / value)
+    : 0;
+
+  return {
+    median: round(med, 2),
+    zScore,
+    percentFromMedian,
+    severity: ratio >= settings.acknowledgeFactor ? 'high' as const : 'warning' as const,
+  };
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class OutlierService {
+  /**
+   * Compare each numeric value with its series' trailing history, stored
+   * and earlier in the file, and flag the rows holding outliers as warnings.
+   * Outliers are also kept on their rows so the import can insist high ones
+   * were acknowledged.
+   */
+  static async detect(dt: DataTypeDefinition, validation: ValidationResult): Promise<Outlier[]> {
+    const settings = await SettingsService.get('outlier_detection');
+    if (!settings.enabled) return [];
+    const windowMs = settings.historyWeeks * WEEK_MS;
+
+    // Group the records by series: the table plus its unique key without the week
+    const series = new Map<string, { table: string; where: Record<string, any>; entries: SeriesEntry[] }>();
+    for (const row of validation.rows) {
+      if (row.status === 'error') continue;
+      for (const { table, dataType, data } of rowRecords(dt, row)) {
+        const keys = TABLE_UNIQUE_KEYS[table];
+        if (!keys || isBlank(data.weekEnding)) continue;
+
+        const where = Object.fromEntries(keys.filter((k) => k !== 'weekEnding').map((k) => [k, data[k]]));
+        if (Object.values(where).some(isBlank)) continue;
+
+        const id = `${table}:${JSON.stringify(where)}`;
+        const group = series.get(id) ?? { table, where, entries: [] };
+        group.entries.push({ row, dataType, data, week: new Date(data.weekEnding) });
+        series.set(id, group);
+      }
+    }
+
+    const outliers: Outlier[] = [];
+    for (const { table, where, entries } of series.values()) {
+      const times = entries.map((e) => e.week.getTime());
+      const history: Record<string, any>[] = await (prisma as any)[toPrismaModel(table)].findMany({
+        where: { ...where, weekEnding: { gte: new Date(Math.min(...times) - windowMs), lt: new Date(Math.max(...times)) } },
+      });
+
+      // The file's own earlier weeks count as history too, in place of any stored week they'd replace
+      const known = new Map<number, Record<string, any>>();
+      for (const h of history) known.set(h.weekEnding.getTime(), h);
+      for (const e of entries) known.set(e.week.getTime(), e.data);
+
+      for (const entry of entries) {
+        const time = entry.week.getTime();
+        const trailing = [...known].filter(([t]) => t < time && t >= time - windowMs).map(([, data]) => data);
+        if (trailing.length < MIN_HISTORY_WEEKS) continue;
+
+        const messages: string[] = [];
+        for (const field of entry.dataType.fields) {
+          if (!NUMERIC_TYPES.has(field.type) || TABLE_UNIQUE_KEYS[table].includes(field.dbField)) continue;
+          if (isBlank(entry.data[field.dbField])) continue;
+
+          const values = trailing.filter((h) => !isBlank(h[field.dbField])).map((h) => Number(h[field.dbField]));
+          if (values.length < MIN_HISTORY_WEEKS) continue;
+
+          const value = Number(entry.data[field.dbField]);
+          const result = assess(value, values, settings);
+          if (!result) continue;
+
+          outliers.push({ rowIndex: entry.row.rowIndex, table, field: field.dbField, label: field.label, value, historyWeeks: values.length, ...result });
+          messages.push(
+            `${field.label} ${format(value)} is unusual against its ${values.length}-week median of ${format(result.median)}`
+            + (result.severity === 'high' ? '; check for a units or decimal error' : ''),
+          );
+        }
+
+        if (messages.length > 0) escalateRow(validation, entry.row, 'warning', messages);
+      }
+    }
+
+    for (const row of validation.rows) {
+      const own = outliers.filter((o) => o.rowIndex === row.rowIndex);
+      if (own.length > 0) row.outliers = own;
+    }
+    return outliers;
+  }
+}
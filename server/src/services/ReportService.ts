@@ -0,0 +1,494 @@
+import PDFDocument from 'pdfkit';
+import SVGtoPDF from 'svg-to-pdfkit';
+import prisma from '../db.js';
+import { DashboardService, ALL_REGIONS, REGION_LABELS, LEAD_SOURCE_LABELS } from './DashboardService.js';
+import { SettingsService, type SettingValue } from './SettingsService.js';
+import { SvgChartService } from './SvgChartService.js';
+import { toDateKey } from './WeekService.js';
+import type { TargetType, Region, LeadSource } from '../generated/prisma/index.js';
+
+export type ReportFormat = 'currency' | 'currency2' | 'number' | 'percent' | 'rating';
+
+/**
+ * How a row's cells are shaded: 'target' is green at 100% or more and red
+ * below; 'sign' is green when positive and red when negative.
+ */
+export type ReportTone = 'target' | 'sign';
+
+export interface ReportRow {
+  label: string;
+  format: ReportFormat;
+  values: (number | null)[];
+  total: number | null;
+  bold?: boolean;
+  tone?: ReportTone;
+}
+
+export interface ReportSection {
+  title: string;
+  /** Header shown above the total column, e.g. "TARGET" or "TOTAL" */
+  totalLabel: string;
+  /** Fill colour for the row labels (regional teams) */
+  colour?: string;
+  rows: ReportRow[];
+}
+
+export interface ReportColumn {
+  weekEnding: string;
+  fyWeek: number;
+  month: string;
+}
+
+const PROJECT_TYPES = ['residential', 'commercial', 'retrospective'] as const;
+
+const PROJECT_TARGET_TYPES: Record<typeof PROJECT_TYPES[number], TargetType> = {
+  residential: 'residential_revenue',
+  commercial: 'commercial_revenue',
+  retrospective: 'retrospective_revenue',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  retrospective: 'Retrospective',
+};
+
+/** Label fills for the regional team blocks, as in the legacy workbook */
+const REGION_COLOURS: Partial<Record<Region, string>> = {
+  cairns: '#FF5050',
+  nq_commercial: '#7030A0',
+  seq_commercial: '#CC00CC',
+  town_planning: '#00B050',
+  townsville: '#FFC000',
+  wide_bay: '#00B0F0',
+  all_in_access: '#FF33CC',
+};
+
+export type WeeklyReport = Awaited<ReturnType<typeof ReportService.buildWeeklyReport>>;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Start of the financial year containing the given week, per the
+ * fiscal_year_start setting (1 July by default).
+ */
+function fiscalYearStart(weekEnding: Date, start: SettingValue<'fiscal_year_start'>): Date {
+  const year = weekEnding.getUTCFullYear();
+  const candidate = new Date(Date.UTC(year, start.month - 1, start.day));
+  if (candidate > weekEnding) candidate.setUTCFullYear(year - 1);
+  return candidate;
+}
+
+/**
+ * Group rows by week and sum a numeric field.
+ */
+function byWeek<T extends { weekEnding: Date }>(rows: T[], value: (row: T) => number | null): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const row of rows) {
+    const v = value(row);
+    if (v == null) continue;
+    const key = toDateKey(row.weekEnding);
+    map.set(key, (map.get(key) ?? 0) + v);
+  }
+  return map;
+}
+
+function fmtDate(key: string): string {
+  const [y, m, d] = key.split('-');
+  return `${d}/${m}/${y}`;
+}
+
+function formatValue(val: number | null, format: ReportFormat): string {
+  if (val == null || !isFinite(val)) return '';
+  switch (format) {
+    case 'currency':
+      return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 });
+    case 'currency2':
+      return val.toLocaleString('en-AU', { style: 'currency', currency: 'AUD' });
+    case 'percent':
+      return `${val.toFixed(0)}%`;
+    case 'rating':
+      return val.toFixed(2);
+    default:
+      return val.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+  }
+}
+
+/**
+ * Row builder bound to the report's displayed weeks and the financial-year
+ * weeks that make up the total column.
+ */
+class RowBuilder {
+  constructor(private weekKeys: string[], private fyKeys: string[]) {}
+
+  /** Weekly values with a financial-year-to-date sum */
+  sum(label: string, format: ReportFormat, data: Map<string, number>, extra: Partial<ReportRow> = {}): ReportRow {
+    const present = this.fyKeys.filter(k => data.has(k));
+    return {
+      label,
+      format,
+      values: this.weekKeys.map(k => data.get(k) ?? null),
+      total: present.length > 0 ? present.reduce((s, k) => s + data.get(k)!, 0) : null,
+      ...extra,
+    };
+  }
+
+  /** Weekly values with the average of the weeks that have data */
+  average(label: string, format: ReportFormat, data: Map<string, number>, extra: Partial<ReportRow> = {}): ReportRow {
+    const present = this.fyKeys.filter(k => data.has(k));
+    return {
+      ...this.sum(label, format, data, extra),
+      total: present.length > 0 ? present.reduce((s, k) => s + data.get(k)!, 0) / present.length : null,
+    };
+  }
+
+  /** numerator ÷ denominator per week and for the totals; percent rows are × 100 */
+  ratio(label: string, format: ReportFormat, num: ReportRow, den: ReportRow, extra: Partial<ReportRow> = {}): ReportRow {
+    const scale = format === 'percent' ? 100 : 1;
+    const divide = (n: number | null, d: number | null) => (n != null && d ? (n / d) * scale : null);
+    return {
+      label,
+      format,
+      values: num.values.map((n, i) => divide(n, den.values[i])),
+      total: divide(num.total, den.total),
+      ...extra,
+    };
+  }
+}
+
+export class ReportService {
+  /**
+   * Builds the legacy weekly report grid: the last `weeks` weeks up to
+   * weekEnding, each with a financial-year-to-date total column.
+   */
+  static async buildWeeklyReport(weekEnding: Date, weeks = 5) {
+    const fyStart = fiscalYearStart(weekEnding, await SettingsService.get('fiscal_year_start'));
+
+    const weekDates = Array.from({ length: weeks }, (_, i) => {
+      const d = new Date(weekEnding);
+      d.setUTCDate(d.getUTCDate() - (weeks - 1 - i) * 7);
+      return d;
+    });
+    const fyDates: Date[] = [];
+    for (const d = new Date(weekEnding); d >= fyStart; d.setUTCDate(d.getUTCDate() - 7)) {
+      fyDates.unshift(new Date(d));
+    }
+
+    const weekKeys = weekDates.map(toDateKey);
+    const fyKeys = fyDates.map(toDateKey);
+    const from = weekDates[0] < fyStart ? weekDates[0] : fyStart;
+    const range = { gte: from, lte: weekEnding };
+
+    const [financial, projects, sales, leads, reviews, teams, targets, summary] = await Promise.all([
+      prisma.financialWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.projectsWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.salesWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.leadsWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.googleReviewsWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.teamPerformanceWeekly.findMany({ where: { weekEnding: range } }),
+      prisma.target.findMany({ where: { effectiveFrom: { lte: weekEnding } }, orderBy: { effectiveFrom: 'desc' } }),
+      DashboardService.getExecutiveSummary(weekEnding),
+    ]);
+
+    // Resolve targets per week in memory rather than one query per cell
+    const targetSeries = (targetType: TargetType, entity: Region | null = null) => {
+      const candidates = targets.filter(t => t.targetType === targetType && t.entity === entity);
+      const map = new Map<string, number>();
+      for (const d of [...new Set([...weekDates, ...fyDates])]) {
+        const active = candidates.find(t => t.effectiveFrom <= d && (!t.effectiveTo || t.effectiveTo >= d));
+        if (active) map.set(toDateKey(d), Number(active.amount));
+      }
+      return map;
+    };
+
+    const rb = new RowBuilder(weekKeys, fyKeys);
+    const sections: ReportSection[] = [];
+
+    // ── Profit & Loss ──
+    const income = rb.sum('Total Trading Income', 'currency', byWeek(financial, f => Number(f.totalTradingIncome)));
+    const wages = rb.sum('Wages and Salaries', 'currency', byWeek(financial, f => Number(f.wagesAndSalaries)));
+    const netProfit = rb.sum('Net Profit', 'currency', byWeek(financial, f => Number(f.netProfit)), { bold: true });
+    sections.push({
+      title: 'Profit & Loss',
+      totalLabel: 'TOTAL',
+      rows: [
+        income,
+        rb.sum('Total Cost of Sales', 'currency', byWeek(financial, f => Number(f.totalCostOfSales))),
+        rb.sum('Gross Profit', 'currency', byWeek(financial, f => Number(f.grossProfit))),
+        rb.sum('Total Other Income', 'currency', byWeek(financial, f => Number(f.otherIncome))),
+        rb.sum('Total Operating Expenses', 'currency', byWeek(financial, f => Number(f.operatingExpenses))),
+        wages,
+        netProfit,
+        rb.sum('Net Profit Budget', 'currency', targetSeries('net_profit'), { bold: true }),
+        rb.ratio('% Profit', 'percent', netProfit, income, { bold: true, tone: 'sign' }),
+        rb.ratio('Revenue to Staff Ratio', 'percent', wages, income, { bold: true }),
+      ],
+    });
+
+    // ── Projects vs targets ──
+    for (const type of PROJECT_TYPES) {
+      const rows = projects.filter(p => p.projectType === type);
+      const target = rb.sum('Target', 'currency', targetSeries(PROJECT_TARGET_TYPES[type]), { bold: true });
+      const invoiced = rb.sum('Xero Invoiced', 'currency', byWeek(rows, p => Number(p.xeroInvoicedAmount)));
+      sections.push({
+        title: `New Projects ${TYPE_LABELS[type]}`,
+        totalLabel: 'TOTAL',
+        rows: [
+          target,
+          rb.sum(`HF Total Projects ${TYPE_LABELS[type]} #`, 'number', byWeek(rows, p => p.hyperfloCount)),
+          invoiced,
+          rb.ratio('% To Target', 'percent', invoiced, target, { tone: 'target' }),
+          rb.average('% Project New Business', 'percent', byWeek(rows, p =>
+            p.newBusinessPercentage != null ? Number(p.newBusinessPercentage) : null)),
+        ],
+      });
+    }
+
+    // ── Sales ──
+    for (const type of PROJECT_TYPES) {
+      const rows = sales.filter(s => s.salesType === type);
+      const issued = rb.sum('Total Quotes Issued #', 'number', byWeek(rows, s => s.quotesIssuedCount));
+      const won = rb.sum('Total Quotes Won #', 'number', byWeek(rows, s => s.quotesWonCount));
+      sections.push({
+        title: `Sales ${TYPE_LABELS[type]}`,
+        totalLabel: 'TOTAL',
+        rows: [
+          issued,
+          rb.sum('Total Quotes Issued $', 'currency', byWeek(rows, s => Number(s.quotesIssuedValue))),
+          won,
+          rb.sum('Total Quotes Won $', 'currency', byWeek(rows, s => Number(s.quotesWonValue))),
+          rb.ratio('% Won', 'percent', won, issued, { bold: true }),
+        ],
+      });
+    }
+
+    // ── Lead sources ──
+    const leadRows: ReportRow[] = [];
+    for (const source of Object.keys(LEAD_SOURCE_LABELS) as LeadSource[]) {
+      const rows = leads.filter(l => l.source === source);
+      const count = rb.sum(`${LEAD_SOURCE_LABELS[source]} Leads #`, 'number', byWeek(rows, l => Number(l.leadCount)));
+      const cost = rb.sum('cost', 'currency', byWeek(rows, l => (l.totalCost != null ? Number(l.totalCost) : null)));
+      leadRows.push(count, rb.ratio(`${LEAD_SOURCE_LABELS[source]} Avg Cost per Lead`, 'currency2', cost, count));
+    }
+    const totalLeads = rb.sum('Total Leads #', 'number', byWeek(leads, l => Number(l.leadCount)), { bold: true });
+    const totalCost = rb.sum('Total Cost $', 'currency', byWeek(leads, l => (l.totalCost != null ? Number(l.totalCost) : null)), { bold: true });
+    sections.push({
+      title: 'Lead Source',
+      totalLabel: 'TOTAL',
+      rows: [
+        ...leadRows,
+        totalLeads,
+        totalCost,
+        rb.ratio('Avg Cost per Lead', 'currency2', totalCost, totalLeads, { bold: true }),
+      ],
+    });
+
+    // ── Google reviews ──
+    sections.push({
+      title: 'Google Reviews',
+      totalLabel: 'TOTAL',
+      rows: [
+        rb.sum('Reviews #', 'number', byWeek(reviews, r => r.reviewCount)),
+        rb.average('Average Rating', 'rating', byWeek(reviews, r => (r.averageRating != null ? Number(r.averageRating) : null))),
+      ],
+    });
+
+    // ── Regional teams ──
+    for (const region of ALL_REGIONS) {
+      const target = rb.sum(`${REGION_LABELS[region]} Target`, 'currency', targetSeries('team_revenue', region));
+      const actual = rb.sum(`${REGION_LABELS[region]} Team $ (Xero)`, 'currency',
+        byWeek(teams.filter(t => t.region === region), t => Number(t.actualInvoiced)), { bold: true });
+      sections.push({
+        title: REGION_LABELS[region],
+        totalLabel: 'TOTAL',
+        colour: REGION_COLOURS[region],
+        rows: [target, actual, rb.ratio('%', 'percent', actual, target, { tone: 'target' })],
+      });
+    }
+
+    const columns: ReportColumn[] = weekDates.map(d => ({
+      weekEnding: toDateKey(d),
+      fyWeek: Math.floor((d.getTime() - fyStart.getTime()) / (7 * 86_400_000)) + 1,
+      month: MONTHS[d.getUTCMonth()],
+    }));
+
+    return {
+      weekEnding: toDateKey(weekEnding),
+      financialYearStart: toDateKey(fyStart),
+      columns,
+      kpis: summary.kpis,
+      netProfitTrend: summary.trends.netProfit,
+      teamPerformance: summary.teamPerformance,
+      sections,
+    };
+  }
+
+  /**
+   * Renders a built weekly report as a landscape A4 PDF: branded header, KPI
+   * table and charts on the first page, then the weekly grid. Charts are drawn
+   * from SVG so no browser is needed.
+   */
+  static renderWeeklyReportPdf(report: WeeklyReport, branding: SettingValue<'branding'>, out: NodeJS.WritableStream) {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 30,
+      info: { Title: `${branding.companyName} Weekly Report — ${fmtDate(report.weekEnding)}`, Author: branding.companyName },
+    });
+    doc.pipe(out);
+
+    const pageW = doc.page.width;
+    const left = doc.page.margins.left;
+    const contentW = pageW - left - doc.page.margins.right;
+
+    // ── Header ──
+    const drawHeader = () => {
+      doc.rect(0, 0, pageW, 54).fill(branding.primaryColour);
+      let textX = left;
+      // Only embedded (data URI) logos are drawn so the report renders offline
+      if (branding.logoUrl?.startsWith('data:image/')) {
+        doc.image(Buffer.from(branding.logoUrl.split(',')[1], 'base64'), left, 9, { fit: [110, 36] });
+        textX = left + 120;
+      }
+      doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(16).text(branding.companyName, textX, 12, { lineBreak: false });
+      doc.font('Helvetica').fontSize(10)
+        .text(`Weekly Report — Week Ending ${fmtDate(report.weekEnding)} (FY week ${report.columns[report.columns.length - 1].fyWeek})`, textX, 33, { lineBreak: false });
+      doc.y = 70;
+    };
+    drawHeader();
+
+    // ── KPI table ──
+    const { kpis } = report;
+    const kpiRows: [string, string, string, string][] = [
+      ['Net Profit', formatValue(kpis.netProfit.actual, 'currency'), formatValue(kpis.netProfit.budget, 'currency'), formatValue(kpis.netProfit.variance, 'currency')],
+      ['Revenue (Invoiced)', formatValue(kpis.revenueInvoiced.actual, 'currency'), '', ''],
+      ['Revenue (P&L)', formatValue(kpis.revenuePL.actual, 'currency'), '', formatValue(kpis.revenuePL.varianceToInvoiced, 'currency')],
+      ['Gross Profit Margin', formatValue(kpis.grossProfitMargin.actual, 'percent'), '', ''],
+      ['Revenue to Staff Ratio', formatValue(kpis.revenueToStaffRatio.actual, 'percent'), '', ''],
+      ['Total Leads', formatValue(kpis.totalLeads.actual, 'number'), '', ''],
+      ['Average Cost per Lead', formatValue(kpis.totalLeads.avgCostPerLead, 'currency2'), '', ''],
+      ['Total Cash Available', formatValue(kpis.totalCashAvailable.actual, 'currency'), '', ''],
+    ];
+    const kpiCols = [130, 80, 80, 80];
+    const kpiTop = doc.y;
+    doc.fillColor('#1A1A2E').font('Helvetica-Bold').fontSize(11).text('Key Metrics', left, kpiTop);
+    let ky = kpiTop + 18;
+    const drawKpiRow = (cells: string[], bold: boolean) => {
+      let cx = left;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor('#1A1A2E');
+      cells.forEach((cell, i) => {
+        doc.text(cell, cx + 2, ky + 4, { width: kpiCols[i] - 4, align: i === 0 ? 'left' : 'right', lineBreak: false });
+        cx += kpiCols[i];
+      });
+      doc.moveTo(left, ky + 18).lineTo(left + kpiCols.reduce((a, b) => a + b, 0), ky + 18).strokeColor('#E5E7EB').lineWidth(0.5).stroke();
+      ky += 18;
+    };
+    drawKpiRow(['Metric', 'Actual', 'Budget', 'Variance'], true);
+    for (const row of kpiRows) drawKpiRow(row, false);
+
+    // ── Charts ──
+    const chartX = left + 400;
+    const chartW = contentW - 400;
+    const trend = report.netProfitTrend;
+    SVGtoPDF(doc, SvgChartService.lineChart({
+      title: 'Net Profit vs Budget (13 Weeks)',
+      labels: trend.map(t => fmtDate(t.weekEnding).slice(0, 5)),
+      series: [
+        { name: 'Net Profit', colour: '#4573D2', values: trend.map(t => t.netProfit) },
+        { name: 'Budget', colour: '#D94F4F', values: trend.map(t => t.budget), dashed: true },
+      ],
+      width: chartW,
+      height: 190,
+    }), chartX, kpiTop, { width: chartW, height: 190 });
+
+    const teams = report.teamPerformance;
+    SVGtoPDF(doc, SvgChartService.barChart({
+      title: 'Regional Teams — % to Target (This Week)',
+      labels: teams.map(t => t.label.replace('Commercial', 'Comm.').replace('Residential', 'Resi.')),
+      values: teams.map(t => t.percentageToTarget),
+      colours: teams.map(t => (t.percentageToTarget >= 80 ? '#6AAF50' : t.percentageToTarget >= 50 ? '#E8A442' : '#D94F4F')),
+      referenceLine: { value: 100, label: 'Target' },
+      formatValue: v => `${v.toFixed(0)}%`,
+      width: contentW,
+      height: 200,
+    }), left, Math.max(ky, kpiTop + 190) + 20, { width: contentW, height: 200 });
+
+    // ── Weekly grid ──
+    const labelW = 190;
+    const totalW = 85;
+    const weekW = (contentW - labelW - totalW) / report.columns.length;
+    const rowH = 14;
+    const bottom = doc.page.height - doc.page.margins.bottom;
+    let y = 0;
+
+    const drawColumnHeader = () => {
+      drawHeader();
+      y = doc.y;
+      doc.font('Helvetica-Bold').fontSize(8).fillColor('#1A1A2E');
+      const lines = [
+        report.columns.map(c => String(c.fyWeek)),
+        report.columns.map(c => c.month),
+        report.columns.map(c => fmtDate(c.weekEnding)),
+      ];
+      lines.forEach((cells, li) => {
+        cells.forEach((cell, i) => {
+          doc.text(cell, left + labelW + totalW + i * weekW, y + li * 11, { width: weekW - 4, align: 'right', lineBreak: false });
+        });
+      });
+      y += 36;
+      doc.moveTo(left, y - 2).lineTo(left + contentW, y - 2).strokeColor('#1A1A2E').lineWidth(1).stroke();
+    };
+
+    const TONE_FILL = { good: '#C6EFCE', bad: '#FFC7CE' };
+    const TONE_TEXT = { good: '#006100', bad: '#9C0006' };
+    const toneOf = (row: ReportRow, val: number | null) => {
+      if (!row.tone || val == null) return null;
+      const good = row.tone === 'target' ? val >= 100 : val >= 0;
+      return good ? 'good' : 'bad';
+    };
+
+    const drawCell = (text: string, x: number, width: number, row: ReportRow, val: number | null) => {
+      const tone = toneOf(row, val);
+      if (tone) doc.rect(x, y, width, rowH).fill(TONE_FILL[tone]);
+      doc.fillColor(tone ? TONE_TEXT[tone] : '#1A1A2E')
+        .text(text, x + 2, y + 3.5, { width: width - 6, align: 'right', lineBreak: false });
+    };
+
+    doc.addPage();
+    drawColumnHeader();
+
+    for (const section of report.sections) {
+      // Keep a section's title with at least its first two rows
+      if (y + rowH * 3 > bottom) {
+        doc.addPage();
+        drawColumnHeader();
+      }
+      doc.rect(left, y, contentW, rowH).fill('#D9D9D9');
+      doc.fillColor('#1A1A2E').font('Helvetica-Bold').fontSize(8)
+        .text(section.title.toUpperCase(), left + 3, y + 3.5, { width: labelW - 6, lineBreak: false })
+        .text(section.totalLabel, left + labelW + 2, y + 3.5, { width: totalW - 6, align: 'right', lineBreak: false });
+      y += rowH;
+
+      for (const row of section.rows) {
+        if (y + rowH > bottom) {
+          doc.addPage();
+          drawColumnHeader();
+        }
+        if (section.colour) doc.rect(left, y, labelW, rowH).fill(section.colour);
+        doc.font(row.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8)
+          .fillColor(section.colour ? '#FFFFFF' : '#1A1A2E')
+          .text(row.label, left + 3, y + 3.5, { width: labelW - 6, lineBreak: false });
+        drawCell(formatValue(row.total, row.format), left + labelW, totalW, row, row.total);
+        row.values.forEach((val, i) => {
+          drawCell(formatValue(val, row.format), left + labelW + totalW + i * weekW, weekW, row, val);
+        });
+        doc.moveTo(left, y + rowH).lineTo(left + contentW, y + rowH).strokeColor('#EEEEEE').lineWidth(0.5).stroke();
+        y += rowH;
+      }
+    }
+
+    doc.end();
+  }
+}
@@ -0,0 +1,256 @@
+import { Cron } from 'croner';
+import prisma from '../db.js';
+import { SettingsService, type SettingValue } from './SettingsService.js';
+import { XeroService } from './XeroService.js';
+import { AlertService } from './AlertService.js';
+import { DigestService } from './DigestService.js';
+import { UploadSessionService } from './UploadSessionService.js';
+import type { JobTrigger } from '../generated/prisma/index.js';
+
+export interface JobResult {
+  recordsAffected: number;
+  /** Short summary shown in the run history */
+  message?: string;
+}
+
+export interface JobDefinition {
+  id: string;
+  name: string;
+  description: string;
+  defaultCron: string;
+  /** A run still going after this long is treated as abandoned */
+  timeoutMinutes: number;
+  run: () => Promise<JobResult>;
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Most recent completed week: the Saturday on or before today.
+ */
+function lastCompletedWeek(): Date {
+  const d = new Date();
+  d.setUTCHours(0, 0, 0, 0);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 1) % 7));
+  return d;
+}
+
+const JOBS: JobDefinition[] = [
+  {
+    id: 'xero_sync',
+    name: 'Xero data refresh',
+    description: 'Pulls P&L, invoices and bank balances for the last completed week from Xero',
+    defaultCron: '0 6 * * *',
+    timeoutMinutes: 30,
+    run: async () => {
+      const status = await XeroService.getStatus();
+      if (!status.connected) return { recordsAffected: 0, message: 'Skipped: Xero is not connected' };
+
+      const week = lastCompletedWeek();
+      const results = await XeroService.syncWeek(week);
+      const warnings = results.flatMap((r) => r.warnings);
+
+      // As after an import: the synced week may raise alerts, or complete it for the digest
+      await AlertService.evaluateWeeks([week]).catch((err) => {
+        console.error('[Alerts] Evaluation after Xero sync failed:', err);
+      });
+      await DigestService.sendIfReady([week]).catch((err) => {
+        console.error('[Digest] Send after Xero sync failed:', err);
+      });
+
+      return {
+        recordsAffected: results.reduce((sum, r) => sum + r.rowsWritten, 0),
+        message: `Synced week ending ${results[0]?.weekEnding ?? '—'}`
+          + (warnings.length > 0 ? ` with ${warnings.length} warning(s): ${warnings.join('; ')}` : ''),
+      };
+    },
+  },
+  {
+    id: 'alerts',
+    name: 'Alert evaluation',
+    description: 'Checks the alert thresholds against the last completed week',
+    defaultCron: '30 6 * * *',
+    timeoutMinutes: 10,
+    run: async () => {
+      const result = await AlertService.evaluateWeek(lastCompletedWeek());
+      return {
+        recordsAffected: result.created + result.resolved,
+        message: `Week ending ${result.weekEnding}: ${result.active} active, ${result.created} new, ${result.resolved} resolved`,
+      };
+    },
+  },
+  {
+    id: 'upload_session_cleanup',
+    name: 'Upload session cleanup',
+    description: 'Deletes expired upload sessions and the files they hold',
+    defaultCron: '15 * * * *',
+    timeoutMinutes: 5,
+    run: async () => {
+      const deleted = await UploadSessionService.purgeExpired();
+      return { recordsAffected: deleted, message: `Deleted ${deleted} expired session(s)` };
+    },
+  },
+];
+
+// ─── Scheduler state ──────────────────────────────────────────────────────────
+
+const crons = new Map<string, Cron>();
+
+/** The stored override for a job, or its built-in default */
+function scheduleFor(job: JobDefinition, overrides: SettingValue<'job_schedules'>['jobs']) {
+  return overrides[job.id] ?? { cron: job.defaultCron, enabled: true };
+}
+
+export class SchedulerService {
+  static getJob(jobId: string): JobDefinition | undefined {
+    return JOBS.find((j) => j.id === jobId);
+  }
+
+  /**
+   * (Re)load schedules from the job_schedules setting and arm a cron for each
+   * enabled job. Call again after the setting changes.
+   */
+  static async start(): Promise<void> {
+    this.stop();
+    const { timezone, jobs } = await SettingsService.get('job_schedules');
+
+    for (const job of JOBS) {
+      const schedule = scheduleFor(job, jobs);
+      if (!schedule.enabled) continue;
+
+      crons.set(job.id, new Cron(schedule.cron, { timezone, name: job.id }, async () => {
+        try {
+          await this.trigger(job.id, 'schedule');
+        } catch (err) {
+          console.error(`[Scheduler] ${job.id} did not start: ${(err as Error).message}`);
+        }
+      }));
+    }
+    console.log(`[Scheduler] ${crons.size} job(s) scheduled (${timezone})`);
+  }
+
+  static stop(): void {
+    for (const cron of crons.values()) cron.stop();
+    crons.clear();
+  }
+
+  /**
+   * Every job with its effective schedule, next run and latest run.
+   */
+  static async listJobs() {
+    const { timezone, jobs } = await SettingsService.get('job_schedules');
+    const [latestRuns, locks] = await Promise.all([
+      Promise.all(JOBS.map((job) => prisma.jobRun.findFirst({
+        where: { jobId: job.id },
+        orderBy: { startedAt: 'desc' },
+      }))),
+      prisma.jobLock.findMany({ where: { expiresAt: { gt: new Date() } } }),
+    ]);
+
+    return JOBS.map((job, i) => {
+      const schedule = scheduleFor(job, jobs);
+      return {
+        id: job.id,
+        name: job.name,
+        description: job.description,
+        cron: schedule.cron,
+        defaultCron: job.defaultCron,
+        enabled: schedule.enabled,
+        timezone,
+        nextRunAt: crons.get(job.id)?.nextRun() ?? null,
+        running: locks.some((l) => l.jobId === job.id),
+        lastRun: latestRuns[i],
+      };
+    });
+  }
+
+  /**
+   * Recent runs, newest first.
+   */
+  static async getRuns(filters: { jobId?: string; limit?: number } = {}) {
+    return prisma.jobRun.findMany({
+      where: filters.jobId ? { jobId: filters.jobId } : {},
+      orderBy: { startedAt: 'desc' },
+      take: filters.limit ?? 50,
+    });
+  }
+
+  /**
+   * Start a job in the background and return its run record. A manual
+   * trigger throws while the job is already running; either way the attempt
+   * is recorded as a skipped run.
+   */
+  static async trigger(jobId: string, trigger: JobTrigger, triggeredBy?: string) {
+    const job = this.getJob(jobId);
+    if (!job) throw new Error(`Job not found: ${jobId}`);
+
+    const run = await prisma.jobRun.create({ data: { jobId, trigger, triggeredBy } });
+
+    if (!(await this.acquireLock(job, run.id))) {
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: 'skipped', finishedAt: new Date(), message: 'Previous run still in progress' },
+      });
+      if (trigger === 'manual') throw new Error(`Job already running: ${jobId}`);
+      return prisma.jobRun.findUniqueOrThrow({ where: { id: run.id } });
+    }
+
+    // Not awaited: the caller gets the run id and polls the history
+    void this.execute(job, run.id);
+    return run;
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private static async execute(job: JobDefinition, runId: number): Promise<void> {
+    try {
+      const result = await job.run();
+      await prisma.jobRun.update({
+        where: { id: runId },
+        data: {
+          status: 'succeeded',
+          finishedAt: new Date(),
+          recordsAffected: result.recordsAffected,
+          message: result.message ?? null,
+        },
+      });
+    } catch (err) {
+      console.error(`[Scheduler] ${job.id} run ${runId} failed:`, err);
+      await prisma.jobRun.update({
+        where: { id: runId },
+        data: { status: 'failed', finishedAt: new Date(), error: (err as Error).message },
+      }).catch(() => undefined);
+    } finally {
+      await prisma.jobLock.deleteMany({ where: { jobId: job.id, runId } }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Take the job's lock row. An expired lock belongs to a run that crashed or
+   * hung, so it is cleared and that run marked failed.
+   */
+  private static async acquireLock(job: JobDefinition, runId: number): Promise<boolean> {
+    const now = new Date();
+    const stale = await prisma.jobLock.findFirst({ where: { jobId: job.id, expiresAt: { lte: now } } });
+    if (stale) {
+      await prisma.$transaction([
+        prisma.jobLock.deleteMany({ where: { jobId: job.id, runId: stale.runId } }),
+        prisma.jobRun.updateMany({
+          where: { id: stale.runId, status: 'running' },
+          data: { status: 'failed', finishedAt: now, error: 'Abandoned: timed out or the server restarted' },
+        }),
+      ]);
+    }
+
+    try {
+      await prisma.jobLock.create({
+        data: { jobId: job.id, runId, expiresAt: new Date(now.getTime() + job.timeoutMinutes * 60_000) },
+      });
+      return true;
+    } catch (err: any) {
+      // Unique violation: another run holds the lock
+      if (err.code === 'P2002') return false;
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { CronPattern } from 'croner';
+import prisma from '../db.js';
+import { DataTypeRegistry } from './DataTypeRegistry.js';
+
+const hexColour = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Colour must be a hex value like #4573D2');
+
+function isValid(check: () => unknown): boolean {
+  try {
+    check();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const cronExpression = z.string().trim().refine(
+  (val) => isValid(() => new CronPattern(val)),
+  'Must be a cron expression like "0 6 * * *"',
+);
+
+const timeZone = z.string().refine(
+  (val) => isValid(() => new Intl.DateTimeFormat('en-AU', { timeZone: val })),
+  'Must be an IANA time zone like Australia/Brisbane',
+);
+
+/**
+ * One zod schema per setting key. Each schema carries the default used when
+ * no row exists, so callers always get a complete, typed value.
+ */
+export const SETTING_SCHEMAS = {
+  branding: z.object({
+    companyName: z.string().trim().min(1).max(120),
+    logoUrl: z.string().url().nullable().default(null),
+    primaryColour: hexColour,
+    accentColour: hexColour,
+  }).default({
+    companyName: 'Buildable Approvals Pty Ltd',
+    logoUrl: null,
+    primaryColour: '#4573D2',
+    accentColour: '#6AAF50',
+  }),
+
+  /** Revenue categories stripped from revenue when the Net Revenue toggle is on. */
+  pass_through_categories: z.array(z.string().trim().min(1)).default(['council_fees']),
+
+  alert_thresholds: z.object({
+    netProfitBelowBudgetWeeks: z.number().int().min(1).max(12),
+    teamBelowTargetPercent: z.number().min(0).max(100),
+    conversionBelowAverage: z.boolean().default(true),
+    cashNearOverdraftAmount: z.number().min(0),
+  }).default({
+    netProfitBelowBudgetWeeks: 2,
+    teamBelowTargetPercent: 50,
+    conversionBelowAverage: true,
+    cashNearOverdraftAmount: 50000,
+  }),
+
+  /**
+   * Import-time check of each numeric value against the same series' recent
+   * history. Values beyond the z-score or the % band from the median are
+   * flagged; those off by the acknowledge factor (e.g. cents vs dollars)
+   * must be acknowledged before the import.
+   */
+  outlier_detection: z.object({
+    enabled: z.boolean(),
+    historyWeeks: z.number().int().min(4).max(52),
+    zScore: z.number().min(1).max(10),
+    percentBand: z.number().min(1).max(1000),
+    acknowledgeFactor: z.number().min(2).max(1000),
+  }).default({
+    enabled: true,
+    historyWeeks: 13,
+    zScore: 3,
+    percentBand: 75,
+    acknowledgeFactor: 5,
+  }),
+
+  /** Australian financial year runs July–June. */
+  fiscal_year_start: z.object({
+    month: z.number().int().min(1).max(12),
+    day: z.number().int().min(1).max(28),
+  }).default({ month: 7, day: 1 }),
+
+  default_trend_window: z.union([z.literal(13), z.literal(26), z.literal(52)]).default(13),
+
+  /** Per-job schedule overrides; jobs not listed run on their built-in default. */
+  job_schedules: z.object({
+    timezone: timeZone,
+    jobs: z.record(z.string(), z.object({
+      cron: cronExpression,
+      enabled: z.boolean(),
+    })),
+  }).default({ timezone: 'Australia/Brisbane', jobs: {} }),
+
+  /**
+   * Weekly email digest. It goes out automatically once every required data
+   * type has been imported for the week.
+   */
+  digest: z.object({
+    enabled: z.boolean(),
+    recipients: z.array(z.string().trim().email()).max(50),
+    requiredDataTypes: z.array(z.string().refine(
+      (id) => DataTypeRegistry.getTableTypes().some((dt) => dt.id === id),
+      (id) => ({ message: `Unknown data type "${id}"` }),
+    )).min(1),
+  }).default({
+    enabled: false,
+    recipients: [],
+    requiredDataTypes: [
+      'financial_pl',
+      'projects_residential',
+      'projects_commercial',
+      'projects_retrospective',
+      'sales_residential',
+      'sales_commercial',
+      'sales_retrospective',
+      'team_performance',
+      'lead_sources',
+    ],
+  }),
+};
+
+export type SettingKey = keyof typeof SETTING_SCHEMAS;
+export type SettingValue<K extends SettingKey> = z.infer<(typeof SETTING_SCHEMAS)[K]>;
+
+export const SETTING_KEYS = Object.keys(SETTING_SCHEMAS) as SettingKey[];
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTING_SCHEMAS, key);
+}
+
+export class SettingsService {
+  /**
+   * Returns the stored value for a key, or its default when unset. A stored
+   * value that no longer matches the schema falls back to the default.
+   */
+  static async get<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+    const schema = SETTING_SCHEMAS[key];
+    const row = await prisma.setting.findUnique({ where: { key } });
+    if (row) {
+      const parsed = schema.safeParse(row.value);
+      if (parsed.success) return parsed.data as SettingValue<K>;
+      console.warn(`[Settings] Stored value for "${key}" is invalid; using default`);
+    }
+    return schema.parse(undefined) as SettingValue<K>;
+  }
+
+  /**
+   * Returns every known setting with its effective value and whether it is
+   * still on the default.
+   */
+  static async getAll() {
+    const rows = await prisma.setting.findMany({ where: { key: { in: SETTING_KEYS } } });
+    const byKey = new Map(rows.map((r) => [r.key, r]));
+
+    return SETTING_KEYS.map((key) => {
+      const schema = SETTING_SCHEMAS[key];
+      const row = byKey.get(key);
+      const parsed = row ? schema.safeParse(row.value) : null;
+      return {
+        key,
+        value: parsed?.success ? parsed.data : schema.parse(undefined),
+        isDefault: !parsed?.success,
+        updatedAt: row?.updatedAt ?? null,
+      };
+    });
+  }
+
+  /**
+   * Validates and stores a value, recording the change in the audit log.
+   * Callers should validate with `SETTING_SCHEMAS[key]` first to surface errors.
+   */
+  static async set<K extends SettingKey>(key: K, value: unknown, changedBy?: string) {
+    const parsed = SETTING_SCHEMAS[key].parse(value) as SettingValue<K>;
+
+    return prisma.$transaction(async (tx) => {
+      const previous = await tx.setting.findUnique({ where: { key } });
+
+      const saved = await tx.setting.upsert({
+        where: { key },
+        update: { value: parsed },
+        create: { key, value: parsed },
+      });
+
+      await tx.settingAuditLog.create({
+        data: {
+          key,
+          action: 'update',
+          previousValue: previous?.value ?? undefined,
+          newValue: parsed,
+          changedBy,
+        },
+      });
+
+      return { key, value: parsed, isDefault: false, updatedAt: saved.updatedAt };
+    });
+  }
+
+  /**
+   * Removes the stored value so the key reverts to its default.
+   */
+  static async reset<K extends SettingKey>(key: K, changedBy?: string) {
+    await prisma.$transaction(async (tx) => {
+      const previous = await tx.setting.findUnique({ where: { key } });
+      if (!previous) return;
+
+      await tx.setting.delete({ where: { key } });
+      await tx.settingAuditLog.create({
+        data: {
+          key,
+          action: 'reset',
+          previousValue: previous.value ?? undefined,
+          changedBy,
+        },
+      });
+    });
+
+    return { key, value: SETTING_SCHEMAS[key].parse(undefined), isDefault: true, updatedAt: null };
+  }
+
+  /**
+   * Returns the most recent audit entries, newest first.
+   */
+  static async getAuditLog(filters: { key?: SettingKey; limit?: number } = {}) {
+    return prisma.settingAuditLog.findMany({
+      where: filters.key ? { key: filters.key } : {},
+      orderBy: { changedAt: 'desc' },
+      take: filters.limit ?? 100,
+    });
+  }
+}
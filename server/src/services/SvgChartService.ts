@@ -0,0 +1,172 @@
+export interface ChartSeries {
+  name: string;
+  colour: string;
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+interface ChartOptions {
+  title: string;
+  labels: string[];
+  width?: number;
+  height?: number;
+  formatValue?: (val: number) => string;
+}
+
+const FONT = 'font-family="Helvetica" font-size="9" fill="#6B7280"';
+const PAD = { top: 28, right: 12, bottom: 30, left: 52 };
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function compactCurrency(val: number): string {
+  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}k`;
+  return `$${val.toFixed(0)}`;
+}
+
+/**
+ * Round the value range out to "nice" gridline steps so axis ticks land on
+ * readable numbers. Always includes zero.
+ */
+function niceScale(min: number, max: number, ticks = 4) {
+  const lo = Math.min(0, min);
+  const hi = Math.max(0, max);
+  const span = hi - lo || 1;
+  const raw = span / ticks;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  return {
+    min: Math.floor(lo / step) * step,
+    max: Math.ceil(hi / step) * step,
+    step,
+  };
+}
+
+/**
+ * Renders simple, dependency-free SVG charts for the PDF report and email
+ * digest. Output is plain SVG markup; the PDF renderer draws it as vectors.
+ */
+export class SvgChartService {
+  /**
+   * Multi-series line chart. Null values break the line.
+   */
+  static lineChart(options: ChartOptions & { series: ChartSeries[] }): string {
+    const { title, labels, series, width = 400, height = 200, formatValue = compactCurrency } = options;
+    const plotW = width - PAD.left - PAD.right;
+    const plotH = height - PAD.top - PAD.bottom;
+
+    const all = series.flatMap(s => s.values).filter((v): v is number => v != null);
+    const scale = niceScale(Math.min(...all, 0), Math.max(...all, 0));
+    const x = (i: number) => PAD.left + (labels.length > 1 ? (i / (labels.length - 1)) * plotW : plotW / 2);
+    const y = (v: number) => PAD.top + plotH - ((v - scale.min) / (scale.max - scale.min || 1)) * plotH;
+
+    const parts: string[] = [this.frame(title, width, height)];
+    parts.push(this.yAxis(scale, y, width, formatValue));
+    parts.push(this.xLabels(labels, x, height));
+
+    for (const s of series) {
+      const segments: string[][] = [[]];
+      s.values.forEach((v, i) => {
+        if (v == null) segments.push([]);
+        else segments[segments.length - 1].push(`${x(i).toFixed(1)},${y(v).toFixed(1)}`);
+      });
+      for (const points of segments.filter(p => p.length > 0)) {
+        parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="${s.colour}" stroke-width="1.5"${s.dashed ? ' stroke-dasharray="4 3"' : ''} />`);
+      }
+    }
+
+    parts.push(this.legend(series, width));
+    parts.push('</svg>');
+    return parts.join('');
+  }
+
+  /**
+   * Single-series bar chart with optional per-bar colours and a horizontal
+   * reference line (e.g. 100% of target).
+   */
+  static barChart(options: ChartOptions & {
+    values: (number | null)[];
+    colours?: string[];
+    colour?: string;
+    referenceLine?: { value: number; label: string };
+  }): string {
+    const { title, labels, values, colours, colour = '#4573D2', referenceLine, width = 400, height = 200, formatValue = compactCurrency } = options;
+    const plotW = width - PAD.left - PAD.right;
+    const plotH = height - PAD.top - PAD.bottom;
+
+    const all = values.filter((v): v is number => v != null);
+    if (referenceLine) all.push(referenceLine.value);
+    const scale = niceScale(Math.min(...all, 0), Math.max(...all, 0));
+    const band = plotW / Math.max(labels.length, 1);
+    const x = (i: number) => PAD.left + band * i + band / 2;
+    const y = (v: number) => PAD.top + plotH - ((v - scale.min) / (scale.max - scale.min || 1)) * plotH;
+
+    const parts: string[] = [this.frame(title, width, height)];
+    parts.push(this.yAxis(scale, y, width, formatValue));
+    parts.push(this.xLabels(labels, x, height));
+
+    const barW = Math.min(band * 0.6, 40);
+    values.forEach((v, i) => {
+      if (v == null) return;
+      const top = Math.min(y(v), y(0));
+      const h = Math.abs(y(v) - y(0));
+      parts.push(`<rect x="${(x(i) - barW / 2).toFixed(1)}" y="${top.toFixed(1)}" width="${barW.toFixed(1)}" height="${h.toFixed(1)}" fill="${colours?.[i] ?? colour}" />`);
+    });
+
+    if (referenceLine) {
+      const ry = y(referenceLine.value).toFixed(1);
+      parts.push(`<line x1="${PAD.left}" y1="${ry}" x2="${width - PAD.right}" y2="${ry}" stroke="#1A1A2E" stroke-width="1" stroke-dasharray="4 3" />`);
+      parts.push(`<text x="${width - PAD.right}" y="${Number(ry) - 3}" text-anchor="end" ${FONT}>${escapeXml(referenceLine.label)}</text>`);
+    }
+
+    parts.push('</svg>');
+    return parts.join('');
+  }
+
+  // ─── Shared pieces ────────────────────────────────────────────────────────
+
+  private static frame(title: string, width: number, height: number): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<text x="0" y="12" font-family="Helvetica-Bold" font-size="11" fill="#1A1A2E">${escapeXml(title)}</text>`;
+  }
+
+  private static yAxis(
+    scale: { min: number; max: number; step: number },
+    y: (v: number) => number,
+    width: number,
+    formatValue: (val: number) => string,
+  ): string {
+    const parts: string[] = [];
+    for (let v = scale.min; v <= scale.max + scale.step / 2; v += scale.step) {
+      const gy = y(v).toFixed(1);
+      parts.push(`<line x1="${PAD.left}" y1="${gy}" x2="${width - PAD.right}" y2="${gy}" stroke="${v === 0 ? '#D1D5DB' : '#F3F4F6'}" stroke-width="1" />`);
+      parts.push(`<text x="${PAD.left - 4}" y="${Number(gy) + 3}" text-anchor="end" ${FONT}>${escapeXml(formatValue(v))}</text>`);
+    }
+    return parts.join('');
+  }
+
+  private static xLabels(labels: string[], x: (i: number) => number, height: number): string {
+    // Thin out labels so they never overlap on long windows
+    const every = Math.ceil(labels.length / 13);
+    return labels
+      .map((label, i) => (i % every === 0
+        ? `<text x="${x(i).toFixed(1)}" y="${height - PAD.bottom + 12}" text-anchor="middle" ${FONT}>${escapeXml(label)}</text>`
+        : ''))
+      .join('');
+  }
+
+  private static legend(series: ChartSeries[], width: number): string {
+    let lx = width - PAD.right;
+    const parts: string[] = [];
+    for (const s of [...series].reverse()) {
+      const textW = s.name.length * 4.6;
+      lx -= textW;
+      parts.push(`<text x="${lx.toFixed(1)}" y="12" ${FONT}>${escapeXml(s.name)}</text>`);
+      lx -= 14;
+      parts.push(`<line x1="${lx.toFixed(1)}" y1="9" x2="${(lx + 10).toFixed(1)}" y2="9" stroke="${s.colour}" stroke-width="2"${s.dashed ? ' stroke-dasharray="3 2"' : ''} />`);
+      lx -= 10;
+    }
+    return parts.join('');
+  }
+}
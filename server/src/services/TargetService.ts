@@ -1,5 +1,14 @@
 import prisma from '../db.js';
-import type { TargetType, Region } from '../generated/prisma/index.js';
+import type { TargetType, Region, Prisma } from '../generated/prisma/index.js';
+
+interface TargetInput {
+  targetType: TargetType;
+  entity?: Region | null;
+  amount: number;
+  effectiveFrom: Date;
+  setBy?: string;
+  notes?: string;
+}
 
 export class TargetService {
   /**
@@ -54,16 +63,43 @@ export class TargetService {
   /**
    * Creates a new target, closing the previous one's effective_to date.
    */
-  static async createTarget(data: {
-    targetType: TargetType;
-    entity?: Region | null;
-    amount: number;
+  static async createTarget(data: TargetInput) {
+    return prisma.$transaction((tx) => this.supersede(tx, data));
+  }
+
+  /**
+   * Sets every team_revenue region target in a single transaction. Either all
+   * regions move to the new amounts from effectiveFrom, or none do.
+   */
+  static async bulkUpdateTeamTargets(data: {
+    targets: { entity: Region; amount: number }[];
     effectiveFrom: Date;
     setBy?: string;
     notes?: string;
   }) {
+    return prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const t of data.targets) {
+        created.push(await this.supersede(tx, {
+          targetType: 'team_revenue',
+          entity: t.entity,
+          amount: t.amount,
+          effectiveFrom: data.effectiveFrom,
+          setBy: data.setBy,
+          notes: data.notes,
+        }));
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Closes the open target for the same type/entity (recording history) and
+   * inserts the replacement. Runs inside the caller's transaction.
+   */
+  private static async supersede(tx: Prisma.TransactionClient, data: TargetInput) {
     // Find the currently active target of same type/entity
-    const previous = await prisma.target.findFirst({
+    const previous = await tx.target.findFirst({
       where: {
         targetType: data.targetType,
         entity: data.entity ?? null,
@@ -72,40 +108,44 @@ export class TargetService {
       orderBy: { effectiveFrom: 'desc' },
     });
 
-    return prisma.$transaction(async (tx) => {
-      // Close previous target
-      if (previous) {
-        const effectiveTo = new Date(data.effectiveFrom);
-        effectiveTo.setUTCDate(effectiveTo.getUTCDate() - 1);
-
-        await tx.target.update({
-          where: { id: previous.id },
-          data: { effectiveTo },
-        });
-
-        // Record history
-        await tx.targetHistory.create({
-          data: {
-            targetId: previous.id,
-            previousAmount: previous.amount,
-            newAmount: data.amount,
-            changedBy: data.setBy,
-            notes: data.notes,
-          },
-        });
+    // Close previous target
+    if (previous) {
+      if (data.effectiveFrom <= previous.effectiveFrom) {
+        throw new Error(
+          `effectiveFrom must be after the current target's effective date (${previous.effectiveFrom.toISOString().split('T')[0]})`,
+        );
       }
 
-      // Create new target
-      return tx.target.create({
+      const effectiveTo = new Date(data.effectiveFrom);
+      effectiveTo.setUTCDate(effectiveTo.getUTCDate() - 1);
+
+      await tx.target.update({
+        where: { id: previous.id },
+        data: { effectiveTo },
+      });
+
+      // Record history
+      await tx.targetHistory.create({
         data: {
-          targetType: data.targetType,
-          entity: data.entity ?? null,
-          amount: data.amount,
-          effectiveFrom: data.effectiveFrom,
-          setBy: data.setBy,
+          targetId: previous.id,
+          previousAmount: previous.amount,
+          newAmount: data.amount,
+          changedBy: data.setBy,
           notes: data.notes,
         },
       });
+    }
+
+    // Create new target
+    return tx.target.create({
+      data: {
+        targetType: data.targetType,
+        entity: data.entity ?? null,
+        amount: data.amount,
+        effectiveFrom: data.effectiveFrom,
+        setBy: data.setBy,
+        notes: data.notes,
+      },
     });
   }
 
@@ -143,4 +183,79 @@ export class TargetService {
     });
     return targets;
   }
+
+  /**
+   * Shows how % to target would have looked over the last `weeks` weeks had
+   * each proposed amount applied, alongside the targets that actually applied.
+   */
+  static async previewImpact(
+    targetType: TargetType,
+    proposals: { entity: Region | null; amount: number }[],
+    weekEnding: Date,
+    weeks = 8,
+  ) {
+    const weekDates: Date[] = [];
+    for (let i = weeks - 1; i >= 0; i--) {
+      const d = new Date(weekEnding);
+      d.setUTCDate(d.getUTCDate() - i * 7);
+      weekDates.push(d);
+    }
+
+    return Promise.all(proposals.map(async ({ entity, amount }) => {
+      const actuals = await this.getActuals(targetType, weekDates, entity);
+
+      const rows = await Promise.all(weekDates.map(async (week) => {
+        const key = week.toISOString().split('T')[0];
+        const current = await this.getTargetForWeek(targetType, week, entity);
+        const actual = actuals.get(key) ?? null;
+        const currentTarget = current ? Number(current.amount) : null;
+
+        return {
+          weekEnding: key,
+          actual,
+          currentTarget,
+          currentPct: actual != null && currentTarget ? Number(((actual / currentTarget) * 100).toFixed(1)) : null,
+          proposedTarget: amount,
+          proposedPct: actual != null && amount > 0 ? Number(((actual / amount) * 100).toFixed(1)) : null,
+        };
+      }));
+
+      return { targetType, entity, proposedAmount: amount, weeks: rows };
+    }));
+  }
+
+  /**
+   * Actual values each target type is measured against, keyed by week ending.
+   */
+  private static async getActuals(targetType: TargetType, weekDates: Date[], entity: Region | null) {
+    const range = { gte: weekDates[0], lte: weekDates[weekDates.length - 1] };
+    const actuals = new Map<string, number>();
+    const key = (d: Date) => d.toISOString().split('T')[0];
+
+    switch (targetType) {
+      case 'net_profit':
+      case 'breakeven': {
+        const rows = await prisma.financialWeekly.findMany({ where: { weekEnding: range } });
+        for (const r of rows) {
+          actuals.set(key(r.weekEnding), Number(targetType === 'net_profit' ? r.netProfit : r.totalTradingIncome));
+        }
+        break;
+      }
+      case 'residential_revenue':
+      case 'commercial_revenue':
+      case 'retrospective_revenue': {
+        const projectType = targetType.replace('_revenue', '') as 'residential' | 'commercial' | 'retrospective';
+        const rows = await prisma.projectsWeekly.findMany({ where: { weekEnding: range, projectType } });
+        for (const r of rows) actuals.set(key(r.weekEnding), Number(r.xeroInvoicedAmount));
+        break;
+      }
+      case 'team_revenue': {
+        if (!entity) break;
+        const rows = await prisma.teamPerformanceWeekly.findMany({ where: { weekEnding: range, region: entity } });
+        for (const r of rows) actuals.set(key(r.weekEnding), Number(r.actualInvoiced));
+        break;
+      }
+    }
+    return actuals;
+  }
 }
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import prisma from '../db.js';
+import { parseCsv, detectLayout, unpivotWeeks, type FileLayout, type ParseResult, type RowValidation } from './CsvParserService.js';
+import { parseXlsx } from './XlsxParserService.js';
+import { Prisma, type UploadSession } from '../generated/prisma/client.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ParseOptions {
+  sheet?: string;
+  headerRow?: number;
+  /** Detected from the headers when omitted */
+  layout?: FileLayout;
+  /** Wide layout: column holding the metric labels */
+  labelColumn?: string;
+}
+
+export interface UploadedFile {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+/** An earlier completed import of the same file contents */
+export interface PreviousUpload {
+  id: number;
+  fileName: string;
+  dataType: string;
+  uploadedBy: string | null;
+  createdAt: Date;
+}
+
+export interface ValidatedSession {
+  session: UploadSession;
+  rows: RowValidation[];
+}
+
+/** Sessions not imported within this window are discarded */
+const SESSION_TTL_HOURS = 24;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isXlsx(file: { name: string; mimeType: string }): boolean {
+  return file.name.toLowerCase().endsWith('.xlsx')
+    || file.mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+}
+
+/**
+ * Parse CSV/XLSX contents. Wide files (weeks as columns, metrics as rows) are
+ * unpivoted to one record per week.
+ */
+async function parseFile(file: UploadedFile, options: ParseOptions): Promise<ParseResult> {
+  let result = isXlsx(file) ? await parseXlsx(file.buffer, options) : parseCsv(file.buffer, options);
+  if ((options.layout ?? detectLayout(result.headers)) === 'wide') {
+    result = unpivotWeeks(result, options.labelColumn);
+  }
+  return result;
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class UploadSessionService {
+  /**
+   * Parse a newly uploaded file and keep it, with its parse result, until the
+   * import. Also returns earlier imports of the same file contents.
+   */
+  static async create(file: UploadedFile, options: ParseOptions, createdBy?: string) {
+    const result = await parseFile(file, options);
+    const fileHash = createHash('sha256').update(file.buffer).digest('hex');
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        fileName: file.name,
+        fileSize: file.buffer.length,
+        fileHash,
+        mimeType: file.mimeType,
+        fileData: new Uint8Array(file.buffer),
+        parseOptions: options as any,
+        parseResult: result as any,
+        createdBy: createdBy ?? null,
+        expiresAt: new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+
+    return { session, result, previousUploads: await this.findPreviousUploads(fileHash) };
+  }
+
+  /** Throws when the session doesn't exist or has expired. */
+  static async get(id: string): Promise<UploadSession> {
+    const session = await prisma.uploadSession.findUnique({ where: { id } });
+    if (!session) throw new Error('Upload session not found');
+    if (session.expiresAt < new Date()) {
+      await prisma.uploadSession.delete({ where: { id } }).catch(() => {});
+      throw new Error('Upload session has expired. Upload the file again.');
+    }
+    return session;
+  }
+
+  /**
+   * Re-read the stored file with different options (sheet, header row,
+   * layout). Any earlier mapping and validation no longer apply.
+   */
+  static async reparse(id: string, options: ParseOptions) {
+    const session = await this.get(id);
+    const result = await parseFile(
+      { name: session.fileName, mimeType: session.mimeType, buffer: Buffer.from(session.fileData) },
+      options,
+    );
+
+    const updated = await prisma.uploadSession.update({
+      where: { id },
+      data: {
+        parseOptions: options as any,
+        parseResult: result as any,
+        dataTypeId: null,
+        mapping: Prisma.DbNull,
+        validatedRows: Prisma.DbNull,
+      },
+    });
+    return { session: updated, result, previousUploads: await this.findPreviousUploads(session.fileHash) };
+  }
+
+  /** All non-blank rows from the latest parse. */
+  static getRows(session: UploadSession): Record<string, string>[] {
+    return (session.parseResult as unknown as ParseResult).rows;
+  }
+
+  static async saveValidation(id: string, dataTypeId: string, mapping: Record<string, string>, rows: RowValidation[]) {
+    await prisma.uploadSession.update({
+      where: { id },
+      data: { dataTypeId, mapping, validatedRows: rows as any },
+    });
+  }
+
+  /**
+   * The rows validated for a data type, ready to import. Throws when the
+   * session was never validated, or was validated as another data type.
+   */
+  static async getValidated(id: string, dataTypeId: string): Promise<ValidatedSession> {
+    const session = await this.get(id);
+    if (!session.validatedRows || session.dataTypeId !== dataTypeId) {
+      throw new Error('Upload session has not been validated for this data type');
+    }
+    return { session, rows: session.validatedRows as unknown as RowValidation[] };
+  }
+
+  static async close(id: string): Promise<void> {
+    await prisma.uploadSession.delete({ where: { id } }).catch(() => {});
+  }
+
+  /** Delete expired sessions, returning how many were removed. */
+  static async purgeExpired(): Promise<number> {
+    const result = await prisma.uploadSession.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    return result.count;
+  }
+
+  static async findPreviousUploads(fileHash: string): Promise<PreviousUpload[]> {
+    return prisma.csvUpload.findMany({
+      where: { fileHash, status: 'completed' },
+      select: { id: true, fileName: true, dataType: true, uploadedBy: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import prisma from '../db.js';
+import { ALL_PAGES, getRoleDefaultPermission } from '../middleware/permissions.js';
+import type { DashboardPage, PermissionLevel, Region, UserRole } from '../generated/prisma/index.js';
+
+const USER_ROLES: UserRole[] = ['super_admin', 'executive', 'manager', 'staff'];
+
+/** Email domain for dev-mode test accounts, so they are easy to spot and clean up. */
+const TEST_USER_DOMAIN = 'test.buildable.local';
+
+export class UserService {
+  /**
+   * Lists all users with their effective permission per page and whether each
+   * page is an explicit override or the role default.
+   */
+  static async listWithPermissions() {
+    const users = await prisma.user.findMany({
+      include: { permissions: true },
+      orderBy: [{ isActive: 'desc' }, { displayName: 'asc' }],
+    });
+    return users.map((u) => this.withMatrix(u));
+  }
+
+  static async getWithPermissions(id: number) {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      include: { permissions: true },
+    });
+    return user ? this.withMatrix(user) : null;
+  }
+
+  /**
+   * Pre-provisions a user by email. On first M365 sign-in the account is
+   * linked by email rather than duplicated.
+   */
+  static async create(data: {
+    email: string;
+    displayName: string;
+    role: UserRole;
+    team?: string | null;
+    region?: Region | null;
+  }) {
+    const existing = await prisma.user.findUnique({ where: { email: data.email } });
+    if (existing) throw new Error(`A user with email ${data.email} already exists`);
+
+    const user = await prisma.user.create({
+      data: { ...data, isActive: true },
+    });
+    return this.getWithPermissions(user.id);
+  }
+
+  static async update(id: number, data: {
+    displayName?: string;
+    role?: UserRole;
+    isActive?: boolean;
+    team?: string | null;
+    region?: Region | null;
+  }) {
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    await prisma.user.update({ where: { id }, data });
+    return this.getWithPermissions(id);
+  }
+
+  /**
+   * Sets explicit permission levels for the given pages. Pages not listed are
+   * left unchanged.
+   */
+  static async setPermissions(id: number, permissions: Partial<Record<DashboardPage, PermissionLevel>>) {
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    await prisma.$transaction(
+      Object.entries(permissions).map(([page, permissionLevel]) =>
+        prisma.userPermission.upsert({
+          where: { userId_page: { userId: id, page: page as DashboardPage } },
+          update: { permissionLevel: permissionLevel as PermissionLevel },
+          create: { userId: id, page: page as DashboardPage, permissionLevel: permissionLevel as PermissionLevel },
+        }),
+      ),
+    );
+    return this.getWithPermissions(id);
+  }
+
+  /**
+   * Removes every explicit permission so the user falls back to the defaults
+   * for their role.
+   */
+  static async resetPermissions(id: number) {
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    await prisma.userPermission.deleteMany({ where: { userId: id } });
+    return this.getWithPermissions(id);
+  }
+
+  /**
+   * Creates (or reactivates) one test account per role. Development only.
+   */
+  static async createTestUsers(roles: UserRole[] = USER_ROLES) {
+    const users = [];
+    for (const role of roles) {
+      const email = `${role.replace('_', '.')}@${TEST_USER_DOMAIN}`;
+      const label = role.split('_').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+      const user = await prisma.user.upsert({
+        where: { email },
+        update: { isActive: true, role },
+        create: { email, displayName: `Test ${label}`, role, isActive: true },
+      });
+      users.push(user);
+    }
+    return Promise.all(users.map((u) => this.getWithPermissions(u.id)));
+  }
+
+  private static withMatrix<T extends {
+    role: UserRole;
+    permissions: { page: DashboardPage; permissionLevel: PermissionLevel }[];
+  }>(user: T) {
+    const { permissions, ...rest } = user;
+    const explicit = new Map(permissions.map((p) => [p.page, p.permissionLevel]));
+
+    const matrix = ALL_PAGES.map((page) => {
+      const roleDefault = getRoleDefaultPermission(user.role, page);
+      const override = explicit.get(page);
+      return {
+        page,
+        level: override ?? roleDefault,
+        roleDefault,
+        isOverride: override !== undefined,
+      };
+    });
+
+    return { ...rest, permissions: matrix };
+  }
+}
@@ -0,0 +1,193 @@
+import prisma from '../db.js';
+import { escalateRow, type ValidationResult } from './CsvParserService.js';
+import type { DataTypeDefinition } from './DataTypeRegistry.js';
+import { ALL_REGIONS, REGION_LABELS, REVENUE_CATEGORY_LABELS, STAFF_ROLES, STAFF_ROLE_LABELS } from './DashboardService.js';
+import type { LeadSource, MarketingPlatform, ProjectType, SalesType } from '../generated/prisma/index.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A value in an enum column that matched neither a member nor a saved alias */
+export interface UnknownValue {
+  field: string;
+  label: string;
+  value: string;
+  rowIndexes: number[];
+  /** Closest members, best first */
+  suggestions: { value: string; label: string }[];
+  allowed: { value: string; label: string }[];
+}
+
+const PROJECT_TYPES: ProjectType[] = ['residential', 'commercial', 'retrospective'];
+const SALES_TYPES: SalesType[] = ['residential', 'commercial', 'retrospective'];
+const LEAD_SOURCES: LeadSource[] = ['google', 'seo', 'meta', 'bing', 'tiktok', 'other'];
+const MARKETING_PLATFORMS: MarketingPlatform[] = ['google_ads', 'meta_ads', 'bing_ads', 'tiktok_ads', 'seo'];
+
+/** Text fields backed by a database enum, keyed by dbField, with every member */
+export const ENUM_FIELDS: Record<string, readonly string[]> = {
+  region: ALL_REGIONS,
+  category: Object.keys(REVENUE_CATEGORY_LABELS),
+  projectType: PROJECT_TYPES,
+  salesType: SALES_TYPES,
+  source: LEAD_SOURCES,
+  platform: MARKETING_PLATFORMS,
+  role: STAFF_ROLES,
+};
+
+const MEMBER_LABELS: Record<string, Record<string, string>> = {
+  region: REGION_LABELS,
+  category: REVENUE_CATEGORY_LABELS,
+  role: STAFF_ROLE_LABELS,
+};
+
+const MAX_SUGGESTIONS = 3;
+const MIN_SUGGESTION_SCORE = 0.4;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** "Class 10a Sheds" → "class_10a_sheds"; how cells are compared and aliases stored */
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function memberLabel(field: string, member: string): string {
+  return MEMBER_LABELS[field]?.[member] ?? member.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity between 0 and 1: the better of edit distance and word overlap,
+ * where a word also matches its abbreviation ("resi" for "residential").
+ */
+function similarity(a: string, b: string): number {
+  const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+  const aWords = a.split('_').filter(Boolean);
+  const bWords = b.split('_').filter(Boolean);
+  const matches = aWords.filter((w) => bWords.some((v) => w === v || (Math.min(w.length, v.length) >= 3 && (w.startsWith(v) || v.startsWith(w)))));
+  const wordScore = (2 * matches.length) / Math.max(aWords.length + bWords.length, 1);
+
+  return Math.max(editScore, wordScore);
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class ValueAliasService {
+  /** Enum fields of a data type that a file can supply. Composite routing columns resolve their own values. */
+  static getEnumFields(dt: DataTypeDefinition) {
+    return dt.fields.filter((f) => ENUM_FIELDS[f.dbField] && f.dbField !== dt.composite?.routing?.field);
+  }
+
+  static async list(field?: string) {
+    return prisma.valueAlias.findMany({
+      where: field ? { field } : undefined,
+      orderBy: [{ field: 'asc' }, { alias: 'asc' }],
+    });
+  }
+
+  /**
+   * Save (or repoint) an alias. Throws when the field isn't an enum column
+   * or the value isn't one of its members.
+   */
+  static async remember(field: string, alias: string, value: string, createdBy?: string) {
+    const members = ENUM_FIELDS[field];
+    if (!members) throw new Error(`Unknown field: ${field}`);
+    if (!members.includes(value)) throw new Error(`"${value}" is not one of: ${members.join(', ')}`);
+
+    // Stored in the form lookups compare, so spellings like "SEQ-Resi" and "seq resi" share one row
+    const key = slug(alias);
+    if (!key) throw new Error('Alias cannot be empty');
+
+    return prisma.valueAlias.upsert({
+      where: { field_alias: { field, alias: key } },
+      create: { field, alias: key, value, createdBy: createdBy ?? null },
+      update: { value, createdBy: createdBy ?? null },
+    });
+  }
+
+  static async remove(id: number) {
+    const existing = await prisma.valueAlias.findUnique({ where: { id } });
+    if (!existing) throw new Error('Alias not found');
+    await prisma.valueAlias.delete({ where: { id } });
+  }
+
+  /**
+   * Replace enum cells with their member: exact matches on the member name
+   * or label first, then saved aliases. Rows with anything else become
+   * errors listing the allowed values; the distinct unknown values are
+   * returned with suggestions so the preview can offer to save an alias.
+   */
+  static async normaliseRows(dt: DataTypeDefinition, validation: ValidationResult): Promise<UnknownValue[]> {
+    const fields = this.getEnumFields(dt);
+    if (fields.length === 0) return [];
+
+    const aliases = await prisma.valueAlias.findMany({ where: { field: { in: fields.map((f) => f.dbField) } } });
+    const unknown = new Map<string, UnknownValue>();
+
+    for (const row of validation.rows) {
+      if (row.status === 'error') continue;
+      const messages: string[] = [];
+
+      for (const field of fields) {
+        const raw = row.data[field.dbField];
+        if (raw == null || raw === '') continue;
+        const value = String(raw);
+        const members = ENUM_FIELDS[field.dbField];
+
+        const key = slug(value);
+        const member = members.find((m) => m === key || slug(memberLabel(field.dbField, m)) === key)
+          ?? aliases.find((a) => a.field === field.dbField && a.alias === key)?.value;
+        if (member) {
+          row.data[field.dbField] = member;
+          continue;
+        }
+
+        messages.push(`${field.label} "${value}" is not recognised. Allowed values: ${members.join(', ')}`);
+        const entryKey = `${field.dbField}:${key}`;
+        const entry = unknown.get(entryKey) ?? {
+          field: field.dbField,
+          label: field.label,
+          value,
+          rowIndexes: [],
+          suggestions: this.suggest(field.dbField, value, aliases),
+          allowed: members.map((m) => ({ value: m, label: memberLabel(field.dbField, m) })),
+        };
+        entry.rowIndexes.push(row.rowIndex);
+        unknown.set(entryKey, entry);
+      }
+
+      if (messages.length > 0) escalateRow(validation, row, 'error', messages);
+    }
+
+    return [...unknown.values()];
+  }
+
+  /**
+   * Closest members to an unknown value, scored against each member's name,
+   * its label and any aliases already saved for it.
+   */
+  static suggest(field: string, value: string, aliases: { field: string; alias: string; value: string }[] = []) {
+    const key = slug(value);
+    return ENUM_FIELDS[field]
+      .map((member) => {
+        const candidates = [member, slug(memberLabel(field, member)), ...aliases
+          .filter((a) => a.field === field && a.value === member)
+          .map((a) => a.alias)];
+        return { value: member, label: memberLabel(field, member), score: Math.max(...candidates.map((c) => similarity(key, c))) };
+      })
+      .filter((s) => s.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ value: v, label }) => ({ value: v, label }));
+  }
+}
@@ -2,6 +2,11 @@ import prisma from '../db.js';
 
 const SATURDAY = 6; // JavaScript Date.getDay(): 0=Sun, 6=Sat
 
+/** YYYY-MM-DD for a week ending or other date column, as used in keys and API payloads */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
 export class WeekService {
   /**
    * Returns the nearest Saturday to the given date.
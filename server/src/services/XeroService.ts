@@ -0,0 +1,477 @@
+import { randomBytes } from 'crypto';
+import prisma from '../db.js';
+import { WeekService, toDateKey } from './WeekService.js';
+import { HttpXeroProvider } from './xero/HttpXeroProvider.js';
+import { MockXeroProvider } from './xero/MockXeroProvider.js';
+import { RateLimitedQueue } from './xero/RateLimitedQueue.js';
+import { encryptToken, decryptToken } from './xero/tokenCrypto.js';
+import { XERO_PAGE_SIZE } from './xero/provider.js';
+import type { XeroProvider, XeroAuth, XeroReport, XeroInvoice, XeroInvoiceQuery, XeroTokenSet } from './xero/provider.js';
+import type { RevenueCategory, ProjectType } from '../generated/prisma/index.js';
+
+/** Refresh this long before expiry so a token never lapses mid-sync */
+const REFRESH_MARGIN_MS = 60_000;
+const STATE_TTL_MS = 10 * 60_000;
+/** 50,000 invoices in a week is far beyond any real ledger; more means the paging is stuck */
+const MAX_INVOICE_PAGES = 500;
+const DAY_MS = 86_400_000;
+
+export type XeroSyncType = 'profit_and_loss' | 'invoices' | 'bank_summary';
+
+export const XERO_SYNC_TYPES: XeroSyncType[] = ['profit_and_loss', 'invoices', 'bank_summary'];
+
+export interface XeroSyncResult {
+  type: XeroSyncType;
+  weekEnding: string;
+  rowsWritten: number;
+  warnings: string[];
+}
+
+/**
+ * Xero revenue account codes → revenue category. Line items on other
+ * accounts are reported as warnings and left out of revenue_weekly.
+ */
+const ACCOUNT_CATEGORIES: Record<string, RevenueCategory> = {
+  '200': 'class_1a',
+  '201': 'class_10a_sheds',
+  '202': 'class_10b_pools',
+  '203': 'class_2_9_commercial',
+  '204': 'inspections',
+  '205': 'retrospective',
+  '206': 'council_fees',
+  '207': 'planning_1_10',
+  '208': 'planning_2_9',
+  '209': 'property_searches',
+  '210': 'qleave',
+  '211': 'sundry',
+  '212': 'access_labour_hire',
+  '213': 'insurance_levy',
+};
+
+/** Certification categories that make up each project type's invoiced total */
+const CATEGORY_PROJECT_TYPES: Partial<Record<RevenueCategory, ProjectType>> = {
+  class_1a: 'residential',
+  class_10a_sheds: 'residential',
+  class_10b_pools: 'residential',
+  class_2_9_commercial: 'commercial',
+  retrospective: 'retrospective',
+};
+
+/** Bank account name patterns → cash_position_weekly column */
+const BANK_ACCOUNT_FIELDS: [RegExp, 'everydayAccount' | 'taxSavings' | 'capitalAccount' | 'creditCards'][] = [
+  [/tax/i, 'taxSavings'],
+  [/capital/i, 'capitalAccount'],
+  [/credit card|visa|mastercard|amex/i, 'creditCards'],
+  [/everyday|operating|cheque|business account/i, 'everydayAccount'],
+];
+
+// ─── Provider & queue ─────────────────────────────────────────────────────────
+
+let provider: XeroProvider | null | undefined;
+
+/**
+ * XERO_MODE=mock forces fixtures. Without credentials, development falls
+ * back to mock mode and other environments report Xero as not configured.
+ * Resolved on first use so .env has been loaded.
+ */
+function getProvider(): XeroProvider | null {
+  if (provider !== undefined) return provider;
+
+  const clientId = process.env.XERO_CLIENT_ID;
+  const clientSecret = process.env.XERO_CLIENT_SECRET;
+  const redirectUri = process.env.XERO_REDIRECT_URI || 'http://localhost:6001/api/v1/xero/callback';
+
+  if (process.env.XERO_MODE === 'mock') provider = new MockXeroProvider(redirectUri);
+  else if (clientId && clientSecret) provider = new HttpXeroProvider({ clientId, clientSecret, redirectUri });
+  else if (process.env.NODE_ENV === 'development') provider = new MockXeroProvider(redirectUri);
+  else provider = null;
+  return provider;
+}
+
+// Xero allows 60 calls a minute and 5,000 a day per organisation
+const queue = new RateLimitedQueue(60, 5000);
+
+/** Pending OAuth states → expiry time and who started the flow */
+const pendingStates = new Map<string, { expires: number; connectedBy: string | null }>();
+
+let refreshInFlight: Promise<XeroAuth> | null = null;
+
+function requireProvider(): XeroProvider {
+  const provider = getProvider();
+  if (!provider) throw new Error('Xero is not configured. Set XERO_CLIENT_ID and XERO_CLIENT_SECRET, or XERO_MODE=mock.');
+  return provider;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Sunday–Saturday range for a week ending date */
+function weekRange(weekEnding: Date) {
+  const to = WeekService.toSaturday(weekEnding);
+  const from = new Date(to);
+  from.setUTCDate(from.getUTCDate() - 6);
+  return { from, to };
+}
+
+function parseAmount(value: string | undefined): number {
+  const n = Number((value ?? '').replace(/,/g, ''));
+  return isFinite(n) ? n : 0;
+}
+
+/**
+ * Flatten a Xero report into label/value rows, remembering the section each
+ * row came from.
+ */
+function flattenReport(report: XeroReport) {
+  const rows: { section: string; label: string; cells: string[]; summary: boolean }[] = [];
+  for (const top of report.Rows) {
+    if (top.RowType !== 'Section') continue;
+    for (const r of top.Rows ?? []) {
+      const cells = (r.Cells ?? []).map((c) => c.Value);
+      rows.push({ section: top.Title ?? '', label: cells[0] ?? '', cells, summary: r.RowType === 'SummaryRow' });
+    }
+  }
+  return rows;
+}
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
+
+export class XeroService {
+  // ─── Connection ─────────────────────────────────────────────────────────────
+
+  /**
+   * Whether a provider is available (live credentials or mock mode).
+   */
+  static isConfigured(): boolean {
+    return getProvider() !== null;
+  }
+
+  /**
+   * Connection state for the admin UI.
+   */
+  static async getStatus() {
+    const connection = await prisma.xeroConnection.findFirst({ orderBy: { updatedAt: 'desc' } });
+    return {
+      configured: getProvider() !== null,
+      mode: getProvider()?.mode ?? null,
+      connected: !!connection,
+      tenantName: connection?.tenantName ?? null,
+      connectedBy: connection?.connectedBy ?? null,
+      tokenExpiresAt: connection?.expiresAt ?? null,
+      lastSyncedAt: connection?.lastSyncedAt ?? null,
+      requestsRemainingToday: queue.remainingToday,
+    };
+  }
+
+  /**
+   * Start the OAuth2 flow: returns the Xero authorize URL with a one-time
+   * state value that the callback must echo back. The callback arrives as a
+   * browser redirect without our auth header, so the state also carries who
+   * started the flow.
+   */
+  static getAuthUrl(connectedBy?: string): string {
+    const state = randomBytes(16).toString('hex');
+    const now = Date.now();
+    for (const [key, pending] of pendingStates) {
+      if (pending.expires < now) pendingStates.delete(key);
+    }
+    pendingStates.set(state, { expires: now + STATE_TTL_MS, connectedBy: connectedBy ?? null });
+    return requireProvider().getAuthUrl(state);
+  }
+
+  /**
+   * Finish the OAuth2 flow: exchange the code, pick the organisation and
+   * store its tokens encrypted. Only one organisation is connected at a time.
+   */
+  static async handleCallback(code: string, state: string) {
+    const pending = pendingStates.get(state);
+    pendingStates.delete(state);
+    if (!pending || pending.expires < Date.now()) {
+      throw new Error('Invalid or expired Xero authorisation state');
+    }
+
+    const xero = requireProvider();
+    const tokens = await queue.schedule(() => xero.exchangeCode(code));
+    const tenants = await queue.schedule(() => xero.getTenants(tokens.accessToken));
+    if (tenants.length === 0) {
+      throw new Error('No Xero organisation was authorised');
+    }
+
+    const tenant = tenants[0];
+    const data = {
+      tenantName: tenant.tenantName,
+      ...this.tokenFields(tokens),
+      connectedBy: pending.connectedBy,
+    };
+
+    const [, connection] = await prisma.$transaction([
+      prisma.xeroConnection.deleteMany({ where: { tenantId: { not: tenant.tenantId } } }),
+      prisma.xeroConnection.upsert({
+        where: { tenantId: tenant.tenantId },
+        update: data,
+        create: { tenantId: tenant.tenantId, ...data },
+      }),
+    ]);
+
+    return { tenantId: connection.tenantId, tenantName: connection.tenantName };
+  }
+
+  /**
+   * Forget the stored tokens.
+   */
+  static async disconnect(): Promise<void> {
+    await prisma.xeroConnection.deleteMany({});
+  }
+
+  // ─── Sync ───────────────────────────────────────────────────────────────────
+
+  /**
+   * Run the requested syncs for one week, in order, and stamp the connection
+   * with the sync time.
+   */
+  static async syncWeek(weekEnding: Date, types: XeroSyncType[] = XERO_SYNC_TYPES): Promise<XeroSyncResult[]> {
+    const results: XeroSyncResult[] = [];
+    for (const type of XERO_SYNC_TYPES.filter((t) => types.includes(t))) {
+      if (type === 'profit_and_loss') results.push(await this.syncProfitAndLoss(weekEnding));
+      if (type === 'invoices') results.push(await this.syncInvoices(weekEnding));
+      if (type === 'bank_summary') results.push(await this.syncBankSummary(weekEnding));
+    }
+
+    await prisma.xeroConnection.updateMany({ data: { lastSyncedAt: new Date() } });
+    return results;
+  }
+
+  /**
+   * Pull the week's Profit and Loss report into financial_weekly.
+   */
+  static async syncProfitAndLoss(weekEnding: Date): Promise<XeroSyncResult> {
+    const { from, to } = weekRange(weekEnding);
+    const auth = await this.getAuth();
+    const report = await queue.schedule(() => requireProvider().getProfitAndLoss(auth, from, to));
+
+    const rows = flattenReport(report);
+    const warnings: string[] = [];
+    const find = (pattern: RegExp, required = true) => {
+      const match = rows.find((r) => pattern.test(r.label));
+      if (!match && required) throw new Error(`Xero Profit and Loss report has no "${pattern.source}" line`);
+      if (!match) warnings.push(`No "${pattern.source}" line in the Profit and Loss report; recorded as 0`);
+      return parseAmount(match?.cells[1]);
+    };
+
+    const wagesAndSalaries = rows
+      .filter((r) => !r.summary && /operating expenses/i.test(r.section) && /wages|salar/i.test(r.label))
+      .reduce((sum, r) => sum + parseAmount(r.cells[1]), 0);
+
+    const data = {
+      totalTradingIncome: round2(find(/^Total (Trading )?Income$/i)),
+      totalCostOfSales: round2(find(/^Total Cost of Sales$/i, false)),
+      grossProfit: round2(find(/^Gross Profit$/i)),
+      otherIncome: round2(find(/^Total Other Income$/i, false)),
+      operatingExpenses: round2(find(/^Total Operating Expenses$/i)),
+      wagesAndSalaries: round2(wagesAndSalaries),
+      netProfit: round2(find(/^Net Profit$/i)),
+      dataSource: 'xero_api' as const,
+      uploadId: null,
+    };
+
+    await prisma.financialWeekly.upsert({
+      where: { weekEnding: to },
+      update: data,
+      create: { weekEnding: to, ...data },
+    });
+
+    return { type: 'profit_and_loss', weekEnding: toDateKey(to), rowsWritten: 1, warnings };
+  }
+
+  /**
+   * Pull the week's sales invoices into revenue_weekly (by revenue account)
+   * and the invoiced totals in projects_weekly (by project type). Only
+   * existing projects rows are updated: Hyperflo counts come from the
+   * Hyperflo export, and a placeholder count would pass as real data.
+   */
+  static async syncInvoices(weekEnding: Date): Promise<XeroSyncResult> {
+    const { from, to } = weekRange(weekEnding);
+    const auth = await this.getAuth();
+    const invoices = await this.fetchInvoices(auth, { type: 'ACCREC', from, to, statuses: ['AUTHORISED', 'PAID'] });
+
+    const warnings: string[] = [];
+    const byCategory = new Map<RevenueCategory, number>(
+      [...new Set(Object.values(ACCOUNT_CATEGORIES))].map((c) => [c, 0]),
+    );
+    const unmapped = new Map<string, number>();
+
+    for (const invoice of invoices) {
+      for (const line of invoice.LineItems) {
+        const category = line.AccountCode ? ACCOUNT_CATEGORIES[line.AccountCode] : undefined;
+        if (category) {
+          byCategory.set(category, byCategory.get(category)! + line.LineAmount);
+        } else {
+          const code = line.AccountCode ?? '(none)';
+          unmapped.set(code, (unmapped.get(code) ?? 0) + line.LineAmount);
+        }
+      }
+    }
+    for (const [code, amount] of unmapped) {
+      warnings.push(`Account ${code}: $${amount.toFixed(2)} not mapped to a revenue category`);
+    }
+
+    const byProjectType = new Map<ProjectType, number>([['residential', 0], ['commercial', 0], ['retrospective', 0]]);
+    for (const [category, amount] of byCategory) {
+      const projectType = CATEGORY_PROJECT_TYPES[category];
+      if (projectType) byProjectType.set(projectType, byProjectType.get(projectType)! + amount);
+    }
+
+    const projectTypes = [...byProjectType];
+    const results = await prisma.$transaction([
+      ...[...byCategory].map(([category, amount]) => prisma.revenueWeekly.upsert({
+        where: { weekEnding_category: { weekEnding: to, category } },
+        update: { amount: round2(amount), dataSource: 'xero_api', uploadId: null },
+        create: { weekEnding: to, category, amount: round2(amount), dataSource: 'xero_api' },
+      })),
+      ...projectTypes.map(([projectType, amount]) => prisma.projectsWeekly.updateMany({
+        where: { weekEnding: to, projectType },
+        data: { xeroInvoicedAmount: round2(amount), dataSource: 'xero_api', uploadId: null },
+      })),
+    ]);
+
+    let projectRows = 0;
+    (results.slice(byCategory.size) as { count: number }[]).forEach(({ count }, i) => {
+      const [projectType, amount] = projectTypes[i];
+      projectRows += count;
+      if (count === 0 && amount !== 0) {
+        warnings.push(`No ${projectType} projects row for this week yet; $${amount.toFixed(2)} invoiced will be recorded on the first sync after one is uploaded`);
+      }
+    });
+
+    return {
+      type: 'invoices',
+      weekEnding: toDateKey(to),
+      rowsWritten: byCategory.size + projectRows,
+      warnings,
+    };
+  }
+
+  /**
+   * Pull bank balances, aged receivables and payables into
+   * cash_position_weekly. Receivables and payables are whatever is unpaid at
+   * the time of the sync, so run this close to the week end. Xero has no
+   * overdraft limit, so the last recorded one is carried forward.
+   */
+  static async syncBankSummary(weekEnding: Date): Promise<XeroSyncResult> {
+    const { from, to } = weekRange(weekEnding);
+    const auth = await this.getAuth();
+    const xero = requireProvider();
+
+    const report = await queue.schedule(() => xero.getBankSummary(auth, from, to));
+    const [receivable, payable] = await Promise.all([
+      this.fetchInvoices(auth, { type: 'ACCREC', to, statuses: ['AUTHORISED'] }),
+      this.fetchInvoices(auth, { type: 'ACCPAY', to, statuses: ['AUTHORISED'] }),
+    ]);
+
+    const warnings: string[] = [];
+    const balances = { everydayAccount: 0, taxSavings: 0, capitalAccount: 0, creditCards: 0 };
+    for (const row of flattenReport(report)) {
+      if (row.summary || /^total/i.test(row.label)) continue;
+      const field = BANK_ACCOUNT_FIELDS.find(([pattern]) => pattern.test(row.label))?.[1];
+      // Closing balance is the last column
+      const closing = parseAmount(row.cells[row.cells.length - 1]);
+      if (field) balances[field] += closing;
+      else warnings.push(`Bank account "${row.label}" not mapped; excluded from cash position`);
+    }
+
+    const aged = { currentReceivables: 0, over30Days: 0, over60Days: 0, over90Days: 0 };
+    for (const invoice of receivable) {
+      const due = invoice.DueDateString ? new Date(`${invoice.DueDateString.split('T')[0]}T00:00:00Z`) : to;
+      const overdue = Math.floor((to.getTime() - due.getTime()) / DAY_MS);
+      if (overdue > 90) aged.over90Days += invoice.AmountDue;
+      else if (overdue > 60) aged.over60Days += invoice.AmountDue;
+      else if (overdue > 30) aged.over30Days += invoice.AmountDue;
+      else aged.currentReceivables += invoice.AmountDue;
+    }
+
+    const previous = await prisma.cashPositionWeekly.findFirst({
+      where: { weekEnding: { lte: to }, overdraftLimit: { not: null } },
+      orderBy: { weekEnding: 'desc' },
+      select: { overdraftLimit: true },
+    });
+    const overdraftLimit = previous ? Number(previous.overdraftLimit) : null;
+    if (overdraftLimit == null) warnings.push('No overdraft limit on record; total cash available excludes it');
+
+    const data = {
+      everydayAccount: round2(balances.everydayAccount),
+      overdraftLimit,
+      taxSavings: round2(balances.taxSavings),
+      capitalAccount: round2(balances.capitalAccount),
+      creditCards: round2(balances.creditCards),
+      totalCashAvailable: round2(Object.values(balances).reduce((a, b) => a + b, 0) + (overdraftLimit ?? 0)),
+      totalReceivables: round2(receivable.reduce((sum, i) => sum + i.AmountDue, 0)),
+      currentReceivables: round2(aged.currentReceivables),
+      over30Days: round2(aged.over30Days),
+      over60Days: round2(aged.over60Days),
+      over90Days: round2(aged.over90Days),
+      totalPayables: round2(payable.reduce((sum, i) => sum + i.AmountDue, 0)),
+      dataSource: 'xero_api' as const,
+      uploadId: null,
+    };
+
+    await prisma.cashPositionWeekly.upsert({
+      where: { weekEnding: to },
+      update: data,
+      create: { weekEnding: to, ...data },
+    });
+
+    return { type: 'bank_summary', weekEnding: toDateKey(to), rowsWritten: 1, warnings };
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private static tokenFields(tokens: XeroTokenSet) {
+    return {
+      accessToken: encryptToken(tokens.accessToken),
+      refreshToken: encryptToken(tokens.refreshToken),
+      expiresAt: new Date(Date.now() + tokens.expiresIn * 1000),
+      scopes: tokens.scope,
+    };
+  }
+
+  /**
+   * Decrypted access token for the connected organisation, refreshed first
+   * if it is about to expire. Concurrent callers share one refresh, since
+   * Xero invalidates the old refresh token as soon as it is used.
+   */
+  private static async getAuth(): Promise<XeroAuth> {
+    const connection = await prisma.xeroConnection.findFirst({ orderBy: { updatedAt: 'desc' } });
+    if (!connection) throw new Error('Xero is not connected');
+
+    if (connection.expiresAt.getTime() - REFRESH_MARGIN_MS > Date.now()) {
+      return { accessToken: decryptToken(connection.accessToken), tenantId: connection.tenantId };
+    }
+
+    refreshInFlight ??= (async () => {
+      const xero = requireProvider();
+      const tokens = await queue.schedule(() => xero.refreshToken(decryptToken(connection.refreshToken)));
+      await prisma.xeroConnection.update({
+        where: { id: connection.id },
+        data: this.tokenFields(tokens),
+      });
+      return { accessToken: tokens.accessToken, tenantId: connection.tenantId };
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+
+    return refreshInFlight;
+  }
+
+  /** Page through invoices until Xero returns a short page */
+  private static async fetchInvoices(auth: XeroAuth, query: Omit<XeroInvoiceQuery, 'page'>): Promise<XeroInvoice[]> {
+    const xero = requireProvider();
+    const all: XeroInvoice[] = [];
+    for (let page = 1; page <= MAX_INVOICE_PAGES; page++) {
+      const batch = await queue.schedule(() => xero.getInvoices(auth, { ...query, page }));
+      all.push(...batch);
+      if (batch.length < XERO_PAGE_SIZE) return all;
+    }
+    throw new Error(`Xero returned more than ${MAX_INVOICE_PAGES} pages of invoices; stopping rather than paging forever`);
+  }
+}
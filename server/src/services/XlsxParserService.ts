@@ -0,0 +1,140 @@
+import ExcelJS from 'exceljs';
+import { summariseRows, RAW_PREVIEW_ROWS, type ParseResult } from './CsvParserService.js';
+
+export interface XlsxParseOptions {
+  /** Sheet name; defaults to the first visible sheet */
+  sheet?: string;
+  /** 1-based header row; defaults to the first row with any content */
+  headerRow?: number;
+}
+
+// ─── Cell values ──────────────────────────────────────────────────────────────
+
+type CellText = { text: string } | { error: string };
+
+/**
+ * Flatten an ExcelJS cell value to the text a CSV export would hold.
+ * Formulas use their cached result; error values (#REF!, #DIV/0!, …) are
+ * reported separately so the caller can blank them and warn.
+ */
+function cellText(value: ExcelJS.CellValue): CellText {
+  if (value == null) return { text: '' };
+  if (value instanceof Date) return { text: value.toISOString().split('T')[0] };
+  if (typeof value === 'number') return { text: String(value) };
+  if (typeof value === 'boolean') return { text: value ? 'TRUE' : 'FALSE' };
+  if (typeof value === 'string') return { text: value.trim() };
+
+  if ('error' in value) return { error: String(value.error) };
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  }
+  if ('richText' in value) return { text: value.richText.map((r) => r.text).join('').trim() };
+  if ('text' in value) return { text: String(value.text).trim() };
+  return { text: '' };
+}
+
+function columnLetter(col: number): string {
+  let letters = '';
+  for (let n = col; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Header names from the header row. Blank headers are named after their
+ * column letter and repeated names get a numeric suffix so every column
+ * stays addressable in the mapping.
+ */
+function buildHeaders(row: ExcelJS.Row, columnCount: number): string[] {
+  const seen = new Map<string, number>();
+  const headers: string[] = [];
+
+  for (let col = 1; col <= columnCount; col++) {
+    const cell = cellText(row.getCell(col).value);
+    let name = ('text' in cell ? cell.text : '') || `Column ${columnLetter(col)}`;
+
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    if (count > 1) name = `${name} (${count})`;
+    headers.push(name);
+  }
+  return headers;
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse one sheet of an .xlsx workbook into the same ParseResult as a CSV,
+ * plus the sheet list and a raw preview for choosing the header row.
+ */
+export async function parseXlsx(buffer: Buffer, options: XlsxParseOptions = {}): Promise<ParseResult> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch {
+    throw new Error('Could not read workbook. Make sure the file is a valid .xlsx file.');
+  }
+
+  const sheets = workbook.worksheets.map((ws) => ws.name);
+  const worksheet = options.sheet
+    ? workbook.getWorksheet(options.sheet)
+    : workbook.worksheets.find((ws) => ws.state === 'visible') ?? workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(options.sheet ? `Sheet not found: ${options.sheet}` : 'Workbook has no sheets');
+  }
+
+  const lastRow = worksheet.actualRowCount > 0 ? worksheet.rowCount : 0;
+  const columnCount = worksheet.columnCount;
+
+  const headerRow = options.headerRow
+    ?? Array.from({ length: lastRow }, (_, i) => i + 1).find((n) => worksheet.getRow(n).hasValues)
+    ?? 1;
+  if (lastRow > 0 && headerRow > lastRow) {
+    throw new Error(`Header row ${headerRow} is past the last row of "${worksheet.name}" (${lastRow})`);
+  }
+
+  const sheetPreview: string[][] = [];
+  for (let r = 1; r <= Math.min(lastRow, RAW_PREVIEW_ROWS); r++) {
+    const row = worksheet.getRow(r);
+    sheetPreview.push(Array.from({ length: columnCount }, (_, c) => {
+      const cell = cellText(row.getCell(c + 1).value);
+      return 'text' in cell ? cell.text : cell.error;
+    }));
+  }
+
+  const headers = lastRow > 0 ? buildHeaders(worksheet.getRow(headerRow), columnCount) : [];
+  const rows: Record<string, string>[] = [];
+  const warnings: string[] = [];
+
+  for (let r = headerRow + 1; r <= lastRow; r++) {
+    const row = worksheet.getRow(r);
+    const record: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      const cell = cellText(row.getCell(i + 1).value);
+      if ('error' in cell) {
+        warnings.push(`Row ${r}, "${header}": ${cell.error} treated as empty`);
+        record[header] = '';
+      } else {
+        record[header] = cell.text;
+      }
+    });
+    rows.push(record);
+  }
+
+  // Formatting often extends a sheet's used range past the data
+  while (rows.length > 0 && Object.values(rows[rows.length - 1]).every((v) => v === '')) rows.pop();
+  while (sheetPreview.length > 0 && sheetPreview[sheetPreview.length - 1].every((v) => v === '')) sheetPreview.pop();
+
+  return {
+    headers,
+    ...summariseRows(headers, rows),
+    totalRows: rows.length,
+    delimiter: 'xlsx',
+    encoding: 'utf-8',
+    headerRow,
+    rawPreview: sheetPreview,
+    workbook: { sheets, sheet: worksheet.name },
+    warnings,
+  };
+}
@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailMessage, MailTransport } from './transport.js';
+
+/**
+ * Writes each message to an .html file and logs it instead of sending.
+ * Used for offline development and testing.
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private outputDir: string) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    await mkdir(this.outputDir, { recursive: true });
+
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const messageId = `${Date.now()}-${slug}`;
+    const file = path.join(this.outputDir, `${messageId}.html`);
+    const header = `<!--\nTo: ${message.to.join(', ')}\nSubject: ${message.subject}\n-->\n`;
+    await writeFile(file, header + message.html, 'utf8');
+
+    console.log(`[Mail] "${message.subject}" for ${message.to.join(', ')} written to ${file}`);
+    return { messageId };
+  }
+}
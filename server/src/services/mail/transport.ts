@@ -0,0 +1,15 @@
+// ─── Outgoing mail ────────────────────────────────────────────────────────────
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  /** Plain-text alternative for clients that don't render HTML */
+  text: string;
+}
+
+export interface MailTransport {
+  /** Short name recorded against each delivery, e.g. "smtp" or "file" */
+  readonly name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
@@ -0,0 +1,195 @@
+import type { MigrationConfig, TargetMapping } from '../ExcelMigrationService.js';
+
+/**
+ * Sheet → table mapping for the legacy Weekly_Report__30.xlsx (Week 1 w/e
+ * 7 Jul 2024 to Week 30 w/e 25 Jan 2025). Row labels follow the PDF sample
+ * report; the migration report lists labels that are unmapped or missing,
+ * which is where to look when the workbook is edited.
+ */
+
+// Week 30 — the figures the Phase 1 validation checklist holds us to
+const WEEK_30 = '2025-01-25';
+
+/** One record per label, e.g. a row per region holding that team's amount */
+function byEntity(
+  dataTypeId: string,
+  entityField: string,
+  valueField: string,
+  labels: Record<string, string>,
+): TargetMapping[] {
+  return Object.entries(labels).map(([label, entity]) => ({
+    dataTypeId,
+    fixed: { [entityField]: entity },
+    fields: { [label]: valueField },
+  }));
+}
+
+function salesBlock(dataTypeId: string, prefix: string): TargetMapping {
+  return {
+    dataTypeId,
+    fields: {
+      [`${prefix} Quotes Issued`]: 'quotesIssuedCount',
+      [`${prefix} Quotes Issued $`]: 'quotesIssuedValue',
+      [`${prefix} Quotes Won`]: 'quotesWonCount',
+      [`${prefix} Quotes Won $`]: 'quotesWonValue',
+    },
+  };
+}
+
+const REGIONS: Record<string, string> = {
+  'Cairns': 'cairns',
+  'Mackay': 'mackay',
+  'NQ Commercial': 'nq_commercial',
+  'SEQ Residential': 'seq_residential',
+  'SEQ Commercial': 'seq_commercial',
+  'Town Planning': 'town_planning',
+  'Townsville': 'townsville',
+  'Wide Bay': 'wide_bay',
+  'All In Access': 'all_in_access',
+};
+
+const LEAD_SOURCES: Record<string, string> = {
+  'Google': 'google',
+  'SEO': 'seo',
+  'Meta': 'meta',
+  'Bing': 'bing',
+  'TikTok': 'tiktok',
+  'Other': 'other',
+};
+
+const REVENUE_CATEGORIES: Record<string, string> = {
+  'Resi Class 1A': 'class_1a',
+  'Resi Class 10a': 'class_10a_sheds',
+  'Resi Class 10b': 'class_10b_pools',
+  'Commercial Class 2-9': 'class_2_9_commercial',
+  'Inspections': 'inspections',
+  'Retrospective': 'retrospective',
+  'Council Fees': 'council_fees',
+  'Planning 1-10': 'planning_1_10',
+  'Planning 2-9': 'planning_2_9',
+  'Property Searches': 'property_searches',
+  'QLeave': 'qleave',
+  'Sundry': 'sundry',
+  'Access Labour Hire': 'access_labour_hire',
+  'Insurance Levy': 'insurance_levy',
+};
+
+export const WEEKLY_REPORT_MIGRATION: MigrationConfig = {
+  sheets: [
+    {
+      sheet: 'Weekly Report',
+      headerRow: 5,
+      targets: [
+        {
+          dataTypeId: 'financial_pl',
+          fields: {
+            'Trading Income': 'totalTradingIncome',
+            'Cost of Sales': 'totalCostOfSales',
+            'Gross Profit': 'grossProfit',
+            'Other Income': 'otherIncome',
+            'Operating Expenses': 'operatingExpenses',
+            'Wages': 'wagesAndSalaries',
+            'Net Profit': 'netProfit',
+          },
+        },
+        ...byEntity('team_performance', 'region', 'actualInvoiced', REGIONS),
+        ...byEntity('lead_sources', 'source', 'leadCount', LEAD_SOURCES),
+        { dataTypeId: 'google_reviews', fields: { 'Google Reviews': 'reviewCount' } },
+      ],
+    },
+    {
+      sheet: 'Weekly Revenue Report',
+      headerRow: 1,
+      targets: byEntity('revenue_breakdown', 'category', 'amount', REVENUE_CATEGORIES),
+    },
+    {
+      sheet: 'Finance This Week',
+      headerRow: 1,
+      targets: [
+        {
+          dataTypeId: 'cash_position',
+          fields: {
+            'Everyday Account': 'everydayAccount',
+            'Overdraft Limit': 'overdraftLimit',
+            'Tax Savings': 'taxSavings',
+            'Capital Account': 'capitalAccount',
+            'Credit Cards': 'creditCards',
+            'Total Cash Available': 'totalCashAvailable',
+            'Total Receivables': 'totalReceivables',
+            'Current': 'currentReceivables',
+            '30 Days': 'over30Days',
+            '60 Days': 'over60Days',
+            '90+ Days': 'over90Days',
+            'Total Payables': 'totalPayables',
+          },
+        },
+      ],
+    },
+    {
+      sheet: 'Sales Weekly',
+      headerRow: 1,
+      targets: [
+        salesBlock('sales_residential', 'Residential'),
+        salesBlock('sales_commercial', 'Commercial'),
+        salesBlock('sales_retrospective', 'Retrospective'),
+      ],
+    },
+    {
+      sheet: 'Marketing Weekly',
+      headerRow: 1,
+      targets: [
+        {
+          dataTypeId: 'website_analytics',
+          fields: {
+            'Sessions': 'sessions',
+            'Users': 'users',
+            'New Users': 'newUsers',
+            'Page Views': 'pageViews',
+            'Bounce Rate': 'bounceRate',
+          },
+        },
+      ],
+    },
+    {
+      sheet: 'Phone',
+      headerRow: 1,
+      targets: [
+        { dataTypeId: 'phone_metrics', eachLabel: { field: 'staffName', value: 'inboundCalls', exclude: ['Total'] } },
+      ],
+    },
+  ],
+
+  skipSheets: {
+    'Monthly': 'Monthly aggregates; derived from the weekly tables',
+    'P&L': 'Single-week detail; replaced by the Xero sync',
+    'P&L Monthly': 'Monthly categories; weekly revenue comes from "Weekly Revenue Report"',
+    'Operations Weekly': 'Per-staff rows need a role per person; import through the upload wizard',
+    'Productivity': 'Same staff data as "Operations Weekly"',
+    'Graphs': 'Chart references only',
+  },
+
+  checkpoints: [
+    { label: 'Week 30 net profit', table: 'financial_weekly', weekEnding: WEEK_30, field: 'netProfit', expected: 62210.45 },
+    {
+      label: 'Week 30 Cairns invoiced', table: 'team_performance_weekly', weekEnding: WEEK_30,
+      where: { region: 'cairns' }, field: 'actualInvoiced', expected: 24560.60,
+    },
+    {
+      label: 'Week 30 SEQ Residential invoiced', table: 'team_performance_weekly', weekEnding: WEEK_30,
+      where: { region: 'seq_residential' }, field: 'actualInvoiced', expected: 73838.32,
+    },
+    {
+      label: 'Week 30 NQ Commercial invoiced', table: 'team_performance_weekly', weekEnding: WEEK_30,
+      where: { region: 'nq_commercial' }, field: 'actualInvoiced', expected: 35820.60,
+    },
+    {
+      label: 'Week 30 Google leads', table: 'leads_weekly', weekEnding: WEEK_30,
+      where: { source: 'google' }, field: 'leadCount', expected: 70,
+    },
+    {
+      label: 'Week 30 SEO leads', table: 'leads_weekly', weekEnding: WEEK_30,
+      where: { source: 'seo' }, field: 'leadCount', expected: 118,
+    },
+    { label: 'Week 30 total leads', table: 'leads_weekly', weekEnding: WEEK_30, field: 'leadCount', expected: 257.03 },
+  ],
+};
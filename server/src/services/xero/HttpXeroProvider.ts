@@ -0,0 +1,140 @@
+import type {
+  XeroProvider, XeroTokenSet, XeroTenant, XeroReport, XeroInvoice, XeroInvoiceQuery, XeroAuth,
+} from './provider.js';
+
+const AUTHORIZE_URL = 'https://login.xero.com/identity/connect/authorize';
+const TOKEN_URL = 'https://identity.xero.com/connect/token';
+const CONNECTIONS_URL = 'https://api.xero.com/connections';
+const API_BASE = 'https://api.xero.com/api.xro/2.0';
+
+const SCOPES = [
+  'openid', 'profile', 'email', 'offline_access',
+  'accounting.reports.read', 'accounting.transactions.read',
+];
+
+interface HttpXeroConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+function toXeroDate(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+/** Xero's where-clause date literal */
+function toXeroDateTime(d: Date): string {
+  return `DateTime(${d.getUTCFullYear()}, ${String(d.getUTCMonth() + 1).padStart(2, '0')}, ${String(d.getUTCDate()).padStart(2, '0')})`;
+}
+
+/**
+ * Talks to the real Xero identity and accounting APIs.
+ */
+export class HttpXeroProvider implements XeroProvider {
+  readonly mode = 'live' as const;
+
+  constructor(private config: HttpXeroConfig) {}
+
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: SCOPES.join(' '),
+      state,
+    });
+    return `${AUTHORIZE_URL}?${params}`;
+  }
+
+  exchangeCode(code: string): Promise<XeroTokenSet> {
+    return this.tokenRequest({ grant_type: 'authorization_code', code, redirect_uri: this.config.redirectUri });
+  }
+
+  refreshToken(refreshToken: string): Promise<XeroTokenSet> {
+    return this.tokenRequest({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  }
+
+  async getTenants(accessToken: string): Promise<XeroTenant[]> {
+    const res = await this.request(CONNECTIONS_URL, { Authorization: `Bearer ${accessToken}` });
+    const connections = await res.json() as { tenantId: string; tenantName: string; tenantType: string }[];
+    return connections
+      .filter((c) => c.tenantType === 'ORGANISATION')
+      .map((c) => ({ tenantId: c.tenantId, tenantName: c.tenantName }));
+  }
+
+  async getProfitAndLoss(auth: XeroAuth, from: Date, to: Date): Promise<XeroReport> {
+    const body = await this.api<{ Reports: XeroReport[] }>(auth, '/Reports/ProfitAndLoss', {
+      fromDate: toXeroDate(from),
+      toDate: toXeroDate(to),
+      standardLayout: 'true',
+    });
+    return body.Reports[0];
+  }
+
+  async getBankSummary(auth: XeroAuth, from: Date, to: Date): Promise<XeroReport> {
+    const body = await this.api<{ Reports: XeroReport[] }>(auth, '/Reports/BankSummary', {
+      fromDate: toXeroDate(from),
+      toDate: toXeroDate(to),
+    });
+    return body.Reports[0];
+  }
+
+  async getInvoices(auth: XeroAuth, query: XeroInvoiceQuery): Promise<XeroInvoice[]> {
+    const clauses = [`Type=="${query.type}"`];
+    if (query.from) clauses.push(`Date>=${toXeroDateTime(query.from)}`);
+    if (query.to) clauses.push(`Date<=${toXeroDateTime(query.to)}`);
+
+    const body = await this.api<{ Invoices: XeroInvoice[] }>(auth, '/Invoices', {
+      where: clauses.join('&&'),
+      Statuses: query.statuses.join(','),
+      page: String(query.page),
+    });
+    return body.Invoices;
+  }
+
+  // ─── HTTP ─────────────────────────────────────────────────────────────────
+
+  private async tokenRequest(form: Record<string, string>): Promise<XeroTokenSet> {
+    const basic = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+    const res = await this.request(TOKEN_URL, {
+      Authorization: `Basic ${basic}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    }, 'POST', new URLSearchParams(form).toString());
+
+    const body = await res.json() as { access_token: string; refresh_token: string; expires_in: number; scope: string };
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresIn: body.expires_in,
+      scope: body.scope,
+    };
+  }
+
+  private async api<T>(auth: XeroAuth, path: string, query: Record<string, string>): Promise<T> {
+    const res = await this.request(`${API_BASE}${path}?${new URLSearchParams(query)}`, {
+      Authorization: `Bearer ${auth.accessToken}`,
+      'xero-tenant-id': auth.tenantId,
+      Accept: 'application/json',
+    });
+    return res.json() as Promise<T>;
+  }
+
+  /**
+   * Send a request, waiting out one 429 using Xero's Retry-After header.
+   */
+  private async request(url: string, headers: Record<string, string>, method = 'GET', body?: string): Promise<Response> {
+    let res = await fetch(url, { method, headers, body });
+
+    if (res.status === 429) {
+      const retryAfter = Number(res.headers.get('Retry-After') ?? 60);
+      await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+      res = await fetch(url, { method, headers, body });
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new Error(`Xero request failed (${res.status}): ${detail.slice(0, 200)}`);
+    }
+    return res;
+  }
+}
@@ -0,0 +1,65 @@
+import type {
+  XeroProvider, XeroTokenSet, XeroTenant, XeroReport, XeroInvoice, XeroInvoiceQuery, XeroAuth,
+} from './provider.js';
+import {
+  profitAndLossFixture, bankSummaryFixture, salesInvoicesFixture, outstandingInvoicesFixture,
+} from './fixtures.js';
+
+export const MOCK_TENANT: XeroTenant = {
+  tenantId: 'mock-tenant-0000',
+  tenantName: 'Buildable Approvals (Demo Company)',
+};
+
+/**
+ * Serves fixture responses in place of Xero. The "authorize" step redirects
+ * straight back to our own callback, so connect → sync works end to end
+ * without network access or Xero credentials.
+ */
+export class MockXeroProvider implements XeroProvider {
+  readonly mode = 'mock' as const;
+
+  constructor(private redirectUri: string) {}
+
+  getAuthUrl(state: string): string {
+    return `${this.redirectUri}?${new URLSearchParams({ code: 'mock-authorization-code', state })}`;
+  }
+
+  async exchangeCode(_code: string): Promise<XeroTokenSet> {
+    return this.issueTokens();
+  }
+
+  async refreshToken(_refreshToken: string): Promise<XeroTokenSet> {
+    return this.issueTokens();
+  }
+
+  async getTenants(_accessToken: string): Promise<XeroTenant[]> {
+    return [MOCK_TENANT];
+  }
+
+  async getProfitAndLoss(_auth: XeroAuth, _from: Date, to: Date): Promise<XeroReport> {
+    return profitAndLossFixture(to);
+  }
+
+  async getBankSummary(_auth: XeroAuth, _from: Date, to: Date): Promise<XeroReport> {
+    return bankSummaryFixture(to);
+  }
+
+  async getInvoices(_auth: XeroAuth, query: XeroInvoiceQuery): Promise<XeroInvoice[]> {
+    // Everything fits on the first page
+    if (query.page > 1) return [];
+    if (query.from && query.to) {
+      return query.type === 'ACCREC' ? salesInvoicesFixture(query.from, query.to) : [];
+    }
+    return outstandingInvoicesFixture(query.type, query.to ?? new Date());
+  }
+
+  private issueTokens(): XeroTokenSet {
+    const stamp = Date.now().toString(36);
+    return {
+      accessToken: `mock-access-${stamp}`,
+      refreshToken: `mock-refresh-${stamp}`,
+      expiresIn: 1800,
+      scope: 'offline_access accounting.reports.read accounting.transactions.read',
+    };
+  }
+}
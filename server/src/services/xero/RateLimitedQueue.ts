@@ -0,0 +1,59 @@
+const MINUTE_MS = 60_000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs requests one at a time while staying under a per-minute and per-day
+ * budget. Xero allows 60 calls a minute and 5,000 a day per tenant; going
+ * over either returns 429s, so we wait for the minute window and fail fast
+ * on the daily one.
+ */
+export class RateLimitedQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private recent: number[] = [];
+  private day = '';
+  private dayCount = 0;
+
+  constructor(private perMinute = 60, private perDay = 5000) {}
+
+  /** Queue a request; resolves with its result once it has run. */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(() => this.acquire()).then(task);
+    // Keep the chain going even when a task fails
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Requests left today, for status reporting */
+  get remainingToday(): number {
+    this.rollDay();
+    return this.perDay - this.dayCount;
+  }
+
+  private rollDay() {
+    const today = new Date().toISOString().split('T')[0];
+    if (today !== this.day) {
+      this.day = today;
+      this.dayCount = 0;
+    }
+  }
+
+  private async acquire() {
+    this.rollDay();
+    if (this.dayCount >= this.perDay) {
+      throw new Error(`Xero daily request limit of ${this.perDay} reached`);
+    }
+
+    const now = Date.now();
+    this.recent = this.recent.filter((t) => now - t < MINUTE_MS);
+    if (this.recent.length >= this.perMinute) {
+      await sleep(MINUTE_MS - (now - this.recent[0]));
+      this.recent.shift();
+    }
+
+    this.recent.push(Date.now());
+    this.dayCount++;
+  }
+}
@@ -0,0 +1,152 @@
+import type { XeroReport, XeroReportRow, XeroInvoice } from './provider.js';
+
+/**
+ * Canned Xero responses for the mock provider. Amounts drift a little from
+ * week to week (keyed off the requested dates) so trends look plausible.
+ */
+
+function weekFactor(date: Date): number {
+  const week = Math.floor(date.getTime() / (7 * 86_400_000));
+  return 1 + ((week % 7) - 3) * 0.03;
+}
+
+function money(val: number): string {
+  return val.toFixed(2);
+}
+
+function row(label: string, amount: number): XeroReportRow {
+  return { RowType: 'Row', Cells: [{ Value: label }, { Value: money(amount) }] };
+}
+
+function section(title: string, rows: [string, number][], totalLabel?: string): XeroReportRow {
+  const sectionRows = rows.map(([label, amount]) => row(label, amount));
+  if (totalLabel) {
+    const total = rows.reduce((sum, [, amount]) => sum + amount, 0);
+    sectionRows.push({ RowType: 'SummaryRow', Cells: [{ Value: totalLabel }, { Value: money(total) }] });
+  }
+  return { RowType: 'Section', Title: title, Rows: sectionRows };
+}
+
+function sum(rows: [string, number][]): number {
+  return rows.reduce((s, [, amount]) => s + amount, 0);
+}
+
+export function profitAndLossFixture(to: Date): XeroReport {
+  const f = weekFactor(to);
+  const income: [string, number][] = [
+    ['Class 1A', 48200 * f], ['Class 10a Sheds', 6100 * f], ['Class 10b Pools', 4300 * f],
+    ['Class 2-9 Commercial', 27400 * f], ['Inspections', 9800 * f], ['Retrospective', 7200 * f],
+    ['Council Fees', 5400 * f], ['Planning', 3900 * f], ['Sundry', 650],
+  ];
+  const costOfSales: [string, number][] = [['Council Lodgement Fees', 5400 * f], ['Subcontractors', 8900 * f]];
+  const otherIncome: [string, number][] = [['Interest Income', 180]];
+  const opex: [string, number][] = [
+    ['Wages and Salaries', 52800], ['Superannuation', 6070], ['Rent', 4200],
+    ['Advertising', 3100], ['Motor Vehicle Expenses', 2650], ['Software Subscriptions', 1890],
+  ];
+
+  const grossProfit = sum(income) - sum(costOfSales);
+  const netProfit = grossProfit + sum(otherIncome) - sum(opex);
+
+  return {
+    ReportName: 'Profit and Loss',
+    Rows: [
+      { RowType: 'Header', Cells: [{ Value: '' }, { Value: to.toISOString().split('T')[0] }] },
+      section('Trading Income', income, 'Total Trading Income'),
+      section('Less Cost of Sales', costOfSales, 'Total Cost of Sales'),
+      { RowType: 'Section', Title: '', Rows: [row('Gross Profit', grossProfit)] },
+      section('Plus Other Income', otherIncome, 'Total Other Income'),
+      section('Less Operating Expenses', opex, 'Total Operating Expenses'),
+      { RowType: 'Section', Title: '', Rows: [row('Net Profit', netProfit)] },
+    ],
+  };
+}
+
+export function bankSummaryFixture(to: Date): XeroReport {
+  const f = weekFactor(to);
+  const accounts: [string, number][] = [
+    ['Everyday Account', 125430.5 * f],
+    ['Tax Savings Account', 85000],
+    ['Capital Account', 42000],
+    ['Business Credit Card', -8500 * f],
+  ];
+  return {
+    ReportName: 'Bank Summary',
+    Rows: [
+      {
+        RowType: 'Header',
+        Cells: [{ Value: 'Bank Accounts' }, { Value: 'Opening Balance' }, { Value: 'Cash Received' }, { Value: 'Cash Spent' }, { Value: 'Closing Balance' }],
+      },
+      {
+        RowType: 'Section',
+        Title: '',
+        Rows: accounts.map(([name, closing]) => ({
+          RowType: 'Row' as const,
+          Cells: [{ Value: name }, { Value: money(closing) }, { Value: '0.00' }, { Value: '0.00' }, { Value: money(closing) }],
+        })),
+      },
+    ],
+  };
+}
+
+// Account code, description and ex-GST amount for a typical week's invoices
+const SALES_LINES: [string, string, number][] = [
+  ['200', 'Class 1A certification', 16400],
+  ['200', 'Class 1A certification', 14900],
+  ['200', 'Class 1A certification', 17100],
+  ['201', 'Shed approval', 6100],
+  ['202', 'Pool approval', 4300],
+  ['203', 'Class 5 fitout', 15200],
+  ['203', 'Class 6 warehouse', 12200],
+  ['204', 'Frame inspection', 9800],
+  ['205', 'Retrospective approval', 7200],
+  ['206', 'Council lodgement fee', 5400],
+  ['207', 'Planning 1&10 application', 3900],
+  ['211', 'Sundry', 650],
+];
+
+/** Receivable invoices dated inside the requested week */
+export function salesInvoicesFixture(from: Date, to: Date): XeroInvoice[] {
+  const f = weekFactor(to);
+  const span = Math.max(1, Math.round((to.getTime() - from.getTime()) / 86_400_000) + 1);
+  return SALES_LINES.map(([code, description, amount], i) => {
+    const date = new Date(from);
+    date.setUTCDate(date.getUTCDate() + (i % span));
+    const subTotal = Number((amount * f).toFixed(2));
+    return {
+      InvoiceID: `mock-${from.toISOString().split('T')[0]}-${i + 1}`,
+      Type: 'ACCREC',
+      Status: 'AUTHORISED',
+      DateString: `${date.toISOString().split('T')[0]}T00:00:00`,
+      SubTotal: subTotal,
+      Total: Number((subTotal * 1.1).toFixed(2)),
+      AmountDue: Number((subTotal * 1.1).toFixed(2)),
+      LineItems: [{ AccountCode: code, Description: description, LineAmount: subTotal }],
+    };
+  });
+}
+
+/** Unpaid invoices due at various ages before `asAt`, for the aged buckets */
+export function outstandingInvoicesFixture(type: 'ACCREC' | 'ACCPAY', asAt: Date): XeroInvoice[] {
+  const ages: [number, number][] = type === 'ACCREC'
+    ? [[-14, 180000], [35, 85000], [70, 35000], [120, 20000]]
+    : [[-10, 60000], [15, 35000]];
+
+  return ages.map(([daysOverdue, amount], i) => {
+    const due = new Date(asAt);
+    due.setUTCDate(due.getUTCDate() - daysOverdue);
+    const issued = new Date(due);
+    issued.setUTCDate(issued.getUTCDate() - 14);
+    return {
+      InvoiceID: `mock-${type.toLowerCase()}-outstanding-${i + 1}`,
+      Type: type,
+      Status: 'AUTHORISED',
+      DateString: `${issued.toISOString().split('T')[0]}T00:00:00`,
+      DueDateString: `${due.toISOString().split('T')[0]}T00:00:00`,
+      SubTotal: amount / 1.1,
+      Total: amount,
+      AmountDue: amount,
+      LineItems: [],
+    };
+  });
+}
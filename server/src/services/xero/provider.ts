@@ -0,0 +1,83 @@
+// ─── Xero API shapes (only the fields we read) ───────────────────────────────
+
+export interface XeroTokenSet {
+  accessToken: string;
+  refreshToken: string;
+  /** Seconds until the access token expires (Xero issues 30-minute tokens) */
+  expiresIn: number;
+  scope: string;
+}
+
+export interface XeroTenant {
+  tenantId: string;
+  tenantName: string;
+}
+
+export interface XeroReportCell {
+  Value: string;
+}
+
+export interface XeroReportRow {
+  RowType: 'Header' | 'Section' | 'Row' | 'SummaryRow';
+  Title?: string;
+  Cells?: XeroReportCell[];
+  Rows?: XeroReportRow[];
+}
+
+export interface XeroReport {
+  ReportName: string;
+  Rows: XeroReportRow[];
+}
+
+export interface XeroLineItem {
+  AccountCode?: string;
+  Description?: string;
+  LineAmount: number;
+}
+
+export interface XeroInvoice {
+  InvoiceID: string;
+  Type: 'ACCREC' | 'ACCPAY';
+  Status: string;
+  /** ISO local date-time, e.g. 2026-10-13T00:00:00 */
+  DateString: string;
+  DueDateString?: string;
+  SubTotal: number;
+  Total: number;
+  AmountDue: number;
+  LineItems: XeroLineItem[];
+}
+
+export interface XeroInvoiceQuery {
+  type: 'ACCREC' | 'ACCPAY';
+  /** Invoice date range, inclusive */
+  from?: Date;
+  to?: Date;
+  statuses: string[];
+  page: number;
+}
+
+/** Access token plus the organisation it applies to */
+export interface XeroAuth {
+  accessToken: string;
+  tenantId: string;
+}
+
+/**
+ * Everything XeroService needs from Xero. The live provider talks to the
+ * real API; the mock provider serves fixtures so the sync pipeline runs
+ * offline.
+ */
+export interface XeroProvider {
+  readonly mode: 'live' | 'mock';
+  getAuthUrl(state: string): string;
+  exchangeCode(code: string): Promise<XeroTokenSet>;
+  refreshToken(refreshToken: string): Promise<XeroTokenSet>;
+  getTenants(accessToken: string): Promise<XeroTenant[]>;
+  getProfitAndLoss(auth: XeroAuth, from: Date, to: Date): Promise<XeroReport>;
+  getBankSummary(auth: XeroAuth, from: Date, to: Date): Promise<XeroReport>;
+  /** One page (up to 100) of invoices */
+  getInvoices(auth: XeroAuth, query: XeroInvoiceQuery): Promise<XeroInvoice[]>;
+}
+
+export const XERO_PAGE_SIZE = 100;
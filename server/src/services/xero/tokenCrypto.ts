@@ -0,0 +1,40 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Any string works as the secret; it is hashed down to a 256-bit key. Only
+ * development and mock mode may fall back to the built-in key, since it is
+ * public and refresh tokens are long-lived.
+ */
+function key(): Buffer {
+  let secret = process.env.XERO_TOKEN_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'development' && process.env.XERO_MODE !== 'mock') {
+      throw new Error('XERO_TOKEN_KEY is not set; refusing to store or read Xero tokens without it.');
+    }
+    secret = 'dev-xero-token-key-change-in-production';
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a token for storage. Output is `iv.authTag.ciphertext`, base64 each.
+ */
+export function encryptToken(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a stored token. Throws if the value was tampered with or the key
+ * has changed since it was written.
+ */
+export function decryptToken(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(ALGORITHM, key(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,12 @@
+declare module 'svg-to-pdfkit' {
+  interface SVGtoPDFOptions {
+    width?: number;
+    height?: number;
+    assumePt?: boolean;
+    preserveAspectRatio?: string;
+  }
+
+  function SVGtoPDF(doc: PDFKit.PDFDocument, svg: string, x?: number, y?: number, options?: SVGtoPDFOptions): void;
+
+  export default SVGtoPDF;
+}